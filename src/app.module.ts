@@ -28,6 +28,12 @@ import { DeliveryChallansModule } from '@modules/delivery-challans/delivery-chal
 import { WebhooksModule } from '@modules/webhooks/webhooks.module';
 import { WhatsAppModule } from '@modules/whatsapp/whatsapp.module';
 import { InvoicesModule } from '@modules/invoices/invoices.module';
+import { ImportsModule } from '@modules/imports/imports.module';
+import { CustomersModule } from '@modules/customers/customers.module';
+import { PickupManifestsModule } from '@modules/pickup-manifests/pickup-manifests.module';
+import { CourierSelectionModule } from '@modules/courier-selection/courier-selection.module';
+import { CourierApiLogsModule } from '@modules/courier-api-logs/courier-api-logs.module';
+import { RidersModule } from '@modules/riders/riders.module';
 
 // Guards
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
@@ -84,6 +90,12 @@ import { DashboardModule } from './modules/dashboard/dashboard.module';
     WhatsAppModule,
     DashboardModule,
     InvoicesModule,
+    ImportsModule,
+    CustomersModule,
+    PickupManifestsModule,
+    CourierSelectionModule,
+    CourierApiLogsModule,
+    RidersModule,
   ],
   providers: [
     // Global guards
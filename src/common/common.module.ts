@@ -1,10 +1,11 @@
 import { Global, Module } from '@nestjs/common';
 import { S3Service } from './services/s3.service';
 import { WhatsAppService } from './services/whatsapp.service';
+import { CredentialsCipherService } from './services/credentials-cipher.service';
 
 @Global()
 @Module({
-  providers: [S3Service, WhatsAppService],
-  exports: [S3Service, WhatsAppService],
+  providers: [S3Service, WhatsAppService, CredentialsCipherService],
+  exports: [S3Service, WhatsAppService, CredentialsCipherService],
 })
 export class CommonModule {}
@@ -1,4 +1,11 @@
-import { IsEnum, IsNotEmpty } from 'class-validator';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { OrderStatus } from '@common/enums/order-status.enum';
 
@@ -14,4 +21,24 @@ export class UpdateOrderStatusDto {
   })
   @IsNotEmpty()
   status: OrderStatus;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Force a status change that the transition rules would reject (Admin only)',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean;
+
+  @ApiProperty({
+    example: 'Customer re-ordered after cancellation, approved by operations',
+    description: 'Reason for the status change (required when force is true)',
+    required: false,
+  })
+  @ValidateIf((dto) => dto.force === true)
+  @IsString()
+  @IsNotEmpty({ message: 'A reason is required when forcing a status change' })
+  reason?: string;
 }
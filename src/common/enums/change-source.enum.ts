@@ -0,0 +1,8 @@
+export enum ChangeSource {
+  USER = 'user',
+  WHATSAPP = 'whatsapp',
+  WEBHOOK = 'webhook',
+  COURIER_SYNC = 'courier-sync',
+  RIDER = 'rider',
+  SYSTEM = 'system',
+}
@@ -0,0 +1,5 @@
+export enum DuplicatePolicy {
+  SKIP = 'skip',
+  UPDATE_IF_PENDING = 'update-if-pending',
+  FAIL = 'fail',
+}
@@ -0,0 +1,4 @@
+export enum ExportFormat {
+  XLSX = 'xlsx',
+  CSV = 'csv',
+}
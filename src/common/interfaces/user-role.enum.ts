@@ -2,6 +2,7 @@ export enum UserRole {
   ADMIN = 'admin',
   STAFF = 'staff',
   DISPATCH = 'dispatch',
+  RIDER = 'rider', // Delivers self-delivery shipments through the rider app API
 }
 
 export const USER_ROLES = Object.values(UserRole);
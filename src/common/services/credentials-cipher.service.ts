@@ -0,0 +1,89 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CredentialKeyring,
+  decryptCredential,
+  encryptCredential,
+  getCredentialKeyId,
+  isEncryptedCredential,
+  parseCredentialKeyring,
+} from '@common/utils/credential-encryption.util';
+
+/**
+ * Encrypts stored credentials with the configured master keys. Only the courier
+ * integrations and the key rotation script decrypt.
+ */
+@Injectable()
+export class CredentialsCipherService {
+  private readonly logger = new Logger(CredentialsCipherService.name);
+  private keyring: CredentialKeyring | null = null;
+
+  constructor(private configService: ConfigService) {}
+
+  encrypt(plaintext: string): string {
+    return encryptCredential(plaintext, this.getKeyring());
+  }
+
+  /**
+   * Plaintext of a stored credential. Values saved before encryption was enabled
+   * are returned as they are until the rotation script encrypts them.
+   */
+  decrypt(value?: string | null): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!isEncryptedCredential(value)) {
+      this.logger.warn(
+        'Using an unencrypted stored credential; run credentials:rotate-key',
+      );
+      return value;
+    }
+
+    try {
+      return decryptCredential(value, this.getKeyring());
+    } catch (error) {
+      throw new InternalServerErrorException(
+        `Failed to decrypt stored credential: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Whether a stored value is plaintext or sealed with a key other than the active one
+   */
+  needsReEncryption(value?: string | null): boolean {
+    if (!value) {
+      return false;
+    }
+
+    return getCredentialKeyId(value) !== this.getKeyring().activeKeyId;
+  }
+
+  /**
+   * Re-encrypt a stored value under the active master key
+   */
+  reEncrypt(value: string): string {
+    return this.encrypt(this.decrypt(value) as string);
+  }
+
+  private getKeyring(): CredentialKeyring {
+    if (!this.keyring) {
+      const masterKeys = this.configService.get<string>('credentials.masterKeys');
+      const activeKeyId = this.configService.get<string>('credentials.activeKeyId');
+
+      if (!masterKeys || !activeKeyId) {
+        throw new InternalServerErrorException(
+          'Credential encryption is not configured: set CREDENTIALS_MASTER_KEYS and CREDENTIALS_ACTIVE_KEY_ID',
+        );
+      }
+
+      try {
+        this.keyring = parseCredentialKeyring(masterKeys, activeKeyId);
+      } catch (error) {
+        throw new InternalServerErrorException(error.message);
+      }
+    }
+
+    return this.keyring;
+  }
+}
@@ -57,4 +57,33 @@ export class S3Service {
     const key = `delivery-challans/${challanNumber}.pdf`;
     return this.uploadFile(pdfBuffer, key, 'application/pdf');
   }
+
+  /**
+   * Upload a merged PDF of several delivery challans to S3
+   * @param pdfBuffer - Merged PDF file buffer
+   * @param fileName - File name without extension
+   * @returns S3 URL of the uploaded PDF
+   */
+  async uploadMergedChallanPDF(pdfBuffer: Buffer, fileName: string): Promise<string> {
+    const key = `delivery-challans/merged/${fileName}.pdf`;
+    return this.uploadFile(pdfBuffer, key, 'application/pdf');
+  }
+
+  /**
+   * Upload a proof of delivery image taken by a rider to S3
+   * @param imageBuffer - Image file buffer
+   * @param shipmentId - Shipment the image belongs to (used as the folder)
+   * @param fileName - File name with extension
+   * @param contentType - MIME type of the image
+   * @returns S3 URL of the uploaded image
+   */
+  async uploadProofOfDeliveryImage(
+    imageBuffer: Buffer,
+    shipmentId: string,
+    fileName: string,
+    contentType: string,
+  ): Promise<string> {
+    const key = `proof-of-delivery/${shipmentId}/${fileName}`;
+    return this.uploadFile(imageBuffer, key, contentType);
+  }
 }
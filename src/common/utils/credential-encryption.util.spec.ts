@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import {
+  ENCRYPTED_CREDENTIAL_PREFIX,
+  MASKED_CREDENTIAL,
+  decryptCredential,
+  encryptCredential,
+  getCredentialKeyId,
+  isEncryptedCredential,
+  maskSecrets,
+  maskUrlSecrets,
+  parseCredentialKeyring,
+} from './credential-encryption.util';
+
+const oldKey = randomBytes(32).toString('base64');
+const newKey = randomBytes(32).toString('base64');
+
+describe('credential-encryption.util', () => {
+  describe('parseCredentialKeyring', () => {
+    it('reads comma separated key pairs', () => {
+      const keyring = parseCredentialKeyring(` k1:${oldKey} , k2:${newKey} `, 'k2');
+
+      expect(keyring.activeKeyId).toBe('k2');
+      expect(Object.keys(keyring.keys)).toEqual(['k1', 'k2']);
+      expect(keyring.keys.k2).toEqual(Buffer.from(newKey, 'base64'));
+    });
+
+    it('rejects keys that are not 32 bytes', () => {
+      expect(() => parseCredentialKeyring('k1:c2hvcnQ=', 'k1')).toThrow(
+        "Credential master key 'k1' must be 32 bytes, base64 encoded",
+      );
+    });
+
+    it('rejects entries without a key ID', () => {
+      expect(() => parseCredentialKeyring(oldKey, 'k1')).toThrow(
+        /Invalid credential master key entry/,
+      );
+    });
+
+    it('requires the active key to be configured', () => {
+      expect(() => parseCredentialKeyring(`k1:${oldKey}`, 'k2')).toThrow(
+        "Active credential master key 'k2' is not configured",
+      );
+    });
+  });
+
+  describe('encryptCredential', () => {
+    const keyring = parseCredentialKeyring(`k1:${oldKey}`, 'k1');
+
+    it('round trips a value under the active key', () => {
+      const encrypted = encryptCredential('tcs-password', keyring);
+
+      expect(encrypted.startsWith(`${ENCRYPTED_CREDENTIAL_PREFIX}k1:`)).toBe(true);
+      expect(encrypted).not.toContain('tcs-password');
+      expect(isEncryptedCredential(encrypted)).toBe(true);
+      expect(getCredentialKeyId(encrypted)).toBe('k1');
+      expect(decryptCredential(encrypted, keyring)).toBe('tcs-password');
+    });
+
+    it('encrypts the same value differently every time', () => {
+      expect(encryptCredential('secret', keyring)).not.toBe(
+        encryptCredential('secret', keyring),
+      );
+    });
+  });
+
+  describe('decryptCredential', () => {
+    it('still opens values sealed with an older key after rotation', () => {
+      const encrypted = encryptCredential(
+        'api-key',
+        parseCredentialKeyring(`k1:${oldKey}`, 'k1'),
+      );
+      const rotated = parseCredentialKeyring(`k1:${oldKey},k2:${newKey}`, 'k2');
+
+      expect(decryptCredential(encrypted, rotated)).toBe('api-key');
+      expect(getCredentialKeyId(encryptCredential('api-key', rotated))).toBe('k2');
+    });
+
+    it('fails once the key a value was sealed with is removed', () => {
+      const encrypted = encryptCredential(
+        'api-key',
+        parseCredentialKeyring(`k1:${oldKey}`, 'k1'),
+      );
+
+      expect(() =>
+        decryptCredential(encrypted, parseCredentialKeyring(`k2:${newKey}`, 'k2')),
+      ).toThrow("Credential master key 'k1' is not configured");
+    });
+
+    it('fails for a value moved under another key ID', () => {
+      const keyring = parseCredentialKeyring(`k1:${oldKey},k2:${oldKey}`, 'k1');
+      const encrypted = encryptCredential('api-key', keyring);
+
+      // Same key material, but the key ID is bound into the ciphertext
+      expect(() =>
+        decryptCredential(encrypted.replace(':k1:', ':k2:'), keyring),
+      ).toThrow();
+    });
+
+    it('rejects plaintext values', () => {
+      expect(() =>
+        decryptCredential('plain', parseCredentialKeyring(`k1:${oldKey}`, 'k1')),
+      ).toThrow('Value is not an encrypted credential');
+    });
+  });
+
+  describe('maskSecrets', () => {
+    it('masks credential-like fields at any depth', () => {
+      const body = {
+        username: 'bnw',
+        shipperinfo: { tcsaccount: '12345', cityname: 'Karachi' },
+        headers: [{ Authorization: 'Bearer abc' }],
+        apiKey: '',
+      };
+
+      expect(maskSecrets(body)).toEqual({
+        username: MASKED_CREDENTIAL,
+        shipperinfo: { tcsaccount: MASKED_CREDENTIAL, cityname: 'Karachi' },
+        headers: [{ Authorization: MASKED_CREDENTIAL }],
+        apiKey: '',
+      });
+    });
+  });
+
+  describe('maskUrlSecrets', () => {
+    it('masks credential query parameters', () => {
+      expect(
+        maskUrlSecrets('/authentication/token?username=bnw&password=p%40ss&lang=en'),
+      ).toBe(
+        `/authentication/token?username=${encodeURIComponent(MASKED_CREDENTIAL)}` +
+          `&password=${encodeURIComponent(MASKED_CREDENTIAL)}&lang=en`,
+      );
+    });
+
+    it('leaves URLs without a query alone', () => {
+      expect(maskUrlSecrets('/tracking/track')).toBe('/tracking/track');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for stored credentials. Every value is encrypted with its own
+ * random data key (AES-256-GCM), and the data key is encrypted with a master key
+ * from the keyring. The master key ID is kept with the value, so old keys stay
+ * usable for decryption while values are re-encrypted under a new one.
+ *
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<encrypted value>, where both
+ * base64 parts are iv | auth tag | ciphertext.
+ */
+export const ENCRYPTED_CREDENTIAL_PREFIX = 'enc:v1:';
+
+// Shown in place of credentials in API responses and logs
+export const MASKED_CREDENTIAL = '********';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export interface CredentialKeyring {
+  activeKeyId: string;
+  keys: Record<string, Buffer>;
+}
+
+/**
+ * Parse master keys given as "keyId:base64Key" pairs separated by commas
+ */
+export function parseCredentialKeyring(
+  masterKeys: string,
+  activeKeyId: string,
+): CredentialKeyring {
+  const keys: Record<string, Buffer> = {};
+
+  for (const entry of masterKeys.split(',').map((part) => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const separatorIndex = entry.indexOf(':');
+    const keyId = entry.slice(0, separatorIndex).trim();
+    const key = Buffer.from(entry.slice(separatorIndex + 1).trim(), 'base64');
+
+    if (separatorIndex < 1 || !/^[\w-]+$/.test(keyId)) {
+      throw new Error(`Invalid credential master key entry '${keyId || entry}'`);
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Credential master key '${keyId}' must be 32 bytes, base64 encoded`,
+      );
+    }
+    keys[keyId] = key;
+  }
+
+  if (!keys[activeKeyId]) {
+    throw new Error(`Active credential master key '${activeKeyId}' is not configured`);
+  }
+
+  return { activeKeyId, keys };
+}
+
+export function isEncryptedCredential(value?: string | null): boolean {
+  return !!value && value.startsWith(ENCRYPTED_CREDENTIAL_PREFIX);
+}
+
+/**
+ * Master key an encrypted value was sealed with
+ */
+export function getCredentialKeyId(value: string): string | undefined {
+  return isEncryptedCredential(value)
+    ? value.slice(ENCRYPTED_CREDENTIAL_PREFIX.length).split(':')[0]
+    : undefined;
+}
+
+export function encryptCredential(plaintext: string, keyring: CredentialKeyring): string {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(
+    dataKey,
+    keyring.keys[keyring.activeKeyId],
+    keyring.activeKeyId,
+  );
+  const sealedValue = seal(Buffer.from(plaintext, 'utf8'), dataKey, keyring.activeKeyId);
+
+  return `${ENCRYPTED_CREDENTIAL_PREFIX}${keyring.activeKeyId}:${wrappedKey.toString('base64')}:${sealedValue.toString('base64')}`;
+}
+
+export function decryptCredential(value: string, keyring: CredentialKeyring): string {
+  if (!isEncryptedCredential(value)) {
+    throw new Error('Value is not an encrypted credential');
+  }
+
+  const [keyId, wrappedKey, sealedValue] = value
+    .slice(ENCRYPTED_CREDENTIAL_PREFIX.length)
+    .split(':');
+  const masterKey = keyring.keys[keyId];
+  if (!masterKey || !wrappedKey || !sealedValue) {
+    throw new Error(`Credential master key '${keyId}' is not configured`);
+  }
+
+  const dataKey = open(Buffer.from(wrappedKey, 'base64'), masterKey, keyId);
+  return open(Buffer.from(sealedValue, 'base64'), dataKey, keyId).toString('utf8');
+}
+
+/**
+ * Copy of a value with credential-like fields masked, for logging or storing
+ * request and response bodies
+ */
+export function maskSecrets<T>(value: T, depth = 0): T {
+  if (depth > 10 || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => maskSecrets(item, depth + 1)) as T;
+  }
+  if (value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  const masked: Record<string, any> = {};
+  for (const [key, fieldValue] of Object.entries(value as Record<string, any>)) {
+    masked[key] =
+      isSecretField(key) &&
+      fieldValue !== undefined &&
+      fieldValue !== null &&
+      fieldValue !== ''
+        ? MASKED_CREDENTIAL
+        : maskSecrets(fieldValue, depth + 1);
+  }
+
+  return masked as T;
+}
+
+/**
+ * URL with the values of credential-like query parameters masked
+ */
+export function maskUrlSecrets(url: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart < 0) {
+    return url;
+  }
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  for (const [key, paramValue] of Array.from(params.entries())) {
+    if (isSecretField(key) && paramValue) {
+      params.set(key, MASKED_CREDENTIAL);
+    }
+  }
+
+  return `${url.slice(0, queryStart + 1)}${params.toString()}`;
+}
+
+// TCS takes its API username as a query parameter next to the password
+function isSecretField(key: string): boolean {
+  return /password|passwd|secret|token|api[-_]?key|authorization|credential|tcsaccount|username/i.test(
+    key,
+  );
+}
+
+// iv | auth tag | ciphertext; the key ID is bound in as additional data
+function seal(plaintext: Buffer, key: Buffer, keyId: string): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(keyId, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(sealed: Buffer, key: Buffer, keyId: string): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const authTag = sealed.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(keyId, 'utf8'));
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(sealed.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus } from '@common/enums/order-status.enum';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  assertOrderStatusTransition,
+  canTransitionOrderStatus,
+  getAllowedNextStatuses,
+} from './order-status-transition.util';
+
+describe('order-status-transition.util', () => {
+  it('lists the next statuses of every order status', () => {
+    expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual(
+      Object.values(OrderStatus).sort(),
+    );
+  });
+
+  describe('canTransitionOrderStatus', () => {
+    it.each([
+      [OrderStatus.PENDING, OrderStatus.CONFIRMED],
+      [OrderStatus.PROCESSING, OrderStatus.DISPATCH],
+      [OrderStatus.DISPATCH, OrderStatus.PROCESSING],
+      [OrderStatus.SHIPPED, OrderStatus.RETURNED],
+      [OrderStatus.RETURNED, OrderStatus.PROCESSING],
+    ])('allows %s to %s', (from, to) => {
+      expect(canTransitionOrderStatus(from, to)).toBe(true);
+    });
+
+    it.each([
+      [OrderStatus.PENDING, OrderStatus.DISPATCH],
+      [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+      [OrderStatus.DELIVERED, OrderStatus.PROCESSING],
+      [OrderStatus.CANCELLED, OrderStatus.PENDING],
+      [OrderStatus.CONFIRMED, OrderStatus.CONFIRMED],
+    ])('rejects %s to %s', (from, to) => {
+      expect(canTransitionOrderStatus(from, to)).toBe(false);
+    });
+  });
+
+  describe('getAllowedNextStatuses', () => {
+    it('returns nothing for a cancelled order', () => {
+      expect(getAllowedNextStatuses(OrderStatus.CANCELLED)).toEqual([]);
+    });
+  });
+
+  describe('assertOrderStatusTransition', () => {
+    it('names the allowed next statuses', () => {
+      expect(() =>
+        assertOrderStatusTransition(OrderStatus.SHIPPED, OrderStatus.PENDING),
+      ).toThrow(
+        new BadRequestException(
+          "Cannot change order status from 'shipped' to 'pending'. Allowed next statuses: delivered, returned",
+        ),
+      );
+    });
+
+    it('reports a final status', () => {
+      expect(() =>
+        assertOrderStatusTransition(OrderStatus.CANCELLED, OrderStatus.PENDING),
+      ).toThrow(/none \(final status\)/);
+    });
+  });
+});
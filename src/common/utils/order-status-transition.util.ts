@@ -0,0 +1,55 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderStatus } from '@common/enums/order-status.enum';
+
+/**
+ * Allowed next statuses for bank and BIP orders.
+ * Every path that changes an order status (status endpoints, shipments,
+ * WhatsApp and webhook confirmations) must respect this table.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.DISPATCH, OrderStatus.CANCELLED],
+  // Dispatched orders go back to processing when their shipment is cancelled
+  [OrderStatus.DISPATCH]: [
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+    OrderStatus.RETURNED,
+    OrderStatus.PROCESSING,
+  ],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
+  [OrderStatus.DELIVERED]: [OrderStatus.RETURNED],
+  // Returned orders can be re-processed for another dispatch or closed
+  [OrderStatus.RETURNED]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Get the statuses an order can move to from its current status
+ */
+export function getAllowedNextStatuses(from: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from] || [];
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return getAllowedNextStatuses(from).includes(to);
+}
+
+/**
+ * Throw a 400 listing the allowed next statuses if the transition is illegal
+ */
+export function assertOrderStatusTransition(from: OrderStatus, to: OrderStatus): void {
+  if (canTransitionOrderStatus(from, to)) {
+    return;
+  }
+
+  const allowed = getAllowedNextStatuses(from);
+  throw new BadRequestException(
+    `Cannot change order status from '${from}' to '${to}'. Allowed next statuses: ${
+      allowed.length > 0 ? allowed.join(', ') : 'none (final status)'
+    }`,
+  );
+}
@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import * as XLSX from 'xlsx';
+import { ExportFormat } from '@common/enums/export-format.enum';
+
+/**
+ * One column of an export: its header and how to read the value from a record
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (record: T) => string | number | null | undefined;
+}
+
+export interface SpreadsheetExport {
+  fileName: string;
+  contentType: string;
+  stream: Readable;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+};
+
+/**
+ * Write records to an Excel or CSV file as they are read.
+ * CSV rows are streamed one by one; an Excel file can only be written once all rows are read.
+ */
+export function buildSpreadsheetExport<T>(
+  records: AsyncIterable<T>,
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  fileBaseName: string,
+  sheetName: string,
+): SpreadsheetExport {
+  if (!Object.values(ExportFormat).includes(format)) {
+    throw new BadRequestException(
+      `Export format must be one of: ${Object.values(ExportFormat).join(', ')}`,
+    );
+  }
+
+  const headers = columns.map((column) => column.header);
+  const toRow = (record: T) => columns.map((column) => column.value(record) ?? '');
+
+  const chunks =
+    format === ExportFormat.CSV
+      ? (async function* () {
+          // The BOM makes Excel open the file as UTF-8
+          yield '\uFEFF' + toCsvLine(headers);
+          for await (const record of records) {
+            yield toCsvLine(toRow(record));
+          }
+        })()
+      : (async function* () {
+          const rows: Array<Array<string | number>> = [headers];
+          for await (const record of records) {
+            rows.push(toRow(record));
+          }
+
+          const workbook = XLSX.utils.book_new();
+          XLSX.utils.book_append_sheet(
+            workbook,
+            XLSX.utils.aoa_to_sheet(rows),
+            sheetName,
+          );
+          yield XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+        })();
+
+  return {
+    fileName: `${fileBaseName}-${new Date().toISOString().split('T')[0]}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    stream: Readable.from(chunks),
+  };
+}
+
+/**
+ * Format a date as YYYY-MM-DD for export cells
+ */
+export function formatExportDate(date?: Date | string | null): string {
+  return date ? new Date(date).toISOString().split('T')[0] : '';
+}
+
+function toCsvLine(values: Array<string | number>): string {
+  return (
+    values
+      .map((value) => {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
@@ -35,7 +35,62 @@ export default () => ({
     level: process.env.LOG_LEVEL || 'info',
     dir: process.env.LOG_DIR || 'logs',
   },
+  credentials: {
+    // "keyId:base64Key" pairs; keep retired keys listed until rotation has finished
+    masterKeys: process.env.CREDENTIALS_MASTER_KEYS || '',
+    activeKeyId: process.env.CREDENTIALS_ACTIVE_KEY_ID || '',
+  },
   tcs: {
     bearerToken: process.env.TCS_BEARER_TOKEN || '',
+    baseUrl: process.env.TCS_BASE_URL || 'https://ociconnect.tcscourier.com/ecom/api',
+  },
+  shipper: {
+    name: process.env.SHIPPER_NAME || 'BNW Collections',
+    city: process.env.SHIPPER_CITY || 'Karachi',
+    phone: process.env.SHIPPER_PHONE || '',
+  },
+  courierSync: {
+    enabled: process.env.COURIER_SYNC_ENABLED !== 'false',
+    intervalMinutes: parseInt(process.env.COURIER_SYNC_INTERVAL_MINUTES || '30', 10),
+    batchSize: parseInt(process.env.COURIER_SYNC_BATCH_SIZE || '50', 10),
+    maxShipmentsPerRun: parseInt(process.env.COURIER_SYNC_MAX_SHIPMENTS || '500', 10),
+    requestIntervalMs: parseInt(
+      process.env.COURIER_SYNC_REQUEST_INTERVAL_MS || '500',
+      10,
+    ),
+    staleMinutes: parseInt(process.env.COURIER_SYNC_STALE_MINUTES || '30', 10),
+  },
+  courierBooking: {
+    // Tries for a booking that failed before reaching the courier; waits double each time
+    maxAttempts: parseInt(process.env.COURIER_BOOKING_MAX_ATTEMPTS || '3', 10),
+    retryDelayMs: parseInt(process.env.COURIER_BOOKING_RETRY_DELAY_MS || '1000', 10),
+    reconcileIntervalMinutes: parseInt(
+      process.env.COURIER_BOOKING_RECONCILE_INTERVAL_MINUTES || '15',
+      10,
+    ),
+    staleMinutes: parseInt(process.env.COURIER_BOOKING_STALE_MINUTES || '10', 10),
+  },
+  deliveryAttempts: {
+    // Failed attempts after which a shipment goes back to the shipper
+    maxAttempts: parseInt(process.env.DELIVERY_MAX_ATTEMPTS || '3', 10),
+    // Days until the next attempt when none is given
+    reattemptDelayDays: parseInt(process.env.DELIVERY_REATTEMPT_DELAY_DAYS || '1', 10),
+    // Whether courier-reported failures count towards the limit too. Turn off to
+    // leave reattempts and returns of courier shipments to the courier.
+    limitCourierShipments: process.env.DELIVERY_LIMIT_COURIER_SHIPMENTS !== 'false',
+  },
+  courierApiLogs: {
+    // Days a logged courier API call is kept; failed calls are kept longer
+    retentionDays: parseInt(process.env.COURIER_API_LOG_RETENTION_DAYS || '30', 10),
+    successRetentionDays: parseInt(
+      process.env.COURIER_API_LOG_SUCCESS_RETENTION_DAYS || '7',
+      10,
+    ),
+  },
+  imports: {
+    previewTtlMinutes: parseInt(process.env.IMPORT_PREVIEW_TTL_MINUTES || '60', 10),
+    chunkSize: parseInt(process.env.IMPORT_CHUNK_SIZE || '500', 10),
+    jobPollIntervalMs: parseInt(process.env.IMPORT_JOB_POLL_INTERVAL_MS || '5000', 10),
+    jobStaleMinutes: parseInt(process.env.IMPORT_JOB_STALE_MINUTES || '15', 10),
   },
 });
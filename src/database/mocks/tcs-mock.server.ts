@@ -0,0 +1,190 @@
+import express, { NextFunction, Request, Response } from 'express';
+
+/**
+ * Local stand-in for the TCS API, for testing booking, tracking and cancellation
+ * offline. Run with `npm run mock:tcs` and set TCS_BASE_URL=http://localhost:4010/ecom/api.
+ *
+ * Booked consignments move one checkpoint forward every TCS_MOCK_STEP_SECONDS.
+ * A reference number containing "RETURN" or "FAIL" ends in that outcome instead
+ * of delivery.
+ */
+
+interface MockConsignment {
+  consignmentNo: string;
+  referenceNo: string;
+  city: string;
+  bookedAt: number;
+  cancelledAt?: number;
+}
+
+const DELIVERED_ROUTE = [
+  { code: 'BK', status: 'Booked' },
+  { code: 'AR', status: 'Arrived at TCS Facility' },
+  { code: 'DP', status: 'Departed from TCS Facility' },
+  { code: 'OD', status: 'Out for Delivery' },
+  { code: 'OK', status: 'Delivered' },
+];
+const RETURNED_ROUTE = [
+  ...DELIVERED_ROUTE.slice(0, 4),
+  { code: 'RF', status: 'Refused by Consignee' },
+  { code: 'RS', status: 'Returned to Shipper' },
+];
+const FAILED_ROUTE = [
+  ...DELIVERED_ROUTE.slice(0, 4),
+  { code: 'NA', status: 'Consignee Not Available' },
+];
+
+function routeFor(consignment: MockConsignment) {
+  const reference = consignment.referenceNo.toUpperCase();
+  if (reference.includes('RETURN')) {
+    return RETURNED_ROUTE;
+  }
+  if (reference.includes('FAIL')) {
+    return FAILED_ROUTE;
+  }
+  return DELIVERED_ROUTE;
+}
+
+function checkpointsFor(consignment: MockConsignment, stepMs: number, now = Date.now()) {
+  const route = routeFor(consignment);
+  const until = consignment.cancelledAt || now;
+  const reached = Math.min(
+    route.length,
+    Math.floor((until - consignment.bookedAt) / stepMs) + 1,
+  );
+
+  const checkpoints = route.slice(0, reached).map((checkpoint, index) => ({
+    ...checkpoint,
+    station: index === 0 ? 'Karachi' : consignment.city,
+    datetime: new Date(consignment.bookedAt + index * stepMs).toISOString(),
+  }));
+
+  if (consignment.cancelledAt) {
+    checkpoints.push({
+      code: 'CN',
+      status: 'Cancelled',
+      station: 'Karachi',
+      datetime: new Date(consignment.cancelledAt).toISOString(),
+    });
+  }
+
+  return checkpoints;
+}
+
+function requireBearer(req: Request, res: Response, next: NextFunction) {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    res.status(401).json({ code: 401, message: 'Invalid bearer token' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Mock app with its own consignments; booked consignments move one checkpoint
+ * forward every stepMs
+ */
+export function createTcsMockApp(stepMs: number) {
+  const consignments = new Map<string, MockConsignment>();
+  let nextConsignmentNo = 779900000001;
+
+  const app = express();
+  app.use(express.json());
+  app.use(requireBearer);
+
+  app.get('/ecom/api/authentication/token', (req, res) => {
+    if (!req.query.username || !req.query.password) {
+      res.status(401).json({ code: 401, message: 'Invalid username or password' });
+      return;
+    }
+
+    res.json({
+      accesstoken: `mock-access-token-${Date.now()}`,
+      expiry: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  app.post('/ecom/api/booking/create', (req, res) => {
+    const consigneeInfo = req.body?.consigneeinfo || {};
+    const shipmentInfo = req.body?.shipmentinfo || {};
+
+    if (!req.body?.accesstoken || !consigneeInfo.firstname || !consigneeInfo.address1) {
+      res.status(400).json({
+        message: 'Validation failed',
+        errorList: [
+          { key: 'consigneeinfo', errormessage: 'Consignee details are required' },
+        ],
+      });
+      return;
+    }
+
+    const consignment: MockConsignment = {
+      consignmentNo: String(nextConsignmentNo++),
+      referenceNo: shipmentInfo.referenceno || '',
+      city: consigneeInfo.cityname || 'Karachi',
+      bookedAt: Date.now(),
+    };
+    consignments.set(consignment.consignmentNo, consignment);
+
+    console.log(`Booked ${consignment.consignmentNo} (${consignment.referenceNo})`);
+    res.json({
+      message: 'SUCCESS',
+      consignmentNo: consignment.consignmentNo,
+      traceid: `TRACE-${consignment.consignmentNo}`,
+    });
+  });
+
+  app.get('/ecom/api/tracking/track', (req, res) => {
+    const consignment = consignments.get(String(req.query.consignmentno || ''));
+
+    if (!consignment) {
+      res.json({ message: 'No record found', checkpoints: [] });
+      return;
+    }
+
+    const checkpoints = checkpointsFor(consignment, stepMs);
+    const latest = checkpoints[checkpoints.length - 1];
+
+    res.json({
+      message: 'SUCCESS',
+      shipmentinfo: {
+        consignmentno: consignment.consignmentNo,
+        referenceno: consignment.referenceNo,
+      },
+      deliveryinfo:
+        latest.code === 'OK' ? { receivedby: 'Self', datetime: latest.datetime } : null,
+      checkpoints,
+    });
+  });
+
+  app.post('/ecom/api/booking/cancel', (req, res) => {
+    const consignment = consignments.get(String(req.body?.consignmentnumber || ''));
+
+    if (!consignment) {
+      res.status(404).json({ message: 'Consignment not found' });
+      return;
+    }
+
+    const latest = checkpointsFor(consignment, stepMs).pop();
+    if (consignment.cancelledAt || (latest && latest.code !== 'BK')) {
+      res.status(400).json({
+        message: `Consignment cannot be cancelled after "${latest?.status}"`,
+      });
+      return;
+    }
+
+    consignment.cancelledAt = Date.now();
+    console.log(`Cancelled ${consignment.consignmentNo}`);
+    res.json({ message: 'SUCCESS' });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.TCS_MOCK_PORT || '4010', 10);
+  const stepMs = parseInt(process.env.TCS_MOCK_STEP_SECONDS || '60', 10) * 1000;
+
+  createTcsMockApp(stepMs).listen(port, () => {
+    console.log(`✓ TCS mock listening on http://localhost:${port}/ecom/api`);
+  });
+}
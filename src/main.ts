@@ -21,6 +21,7 @@ process.on('uncaughtException', (error) => {
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     bufferLogs: true,
+    rawBody: true, // Courier webhook signatures are computed over the raw body
   });
 
   // Get services
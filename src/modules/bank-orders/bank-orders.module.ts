@@ -5,6 +5,7 @@ import { BankOrdersController } from './bank-orders.controller';
 import { BankOrder, BankOrderSchema } from './schemas/bank-order.schema';
 import { ProductsModule } from '@modules/products/products.module';
 import { BanksModule } from '@modules/banks/banks.module';
+import { ImportsModule } from '@modules/imports/imports.module';
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { BanksModule } from '@modules/banks/banks.module';
     ]),
     ProductsModule,
     BanksModule,
+    ImportsModule,
   ],
   controllers: [BankOrdersController],
   providers: [BankOrdersService],
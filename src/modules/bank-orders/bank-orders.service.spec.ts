@@ -0,0 +1,111 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { BankOrdersService } from './bank-orders.service';
+import { ProductType } from '@common/enums/product-type.enum';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+
+describe('BankOrdersService', () => {
+  describe('commitPreview', () => {
+    const bankId = new Types.ObjectId().toString();
+    const previewFile = {
+      originalname: 'orders.xlsx',
+      mimetype: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      buffer: Buffer.from('previewed file'),
+      fileHash: 'hash-of-previewed-file',
+      duplicatePolicy: DuplicatePolicy.UPDATE_IF_PENDING,
+    };
+
+    let importsService: Record<string, jest.Mock>;
+    let importJobsService: Record<string, jest.Mock>;
+    let service: BankOrdersService;
+
+    beforeEach(() => {
+      importsService = {
+        getPreviewFile: jest.fn(),
+        hashFile: jest.fn(() => previewFile.fileHash),
+        removePreview: jest.fn(),
+      };
+      importJobsService = { createJob: jest.fn(async () => ({})) };
+      service = new BankOrdersService(
+        {} as any,
+        {} as any,
+        { findOne: jest.fn(async () => ({ _id: bankId })) } as any,
+        {} as any,
+        importsService as any,
+        {} as any,
+        importJobsService as any,
+      );
+    });
+
+    it.each([
+      ['a named sheet', { sheetName: 'Lahore' }],
+      ['all sheets', { allSheets: true }],
+      ['the first sheet', {}],
+    ])('queues the sheet selection of a preview of %s', async (_, selection) => {
+      importsService.getPreviewFile.mockResolvedValue({ ...previewFile, ...selection });
+
+      // A selection sent with the commit does not replace the previewed one
+      await service.commitPreview('token', bankId, undefined, undefined, {
+        sheetName: 'Karachi',
+      });
+
+      expect(importJobsService.createJob).toHaveBeenCalledWith(
+        ProductType.BANK_ORDER,
+        bankId,
+        expect.objectContaining({ originalname: previewFile.originalname }),
+        undefined,
+        {
+          duplicatePolicy: DuplicatePolicy.UPDATE_IF_PENDING,
+          sheetName: undefined,
+          allSheets: undefined,
+          ...selection,
+        },
+      );
+      expect(importsService.removePreview).toHaveBeenCalledWith('token');
+    });
+  });
+
+  describe('importFromExcel', () => {
+    const bankId = new Types.ObjectId().toString();
+    const batchId = new Types.ObjectId();
+
+    // Rows that fail validation, so nothing else is looked up or saved
+    const file = {
+      originalname: 'orders.csv',
+      mimetype: 'text/csv',
+      buffer: Buffer.from('CNIC,CUSTOMER_NAME\n,Jane Doe\n,John Doe\n'),
+    };
+
+    it('marks the batch failed when the import stops part way', async () => {
+      const importsService = {
+        createBatch: jest.fn(async () => ({ _id: batchId })),
+        getBulkChunkSize: jest.fn(() => 1),
+        insertOrders: jest.fn(async () => new Map()),
+        completeBatch: jest.fn(),
+        failBatch: jest.fn(),
+      };
+      const service = new BankOrdersService(
+        {} as any,
+        {} as any,
+        { findOne: jest.fn(async () => ({ _id: bankId })) } as any,
+        {} as any,
+        importsService as any,
+        { findForImport: jest.fn(async () => null) } as any,
+        {} as any,
+      );
+
+      const onProgress = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('connection closed'));
+
+      await expect(
+        service.importFromExcel(file, bankId, undefined, { onProgress }),
+      ).rejects.toThrow(
+        new BadRequestException('Failed to process Excel file: connection closed'),
+      );
+      expect(importsService.failBatch).toHaveBeenCalledWith(batchId, 'connection closed');
+      expect(importsService.completeBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,12 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import * as XLSX from 'xlsx';
 import { BankOrder } from './schemas/bank-order.schema';
 import {
   ImportResult,
@@ -15,58 +20,206 @@ import { UpdateBankOrderDto } from './dto/update-bank-order.dto';
 import { ProductType } from '@common/enums/product-type.enum';
 import { WhatsAppService } from '@common/services/whatsapp.service';
 import { OrderStatus } from '@common/enums/order-status.enum';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { assertOrderStatusTransition } from '@common/utils/order-status-transition.util';
+import { ImportsService } from '@modules/imports/imports.service';
+import { ColumnMappingsService } from '@modules/imports/column-mappings.service';
+import { ImportJobsService } from '@modules/imports/import-jobs.service';
+import { ImportJob } from '@modules/imports/schemas/import-job.schema';
+import { ImportBatch } from '@modules/imports/schemas/import-batch.schema';
+import {
+  ImportFile,
+  ImportOptions,
+  ImportRowSource,
+  ProductToCreate,
+} from '@modules/imports/interfaces/import.interface';
+import {
+  getImportFileExtension,
+  IMPORT_FILE_EXTENSIONS,
+  readImportSheets,
+  readImportWorkbook,
+  summarizeSheets,
+} from '@modules/imports/utils/import-file.util';
+import {
+  DuplicateKey,
+  findImportDuplicates,
+  resolveDuplicate,
+} from '@modules/imports/utils/import-duplicates.util';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { ExportFormat } from '@common/enums/export-format.enum';
+import {
+  buildSpreadsheetExport,
+  ExportColumn,
+  formatExportDate,
+  SpreadsheetExport,
+} from '@common/utils/spreadsheet-export.util';
+import { toPublicTrackingTimeline } from '@modules/shipments/utils/tracking-timeline.util';
+
+// Keys a bank order row must not share with an existing order or another row
+const DUPLICATE_KEYS: DuplicateKey<ExcelRowData>[] = [
+  {
+    field: 'PO #',
+    fromRow: (row) => String(row['PO #']).trim(),
+    fromOrder: (order) => order.poNumber,
+  },
+  {
+    field: 'Ref No.',
+    fromRow: (row) => String(row['Ref No.']).trim(),
+    fromOrder: (order) => order.refNo,
+  },
+  {
+    field: 'CNIC + GIFTCODE',
+    fromRow: (row) => `${String(row.CNIC).trim()} / ${String(row.GIFTCODE).trim()}`,
+    fromOrder: (order) => `${order.cnic} / ${order.giftCode}`,
+  },
+];
+
+// Populate the acting user's name on status history and comment entries
+const ACTOR_POPULATE_OPTIONS = [
+  { path: 'statusHistory.performedBy', select: 'firstName lastName email' },
+  { path: 'comments.performedBy', select: 'firstName lastName email' },
+];
+
+// Shipment, courier and challan details shown in the order list and export
+const LIST_POPULATE_OPTIONS = [
+  {
+    path: 'shipmentId',
+    select: 'trackingNumber consignmentNumber status bookingDate actualDeliveryDate',
+    populate: {
+      path: 'courierId',
+      select: 'courierName courierType',
+    },
+  },
+  {
+    path: 'deliveryChallan',
+    select:
+      'challanNumber challanDate pdfURLPath trackingNumber customerName printStatus printedAt printCount',
+  },
+];
+
+// Columns of the bank order export; shipment and challan come from LIST_POPULATE_OPTIONS
+const EXPORT_COLUMNS: ExportColumn<any>[] = [
+  { header: 'Bank', value: (order) => order.bankId?.bankName },
+  { header: 'Ref No.', value: (order) => order.refNo },
+  { header: 'PO #', value: (order) => order.poNumber },
+  { header: 'Order Date', value: (order) => formatExportDate(order.orderDate) },
+  { header: 'CNIC', value: (order) => order.cnic },
+  { header: 'Customer Name', value: (order) => order.customerName },
+  { header: 'Mobile', value: (order) => order.mobile1 },
+  { header: 'Address', value: (order) => order.address },
+  { header: 'City', value: (order) => order.city },
+  { header: 'Brand', value: (order) => order.brand },
+  { header: 'Product', value: (order) => order.product },
+  { header: 'Gift Code', value: (order) => order.giftCode },
+  { header: 'Qty', value: (order) => order.qty },
+  { header: 'Redeemed Points', value: (order) => order.redeemedPoints },
+  { header: 'Status', value: (order) => order.status },
+  {
+    header: 'Status Updated',
+    value: (order) => formatExportDate(order.statusHistory?.slice(-1)[0]?.timestamp),
+  },
+  { header: 'Courier', value: (order) => order.shipmentId?.courierId?.courierName },
+  { header: 'Tracking Number', value: (order) => order.shipmentId?.trackingNumber },
+  { header: 'Shipment Status', value: (order) => order.shipmentId?.status },
+  {
+    header: 'Booking Date',
+    value: (order) => formatExportDate(order.shipmentId?.bookingDate),
+  },
+  {
+    header: 'Delivered On',
+    value: (order) => formatExportDate(order.shipmentId?.actualDeliveryDate),
+  },
+  { header: 'Challan Number', value: (order) => order.deliveryChallan?.challanNumber },
+  {
+    header: 'Challan Date',
+    value: (order) => formatExportDate(order.deliveryChallan?.challanDate),
+  },
+];
 
 @Injectable()
-export class BankOrdersService {
+export class BankOrdersService implements OnModuleInit {
   constructor(
     @InjectModel(BankOrder.name) private bankOrderModel: Model<BankOrder>,
     private productsService: ProductsService,
     @InjectModel('Bank') private bankModel: Model<any>,
     private whatsappService: WhatsAppService,
+    private importsService: ImportsService,
+    private columnMappingsService: ColumnMappingsService,
+    private importJobsService: ImportJobsService,
   ) {}
 
+  onModuleInit() {
+    this.importJobsService.registerProcessor(
+      ProductType.BANK_ORDER,
+      (file, bankId, userId, options) =>
+        this.importFromExcel(file, bankId, userId, options),
+    );
+  }
+
+  /**
+   * Validate the request and queue the file; progress is polled from GET /imports/:jobId
+   */
+  async queueImport(
+    file: ImportFile,
+    bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
+  ): Promise<ImportJob> {
+    await this.validateImportRequest(
+      file,
+      bankId,
+      options.duplicatePolicy || DuplicatePolicy.SKIP,
+    );
+
+    return this.importJobsService.createJob(
+      ProductType.BANK_ORDER,
+      bankId,
+      file,
+      userId,
+      options,
+    );
+  }
+
   async importFromExcel(
-    file: Express.Multer.File,
+    file: ImportFile,
     bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
   ): Promise<ImportResult> {
-    if (!file) {
-      throw new BadRequestException('No file uploaded');
-    }
+    const duplicatePolicy = options.duplicatePolicy || DuplicatePolicy.SKIP;
+    await this.validateImportRequest(file, bankId, duplicatePolicy);
 
-    // Validate bankId
-    if (!Types.ObjectId.isValid(bankId)) {
-      throw new BadRequestException('Invalid bank ID format');
-    }
+    // Kept outside the try so a failed import can mark its batch failed
+    let batch: ImportBatch | null = null;
 
-    // Verify bank exists
-    const bank = await this.bankModel.findOne({
-      _id: bankId,
-      isDeleted: false,
-    });
-
-    if (!bank) {
-      throw new NotFoundException(`Bank with ID ${bankId} not found`);
-    }
+    try {
+      // Read the selected sheets; a CSV file is a single sheet
+      const sheets = readImportSheets<ExcelRowData>(readImportWorkbook(file), options);
 
-    // Validate file type
-    const validExtensions = ['.xlsx', '.xls'];
-    const fileExtension = file.originalname.substring(file.originalname.lastIndexOf('.'));
+      // Rename the bank's own headers to ours if it has a column mapping
+      const columnMapping = await this.columnMappingsService.findForImport(
+        bankId,
+        ProductType.BANK_ORDER,
+      );
+      if (columnMapping) {
+        sheets.forEach((sheet) => {
+          sheet.rows = this.columnMappingsService.applyMapping<ExcelRowData>(
+            sheet.rows,
+            columnMapping,
+            ProductType.BANK_ORDER,
+          );
+        });
+      }
 
-    if (!validExtensions.includes(fileExtension.toLowerCase())) {
-      throw new BadRequestException(
-        'Invalid file type. Please upload an Excel file (.xlsx or .xls)',
+      // Rows of all sheets are imported together, each keeping its sheet and row number
+      const jsonData = sheets.flatMap((sheet) => sheet.rows);
+      const rowSources: ImportRowSource[] = sheets.flatMap((sheet) =>
+        sheet.rows.map((_, i) => ({ sheet: sheet.sheetName, row: i + 2 })),
       );
-    }
 
-    try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData: ExcelRowData[] = XLSX.utils.sheet_to_json(worksheet);
-
-      if (!jsonData || jsonData.length === 0) {
-        throw new BadRequestException('Excel file is empty');
+      if (jsonData.length === 0) {
+        throw new BadRequestException('Import file is empty');
       }
 
       const result: ImportResult = {
@@ -75,80 +228,268 @@ export class BankOrdersService {
         failedCount: 0,
         successRecords: [],
         failedRecords: [],
+        duplicateCount: 0,
+        updatedCount: 0,
+        duplicateRecords: [],
+        sheets: [],
+        ...(options.dryRun && { dryRun: true, productsToCreate: [] }),
       };
 
-      // Process each row
-      for (let i = 0; i < jsonData.length; i++) {
-        const rowNumber = i + 2; // Excel row number (accounting for header)
-        const row = jsonData[i];
+      const validationResults = jsonData.map((row, i) =>
+        this.validateRow(row, rowSources[i].row),
+      );
+      const duplicates = await this.findDuplicateRows(
+        jsonData,
+        rowSources,
+        validationResults,
+        bankId,
+      );
 
-        const validationResult = this.validateRow(row, rowNumber);
+      // The fail policy rejects the whole file before anything is saved
+      if (
+        duplicatePolicy === DuplicatePolicy.FAIL &&
+        duplicates.size > 0 &&
+        !options.dryRun
+      ) {
+        const rows = Array.from(duplicates.entries())
+          .slice(0, 10)
+          .map(
+            ([i, matches]) =>
+              `${rowSources[i].sheet} row ${rowSources[i].row}: ${resolveDuplicate(matches, duplicatePolicy).reason}`,
+          )
+          .join('; ');
+        throw new BadRequestException(
+          `Import aborted: ${duplicates.size} duplicate row(s) found (${rows})`,
+        );
+      }
 
-        if (validationResult.isValid) {
-          try {
-            // Check for duplicate PO number
-            const poNumber = String(row['PO #']).trim();
-            const existingOrder = await this.bankOrderModel.findOne({
-              poNo: poNumber,
-              isDeleted: false,
+      // Products a dry run would auto-create, keyed by gift code
+      const productsToCreate = new Map<string, ProductToCreate>();
+
+      // Every real import is recorded as a batch its orders point back to
+      batch = options.dryRun
+        ? null
+        : await this.importsService.createBatch(
+            ProductType.BANK_ORDER,
+            bankId,
+            file,
+            jsonData.length,
+            userId,
+            options.importJobId,
+          );
+
+      // Each distinct gift code is looked up (or created) once per file
+      const productCache = new Map<string, Product | null>();
+      const chunkSize = this.importsService.getBulkChunkSize();
+
+      // Process rows in chunks; the new orders of a chunk are saved with one insertMany
+      for (let start = 0; start < jsonData.length; start += chunkSize) {
+        const end = Math.min(start + chunkSize, jsonData.length);
+        const ordersToInsert: Array<{
+          sheetName: string;
+          rowNumber: number;
+          row: ExcelRowData;
+          data: any;
+        }> = [];
+
+        for (let i = start; i < end; i++) {
+          // Row number on its sheet (accounting for header)
+          const { sheet: sheetName, row: rowNumber } = rowSources[i];
+          const row = jsonData[i];
+
+          const validationResult = validationResults[i];
+
+          if (!validationResult.isValid) {
+            result.failedCount++;
+            result.failedRecords.push({
+              sheet: sheetName,
+              row: rowNumber,
+              data: row,
+              errors: validationResult.errors,
             });
+            continue;
+          }
 
-            if (existingOrder) {
-              result.failedCount++;
-              result.failedRecords.push({
+          try {
+            // Duplicates are skipped, rejected or used to update a pending order
+            const matches = duplicates.get(i);
+            const duplicate = matches && resolveDuplicate(matches, duplicatePolicy);
+
+            if (duplicate && duplicate.action !== 'updated') {
+              result.duplicateCount++;
+              result.duplicateRecords.push({
+                sheet: sheetName,
                 row: rowNumber,
                 data: row,
-                errors: [`Duplicate PO #: ${poNumber} already exists in the system`],
+                matches,
+                action: duplicate.action,
+                reason: duplicate.reason,
               });
               continue;
             }
 
-            // Get or create product based on GIFTCODE
-            const product = await this.getOrCreateProduct(
-              String(row.GIFTCODE).trim(),
-              String(row.BRAND).trim(),
-              String(row.PRODUCT).trim(),
-            );
+            // Get or create product based on GIFTCODE (a dry run only looks it up)
+            const giftCode = String(row.GIFTCODE).trim();
+            if (!productCache.has(giftCode)) {
+              productCache.set(
+                giftCode,
+                options.dryRun
+                  ? await this.findExistingProduct(giftCode)
+                  : await this.getOrCreateProduct(
+                      giftCode,
+                      String(row.BRAND).trim(),
+                      String(row.PRODUCT).trim(),
+                    ),
+              );
+            }
+            const product = productCache.get(giftCode);
+
+            if (!product) {
+              const pending = productsToCreate.get(giftCode);
+              if (pending) {
+                pending.rows.push(rowNumber);
+              } else {
+                productsToCreate.set(giftCode, {
+                  giftCode,
+                  name: String(row.PRODUCT).trim(),
+                  rows: [rowNumber],
+                });
+              }
+            }
 
             // Transform data to match schema
-            const bankOrderData = this.transformRowToOrder(row);
+            const bankOrderData = this.transformRowToOrder(row, userId);
 
             // Add bank reference
             bankOrderData.bankId = new Types.ObjectId(bankId);
 
             // Add product reference
-            bankOrderData.productId = product._id;
+            bankOrderData.productId = product?._id;
+
+            // insertMany drops invalid documents silently, so validate up front
+            const validationError = new this.bankOrderModel(bankOrderData).validateSync();
+            if (validationError) {
+              result.failedCount++;
+              result.failedRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                data: row,
+                errors: [`Validation error: ${validationError.message}`],
+              });
+              continue;
+            }
 
-            // Save to database
-            const savedOrder = await this.bankOrderModel.create(bankOrderData);
+            if (duplicate) {
+              // Refresh the pending order's details; its status, history and batch are kept
+              delete bankOrderData.statusHistory;
+              const updatedOrder =
+                options.dryRun ||
+                (await this.bankOrderModel.findOneAndUpdate(
+                  {
+                    _id: duplicate.orderId,
+                    status: OrderStatus.PENDING,
+                    isDeleted: false,
+                  },
+                  bankOrderData,
+                  { new: true, runValidators: true },
+                ));
+
+              result.duplicateCount++;
+              result.duplicateRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                data: row,
+                matches,
+                action: updatedOrder ? 'updated' : 'skipped',
+                reason: updatedOrder
+                  ? duplicate.reason
+                  : `${duplicate.reason}; order is no longer pending`,
+                id: duplicate.orderId,
+              });
+              if (updatedOrder) {
+                result.updatedCount++;
+              }
+              continue;
+            }
 
-            result.successCount++;
-            result.successRecords.push({
-              row: rowNumber,
-              id: savedOrder._id,
-              refNo: savedOrder.refNo,
-              customerName: savedOrder.customerName,
-            });
+            if (options.dryRun) {
+              result.successCount++;
+              result.successRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                refNo: bankOrderData.refNo,
+                customerName: bankOrderData.customerName,
+              });
+              continue;
+            }
+
+            // Pre-assign the id so the row can be reported after the bulk insert
+            bankOrderData._id = new Types.ObjectId();
+
+            // Add import batch reference
+            bankOrderData.importBatchId = batch?._id;
+
+            ordersToInsert.push({ sheetName, rowNumber, row, data: bankOrderData });
           } catch (error) {
             result.failedCount++;
             result.failedRecords.push({
+              sheet: sheetName,
               row: rowNumber,
               data: row,
               errors: [`Database error: ${error.message}`],
             });
           }
-        } else {
-          result.failedCount++;
-          result.failedRecords.push({
+        }
+
+        // Save the chunk's new orders in one round trip
+        const insertErrors = await this.importsService.insertOrders(
+          this.bankOrderModel,
+          ordersToInsert.map((order) => order.data),
+        );
+
+        ordersToInsert.forEach(({ sheetName, rowNumber, row, data }, index) => {
+          if (insertErrors.has(index)) {
+            result.failedCount++;
+            result.failedRecords.push({
+              sheet: sheetName,
+              row: rowNumber,
+              data: row,
+              errors: [`Database error: ${insertErrors.get(index)}`],
+            });
+            return;
+          }
+
+          result.successCount++;
+          result.successRecords.push({
+            sheet: sheetName,
             row: rowNumber,
-            data: row,
-            errors: validationResult.errors,
+            id: data._id.toString(),
+            refNo: data.refNo,
+            customerName: data.customerName,
           });
-        }
+        });
+
+        await options.onProgress?.(end, result);
+      }
+
+      if (options.dryRun) {
+        result.productsToCreate = Array.from(productsToCreate.values());
+      }
+
+      result.sheets = summarizeSheets(sheets, result);
+
+      if (batch) {
+        await this.importsService.completeBatch(batch._id, result);
+        result.importBatchId = batch._id.toString();
       }
 
       return result;
     } catch (error) {
+      // Orders of chunks already saved stay; a failed batch can still be rolled back
+      if (batch) {
+        await this.importsService.failBatch(batch._id, error.message);
+      }
+
       if (error instanceof BadRequestException) {
         throw error;
       }
@@ -156,6 +497,156 @@ export class BankOrdersService {
     }
   }
 
+  /**
+   * Checks shared by direct imports and queued jobs, so a bad request fails before queueing
+   */
+  private async validateImportRequest(
+    file: ImportFile,
+    bankId: string,
+    duplicatePolicy: DuplicatePolicy,
+  ): Promise<void> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    // Validate bankId
+    if (!Types.ObjectId.isValid(bankId)) {
+      throw new BadRequestException('Invalid bank ID format');
+    }
+
+    if (!Object.values(DuplicatePolicy).includes(duplicatePolicy)) {
+      throw new BadRequestException(
+        `Duplicate policy must be one of: ${Object.values(DuplicatePolicy).join(', ')}`,
+      );
+    }
+
+    // Verify bank exists
+    const bank = await this.bankModel.findOne({
+      _id: bankId,
+      isDeleted: false,
+    });
+
+    if (!bank) {
+      throw new NotFoundException(`Bank with ID ${bankId} not found`);
+    }
+
+    // Validate file type
+    if (!IMPORT_FILE_EXTENSIONS.includes(getImportFileExtension(file))) {
+      throw new BadRequestException(
+        'Invalid file type. Please upload an Excel (.xlsx or .xls) or CSV (.csv) file',
+      );
+    }
+  }
+
+  /**
+   * Find rows that repeat an order of the same bank, or an earlier row of the file,
+   * on PO #, Ref No. or the CNIC + GIFTCODE pair. Invalid rows are ignored.
+   */
+  private async findDuplicateRows(
+    rows: ExcelRowData[],
+    rowSources: ImportRowSource[],
+    validationResults: Array<{ isValid: boolean }>,
+    bankId: string,
+  ) {
+    const invalidIndexes = new Set(
+      validationResults
+        .map((validation, i) => (validation.isValid ? -1 : i))
+        .filter((i) => i >= 0),
+    );
+    const validRows = rows.filter((_, i) => !invalidIndexes.has(i));
+
+    const existingOrders =
+      validRows.length === 0
+        ? []
+        : await this.bankOrderModel
+            .find({
+              bankId: new Types.ObjectId(bankId),
+              isDeleted: false,
+              $or: [
+                { poNumber: { $in: validRows.map((row) => String(row['PO #']).trim()) } },
+                { refNo: { $in: validRows.map((row) => String(row['Ref No.']).trim()) } },
+                {
+                  cnic: { $in: validRows.map((row) => String(row.CNIC).trim()) },
+                  giftCode: { $in: validRows.map((row) => String(row.GIFTCODE).trim()) },
+                },
+              ],
+            })
+            .select('poNumber refNo cnic giftCode status')
+            .lean()
+            .exec();
+
+    return findImportDuplicates(
+      rows,
+      existingOrders,
+      DUPLICATE_KEYS,
+      (i) => rowSources[i],
+      invalidIndexes,
+    );
+  }
+
+  /**
+   * Dry-run an import and keep the file so the same bytes can be committed later
+   */
+  async previewImport(
+    file: ImportFile,
+    bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    const result = await this.importFromExcel(file, bankId, userId, {
+      ...options,
+      dryRun: true,
+    });
+
+    const preview = await this.importsService.createPreview(
+      ProductType.BANK_ORDER,
+      bankId,
+      file,
+      userId,
+      options,
+    );
+
+    return {
+      ...result,
+      previewToken: preview.token,
+      previewExpiresAt: preview.expiresAt,
+    };
+  }
+
+  /**
+   * Queue an import of the exact file stored by a previous preview
+   */
+  async commitPreview(
+    previewToken: string,
+    bankId: string,
+    userId?: string,
+    file?: ImportFile,
+    options: ImportOptions = {},
+  ): Promise<ImportJob> {
+    const previewFile = await this.importsService.getPreviewFile(
+      previewToken,
+      ProductType.BANK_ORDER,
+      bankId,
+    );
+
+    // If the file is uploaded again it must be the one that was previewed
+    if (file && this.importsService.hashFile(file.buffer) !== previewFile.fileHash) {
+      throw new BadRequestException('Uploaded file does not match the previewed file');
+    }
+
+    // Import the sheets that were previewed, with the preview's duplicate policy
+    // unless a new one is given
+    const job = await this.queueImport(previewFile, bankId, userId, {
+      duplicatePolicy: options.duplicatePolicy || previewFile.duplicatePolicy,
+      sheetName: previewFile.sheetName,
+      allSheets: previewFile.allSheets,
+    });
+
+    await this.importsService.removePreview(previewToken);
+
+    return job;
+  }
+
   private validateRow(
     row: ExcelRowData,
     rowNumber: number,
@@ -231,7 +722,7 @@ export class BankOrdersService {
     };
   }
 
-  private transformRowToOrder(row: ExcelRowData): any {
+  private transformRowToOrder(row: ExcelRowData, userId?: string): any {
     return {
       cnic: String(row.CNIC).trim(),
       customerName: String(row.CUSTOMER_NAME).trim(),
@@ -249,7 +740,14 @@ export class BankOrdersService {
       poNumber: String(row['PO #']).trim(),
       orderDate: this.parseExcelDate(row['ORDER DATE']),
       redeemedPoints: Number(row['Redeemed Points']),
-      statusHistory: [{ status: OrderStatus.PENDING, timestamp: new Date() }],
+      statusHistory: [
+        {
+          status: OrderStatus.PENDING,
+          timestamp: new Date(),
+          performedBy: userId ? new Types.ObjectId(userId) : undefined,
+          source: ChangeSource.USER,
+        },
+      ],
     };
   }
 
@@ -292,6 +790,52 @@ export class BankOrdersService {
     totalPages: number;
   }> {
     const skip = (page - 1) * limit;
+    const query = this.buildListQuery(
+      search,
+      status,
+      city,
+      bankId,
+      startDate,
+      endDate,
+      statusFilter,
+      statusStartDate,
+      statusEndDate,
+    );
+
+    const [data, total] = await Promise.all([
+      this.bankOrderModel
+        .find(query)
+        .populate(LIST_POPULATE_OPTIONS)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.bankOrderModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Build the order query for the list filters, shared by the list and the export
+   */
+  private buildListQuery(
+    search?: string,
+    status?: string,
+    city?: string,
+    bankId?: string,
+    startDate?: Date,
+    endDate?: Date,
+    statusFilter?: string,
+    statusStartDate?: Date,
+    statusEndDate?: Date,
+  ): any {
     const query: any = { isDeleted: false };
 
     // Add search filter - search across multiple fields
@@ -370,37 +914,51 @@ export class BankOrdersService {
       }
     }
 
-    const [data, total] = await Promise.all([
-      this.bankOrderModel
-        .find(query)
-        .populate({
-          path: 'shipmentId',
-          select:
-            'trackingNumber consignmentNumber status bookingDate actualDeliveryDate',
-          populate: {
-            path: 'courierId',
-            select: 'courierName courierType',
-          },
-        })
-        .populate({
-          path: 'deliveryChallan',
-          select:
-            'challanNumber challanDate pdfURLPath trackingNumber customerName printStatus printedAt printCount',
-        })
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit)
-        .exec(),
-      this.bankOrderModel.countDocuments(query),
-    ]);
+    return query;
+  }
 
-    return {
-      data,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
+  /**
+   * Export every order matching the list filters, with its shipment, courier and challan
+   */
+  exportOrders(
+    format: ExportFormat = ExportFormat.XLSX,
+    search?: string,
+    status?: string,
+    city?: string,
+    bankId?: string,
+    startDate?: Date,
+    endDate?: Date,
+    statusFilter?: string,
+    statusStartDate?: Date,
+    statusEndDate?: Date,
+  ): SpreadsheetExport {
+    const query = this.buildListQuery(
+      search,
+      status,
+      city,
+      bankId,
+      startDate,
+      endDate,
+      statusFilter,
+      statusStartDate,
+      statusEndDate,
+    );
+
+    // Read with a cursor so large exports are not loaded into memory at once
+    const orders = this.bankOrderModel
+      .find(query)
+      .populate('bankId', 'bankName')
+      .populate(LIST_POPULATE_OPTIONS)
+      .sort({ createdAt: -1 })
+      .cursor();
+
+    return buildSpreadsheetExport(
+      orders,
+      EXPORT_COLUMNS,
+      format,
+      'bank-orders',
+      'Bank Orders',
+    );
   }
 
   async findOne(id: string): Promise<BankOrder | null> {
@@ -420,12 +978,15 @@ export class BankOrdersService {
         select:
           'challanNumber challanDate pdfURLPath trackingNumber consignmentNumber courierName productName productBrand productSerialNumber quantity customerName customerCnic customerPhone customerAddress customerCity dispatchDate expectedDeliveryDate remarks printStatus printedAt printCount',
       })
+      .populate(ACTOR_POPULATE_OPTIONS)
       .exec();
   }
 
   async updateStatus(
     id: string,
     updateOrderStatusDto: UpdateOrderStatusDto,
+    userId?: string,
+    userRole?: UserRole,
   ): Promise<BankOrder> {
     // Validate ObjectId
     if (!Types.ObjectId.isValid(id)) {
@@ -442,6 +1003,21 @@ export class BankOrdersService {
       throw new NotFoundException(`Bank order with ID ${id} not found`);
     }
 
+    // Only admins may force a transition the state machine would reject
+    const isOverride = updateOrderStatusDto.force === true;
+    if (isOverride) {
+      if (userRole !== UserRole.ADMIN) {
+        throw new ForbiddenException('Only admins can force an order status change');
+      }
+      if (!updateOrderStatusDto.reason || !updateOrderStatusDto.reason.trim()) {
+        throw new BadRequestException(
+          'A reason is required when forcing a status change',
+        );
+      }
+    } else {
+      assertOrderStatusTransition(order.status, updateOrderStatusDto.status);
+    }
+
     // Update the status and add to status history
     order.status = updateOrderStatusDto.status;
 
@@ -452,14 +1028,18 @@ export class BankOrdersService {
     order.statusHistory.push({
       status: updateOrderStatusDto.status,
       timestamp: new Date(),
+      reason: updateOrderStatusDto.reason?.trim() || undefined,
+      ...(isOverride && { isOverride: true }),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await order.save();
 
-    return order;
+    return order.populate(ACTOR_POPULATE_OPTIONS);
   }
 
-  async addComment(id: string, comment: string): Promise<BankOrder> {
+  async addComment(id: string, comment: string, userId?: string): Promise<BankOrder> {
     // Validate ObjectId
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid order ID format');
@@ -480,15 +1060,17 @@ export class BankOrdersService {
       order.comments = [];
     }
 
-    // Add comment with timestamp
+    // Add comment with timestamp and author
     order.comments.push({
       comment,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await order.save();
 
-    return order;
+    return order.populate(ACTOR_POPULATE_OPTIONS);
   }
 
   async update(id: string, updateBankOrderDto: UpdateBankOrderDto): Promise<BankOrder> {
@@ -560,6 +1142,24 @@ export class BankOrdersService {
     return updatedOrder;
   }
 
+  private async findExistingProduct(giftCode: string): Promise<Product | null> {
+    const existingProducts = await this.productsService.findAll(
+      1,
+      1000,
+      undefined,
+      giftCode,
+      ProductType.BANK_ORDER,
+    );
+
+    // Check if the gift code and product type match exactly
+    const exactMatch = existingProducts.data?.find(
+      (p: any) =>
+        p.bankProductNumber === giftCode && p.productType === ProductType.BANK_ORDER,
+    );
+
+    return (exactMatch as Product) || null;
+  }
+
   private async getOrCreateProduct(
     giftCode: string,
     brand: string,
@@ -567,23 +1167,9 @@ export class BankOrdersService {
   ): Promise<Product> {
     try {
       // Try to find existing product by bankProductNumber (GIFTCODE) AND productType
-      const existingProducts = await this.productsService.findAll(
-        1,
-        1000,
-        undefined,
-        giftCode,
-        ProductType.BANK_ORDER,
-      );
-
-      if (existingProducts.data && existingProducts.data.length > 0) {
-        // Check if the gift code and product type match exactly
-        const exactMatch = existingProducts.data.find(
-          (p: any) =>
-            p.bankProductNumber === giftCode && p.productType === ProductType.BANK_ORDER,
-        );
-        if (exactMatch) {
-          return exactMatch as Product;
-        }
+      const exactMatch = await this.findExistingProduct(giftCode);
+      if (exactMatch) {
+        return exactMatch;
       }
 
       // Product doesn't exist, create it without category (will be assigned manually later)
@@ -721,6 +1307,7 @@ export class BankOrdersService {
     orderId: string,
     confirmationToken: string,
     status: 'confirmed' | 'cancelled',
+    source: ChangeSource = ChangeSource.WHATSAPP,
   ): Promise<{ success: boolean; message: string; order?: any }> {
     // Validate order ID format
     if (!Types.ObjectId.isValid(orderId)) {
@@ -756,11 +1343,13 @@ export class BankOrdersService {
     const newStatus =
       status === 'confirmed' ? OrderStatus.CONFIRMED : OrderStatus.CANCELLED;
 
+    assertOrderStatusTransition(order.status, newStatus);
+
     await this.bankOrderModel.findByIdAndUpdate(order._id, {
       status: newStatus,
       whatsappConfirmedAt: new Date(),
       $push: {
-        statusHistory: { status: newStatus, timestamp: new Date() },
+        statusHistory: { status: newStatus, timestamp: new Date(), source },
       },
     });
 
@@ -800,11 +1389,17 @@ export class BankOrdersService {
     const newStatus =
       status === 'confirmed' ? OrderStatus.CONFIRMED : OrderStatus.CANCELLED;
 
+    assertOrderStatusTransition(order.status, newStatus);
+
     await this.bankOrderModel.findByIdAndUpdate(order._id, {
       status: newStatus,
       whatsappConfirmedAt: new Date(),
       $push: {
-        statusHistory: { status: newStatus, timestamp: new Date() },
+        statusHistory: {
+          status: newStatus,
+          timestamp: new Date(),
+          source: ChangeSource.WEBHOOK,
+        },
       },
     });
 
@@ -837,7 +1432,7 @@ export class BankOrdersService {
       .populate({
         path: 'shipmentId',
         select:
-          'consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate',
+          'consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate trackingEvents',
       })
       .exec();
 
@@ -873,6 +1468,7 @@ export class BankOrdersService {
               status: shipment.status,
               estimatedDeliveryDate: shipment.estimatedDeliveryDate,
               actualDeliveryDate: shipment.actualDeliveryDate,
+              timeline: toPublicTrackingTimeline(shipment.trackingEvents),
             }
           : null,
       },
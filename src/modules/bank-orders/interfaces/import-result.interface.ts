@@ -1,12 +1,30 @@
+import {
+  DuplicateRecord,
+  ProductToCreate,
+  SheetImportResult,
+} from '@modules/imports/interfaces/import.interface';
+
 export interface ImportResult {
   totalRows: number;
   successCount: number;
   failedCount: number;
   successRecords: any[];
   failedRecords: FailedRecord[];
+  // Duplicate rows are reported here, not in failedRecords
+  duplicateCount: number;
+  updatedCount: number;
+  duplicateRecords: DuplicateRecord[];
+  // Counts per sheet; row numbers in the records are relative to their sheet
+  sheets: SheetImportResult[];
+  dryRun?: boolean;
+  productsToCreate?: ProductToCreate[];
+  previewToken?: string;
+  previewExpiresAt?: Date;
+  importBatchId?: string;
 }
 
 export interface FailedRecord {
+  sheet?: string;
   row: number;
   data: any;
   errors: string[];
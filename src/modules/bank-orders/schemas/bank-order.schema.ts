@@ -2,6 +2,7 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { OrderStatus } from '@common/enums/order-status.enum';
+import { ChangeSource } from '@common/enums/change-source.enum';
 
 @Schema({ timestamps: true })
 export class BankOrder extends Document {
@@ -84,6 +85,14 @@ export class BankOrder extends Document {
   @Prop({ default: false })
   isDeleted: boolean;
 
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Import batch that created the order',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ImportBatch', index: true })
+  importBatchId?: Types.ObjectId;
+
   @ApiProperty({
     example: 'pending',
     description: 'Order status',
@@ -99,11 +108,25 @@ export class BankOrder extends Document {
 
   @ApiProperty({
     example: [
-      { status: 'pending', timestamp: '2024-01-15T10:00:00.000Z' },
-      { status: 'confirmed', timestamp: '2024-01-15T10:30:00.000Z' },
-      { status: 'processing', timestamp: '2024-01-15T11:00:00.000Z' },
+      { status: 'pending', timestamp: '2024-01-15T10:00:00.000Z', source: 'system' },
+      { status: 'confirmed', timestamp: '2024-01-15T10:30:00.000Z', source: 'whatsapp' },
+      {
+        status: 'processing',
+        timestamp: '2024-01-15T11:00:00.000Z',
+        performedBy: '507f1f77bcf86cd799439011',
+        source: 'user',
+      },
+      {
+        status: 'pending',
+        timestamp: '2024-01-16T09:00:00.000Z',
+        performedBy: '507f1f77bcf86cd799439011',
+        source: 'user',
+        isOverride: true,
+        reason: 'Bank asked to re-open the order',
+      },
     ],
-    description: 'History of status changes with timestamps',
+    description:
+      'History of status changes with timestamps, acting user and source (admin overrides carry the reason)',
     required: false,
   })
   @Prop({
@@ -111,11 +134,22 @@ export class BankOrder extends Document {
       {
         status: { type: String, enum: OrderStatus },
         timestamp: { type: Date, default: Date.now },
+        reason: { type: String, trim: true },
+        isOverride: { type: Boolean },
+        performedBy: { type: Types.ObjectId, ref: 'User' },
+        source: { type: String, enum: ChangeSource, default: ChangeSource.SYSTEM },
       },
     ],
     default: [],
   })
-  statusHistory?: Array<{ status: OrderStatus; timestamp: Date }>;
+  statusHistory?: Array<{
+    status: OrderStatus;
+    timestamp: Date;
+    reason?: string;
+    isOverride?: boolean;
+    performedBy?: Types.ObjectId;
+    source?: ChangeSource;
+  }>;
 
   @ApiProperty({
     example: '507f1f77bcf86cd799439011',
@@ -151,10 +185,20 @@ export class BankOrder extends Document {
 
   @ApiProperty({
     example: [
-      { comment: 'Customer requested urgent delivery', timestamp: '2024-01-15T10:00:00.000Z' },
-      { comment: 'Payment verified', timestamp: '2024-01-15T10:30:00.000Z' },
+      {
+        comment: 'Customer requested urgent delivery',
+        timestamp: '2024-01-15T10:00:00.000Z',
+        performedBy: '507f1f77bcf86cd799439011',
+        source: 'user',
+      },
+      {
+        comment: 'Payment verified',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        performedBy: '507f1f77bcf86cd799439011',
+        source: 'user',
+      },
     ],
-    description: 'Order comments/notes with timestamps',
+    description: 'Order comments/notes with timestamps, author and source',
     required: false,
   })
   @Prop({
@@ -162,11 +206,18 @@ export class BankOrder extends Document {
       {
         comment: { type: String, required: true },
         timestamp: { type: Date, default: Date.now },
+        performedBy: { type: Types.ObjectId, ref: 'User' },
+        source: { type: String, enum: ChangeSource, default: ChangeSource.SYSTEM },
       },
     ],
     default: [],
   })
-  comments?: Array<{ comment: string; timestamp: Date }>;
+  comments?: Array<{
+    comment: string;
+    timestamp: Date;
+    performedBy?: Types.ObjectId;
+    source?: ChangeSource;
+  }>;
 
   @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
   createdAt?: Date;
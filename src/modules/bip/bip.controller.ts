@@ -11,7 +11,9 @@ import {
   Param,
   Body,
   BadRequestException,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
@@ -27,7 +29,10 @@ import { BipService } from './bip.service';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { RolesGuard } from '@common/guards/roles.guard';
 import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
 import { UserRole } from '@common/interfaces/user-role.enum';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+import { ExportFormat } from '@common/enums/export-format.enum';
 import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
 import { UpdateOrderStatusDto } from '@common/dto/update-order-status.dto';
 import { AddCommentDto } from '@common/dto/add-comment.dto';
@@ -44,7 +49,11 @@ export class BipController {
   @Post('import')
   @Roles(UserRole.ADMIN, UserRole.STAFF)
   @UseInterceptors(FileInterceptor('file'))
-  @ApiOperation({ summary: 'Import BIP orders from Excel file (Admin/Staff only)' })
+  @ApiOperation({
+    summary: 'Queue a BIP orders import from an Excel or CSV file (Admin/Staff only)',
+    description:
+      'The file is validated and queued; poll GET /imports/{jobId} for progress and the import result.',
+  })
   @ApiConsumes('multipart/form-data')
   @ApiQuery({
     name: 'bankId',
@@ -53,6 +62,34 @@ export class BipController {
     description: 'Bank MongoDB ObjectId',
     example: '507f1f77bcf86cd799439011',
   })
+  @ApiQuery({
+    name: 'previewToken',
+    required: false,
+    type: String,
+    description:
+      'Token from the preview endpoint; imports the previewed file (the file upload can then be omitted)',
+  })
+  @ApiQuery({
+    name: 'duplicatePolicy',
+    required: false,
+    enum: DuplicatePolicy,
+    description:
+      'What to do with rows that repeat an existing order or an earlier row (default: skip, or the policy used for the preview)',
+  })
+  @ApiQuery({
+    name: 'sheetName',
+    required: false,
+    type: String,
+    description:
+      'Workbook sheet to import (default: the first sheet); ignored when committing a preview',
+  })
+  @ApiQuery({
+    name: 'allSheets',
+    required: false,
+    type: Boolean,
+    description:
+      'Import every sheet of the workbook, e.g. one sheet per branch; ignored when committing a preview',
+  })
   @ApiBody({
     schema: {
       type: 'object',
@@ -60,14 +97,114 @@ export class BipController {
         file: {
           type: 'string',
           format: 'binary',
-          description: 'Excel file (.xlsx or .xls) with columns: EFORMS, CNIC, CUSTOMER_NAME, MOBILE1, authorized_receiver, receiver_cnic, ADDRESS, CITY, PRODUCT, GIFTCODE, Qty, PO #, ORDER DATE, AMOUNT, COLOR',
+          description:
+            'Excel (.xlsx or .xls) or CSV (.csv) file with columns: EFORMS, CNIC, CUSTOMER_NAME, MOBILE1, authorized_receiver, receiver_cnic, ADDRESS, CITY, PRODUCT, GIFTCODE, Qty, PO #, ORDER DATE, AMOUNT, COLOR',
         },
       },
     },
   })
   @ApiResponse({
     status: 201,
-    description: 'File processed successfully with import results',
+    description: 'Import job queued',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          _id: '65a1b2c3d4e5f6a7b8c9d0e2',
+          orderType: 'bip',
+          bankId: { _id: '507f1f77bcf86cd799439011', bankName: 'HBL' },
+          fileName: 'bip-jan.xlsx',
+          status: 'queued',
+          processedRows: 0,
+          progress: 0,
+          createdAt: '2024-01-15T10:30:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid file or data' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Bank not found or preview token expired' })
+  async importOrders(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('bankId') bankId: string,
+    @CurrentUser('_id') userId: string,
+    @Query('previewToken') previewToken?: string,
+    @Query('duplicatePolicy') duplicatePolicy?: DuplicatePolicy,
+    @Query('sheetName') sheetName?: string,
+    @Query('allSheets') allSheets?: string,
+  ) {
+    if (!bankId) {
+      throw new BadRequestException('Bank ID is required');
+    }
+
+    // Commit a previously previewed file
+    if (previewToken) {
+      return this.bipService.commitPreview(previewToken, bankId, userId, file, {
+        duplicatePolicy,
+      });
+    }
+
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.bipService.queueImport(file, bankId, userId, {
+      duplicatePolicy,
+      sheetName,
+      allSheets: allSheets === 'true',
+    });
+  }
+
+  @Post('import/preview')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Preview BIP orders import without saving anything (Admin/Staff only)',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiQuery({
+    name: 'bankId',
+    required: true,
+    type: String,
+    description: 'Bank MongoDB ObjectId',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiQuery({
+    name: 'duplicatePolicy',
+    required: false,
+    enum: DuplicatePolicy,
+    description:
+      'What to do with rows that repeat an existing order or an earlier row (default: skip)',
+  })
+  @ApiQuery({
+    name: 'sheetName',
+    required: false,
+    type: String,
+    description: 'Workbook sheet to import (default: the first sheet)',
+  })
+  @ApiQuery({
+    name: 'allSheets',
+    required: false,
+    type: Boolean,
+    description: 'Import every sheet of the workbook, e.g. one sheet per branch',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel (.xlsx or .xls) or CSV (.csv) file',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Dry-run report with the products that would be auto-created and a token to commit the same file',
     schema: {
       example: {
         success: true,
@@ -75,13 +212,9 @@ export class BipController {
           totalRows: 100,
           successCount: 95,
           failedCount: 5,
+          dryRun: true,
           successRecords: [
-            {
-              row: 2,
-              id: '65a1b2c3d4e5f6g7h8i9j0k1',
-              eforms: 'EFORM-2024-001',
-              customerName: 'John Doe',
-            },
+            { row: 2, eforms: 'EFORM-2024-001', customerName: 'John Doe' },
           ],
           failedRecords: [
             {
@@ -90,6 +223,21 @@ export class BipController {
               errors: ['CNIC is required'],
             },
           ],
+          productsToCreate: [
+            { giftCode: 'GIFT2024ABC', name: 'Galaxy S24', rows: [2, 7] },
+          ],
+          sheets: [
+            {
+              sheetName: 'Sheet1',
+              totalRows: 100,
+              successCount: 95,
+              failedCount: 5,
+              duplicateCount: 0,
+              updatedCount: 0,
+            },
+          ],
+          previewToken: 'a3f1c9e2b4d6e8f0a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6',
+          previewExpiresAt: '2024-01-15T11:30:00.000Z',
         },
       },
     },
@@ -97,9 +245,13 @@ export class BipController {
   @ApiResponse({ status: 400, description: 'Bad request - Invalid file or data' })
   @ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' })
   @ApiResponse({ status: 404, description: 'Bank not found' })
-  async importOrders(
+  async previewImport(
     @UploadedFile() file: Express.Multer.File,
     @Query('bankId') bankId: string,
+    @CurrentUser('_id') userId: string,
+    @Query('duplicatePolicy') duplicatePolicy?: DuplicatePolicy,
+    @Query('sheetName') sheetName?: string,
+    @Query('allSheets') allSheets?: string,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
@@ -109,7 +261,11 @@ export class BipController {
       throw new BadRequestException('Bank ID is required');
     }
 
-    return this.bipService.importFromExcel(file, bankId);
+    return this.bipService.previewImport(file, bankId, userId, {
+      duplicatePolicy,
+      sheetName,
+      allSheets: allSheets === 'true',
+    });
   }
 
   @Get()
@@ -155,6 +311,73 @@ export class BipController {
     );
   }
 
+  @Get('export')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary:
+      'Export BIP orders matching the list filters as Excel or CSV (Admin/Staff only)',
+    description:
+      'Returns every matching order (not a page) with its current status, PO #, shipment tracking, courier and challan number.',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ExportFormat,
+    description: 'File format (default: xlsx)',
+  })
+  @ApiQuery({ name: 'search', required: false, type: String })
+  @ApiQuery({ name: 'status', required: false, type: String })
+  @ApiQuery({ name: 'city', required: false, type: String })
+  @ApiQuery({ name: 'bankId', required: false, type: String })
+  @ApiQuery({ name: 'startDate', required: false, type: String, example: '2024-01-01' })
+  @ApiQuery({ name: 'endDate', required: false, type: String, example: '2024-12-31' })
+  @ApiQuery({ name: 'statusFilter', required: false, type: String })
+  @ApiQuery({ name: 'statusStartDate', required: false, type: String })
+  @ApiQuery({ name: 'statusEndDate', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Excel or CSV file',
+    content: {
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+        schema: { type: 'string', format: 'binary' },
+      },
+      'text/csv': { schema: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid export format' })
+  exportOrders(
+    @Res() res: Response,
+    @Query('format') format?: ExportFormat,
+    @Query('search') search?: string,
+    @Query('status') status?: string,
+    @Query('city') city?: string,
+    @Query('bankId') bankId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('statusFilter') statusFilter?: string,
+    @Query('statusStartDate') statusStartDate?: string,
+    @Query('statusEndDate') statusEndDate?: string,
+  ): void {
+    const file = this.bipService.exportOrders(
+      format || ExportFormat.XLSX,
+      search,
+      status,
+      city,
+      bankId,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined,
+      statusFilter,
+      statusStartDate ? new Date(statusStartDate) : undefined,
+      statusEndDate ? new Date(statusEndDate) : undefined,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+
+    file.stream.on('error', (error) => res.destroy(error));
+    file.stream.pipe(res);
+  }
+
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
   @ApiOperation({ summary: 'Get BIP order by ID' })
@@ -205,14 +428,23 @@ export class BipController {
   @ApiOperation({ summary: 'Update BIP order status (Admin/Staff only)' })
   @ApiParam({ name: 'id', description: 'BIP Order MongoDB ObjectId' })
   @ApiResponse({ status: 200, description: 'Order status updated successfully' })
-  @ApiResponse({ status: 400, description: 'Bad request - Invalid status or order ID' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - Invalid status, order ID, or status transition (response lists the allowed next statuses)',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions or non-admin forced override',
+  })
   @ApiResponse({ status: 404, description: 'BIP order not found' })
   updateStatus(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() updateOrderStatusDto: UpdateOrderStatusDto,
+    @CurrentUser('_id') userId: string,
+    @CurrentUser('role') userRole: UserRole,
   ) {
-    return this.bipService.updateStatus(id, updateOrderStatusDto);
+    return this.bipService.updateStatus(id, updateOrderStatusDto, userId, userRole);
   }
 
   @Post(':id/comments')
@@ -226,8 +458,9 @@ export class BipController {
   addComment(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() addCommentDto: AddCommentDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.bipService.addComment(id, addCommentDto.comment);
+    return this.bipService.addComment(id, addCommentDto.comment, userId);
   }
 
   @Post('whatsapp/send-confirmations')
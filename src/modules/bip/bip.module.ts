@@ -5,12 +5,14 @@ import { BipController } from './bip.controller';
 import { Bip, BipSchema } from './schemas/bip.schema';
 import { ProductsModule } from '@modules/products/products.module';
 import { BanksModule } from '@modules/banks/banks.module';
+import { ImportsModule } from '@modules/imports/imports.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Bip.name, schema: BipSchema }]),
     ProductsModule,
     BanksModule,
+    ImportsModule,
   ],
   controllers: [BipController],
   providers: [BipService],
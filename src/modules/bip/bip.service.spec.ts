@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import { BipService } from './bip.service';
+import { ProductType } from '@common/enums/product-type.enum';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+
+describe('BipService', () => {
+  describe('commitPreview', () => {
+    const bankId = new Types.ObjectId().toString();
+    const previewFile = {
+      originalname: 'orders.xlsx',
+      mimetype: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      buffer: Buffer.from('previewed file'),
+      fileHash: 'hash-of-previewed-file',
+      duplicatePolicy: DuplicatePolicy.UPDATE_IF_PENDING,
+    };
+
+    let importsService: Record<string, jest.Mock>;
+    let importJobsService: Record<string, jest.Mock>;
+    let service: BipService;
+
+    beforeEach(() => {
+      importsService = {
+        getPreviewFile: jest.fn(),
+        hashFile: jest.fn(() => previewFile.fileHash),
+        removePreview: jest.fn(),
+      };
+      importJobsService = { createJob: jest.fn(async () => ({})) };
+      service = new BipService(
+        {} as any,
+        {} as any,
+        { findOne: jest.fn(async () => ({ _id: bankId })) } as any,
+        {} as any,
+        importsService as any,
+        {} as any,
+        importJobsService as any,
+      );
+    });
+
+    it.each([
+      ['a named sheet', { sheetName: 'Lahore' }],
+      ['all sheets', { allSheets: true }],
+      ['the first sheet', {}],
+    ])('queues the sheet selection of a preview of %s', async (_, selection) => {
+      importsService.getPreviewFile.mockResolvedValue({ ...previewFile, ...selection });
+
+      // A selection sent with the commit does not replace the previewed one
+      await service.commitPreview('token', bankId, undefined, undefined, {
+        sheetName: 'Karachi',
+      });
+
+      expect(importJobsService.createJob).toHaveBeenCalledWith(
+        ProductType.BIP,
+        bankId,
+        expect.objectContaining({ originalname: previewFile.originalname }),
+        undefined,
+        {
+          duplicatePolicy: DuplicatePolicy.UPDATE_IF_PENDING,
+          sheetName: undefined,
+          allSheets: undefined,
+          ...selection,
+        },
+      );
+      expect(importsService.removePreview).toHaveBeenCalledWith('token');
+    });
+  });
+});
@@ -1,4 +1,10 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import * as XLSX from 'xlsx';
@@ -15,58 +21,203 @@ import { UpdateBipOrderDto } from './dto/update-bip-order.dto';
 import { ProductType } from '@common/enums/product-type.enum';
 import { WhatsAppService } from '@common/services/whatsapp.service';
 import { OrderStatus } from '@common/enums/order-status.enum';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { assertOrderStatusTransition } from '@common/utils/order-status-transition.util';
+import { ImportsService } from '@modules/imports/imports.service';
+import { ColumnMappingsService } from '@modules/imports/column-mappings.service';
+import { ImportJobsService } from '@modules/imports/import-jobs.service';
+import { ImportJob } from '@modules/imports/schemas/import-job.schema';
+import { ImportBatch } from '@modules/imports/schemas/import-batch.schema';
+import {
+  ImportFile,
+  ImportOptions,
+  ImportRowSource,
+  ProductToCreate,
+} from '@modules/imports/interfaces/import.interface';
+import {
+  getImportFileExtension,
+  IMPORT_FILE_EXTENSIONS,
+  readImportSheets,
+  readImportWorkbook,
+  summarizeSheets,
+} from '@modules/imports/utils/import-file.util';
+import {
+  DuplicateKey,
+  findImportDuplicates,
+  resolveDuplicate,
+} from '@modules/imports/utils/import-duplicates.util';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { ExportFormat } from '@common/enums/export-format.enum';
+import {
+  buildSpreadsheetExport,
+  ExportColumn,
+  formatExportDate,
+  SpreadsheetExport,
+} from '@common/utils/spreadsheet-export.util';
+import { toPublicTrackingTimeline } from '@modules/shipments/utils/tracking-timeline.util';
+
+// Keys a BIP row must not share with an existing order or another row
+const DUPLICATE_KEYS: DuplicateKey<ExcelRowData>[] = [
+  {
+    field: 'EFORMS',
+    fromRow: (row) => String(row.EFORMS).trim(),
+    fromOrder: (order) => order.eforms,
+  },
+  {
+    field: 'CNIC + GIFTCODE',
+    fromRow: (row) => `${String(row.CNIC).trim()} / ${String(row.GIFTCODE).trim()}`,
+    fromOrder: (order) => `${order.cnic} / ${order.giftCode}`,
+  },
+];
+
+// Populate the acting user's name on status history and comment entries
+const ACTOR_POPULATE_OPTIONS = [
+  { path: 'statusHistory.performedBy', select: 'firstName lastName email' },
+  { path: 'comments.performedBy', select: 'firstName lastName email' },
+];
+
+// Shipment, courier and challan details shown in the order list and export
+const LIST_POPULATE_OPTIONS = [
+  {
+    path: 'shipmentId',
+    select: 'trackingNumber consignmentNumber status bookingDate actualDeliveryDate',
+    populate: {
+      path: 'courierId',
+      select: 'courierName courierType',
+    },
+  },
+  {
+    path: 'deliveryChallan',
+    select:
+      'challanNumber challanDate pdfURLPath trackingNumber customerName printStatus printedAt printCount',
+  },
+];
+
+// Columns of the BIP order export; shipment and challan come from LIST_POPULATE_OPTIONS
+const EXPORT_COLUMNS: ExportColumn<any>[] = [
+  { header: 'Bank', value: (order) => order.bankId?.bankName },
+  { header: 'EFORMS', value: (order) => order.eforms },
+  { header: 'PO #', value: (order) => order.poNumber },
+  { header: 'Order Date', value: (order) => formatExportDate(order.orderDate) },
+  { header: 'CNIC', value: (order) => order.cnic },
+  { header: 'Customer Name', value: (order) => order.customerName },
+  { header: 'Mobile', value: (order) => order.mobile1 },
+  { header: 'Authorized Receiver', value: (order) => order.authorizedReceiver },
+  { header: 'Receiver CNIC', value: (order) => order.receiverCnic },
+  { header: 'Address', value: (order) => order.address },
+  { header: 'City', value: (order) => order.city },
+  { header: 'Product', value: (order) => order.product },
+  { header: 'Gift Code', value: (order) => order.giftCode },
+  { header: 'Color', value: (order) => order.color },
+  { header: 'Qty', value: (order) => order.qty },
+  { header: 'Amount', value: (order) => order.amount },
+  { header: 'Status', value: (order) => order.status },
+  {
+    header: 'Status Updated',
+    value: (order) => formatExportDate(order.statusHistory?.slice(-1)[0]?.timestamp),
+  },
+  { header: 'Courier', value: (order) => order.shipmentId?.courierId?.courierName },
+  { header: 'Tracking Number', value: (order) => order.shipmentId?.trackingNumber },
+  { header: 'Shipment Status', value: (order) => order.shipmentId?.status },
+  {
+    header: 'Booking Date',
+    value: (order) => formatExportDate(order.shipmentId?.bookingDate),
+  },
+  {
+    header: 'Delivered On',
+    value: (order) => formatExportDate(order.shipmentId?.actualDeliveryDate),
+  },
+  { header: 'Challan Number', value: (order) => order.deliveryChallan?.challanNumber },
+  {
+    header: 'Challan Date',
+    value: (order) => formatExportDate(order.deliveryChallan?.challanDate),
+  },
+];
 
 @Injectable()
-export class BipService {
+export class BipService implements OnModuleInit {
   constructor(
     @InjectModel(Bip.name) private bipModel: Model<Bip>,
     private productsService: ProductsService,
     @InjectModel('Bank') private bankModel: Model<any>,
     private whatsappService: WhatsAppService,
+    private importsService: ImportsService,
+    private columnMappingsService: ColumnMappingsService,
+    private importJobsService: ImportJobsService,
   ) {}
 
+  onModuleInit() {
+    this.importJobsService.registerProcessor(
+      ProductType.BIP,
+      (file, bankId, userId, options) =>
+        this.importFromExcel(file, bankId, userId, options),
+    );
+  }
+
+  /**
+   * Validate the request and queue the file; progress is polled from GET /imports/:jobId
+   */
+  async queueImport(
+    file: ImportFile,
+    bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
+  ): Promise<ImportJob> {
+    await this.validateImportRequest(
+      file,
+      bankId,
+      options.duplicatePolicy || DuplicatePolicy.SKIP,
+    );
+
+    return this.importJobsService.createJob(
+      ProductType.BIP,
+      bankId,
+      file,
+      userId,
+      options,
+    );
+  }
+
   async importFromExcel(
-    file: Express.Multer.File,
+    file: ImportFile,
     bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
   ): Promise<ImportResult> {
-    if (!file) {
-      throw new BadRequestException('No file uploaded');
-    }
+    const duplicatePolicy = options.duplicatePolicy || DuplicatePolicy.SKIP;
+    await this.validateImportRequest(file, bankId, duplicatePolicy);
 
-    // Validate bankId
-    if (!Types.ObjectId.isValid(bankId)) {
-      throw new BadRequestException('Invalid bank ID format');
-    }
+    // Kept outside the try so a failed import can mark its batch failed
+    let batch: ImportBatch | null = null;
 
-    // Verify bank exists
-    const bank = await this.bankModel.findOne({
-      _id: bankId,
-      isDeleted: false,
-    });
-
-    if (!bank) {
-      throw new NotFoundException(`Bank with ID ${bankId} not found`);
-    }
+    try {
+      // Read the selected sheets; a CSV file is a single sheet
+      const sheets = readImportSheets<ExcelRowData>(readImportWorkbook(file), options);
 
-    // Validate file type
-    const validExtensions = ['.xlsx', '.xls'];
-    const fileExtension = file.originalname.substring(file.originalname.lastIndexOf('.'));
+      // Rename the bank's own headers to ours if it has a column mapping
+      const columnMapping = await this.columnMappingsService.findForImport(
+        bankId,
+        ProductType.BIP,
+      );
+      if (columnMapping) {
+        sheets.forEach((sheet) => {
+          sheet.rows = this.columnMappingsService.applyMapping<ExcelRowData>(
+            sheet.rows,
+            columnMapping,
+            ProductType.BIP,
+          );
+        });
+      }
 
-    if (!validExtensions.includes(fileExtension.toLowerCase())) {
-      throw new BadRequestException(
-        'Invalid file type. Please upload an Excel file (.xlsx or .xls)',
+      // Rows of all sheets are imported together, each keeping its sheet and row number
+      const jsonData = sheets.flatMap((sheet) => sheet.rows);
+      const rowSources: ImportRowSource[] = sheets.flatMap((sheet) =>
+        sheet.rows.map((_, i) => ({ sheet: sheet.sheetName, row: i + 2 })),
       );
-    }
 
-    try {
-      // Parse Excel file
-      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData: ExcelRowData[] = XLSX.utils.sheet_to_json(worksheet);
-
-      if (!jsonData || jsonData.length === 0) {
-        throw new BadRequestException('Excel file is empty');
+      if (jsonData.length === 0) {
+        throw new BadRequestException('Import file is empty');
       }
 
       const result: ImportResult = {
@@ -75,83 +226,420 @@ export class BipService {
         failedCount: 0,
         successRecords: [],
         failedRecords: [],
+        duplicateCount: 0,
+        updatedCount: 0,
+        duplicateRecords: [],
+        sheets: [],
+        ...(options.dryRun && { dryRun: true, productsToCreate: [] }),
       };
 
-      // Process each row
-      for (let i = 0; i < jsonData.length; i++) {
-        const rowNumber = i + 2; // Excel row number (accounting for header)
-        const row = jsonData[i];
+      const validationResults = jsonData.map((row, i) =>
+        this.validateRow(row, rowSources[i].row),
+      );
+      const duplicates = await this.findDuplicateRows(
+        jsonData,
+        rowSources,
+        validationResults,
+        bankId,
+      );
 
-        const validationResult = this.validateRow(row, rowNumber);
+      // The fail policy rejects the whole file before anything is saved
+      if (
+        duplicatePolicy === DuplicatePolicy.FAIL &&
+        duplicates.size > 0 &&
+        !options.dryRun
+      ) {
+        const rows = Array.from(duplicates.entries())
+          .slice(0, 10)
+          .map(
+            ([i, matches]) =>
+              `${rowSources[i].sheet} row ${rowSources[i].row}: ${resolveDuplicate(matches, duplicatePolicy).reason}`,
+          )
+          .join('; ');
+        throw new BadRequestException(
+          `Import aborted: ${duplicates.size} duplicate row(s) found (${rows})`,
+        );
+      }
 
-        if (validationResult.isValid) {
-          try {
-            // Check for duplicate eforms
-            const eformsValue = String(row.EFORMS).trim();
-            const existingBip = await this.bipModel.findOne({
-              eforms: eformsValue,
-              isDeleted: false,
+      // Products a dry run would auto-create, keyed by gift code
+      const productsToCreate = new Map<string, ProductToCreate>();
+
+      // Every real import is recorded as a batch its orders point back to
+      batch = options.dryRun
+        ? null
+        : await this.importsService.createBatch(
+            ProductType.BIP,
+            bankId,
+            file,
+            jsonData.length,
+            userId,
+            options.importJobId,
+          );
+
+      // Each distinct gift code is looked up (or created) once per file
+      const productCache = new Map<string, Product | null>();
+      const chunkSize = this.importsService.getBulkChunkSize();
+
+      // Process rows in chunks; the new orders of a chunk are saved with one insertMany
+      for (let start = 0; start < jsonData.length; start += chunkSize) {
+        const end = Math.min(start + chunkSize, jsonData.length);
+        const ordersToInsert: Array<{
+          sheetName: string;
+          rowNumber: number;
+          row: ExcelRowData;
+          data: any;
+        }> = [];
+
+        for (let i = start; i < end; i++) {
+          // Row number on its sheet (accounting for header)
+          const { sheet: sheetName, row: rowNumber } = rowSources[i];
+          const row = jsonData[i];
+
+          const validationResult = validationResults[i];
+
+          if (!validationResult.isValid) {
+            result.failedCount++;
+            result.failedRecords.push({
+              sheet: sheetName,
+              row: rowNumber,
+              data: row,
+              errors: validationResult.errors,
             });
+            continue;
+          }
 
-            if (existingBip) {
-              result.failedCount++;
-              result.failedRecords.push({
+          try {
+            // Duplicates are skipped, rejected or used to update a pending order
+            const matches = duplicates.get(i);
+            const duplicate = matches && resolveDuplicate(matches, duplicatePolicy);
+
+            if (duplicate && duplicate.action !== 'updated') {
+              result.duplicateCount++;
+              result.duplicateRecords.push({
+                sheet: sheetName,
                 row: rowNumber,
                 data: row,
-                errors: [`Duplicate EFORMS: ${eformsValue} already exists in the system`],
+                matches,
+                action: duplicate.action,
+                reason: duplicate.reason,
               });
               continue;
             }
 
-            // Get or create product based on GIFTCODE
-            const product = await this.getOrCreateProduct(
-              String(row.GIFTCODE).trim(),
-              String(row.PRODUCT).trim(),
-            );
+            // Get or create product based on GIFTCODE (a dry run only looks it up)
+            const giftCode = String(row.GIFTCODE).trim();
+            if (!productCache.has(giftCode)) {
+              productCache.set(
+                giftCode,
+                options.dryRun
+                  ? await this.findExistingProduct(giftCode)
+                  : await this.getOrCreateProduct(giftCode, String(row.PRODUCT).trim()),
+              );
+            }
+            const product = productCache.get(giftCode);
+
+            if (!product) {
+              const pending = productsToCreate.get(giftCode);
+              if (pending) {
+                pending.rows.push(rowNumber);
+              } else {
+                productsToCreate.set(giftCode, {
+                  giftCode,
+                  name: String(row.PRODUCT).trim(),
+                  rows: [rowNumber],
+                });
+              }
+            }
 
             // Transform data to match schema
-            const bipData = this.transformRowToBip(row);
+            const bipData = this.transformRowToBip(row, userId);
 
             // Add bank reference
             bipData.bankId = new Types.ObjectId(bankId);
 
             // Add product reference
-            bipData.productId = product._id;
+            bipData.productId = product?._id;
 
-            // Save to database
-            const savedBip = await this.bipModel.create(bipData);
+            // insertMany drops invalid documents silently, so validate up front
+            const validationError = new this.bipModel(bipData).validateSync();
+            if (validationError) {
+              result.failedCount++;
+              result.failedRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                data: row,
+                errors: [`Validation error: ${validationError.message}`],
+              });
+              continue;
+            }
 
-            result.successCount++;
-            result.successRecords.push({
-              row: rowNumber,
-              id: savedBip._id.toString(),
-              eforms: savedBip.eforms,
-              customerName: savedBip.customerName,
-            });
+            if (duplicate) {
+              // Refresh the pending order's details; its status, history and batch are kept
+              delete bipData.statusHistory;
+              const updatedOrder =
+                options.dryRun ||
+                (await this.bipModel.findOneAndUpdate(
+                  {
+                    _id: duplicate.orderId,
+                    status: OrderStatus.PENDING,
+                    isDeleted: false,
+                  },
+                  bipData,
+                  { new: true, runValidators: true },
+                ));
+
+              result.duplicateCount++;
+              result.duplicateRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                data: row,
+                matches,
+                action: updatedOrder ? 'updated' : 'skipped',
+                reason: updatedOrder
+                  ? duplicate.reason
+                  : `${duplicate.reason}; order is no longer pending`,
+                id: duplicate.orderId,
+              });
+              if (updatedOrder) {
+                result.updatedCount++;
+              }
+              continue;
+            }
+
+            if (options.dryRun) {
+              result.successCount++;
+              result.successRecords.push({
+                sheet: sheetName,
+                row: rowNumber,
+                eforms: bipData.eforms,
+                customerName: bipData.customerName,
+              });
+              continue;
+            }
+
+            // Pre-assign the id so the row can be reported after the bulk insert
+            bipData._id = new Types.ObjectId();
+
+            // Add import batch reference
+            bipData.importBatchId = batch?._id;
+
+            ordersToInsert.push({ sheetName, rowNumber, row, data: bipData });
           } catch (error) {
             result.failedCount++;
             result.failedRecords.push({
+              sheet: sheetName,
               row: rowNumber,
               data: row,
               errors: [error.message || 'Unknown error occurred'],
             });
           }
-        } else {
-          result.failedCount++;
-          result.failedRecords.push({
+        }
+
+        // Save the chunk's new orders in one round trip
+        const insertErrors = await this.importsService.insertOrders(
+          this.bipModel,
+          ordersToInsert.map((order) => order.data),
+        );
+
+        ordersToInsert.forEach(({ sheetName, rowNumber, row, data }, index) => {
+          if (insertErrors.has(index)) {
+            result.failedCount++;
+            result.failedRecords.push({
+              sheet: sheetName,
+              row: rowNumber,
+              data: row,
+              errors: [insertErrors.get(index) || 'Unknown error occurred'],
+            });
+            return;
+          }
+
+          result.successCount++;
+          result.successRecords.push({
+            sheet: sheetName,
             row: rowNumber,
-            data: row,
-            errors: validationResult.errors,
+            id: data._id.toString(),
+            eforms: data.eforms,
+            customerName: data.customerName,
           });
-        }
+        });
+
+        await options.onProgress?.(end, result);
+      }
+
+      if (options.dryRun) {
+        result.productsToCreate = Array.from(productsToCreate.values());
+      }
+
+      result.sheets = summarizeSheets(sheets, result);
+
+      if (batch) {
+        await this.importsService.completeBatch(batch._id, result);
+        result.importBatchId = batch._id.toString();
       }
 
       return result;
     } catch (error) {
+      // Orders of chunks already saved stay; a failed batch can still be rolled back
+      if (batch) {
+        await this.importsService.failBatch(batch._id, error.message);
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new BadRequestException(`Failed to process Excel file: ${error.message}`);
     }
   }
 
+  /**
+   * Checks shared by direct imports and queued jobs, so a bad request fails before queueing
+   */
+  private async validateImportRequest(
+    file: ImportFile,
+    bankId: string,
+    duplicatePolicy: DuplicatePolicy,
+  ): Promise<void> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    // Validate bankId
+    if (!Types.ObjectId.isValid(bankId)) {
+      throw new BadRequestException('Invalid bank ID format');
+    }
+
+    if (!Object.values(DuplicatePolicy).includes(duplicatePolicy)) {
+      throw new BadRequestException(
+        `Duplicate policy must be one of: ${Object.values(DuplicatePolicy).join(', ')}`,
+      );
+    }
+
+    // Verify bank exists
+    const bank = await this.bankModel.findOne({
+      _id: bankId,
+      isDeleted: false,
+    });
+
+    if (!bank) {
+      throw new NotFoundException(`Bank with ID ${bankId} not found`);
+    }
+
+    // Validate file type
+    if (!IMPORT_FILE_EXTENSIONS.includes(getImportFileExtension(file))) {
+      throw new BadRequestException(
+        'Invalid file type. Please upload an Excel (.xlsx or .xls) or CSV (.csv) file',
+      );
+    }
+  }
+
+  /**
+   * Find rows that repeat a BIP order of the same bank, or an earlier row of the file,
+   * on EFORMS or the CNIC + GIFTCODE pair. Invalid rows are ignored.
+   */
+  private async findDuplicateRows(
+    rows: ExcelRowData[],
+    rowSources: ImportRowSource[],
+    validationResults: Array<{ isValid: boolean }>,
+    bankId: string,
+  ) {
+    const invalidIndexes = new Set(
+      validationResults
+        .map((validation, i) => (validation.isValid ? -1 : i))
+        .filter((i) => i >= 0),
+    );
+    const validRows = rows.filter((_, i) => !invalidIndexes.has(i));
+
+    const existingOrders =
+      validRows.length === 0
+        ? []
+        : await this.bipModel
+            .find({
+              bankId: new Types.ObjectId(bankId),
+              isDeleted: false,
+              $or: [
+                { eforms: { $in: validRows.map((row) => String(row.EFORMS).trim()) } },
+                {
+                  cnic: { $in: validRows.map((row) => String(row.CNIC).trim()) },
+                  giftCode: { $in: validRows.map((row) => String(row.GIFTCODE).trim()) },
+                },
+              ],
+            })
+            .select('eforms cnic giftCode status')
+            .lean()
+            .exec();
+
+    return findImportDuplicates(
+      rows,
+      existingOrders,
+      DUPLICATE_KEYS,
+      (i) => rowSources[i],
+      invalidIndexes,
+    );
+  }
+
+  /**
+   * Dry-run an import and keep the file so the same bytes can be committed later
+   */
+  async previewImport(
+    file: ImportFile,
+    bankId: string,
+    userId?: string,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    const result = await this.importFromExcel(file, bankId, userId, {
+      ...options,
+      dryRun: true,
+    });
+
+    const preview = await this.importsService.createPreview(
+      ProductType.BIP,
+      bankId,
+      file,
+      userId,
+      options,
+    );
+
+    return {
+      ...result,
+      previewToken: preview.token,
+      previewExpiresAt: preview.expiresAt,
+    };
+  }
+
+  /**
+   * Queue an import of the exact file stored by a previous preview
+   */
+  async commitPreview(
+    previewToken: string,
+    bankId: string,
+    userId?: string,
+    file?: ImportFile,
+    options: ImportOptions = {},
+  ): Promise<ImportJob> {
+    const previewFile = await this.importsService.getPreviewFile(
+      previewToken,
+      ProductType.BIP,
+      bankId,
+    );
+
+    // If the file is uploaded again it must be the one that was previewed
+    if (file && this.importsService.hashFile(file.buffer) !== previewFile.fileHash) {
+      throw new BadRequestException('Uploaded file does not match the previewed file');
+    }
+
+    // Import the sheets that were previewed, with the preview's duplicate policy
+    // unless a new one is given
+    const job = await this.queueImport(previewFile, bankId, userId, {
+      duplicatePolicy: options.duplicatePolicy || previewFile.duplicatePolicy,
+      sheetName: previewFile.sheetName,
+      allSheets: previewFile.allSheets,
+    });
+
+    await this.importsService.removePreview(previewToken);
+
+    return job;
+  }
+
   private validateRow(
     row: ExcelRowData,
     rowNumber: number,
@@ -218,7 +706,7 @@ export class BipService {
     };
   }
 
-  private transformRowToBip(row: ExcelRowData): any {
+  private transformRowToBip(row: ExcelRowData, userId?: string): any {
     return {
       eforms: String(row.EFORMS).trim(),
       cnic: String(row.CNIC).trim(),
@@ -237,33 +725,43 @@ export class BipService {
       orderDate: this.parseExcelDate(row['ORDER DATE']),
       amount: Number(row.AMOUNT),
       color: row.COLOR ? String(row.COLOR).trim() : undefined,
-      statusHistory: [{ status: OrderStatus.PENDING, timestamp: new Date() }],
+      statusHistory: [
+        {
+          status: OrderStatus.PENDING,
+          timestamp: new Date(),
+          performedBy: userId ? new Types.ObjectId(userId) : undefined,
+          source: ChangeSource.USER,
+        },
+      ],
     };
   }
 
+  private async findExistingProduct(giftCode: string): Promise<Product | null> {
+    const existingProducts = await this.productsService.findAll(
+      1,
+      1000,
+      undefined,
+      giftCode,
+      ProductType.BIP,
+    );
+
+    // Check if the gift code and product type match exactly
+    const exactMatch = existingProducts.data?.find(
+      (p: any) => p.bankProductNumber === giftCode && p.productType === ProductType.BIP,
+    );
+
+    return (exactMatch as Product) || null;
+  }
+
   private async getOrCreateProduct(
     giftCode: string,
     productName: string,
   ): Promise<Product> {
     try {
       // Try to find existing product by bankProductNumber (GIFTCODE) AND productType
-      const existingProducts = await this.productsService.findAll(
-        1,
-        1000,
-        undefined,
-        giftCode,
-        ProductType.BIP,
-      );
-
-      if (existingProducts.data && existingProducts.data.length > 0) {
-        // Check if the gift code and product type match exactly
-        const exactMatch = existingProducts.data.find(
-          (p: any) =>
-            p.bankProductNumber === giftCode && p.productType === ProductType.BIP,
-        );
-        if (exactMatch) {
-          return exactMatch as Product;
-        }
+      const exactMatch = await this.findExistingProduct(giftCode);
+      if (exactMatch) {
+        return exactMatch;
       }
 
       // Product doesn't exist, create it without category (will be assigned manually later)
@@ -333,6 +831,54 @@ export class BipService {
     totalPages: number;
   }> {
     const skip = (page - 1) * limit;
+    const query = this.buildListQuery(
+      search,
+      status,
+      city,
+      bankId,
+      startDate,
+      endDate,
+      statusFilter,
+      statusStartDate,
+      statusEndDate,
+    );
+
+    const [data, total] = await Promise.all([
+      this.bipModel
+        .find(query)
+        .populate('bankId', 'bankName')
+        .populate('productId', 'name bankProductNumber')
+        .populate(LIST_POPULATE_OPTIONS)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.bipModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Build the order query for the list filters, shared by the list and the export
+   */
+  private buildListQuery(
+    search?: string,
+    status?: string,
+    city?: string,
+    bankId?: string,
+    startDate?: Date,
+    endDate?: Date,
+    statusFilter?: string,
+    statusStartDate?: Date,
+    statusEndDate?: Date,
+  ): any {
     const query: any = { isDeleted: false };
 
     // Add search filter - search across multiple fields
@@ -411,39 +957,51 @@ export class BipService {
       }
     }
 
-    const [data, total] = await Promise.all([
-      this.bipModel
-        .find(query)
-        .populate('bankId', 'bankName')
-        .populate('productId', 'name bankProductNumber')
-        .populate({
-          path: 'shipmentId',
-          select:
-            'trackingNumber consignmentNumber status bookingDate actualDeliveryDate',
-          populate: {
-            path: 'courierId',
-            select: 'courierName courierType',
-          },
-        })
-        .populate({
-          path: 'deliveryChallan',
-          select:
-            'challanNumber challanDate pdfURLPath trackingNumber customerName printStatus printedAt printCount',
-        })
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit)
-        .exec(),
-      this.bipModel.countDocuments(query),
-    ]);
+    return query;
+  }
 
-    return {
-      data,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
+  /**
+   * Export every order matching the list filters, with its shipment, courier and challan
+   */
+  exportOrders(
+    format: ExportFormat = ExportFormat.XLSX,
+    search?: string,
+    status?: string,
+    city?: string,
+    bankId?: string,
+    startDate?: Date,
+    endDate?: Date,
+    statusFilter?: string,
+    statusStartDate?: Date,
+    statusEndDate?: Date,
+  ): SpreadsheetExport {
+    const query = this.buildListQuery(
+      search,
+      status,
+      city,
+      bankId,
+      startDate,
+      endDate,
+      statusFilter,
+      statusStartDate,
+      statusEndDate,
+    );
+
+    // Read with a cursor so large exports are not loaded into memory at once
+    const orders = this.bipModel
+      .find(query)
+      .populate('bankId', 'bankName')
+      .populate(LIST_POPULATE_OPTIONS)
+      .sort({ createdAt: -1 })
+      .cursor();
+
+    return buildSpreadsheetExport(
+      orders,
+      EXPORT_COLUMNS,
+      format,
+      'bip-orders',
+      'BIP Orders',
+    );
   }
 
   async findOne(id: string): Promise<Bip | null> {
@@ -465,12 +1023,15 @@ export class BipService {
         select:
           'challanNumber challanDate pdfURLPath trackingNumber consignmentNumber courierName productName productBrand productSerialNumber quantity customerName customerCnic customerPhone customerAddress customerCity dispatchDate expectedDeliveryDate remarks printStatus printedAt printCount',
       })
+      .populate(ACTOR_POPULATE_OPTIONS)
       .exec();
   }
 
   async updateStatus(
     id: string,
     updateOrderStatusDto: UpdateOrderStatusDto,
+    userId?: string,
+    userRole?: UserRole,
   ): Promise<Bip> {
     // Validate ObjectId
     if (!Types.ObjectId.isValid(id)) {
@@ -487,6 +1048,21 @@ export class BipService {
       throw new NotFoundException(`BIP order with ID ${id} not found`);
     }
 
+    // Only admins may force a transition the state machine would reject
+    const isOverride = updateOrderStatusDto.force === true;
+    if (isOverride) {
+      if (userRole !== UserRole.ADMIN) {
+        throw new ForbiddenException('Only admins can force an order status change');
+      }
+      if (!updateOrderStatusDto.reason || !updateOrderStatusDto.reason.trim()) {
+        throw new BadRequestException(
+          'A reason is required when forcing a status change',
+        );
+      }
+    } else {
+      assertOrderStatusTransition(order.status, updateOrderStatusDto.status);
+    }
+
     // Update the status and add to status history
     order.status = updateOrderStatusDto.status;
 
@@ -497,14 +1073,18 @@ export class BipService {
     order.statusHistory.push({
       status: updateOrderStatusDto.status,
       timestamp: new Date(),
+      reason: updateOrderStatusDto.reason?.trim() || undefined,
+      ...(isOverride && { isOverride: true }),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await order.save();
 
-    return order;
+    return order.populate(ACTOR_POPULATE_OPTIONS);
   }
 
-  async addComment(id: string, comment: string): Promise<Bip> {
+  async addComment(id: string, comment: string, userId?: string): Promise<Bip> {
     // Validate ObjectId
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid order ID format');
@@ -525,15 +1105,17 @@ export class BipService {
       order.comments = [];
     }
 
-    // Add comment with timestamp
+    // Add comment with timestamp and author
     order.comments.push({
       comment,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await order.save();
 
-    return order;
+    return order.populate(ACTOR_POPULATE_OPTIONS);
   }
 
   async update(id: string, updateBipOrderDto: UpdateBipOrderDto): Promise<Bip> {
@@ -710,6 +1292,7 @@ export class BipService {
     orderId: string,
     confirmationToken: string,
     status: 'confirmed' | 'cancelled',
+    source: ChangeSource = ChangeSource.WHATSAPP,
   ): Promise<{ success: boolean; message: string; order?: any }> {
     // Validate order ID format
     if (!Types.ObjectId.isValid(orderId)) {
@@ -745,11 +1328,13 @@ export class BipService {
     const newStatus =
       status === 'confirmed' ? OrderStatus.CONFIRMED : OrderStatus.CANCELLED;
 
+    assertOrderStatusTransition(order.status, newStatus);
+
     await this.bipModel.findByIdAndUpdate(order._id, {
       status: newStatus,
       whatsappConfirmedAt: new Date(),
       $push: {
-        statusHistory: { status: newStatus, timestamp: new Date() },
+        statusHistory: { status: newStatus, timestamp: new Date(), source },
       },
     });
 
@@ -789,11 +1374,17 @@ export class BipService {
     const newStatus =
       status === 'confirmed' ? OrderStatus.CONFIRMED : OrderStatus.CANCELLED;
 
+    assertOrderStatusTransition(order.status, newStatus);
+
     await this.bipModel.findByIdAndUpdate(order._id, {
       status: newStatus,
       whatsappConfirmedAt: new Date(),
       $push: {
-        statusHistory: { status: newStatus, timestamp: new Date() },
+        statusHistory: {
+          status: newStatus,
+          timestamp: new Date(),
+          source: ChangeSource.WEBHOOK,
+        },
       },
     });
 
@@ -826,7 +1417,7 @@ export class BipService {
       .populate({
         path: 'shipmentId',
         select:
-          'trackingNumber consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate',
+          'trackingNumber consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate trackingEvents',
       })
       .exec();
 
@@ -861,6 +1452,7 @@ export class BipService {
               status: shipment.status,
               estimatedDeliveryDate: shipment.estimatedDeliveryDate,
               actualDeliveryDate: shipment.actualDeliveryDate,
+              timeline: toPublicTrackingTimeline(shipment.trackingEvents),
             }
           : null,
       },
@@ -883,7 +1475,7 @@ export class BipService {
       .populate({
         path: 'shipmentId',
         select:
-          'consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate',
+          'consignmentNumber status courierName estimatedDeliveryDate actualDeliveryDate trackingEvents',
       })
       .exec();
 
@@ -919,6 +1511,7 @@ export class BipService {
               status: shipment.status,
               estimatedDeliveryDate: shipment.estimatedDeliveryDate,
               actualDeliveryDate: shipment.actualDeliveryDate,
+              timeline: toPublicTrackingTimeline(shipment.trackingEvents),
             }
           : null,
       },
@@ -1,3 +1,9 @@
+import {
+  DuplicateRecord,
+  ProductToCreate,
+  SheetImportResult,
+} from '@modules/imports/interfaces/import.interface';
+
 export interface ExcelRowData {
   EFORMS?: any;
   CNIC?: any;
@@ -17,14 +23,16 @@ export interface ExcelRowData {
 }
 
 export interface FailedRecord {
+  sheet?: string;
   row: number;
   data: ExcelRowData;
   errors: string[];
 }
 
 export interface SuccessRecord {
+  sheet?: string;
   row: number;
-  id: string;
+  id?: string;
   eforms: string;
   customerName: string;
 }
@@ -35,4 +43,15 @@ export interface ImportResult {
   failedCount: number;
   successRecords: SuccessRecord[];
   failedRecords: FailedRecord[];
+  // Duplicate rows are reported here, not in failedRecords
+  duplicateCount: number;
+  updatedCount: number;
+  duplicateRecords: DuplicateRecord[];
+  // Counts per sheet; row numbers in the records are relative to their sheet
+  sheets: SheetImportResult[];
+  dryRun?: boolean;
+  productsToCreate?: ProductToCreate[];
+  previewToken?: string;
+  previewExpiresAt?: Date;
+  importBatchId?: string;
 }
@@ -0,0 +1,45 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CourierApiLogsService } from './courier-api-logs.service';
+import { CourierApiLogQueryDto } from './dto/courier-api-log-query.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+
+@ApiTags('Courier API Logs')
+@ApiBearerAuth('JWT-auth')
+@Controller('courier-api-logs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CourierApiLogsController {
+  constructor(private readonly courierApiLogsService: CourierApiLogsService) {}
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Get logged courier API calls, newest first',
+    description:
+      'Request and response bodies are left out of the list; get a log by ID to see them',
+  })
+  @ApiResponse({ status: 200, description: 'List of courier API logs with pagination' })
+  findAll(@Query() query: CourierApiLogQueryDto) {
+    return this.courierApiLogsService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'Get a courier API call with its request and response' })
+  @ApiParam({ name: 'id', description: 'Courier API log MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Courier API log' })
+  @ApiResponse({ status: 404, description: 'Courier API log not found' })
+  findOne(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.courierApiLogsService.findOne(id);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CourierApiLogsController } from './courier-api-logs.controller';
+import { CourierApiLogsService } from './courier-api-logs.service';
+import { CourierApiLog, CourierApiLogSchema } from './schemas/courier-api-log.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CourierApiLog.name, schema: CourierApiLogSchema },
+    ]),
+  ],
+  controllers: [CourierApiLogsController],
+  providers: [CourierApiLogsService],
+  exports: [CourierApiLogsService],
+})
+export class CourierApiLogsModule {}
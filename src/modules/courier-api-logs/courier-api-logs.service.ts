@@ -0,0 +1,269 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { CourierApiCallOutcome, CourierApiLog } from './schemas/courier-api-log.schema';
+import { CourierApiLogQueryDto } from './dto/courier-api-log-query.dto';
+import {
+  CourierApiLogContext,
+  getCourierApiLogContext,
+} from './utils/courier-api-log-context.util';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { maskSecrets, maskUrlSecrets } from '@common/utils/credential-encryption.util';
+
+// Longer bodies are stored as a truncated JSON preview
+const MAX_BODY_LENGTH = 20000;
+
+/**
+ * Reads why a courier rejected a request that came back with a 2xx status
+ */
+export type CourierFailureDescriber = (responseBody: any) => string | undefined;
+
+interface PendingCourierApiCall {
+  startedAt: number;
+  method: string;
+  url: string;
+  requestHeaders?: Record<string, any>;
+  requestBody?: any;
+  context?: CourierApiLogContext;
+}
+
+@Injectable()
+export class CourierApiLogsService {
+  private readonly logger = new Logger(CourierApiLogsService.name);
+  private readonly pendingCalls = new WeakMap<
+    InternalAxiosRequestConfig,
+    PendingCourierApiCall
+  >();
+
+  constructor(
+    @InjectModel(CourierApiLog.name) private courierApiLogModel: Model<CourierApiLog>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Log every request made through a courier's axios instance. Logging never fails
+   * the call itself.
+   */
+  instrument(
+    axiosInstance: AxiosInstance,
+    courierType: CourierType,
+    describeFailure?: CourierFailureDescriber,
+  ): void {
+    axiosInstance.interceptors.request.use((config) => {
+      // The body is captured before axios serializes it
+      this.pendingCalls.set(config, {
+        startedAt: Date.now(),
+        method: (config.method || 'get').toUpperCase(),
+        url: maskUrlSecrets(axiosInstance.getUri(config)),
+        requestHeaders: maskSecrets(config.headers?.toJSON()),
+        requestBody: this.prepareBody(config.data),
+        context: getCourierApiLogContext(),
+      });
+      return config;
+    });
+
+    axiosInstance.interceptors.response.use(
+      async (response: AxiosResponse) => {
+        const failure = describeFailure?.(response.data);
+        await this.record(courierType, response.config, {
+          responseStatus: response.status,
+          responseBody: response.data,
+          outcome: failure ? CourierApiCallOutcome.FAILED : CourierApiCallOutcome.SUCCESS,
+          errorMessage: failure,
+        });
+        return response;
+      },
+      async (error: AxiosError) => {
+        if (error.config) {
+          await this.record(courierType, error.config, {
+            responseStatus: error.response?.status,
+            responseBody: error.response?.data,
+            outcome: error.response
+              ? CourierApiCallOutcome.FAILED
+              : CourierApiCallOutcome.ERROR,
+            errorMessage: describeFailure?.(error.response?.data) || error.message,
+          });
+        }
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Link the logs of a booking to the shipment created from it
+   */
+  async attachShipment(
+    context: CourierApiLogContext,
+    shipmentId: Types.ObjectId,
+  ): Promise<void> {
+    if (!context.logIds.length) {
+      return;
+    }
+
+    try {
+      await this.courierApiLogModel.updateMany(
+        { _id: { $in: context.logIds } },
+        { shipmentId },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to link courier API logs to shipment ${shipmentId}: ${error.message}`,
+      );
+    }
+  }
+
+  async findAll(query: CourierApiLogQueryDto): Promise<{
+    data: CourierApiLog[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const skip = (page - 1) * limit;
+    const filter: any = {};
+
+    if (query.courierType) {
+      filter.courierType = query.courierType;
+    }
+    if (query.operation) {
+      filter.operation = query.operation;
+    }
+    if (query.outcome) {
+      filter.outcome = query.outcome;
+    }
+    if (query.shipmentId) {
+      filter.shipmentId = new Types.ObjectId(query.shipmentId);
+    }
+    if (query.orderId) {
+      const orderId = new Types.ObjectId(query.orderId);
+      filter.$or = [{ bankOrderId: orderId }, { bipOrderId: orderId }];
+    }
+    if (query.startDate || query.endDate) {
+      filter.createdAt = {};
+      if (query.startDate) {
+        filter.createdAt.$gte = new Date(query.startDate);
+      }
+      if (query.endDate) {
+        const end = new Date(query.endDate);
+        end.setHours(23, 59, 59, 999);
+        filter.createdAt.$lte = end;
+      }
+    }
+
+    // Bodies can be large; they are returned by findOne
+    const [data, total] = await Promise.all([
+      this.courierApiLogModel
+        .find(filter)
+        .select('-requestHeaders -requestBody -responseBody')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.courierApiLogModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string): Promise<CourierApiLog> {
+    const log = await this.courierApiLogModel.findById(id).exec();
+
+    if (!log) {
+      throw new NotFoundException(`Courier API log with ID ${id} not found`);
+    }
+
+    return log;
+  }
+
+  private async record(
+    courierType: CourierType,
+    config: InternalAxiosRequestConfig,
+    result: {
+      responseStatus?: number;
+      responseBody?: any;
+      outcome: CourierApiCallOutcome;
+      errorMessage?: string;
+    },
+  ): Promise<void> {
+    const call = this.pendingCalls.get(config);
+    if (!call) {
+      return;
+    }
+    this.pendingCalls.delete(config);
+
+    try {
+      const log = await this.courierApiLogModel.create({
+        courierType,
+        operation: call.context?.operation,
+        method: call.method,
+        url: call.url,
+        requestHeaders: call.requestHeaders,
+        requestBody: call.requestBody,
+        responseStatus: result.responseStatus,
+        responseBody: this.prepareBody(result.responseBody),
+        durationMs: Date.now() - call.startedAt,
+        outcome: result.outcome,
+        errorMessage: result.errorMessage,
+        shipmentId: this.toObjectId(call.context?.shipmentId),
+        bankOrderId: this.toObjectId(call.context?.bankOrderId),
+        bipOrderId: this.toObjectId(call.context?.bipOrderId),
+        expiresAt: this.getExpiry(result.outcome),
+      });
+      call.context?.logIds.push(log._id as Types.ObjectId);
+    } catch (error) {
+      this.logger.warn(`Failed to save courier API log: ${error.message}`);
+    }
+  }
+
+  // Successful calls are rarely looked at, so they can be kept for less time
+  private getExpiry(outcome: CourierApiCallOutcome): Date {
+    const retentionDays =
+      outcome === CourierApiCallOutcome.SUCCESS
+        ? this.configService.get<number>('courierApiLogs.successRetentionDays') || 7
+        : this.configService.get<number>('courierApiLogs.retentionDays') || 30;
+
+    return new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  private prepareBody(body: any): any {
+    if (body === undefined || body === null || body === '') {
+      return undefined;
+    }
+
+    let parsed = body;
+    if (typeof body === 'string') {
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        parsed = body;
+      }
+    }
+
+    const masked = maskSecrets(parsed);
+    const serialized = typeof masked === 'string' ? masked : JSON.stringify(masked);
+    if (serialized.length > MAX_BODY_LENGTH) {
+      return { truncated: true, preview: serialized.slice(0, MAX_BODY_LENGTH) };
+    }
+
+    return masked;
+  }
+
+  private toObjectId(id?: string): Types.ObjectId | undefined {
+    return id && Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : undefined;
+  }
+}
@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { CourierOperation } from '@modules/shipments/integrations/courier-adapter.interface';
+import { CourierApiCallOutcome } from '../schemas/courier-api-log.schema';
+
+export class CourierApiLogQueryDto {
+  @ApiProperty({ example: 1, required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ example: 20, required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiProperty({ example: 'tcs', enum: CourierType, required: false })
+  @IsOptional()
+  @IsEnum(CourierType)
+  courierType?: CourierType;
+
+  @ApiProperty({ example: 'book', enum: CourierOperation, required: false })
+  @IsOptional()
+  @IsEnum(CourierOperation)
+  operation?: CourierOperation;
+
+  @ApiProperty({ example: 'failed', enum: CourierApiCallOutcome, required: false })
+  @IsOptional()
+  @IsEnum(CourierApiCallOutcome)
+  outcome?: CourierApiCallOutcome;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank order or BIP order ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  orderId?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @IsOptional()
+  @IsMongoId()
+  shipmentId?: string;
+
+  @ApiProperty({
+    example: '2024-01-01',
+    description: 'Calls made from (ISO date format)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    example: '2024-01-31',
+    description: 'Calls made up to, inclusive (ISO date format)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
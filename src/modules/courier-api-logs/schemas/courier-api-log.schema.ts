@@ -0,0 +1,113 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { CourierOperation } from '@modules/shipments/integrations/courier-adapter.interface';
+
+export enum CourierApiCallOutcome {
+  SUCCESS = 'success',
+  FAILED = 'failed', // The courier answered with an error status or rejected the request
+  ERROR = 'error', // No answer: network error or timeout
+}
+
+/**
+ * One outbound request to a courier API and its response. Credentials are masked
+ * before the request and response are stored.
+ */
+@Schema({ timestamps: true })
+export class CourierApiLog extends Document {
+  @ApiProperty({ example: 'tcs', enum: CourierType })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({
+    example: 'book',
+    description: 'Operation the call was made for',
+    enum: CourierOperation,
+    required: false,
+  })
+  @Prop({ type: String, enum: CourierOperation })
+  operation?: CourierOperation;
+
+  @ApiProperty({ example: 'POST' })
+  @Prop({ required: true })
+  method: string;
+
+  @ApiProperty({ example: 'https://ociconnect.tcscourier.com/ecom/api/booking/create' })
+  @Prop({ required: true })
+  url: string;
+
+  @ApiProperty({ example: { 'Content-Type': 'application/json' }, required: false })
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  requestHeaders?: Record<string, any>;
+
+  @ApiProperty({ description: 'Request payload', required: false })
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  requestBody?: any;
+
+  @ApiProperty({
+    example: 200,
+    description: 'HTTP status of the response',
+    required: false,
+  })
+  @Prop()
+  responseStatus?: number;
+
+  @ApiProperty({ description: 'Response payload', required: false })
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  responseBody?: any;
+
+  @ApiProperty({ example: 840, description: 'Time until the response, in milliseconds' })
+  @Prop({ required: true })
+  durationMs: number;
+
+  @ApiProperty({ example: 'failed', enum: CourierApiCallOutcome })
+  @Prop({ type: String, enum: CourierApiCallOutcome, required: true })
+  outcome: CourierApiCallOutcome;
+
+  @ApiProperty({
+    example: 'consigneeinfo.mobile: Invalid mobile number',
+    description: 'Why the call failed',
+    required: false,
+  })
+  @Prop()
+  errorMessage?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Shipment' })
+  shipmentId?: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'BankOrder' })
+  bankOrderId?: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Bip' })
+  bipOrderId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: '2024-02-14T10:30:00.000Z',
+    description: 'When the log is removed by the retention policy',
+  })
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierApiLogSchema = SchemaFactory.createForClass(CourierApiLog);
+
+// Indexes
+CourierApiLogSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+CourierApiLogSchema.index({ courierType: 1, createdAt: -1 });
+CourierApiLogSchema.index({ outcome: 1, createdAt: -1 });
+CourierApiLogSchema.index({ shipmentId: 1, createdAt: -1 });
+CourierApiLogSchema.index({ bankOrderId: 1, createdAt: -1 });
+CourierApiLogSchema.index({ bipOrderId: 1, createdAt: -1 });
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Types } from 'mongoose';
+import { CourierOperation } from '@modules/shipments/integrations/courier-adapter.interface';
+
+/**
+ * What a courier API call is being made for. The adapters do not know which order
+ * or shipment they are working on, so callers set this around the adapter call.
+ */
+export interface CourierApiLogContext {
+  operation: CourierOperation;
+  shipmentId?: string;
+  bankOrderId?: string;
+  bipOrderId?: string;
+  // Logs written under the context, to link them to a shipment created afterwards
+  logIds: Types.ObjectId[];
+}
+
+const storage = new AsyncLocalStorage<CourierApiLogContext>();
+
+export function runWithCourierApiLogContext<T>(
+  context: CourierApiLogContext,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function getCourierApiLogContext(): CourierApiLogContext | undefined {
+  return storage.getStore();
+}
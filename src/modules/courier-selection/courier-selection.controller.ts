@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CourierSelectionService } from './courier-selection.service';
+import { CreateCourierSelectionRuleDto } from './dto/create-courier-selection-rule.dto';
+import { UpdateCourierSelectionRuleDto } from './dto/update-courier-selection-rule.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+
+@ApiTags('Courier Selection Rules')
+@ApiBearerAuth('JWT-auth')
+@Controller('courier-selection-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CourierSelectionController {
+  constructor(private readonly courierSelectionService: CourierSelectionService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a courier selection rule (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Rule created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid conditions' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  create(
+    @Body() createRuleDto: CreateCourierSelectionRuleDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.courierSelectionService.create(createRuleDto, userId);
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Get courier selection rules in the order they are tried' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'List of rules with pagination' })
+  findAll(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('isActive') isActive?: string,
+  ) {
+    return this.courierSelectionService.findAll(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+      isActive === 'true' ? true : isActive === 'false' ? false : undefined,
+    );
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Get courier selection rule by ID' })
+  @ApiParam({ name: 'id', description: 'Rule MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Rule data' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  findOne(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.courierSelectionService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update courier selection rule (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Rule MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  update(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateRuleDto: UpdateCourierSelectionRuleDto,
+  ) {
+    return this.courierSelectionService.update(id, updateRuleDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete courier selection rule (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Rule MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  remove(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.courierSelectionService.remove(id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CourierSelectionController } from './courier-selection.controller';
+import { CourierSelectionService } from './courier-selection.service';
+import {
+  CourierSelectionRule,
+  CourierSelectionRuleSchema,
+} from './schemas/courier-selection-rule.schema';
+import { Product, ProductSchema } from '@modules/products/schemas/product.schema';
+import { CouriersModule } from '@modules/couriers/couriers.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CourierSelectionRule.name, schema: CourierSelectionRuleSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+    CouriersModule,
+  ],
+  controllers: [CourierSelectionController],
+  providers: [CourierSelectionService],
+  exports: [CourierSelectionService],
+})
+export class CourierSelectionModule {}
@@ -0,0 +1,256 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CourierSelectionRule } from './schemas/courier-selection-rule.schema';
+import { CreateCourierSelectionRuleDto } from './dto/create-courier-selection-rule.dto';
+import { UpdateCourierSelectionRuleDto } from './dto/update-courier-selection-rule.dto';
+import {
+  CourierRuleEvaluation,
+  CourierSelectionFacts,
+  CourierSelectionResult,
+} from './interfaces/courier-selection.interface';
+import { matchCourierSelectionConditions } from './utils/courier-rule-matcher.util';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { Product } from '@modules/products/schemas/product.schema';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+/**
+ * Order fields the facts are read from; bank and BIP orders both have them
+ */
+interface SelectableOrder {
+  city: string;
+  bankId?: Types.ObjectId;
+  productId?: Types.ObjectId;
+  qty: number;
+}
+
+@Injectable()
+export class CourierSelectionService {
+  constructor(
+    @InjectModel(CourierSelectionRule.name)
+    private ruleModel: Model<CourierSelectionRule>,
+    @InjectModel(Courier.name) private courierModel: Model<Courier>,
+    @InjectModel(Product.name) private productModel: Model<Product>,
+  ) {}
+
+  async create(
+    createRuleDto: CreateCourierSelectionRuleDto,
+    userId?: string,
+  ): Promise<CourierSelectionRule> {
+    this.validateRanges(createRuleDto);
+
+    const rule = new this.ruleModel({
+      ...createRuleDto,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+    const savedRule = await rule.save();
+
+    if (savedRule.isFallback) {
+      await this.clearOtherFallbacks(savedRule._id as Types.ObjectId);
+    }
+
+    return savedRule;
+  }
+
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    isActive?: boolean,
+  ): Promise<{
+    data: CourierSelectionRule[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: any = { isDeleted: false };
+
+    if (isActive !== undefined) {
+      query.isActive = isActive;
+    }
+
+    const [data, total] = await Promise.all([
+      this.ruleModel
+        .find(query)
+        .sort({ isFallback: 1, priority: 1, createdAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.ruleModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string): Promise<CourierSelectionRule> {
+    const rule = await this.ruleModel.findOne({ _id: id, isDeleted: false }).exec();
+
+    if (!rule) {
+      throw new NotFoundException(`Courier selection rule with ID ${id} not found`);
+    }
+
+    return rule;
+  }
+
+  async update(
+    id: string,
+    updateRuleDto: UpdateCourierSelectionRuleDto,
+  ): Promise<CourierSelectionRule> {
+    const existingRule = await this.findOne(id);
+    if (updateRuleDto.conditions) {
+      this.validateRanges(updateRuleDto);
+    }
+
+    const rule = await this.ruleModel
+      .findOneAndUpdate(
+        { _id: existingRule._id, isDeleted: false },
+        { $set: updateRuleDto },
+        { new: true, runValidators: true },
+      )
+      .exec();
+
+    if (!rule) {
+      throw new NotFoundException(`Courier selection rule with ID ${id} not found`);
+    }
+
+    if (rule.isFallback) {
+      await this.clearOtherFallbacks(rule._id as Types.ObjectId);
+    }
+
+    return rule;
+  }
+
+  async remove(id: string): Promise<{ message: string }> {
+    const rule = await this.ruleModel
+      .findOneAndUpdate({ _id: id, isDeleted: false }, { isDeleted: true }, { new: true })
+      .exec();
+
+    if (!rule) {
+      throw new NotFoundException(`Courier selection rule with ID ${id} not found`);
+    }
+
+    return { message: 'Courier selection rule deleted successfully' };
+  }
+
+  /**
+   * Facts for an order. The product's category is looked up so rules can match on it.
+   */
+  async buildFacts(
+    order: SelectableOrder,
+    weightInKg?: number,
+  ): Promise<CourierSelectionFacts> {
+    // productId may be populated
+    const productId = order.productId?._id?.toString();
+    const product = productId
+      ? await this.productModel.findById(productId).select('categoryId').lean().exec()
+      : null;
+
+    return {
+      city: order.city,
+      bankId: order.bankId?.toString(),
+      productId,
+      categoryId: product?.categoryId?.toString(),
+      quantity: order.qty,
+      weightInKg,
+    };
+  }
+
+  /**
+   * Pick a courier for an order. Active rules are tried by priority and the first
+   * whose conditions match and whose courier can be used wins; the fallback rule is
+   * used when none does. Inactive couriers are passed over.
+   */
+  async selectCourier(facts: CourierSelectionFacts): Promise<CourierSelectionResult> {
+    const [rules, activeCourierTypes] = await Promise.all([
+      this.ruleModel
+        .find({ isDeleted: false, isActive: true })
+        .sort({ priority: 1, createdAt: 1 })
+        .exec(),
+      this.courierModel
+        .distinct('courierType', { isDeleted: false, isActive: true })
+        .exec() as Promise<CourierType[]>,
+    ]);
+
+    const unusableReason = (courierType: CourierType): string | undefined => {
+      if (!activeCourierTypes.includes(courierType)) {
+        return `courier ${courierType} is not active`;
+      }
+      return undefined;
+    };
+
+    const evaluations: CourierRuleEvaluation[] = [];
+    const orderedRules = [
+      ...rules.filter((rule) => !rule.isFallback),
+      ...rules.filter((rule) => rule.isFallback),
+    ];
+
+    for (const rule of orderedRules) {
+      const { matched, reasons } = rule.isFallback
+        ? { matched: true, reasons: ['no other rule selected a courier'] }
+        : matchCourierSelectionConditions(rule.conditions, facts);
+      const skipReason = matched ? unusableReason(rule.courierType) : undefined;
+      const selected = matched && !skipReason;
+
+      evaluations.push({
+        ruleId: rule._id.toString(),
+        name: rule.name,
+        priority: rule.priority,
+        courierType: rule.courierType,
+        isFallback: rule.isFallback,
+        matched,
+        selected,
+        reasons: skipReason ? [...reasons, skipReason] : reasons,
+      });
+
+      if (selected) {
+        return {
+          courierType: rule.courierType,
+          ruleId: rule._id.toString(),
+          ruleName: rule.name,
+          isFallback: rule.isFallback,
+          explanation: rule.isFallback
+            ? `No rule matched; fallback rule '${rule.name}' selected ${rule.courierType}`
+            : `Rule '${rule.name}' (priority ${rule.priority}) selected ${rule.courierType}: ${reasons.join('; ')}`,
+          facts,
+          evaluations,
+        };
+      }
+    }
+
+    return {
+      courierType: null,
+      isFallback: false,
+      explanation: 'No rule matched and no usable fallback rule is configured',
+      facts,
+      evaluations,
+    };
+  }
+
+  private validateRanges(dto: UpdateCourierSelectionRuleDto): void {
+    const conditions = dto.conditions || {};
+    const invalidRange = (min?: number, max?: number) =>
+      min != null && max != null && min > max;
+
+    if (invalidRange(conditions.minQuantity, conditions.maxQuantity)) {
+      throw new BadRequestException('minQuantity cannot be more than maxQuantity');
+    }
+    if (invalidRange(conditions.minWeightKg, conditions.maxWeightKg)) {
+      throw new BadRequestException('minWeightKg cannot be more than maxWeightKg');
+    }
+  }
+
+  // Only one rule is the fallback; the latest one set replaces the others
+  private async clearOtherFallbacks(ruleId: Types.ObjectId): Promise<void> {
+    await this.ruleModel.updateMany(
+      { _id: { $ne: ruleId }, isFallback: true },
+      { isFallback: false },
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export class CourierSelectionConditionsDto {
+  @ApiProperty({ example: ['Lahore'], required: false, type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  cities?: string[];
+
+  @ApiProperty({ example: ['507f1f77bcf86cd799439011'], required: false, type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  bankIds?: string[];
+
+  @ApiProperty({ example: [], required: false, type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  productIds?: string[];
+
+  @ApiProperty({ example: [], required: false, type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  categoryIds?: string[];
+
+  @ApiProperty({ example: 1, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minQuantity?: number;
+
+  @ApiProperty({ example: 5, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxQuantity?: number;
+
+  @ApiProperty({ example: 10, description: 'Inclusive, in KG', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minWeightKg?: number;
+
+  @ApiProperty({ example: 50, description: 'Inclusive, in KG', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxWeightKg?: number;
+}
+
+export class CreateCourierSelectionRuleDto {
+  @ApiProperty({ example: 'Self delivery within Lahore', description: 'Rule name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 'Our own riders cover Lahore', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Rules are tried from the lowest priority number up',
+  })
+  @IsInt()
+  @Min(0)
+  priority: number;
+
+  @ApiProperty({
+    example: 'self_delivery',
+    description: 'Courier to select when the rule matches',
+    enum: CourierType,
+    enumName: 'CourierType',
+  })
+  @IsEnum(CourierType)
+  @IsNotEmpty()
+  courierType: CourierType;
+
+  @ApiProperty({ type: CourierSelectionConditionsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CourierSelectionConditionsDto)
+  conditions?: CourierSelectionConditionsDto;
+
+  @ApiProperty({
+    example: false,
+    description: 'Use this rule when no other rule matches',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isFallback?: boolean;
+
+  @ApiProperty({ example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCourierSelectionRuleDto } from './create-courier-selection-rule.dto';
+
+export class UpdateCourierSelectionRuleDto extends PartialType(
+  CreateCourierSelectionRuleDto,
+) {}
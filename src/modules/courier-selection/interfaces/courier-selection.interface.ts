@@ -0,0 +1,37 @@
+import { CourierType } from '@common/enums/courier-type.enum';
+
+/**
+ * The parts of an order the selection rules look at
+ */
+export interface CourierSelectionFacts {
+  city: string;
+  bankId?: string;
+  productId?: string;
+  categoryId?: string;
+  quantity: number;
+  weightInKg?: number;
+}
+
+export interface CourierRuleEvaluation {
+  ruleId: string;
+  name: string;
+  priority: number;
+  courierType: CourierType;
+  isFallback: boolean;
+  matched: boolean; // Conditions met
+  selected: boolean; // Matched and its courier could be used
+  reasons: string[];
+}
+
+export interface CourierSelectionResult {
+  courierType: CourierType | null; // null when no rule applies
+  ruleId?: string;
+  ruleName?: string;
+  isFallback: boolean;
+  explanation: string;
+  facts: CourierSelectionFacts;
+  // Rules in the order they were tried, up to the selected one
+  evaluations: CourierRuleEvaluation[];
+  // Set by the dispatch preview: the selected courier uses the manual dispatch endpoint
+  manualDispatch?: boolean;
+}
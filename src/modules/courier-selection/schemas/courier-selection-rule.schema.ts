@@ -0,0 +1,111 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+/**
+ * What a shipment must look like for a rule to apply. Every condition that is set
+ * must match; a list matches when the shipment has any of its values.
+ */
+export interface CourierSelectionConditions {
+  cities: string[]; // Matched case-insensitively
+  bankIds: Types.ObjectId[];
+  productIds: Types.ObjectId[];
+  categoryIds: Types.ObjectId[];
+  minQuantity?: number;
+  maxQuantity?: number;
+  minWeightKg?: number;
+  maxWeightKg?: number;
+}
+
+@Schema({ timestamps: true })
+export class CourierSelectionRule extends Document {
+  @ApiProperty({ example: 'Bulky items by overland', description: 'Rule name' })
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @ApiProperty({
+    example: 'Orders of 10 KG or more go by road',
+    description: 'Why the rule exists',
+    required: false,
+  })
+  @Prop({ trim: true })
+  description?: string;
+
+  @ApiProperty({
+    example: 10,
+    description:
+      'Rules are tried from the lowest priority number up; the first match wins',
+  })
+  @Prop({ required: true, min: 0 })
+  priority: number;
+
+  @ApiProperty({
+    example: 'tcs_overland',
+    description: 'Courier selected when the rule matches',
+    enum: CourierType,
+  })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({
+    example: {
+      cities: [],
+      bankIds: [],
+      productIds: [],
+      categoryIds: [],
+      minWeightKg: 10,
+    },
+    description: 'Conditions the shipment must meet',
+  })
+  @Prop({
+    type: {
+      _id: false,
+      cities: { type: [String], default: [] },
+      bankIds: { type: [{ type: Types.ObjectId, ref: 'Bank' }], default: [] },
+      productIds: { type: [{ type: Types.ObjectId, ref: 'Product' }], default: [] },
+      categoryIds: { type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] },
+      minQuantity: { type: Number, min: 0 },
+      maxQuantity: { type: Number, min: 0 },
+      minWeightKg: { type: Number, min: 0 },
+      maxWeightKg: { type: Number, min: 0 },
+    },
+    default: {},
+  })
+  conditions: CourierSelectionConditions;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Used when no other rule matches; its conditions are ignored. Only one rule is the fallback.',
+  })
+  @Prop({ default: false })
+  isFallback: boolean;
+
+  @ApiProperty({ example: true, description: 'Whether the rule is applied' })
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({ example: false, description: 'Soft delete flag' })
+  @Prop({ default: false })
+  isDeleted: boolean;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierSelectionRuleSchema =
+  SchemaFactory.createForClass(CourierSelectionRule);
+
+// Indexes
+CourierSelectionRuleSchema.index({ isDeleted: 1, isActive: 1, priority: 1 });
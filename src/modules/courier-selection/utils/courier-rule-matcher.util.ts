@@ -0,0 +1,93 @@
+import { CourierSelectionConditions } from '../schemas/courier-selection-rule.schema';
+import { CourierSelectionFacts } from '../interfaces/courier-selection.interface';
+
+export interface ConditionsMatch {
+  matched: boolean;
+  reasons: string[]; // Conditions met when matched, otherwise the ones that failed
+}
+
+/**
+ * Check a rule's conditions against an order. Unset conditions match anything;
+ * weight conditions fail when the weight is not known.
+ */
+export function matchCourierSelectionConditions(
+  conditions: Partial<CourierSelectionConditions> | undefined,
+  facts: CourierSelectionFacts,
+): ConditionsMatch {
+  const met: string[] = [];
+  const failed: string[] = [];
+  const check = (ok: boolean, metReason: string, failedReason: string) =>
+    ok ? met.push(metReason) : failed.push(failedReason);
+
+  const {
+    cities = [],
+    bankIds = [],
+    productIds = [],
+    categoryIds = [],
+  } = conditions || {};
+
+  if (cities.length) {
+    const city = (facts.city || '').trim().toLowerCase();
+    check(
+      cities.some((ruleCity) => ruleCity.trim().toLowerCase() === city),
+      `city ${facts.city} is listed`,
+      `city ${facts.city || '(none)'} is not in ${cities.join(', ')}`,
+    );
+  }
+
+  const checkIds = (
+    ruleIds: { toString(): string }[],
+    id: string | undefined,
+    label: string,
+  ) => {
+    if (ruleIds.length) {
+      check(
+        !!id && ruleIds.some((ruleId) => ruleId.toString() === id),
+        `${label} ${id} is listed`,
+        id ? `${label} ${id} is not listed` : `order has no ${label}`,
+      );
+    }
+  };
+  checkIds(bankIds, facts.bankId, 'bank');
+  checkIds(productIds, facts.productId, 'product');
+  checkIds(categoryIds, facts.categoryId, 'category');
+
+  const checkRange = (
+    value: number | undefined,
+    min: number | undefined,
+    max: number | undefined,
+    label: string,
+  ) => {
+    if (min == null && max == null) {
+      return;
+    }
+    const range = `${min ?? 0} to ${max ?? 'any'}`;
+    if (value == null) {
+      failed.push(`${label} is not known (rule needs ${range})`);
+      return;
+    }
+    check(
+      (min == null || value >= min) && (max == null || value <= max),
+      `${label} ${value} is within ${range}`,
+      `${label} ${value} is outside ${range}`,
+    );
+  };
+  checkRange(
+    facts.quantity,
+    conditions?.minQuantity,
+    conditions?.maxQuantity,
+    'quantity',
+  );
+  checkRange(
+    facts.weightInKg,
+    conditions?.minWeightKg,
+    conditions?.maxWeightKg,
+    'weight (KG)',
+  );
+
+  if (failed.length) {
+    return { matched: false, reasons: failed };
+  }
+
+  return { matched: true, reasons: met.length ? met : ['rule has no conditions'] };
+}
@@ -0,0 +1,103 @@
+import { Types } from 'mongoose';
+import { CourierRateCardsService } from './courier-rate-cards.service';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+const courierId = new Types.ObjectId();
+
+/**
+ * Rate card model that keeps saved cards in memory and answers the effective-card query
+ */
+function createRateCardModel() {
+  const cards: any[] = [];
+
+  const model: any = jest.fn((doc: any) => ({
+    ...doc,
+    save: jest.fn(async () => {
+      const card = { ...doc, _id: new Types.ObjectId(), createdAt: new Date() };
+      cards.push(card);
+      return card;
+    }),
+  }));
+  model.findOne = jest.fn((filter: any) => ({
+    sort: () => ({
+      exec: async () =>
+        cards
+          .filter(
+            (card) =>
+              card.courierId.equals(filter.courierId) &&
+              card.effectiveFrom <= filter.effectiveFrom.$lte,
+          )
+          .sort(
+            (a, b) =>
+              b.effectiveFrom.getTime() - a.effectiveFrom.getTime() ||
+              cards.indexOf(b) - cards.indexOf(a),
+          )[0] || null,
+    }),
+  }));
+
+  return model;
+}
+
+function rateCardDto(rate: number, effectiveFrom: string) {
+  return {
+    name: `Tariff from ${effectiveFrom}`,
+    zones: [
+      {
+        name: 'Nationwide',
+        cities: [],
+        slabs: [{ maxWeightKg: 1, rate }],
+        additionalKgRate: 100,
+      },
+    ],
+    defaultZone: 'Nationwide',
+    effectiveFrom,
+  };
+}
+
+describe('CourierRateCardsService', () => {
+  let service: CourierRateCardsService;
+  const courier = { _id: courierId, courierType: CourierType.TCS } as any;
+
+  beforeEach(async () => {
+    service = new CourierRateCardsService(createRateCardModel(), {
+      findOne: jest.fn(),
+    } as any);
+
+    await service.create(courierId.toString(), rateCardDto(200, '2024-01-01') as any);
+    await service.create(courierId.toString(), rateCardDto(250, '2024-07-01') as any);
+  });
+
+  describe('estimateCost', () => {
+    it('uses the card in effect on the booking date', async () => {
+      const june = await service.estimateCost(
+        courier,
+        'Quetta',
+        1,
+        new Date('2024-06-30'),
+      );
+      const july = await service.estimateCost(
+        courier,
+        'Quetta',
+        1,
+        new Date('2024-07-01'),
+      );
+
+      expect(june?.weightCharge).toBe(200);
+      expect(july?.weightCharge).toBe(250);
+    });
+
+    it('keeps using the current card when a future card is added', async () => {
+      await service.create(courierId.toString(), rateCardDto(300, '2999-01-01') as any);
+
+      const estimate = await service.estimateCost(courier, 'Quetta', 1);
+
+      expect(estimate?.weightCharge).toBe(250);
+    });
+
+    it('returns null before the first card takes effect', async () => {
+      await expect(
+        service.estimateCost(courier, 'Quetta', 1, new Date('2023-12-31')),
+      ).resolves.toBeNull();
+    });
+  });
+});
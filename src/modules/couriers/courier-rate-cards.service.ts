@@ -0,0 +1,135 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CourierRateCard } from './schemas/courier-rate-card.schema';
+import { Courier } from './schemas/courier.schema';
+import { CreateRateCardDto } from './dto/create-rate-card.dto';
+import { CouriersService } from './couriers.service';
+import { calculateShippingCost, ShippingCostBreakdown } from './utils/shipping-cost.util';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+@Injectable()
+export class CourierRateCardsService {
+  constructor(
+    @InjectModel(CourierRateCard.name)
+    private rateCardModel: Model<CourierRateCard>,
+    private couriersService: CouriersService,
+  ) {}
+
+  /**
+   * Add a rate card for a courier. It is used for shipments booked from its
+   * effectiveFrom date; earlier cards stay in use until then.
+   */
+  async create(
+    courierId: string,
+    dto: CreateRateCardDto,
+    userId?: string,
+  ): Promise<CourierRateCard> {
+    await this.couriersService.findOne(courierId);
+    this.validateZones(dto);
+
+    const rateCard = new this.rateCardModel({
+      ...dto,
+      zones: dto.zones.map((zone) => ({
+        ...zone,
+        cities: zone.cities.map((city) => city.trim()),
+        slabs: [...zone.slabs].sort((a, b) => a.maxWeightKg - b.maxWeightKg),
+      })),
+      courierId: new Types.ObjectId(courierId),
+      effectiveFrom: dto.effectiveFrom ? new Date(dto.effectiveFrom) : new Date(),
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+
+    return rateCard.save();
+  }
+
+  async findAll(courierId: string): Promise<CourierRateCard[]> {
+    await this.couriersService.findOne(courierId);
+
+    return this.rateCardModel
+      .find({ courierId: new Types.ObjectId(courierId) })
+      .populate('createdBy', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * The rate card in effect now
+   */
+  async findActive(courierId: string): Promise<CourierRateCard> {
+    const rateCard = await this.findEffective(new Types.ObjectId(courierId), new Date());
+
+    if (!rateCard) {
+      throw new NotFoundException(`Courier ${courierId} has no rate card in effect`);
+    }
+
+    return rateCard;
+  }
+
+  /**
+   * Estimated cost of a shipment with the rate card in effect on its booking date,
+   * or null when the courier has no such card or it does not cover the city
+   */
+  async estimateCost(
+    courier: Courier,
+    city: string,
+    weightInKg?: number,
+    bookingDate = new Date(),
+  ): Promise<ShippingCostBreakdown | null> {
+    const rateCard = await this.findEffective(courier._id as Types.ObjectId, bookingDate);
+
+    if (!rateCard) {
+      return null;
+    }
+
+    return calculateShippingCost(
+      rateCard,
+      city,
+      weightInKg,
+      courier.courierType === CourierType.TCS_OVERLAND,
+    );
+  }
+
+  // The latest card that started on or before the date; of cards starting together,
+  // the one added last
+  private findEffective(
+    courierId: Types.ObjectId,
+    date: Date,
+  ): Promise<CourierRateCard | null> {
+    return this.rateCardModel
+      .findOne({ courierId, effectiveFrom: { $lte: date } })
+      .sort({ effectiveFrom: -1, createdAt: -1 })
+      .exec();
+  }
+
+  private validateZones(dto: CreateRateCardDto): void {
+    const zoneNames = dto.zones.map((zone) => zone.name);
+    if (new Set(zoneNames).size !== zoneNames.length) {
+      throw new BadRequestException('Zone names must be unique');
+    }
+    if (!zoneNames.includes(dto.defaultZone)) {
+      throw new BadRequestException(`Default zone '${dto.defaultZone}' is not a zone`);
+    }
+
+    const zoneByCity = new Map<string, string>();
+    for (const zone of dto.zones) {
+      for (const city of zone.cities) {
+        const normalizedCity = city.trim().toLowerCase();
+        const otherZone = zoneByCity.get(normalizedCity);
+        if (otherZone && otherZone !== zone.name) {
+          throw new BadRequestException(
+            `City '${city}' is in both '${otherZone}' and '${zone.name}'`,
+          );
+        }
+        zoneByCity.set(normalizedCity, zone.name);
+      }
+
+      const weights = zone.slabs.map((slab) => slab.maxWeightKg);
+      if (new Set(weights).size !== weights.length) {
+        throw new BadRequestException(
+          `Zone '${zone.name}' has two slabs with the same weight`,
+        );
+      }
+    }
+  }
+}
@@ -18,7 +18,9 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { CouriersService } from './couriers.service';
+import { CourierRateCardsService } from './courier-rate-cards.service';
 import { CreateCourierDto } from './dto/create-courier.dto';
+import { CreateRateCardDto } from './dto/create-rate-card.dto';
 import { UpdateCourierDto } from './dto/update-courier.dto';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { RolesGuard } from '@common/guards/roles.guard';
@@ -26,13 +28,17 @@ import { Roles } from '@common/decorators/roles.decorator';
 import { UserRole } from '@common/interfaces/user-role.enum';
 import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
 import { CourierType } from '@common/enums/courier-type.enum';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
 
 @ApiTags('Couriers')
 @ApiBearerAuth('JWT-auth')
 @Controller('couriers')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class CouriersController {
-  constructor(private readonly couriersService: CouriersService) {}
+  constructor(
+    private readonly couriersService: CouriersService,
+    private readonly courierRateCardsService: CourierRateCardsService,
+  ) {}
 
   @Post()
   @Roles(UserRole.ADMIN)
@@ -89,6 +95,46 @@ export class CouriersController {
     return this.couriersService.findOne(id);
   }
 
+  @Post(':id/rate-cards')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Add a rate card for a courier (Admin only)',
+    description:
+      'The new card replaces the current one for shipments booked from its effectiveFrom date',
+  })
+  @ApiParam({ name: 'id', description: 'Courier MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Rate card created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid zones or slabs' })
+  @ApiResponse({ status: 404, description: 'Courier not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin access required' })
+  createRateCard(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() createRateCardDto: CreateRateCardDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.courierRateCardsService.create(id, createRateCardDto, userId);
+  }
+
+  @Get(':id/rate-cards')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'Get all rate cards of a courier, newest first' })
+  @ApiParam({ name: 'id', description: 'Courier MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'List of rate cards' })
+  @ApiResponse({ status: 404, description: 'Courier not found' })
+  findRateCards(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.courierRateCardsService.findAll(id);
+  }
+
+  @Get(':id/rate-cards/active')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Get the rate card in effect now for a courier' })
+  @ApiParam({ name: 'id', description: 'Courier MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Rate card in effect' })
+  @ApiResponse({ status: 404, description: 'Courier has no rate card in effect' })
+  findActiveRateCard(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.courierRateCardsService.findActive(id);
+  }
+
   @Patch(':id')
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Update courier (Admin only)' })
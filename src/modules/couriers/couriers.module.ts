@@ -2,14 +2,22 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { CouriersService } from './couriers.service';
 import { CouriersController } from './couriers.controller';
+import { CourierRateCardsService } from './courier-rate-cards.service';
 import { Courier, CourierSchema } from './schemas/courier.schema';
+import {
+  CourierRateCard,
+  CourierRateCardSchema,
+} from './schemas/courier-rate-card.schema';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Courier.name, schema: CourierSchema }]),
+    MongooseModule.forFeature([
+      { name: Courier.name, schema: CourierSchema },
+      { name: CourierRateCard.name, schema: CourierRateCardSchema },
+    ]),
   ],
   controllers: [CouriersController],
-  providers: [CouriersService],
-  exports: [CouriersService, MongooseModule],
+  providers: [CouriersService, CourierRateCardsService],
+  exports: [CouriersService, CourierRateCardsService, MongooseModule],
 })
 export class CouriersModule {}
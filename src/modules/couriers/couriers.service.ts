@@ -6,15 +6,18 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Courier } from './schemas/courier.schema';
+import { COURIER_CREDENTIAL_FIELDS, Courier } from './schemas/courier.schema';
 import { CreateCourierDto } from './dto/create-courier.dto';
 import { UpdateCourierDto } from './dto/update-courier.dto';
 import { CourierType } from '@common/enums/courier-type.enum';
+import { CredentialsCipherService } from '@common/services/credentials-cipher.service';
+import { MASKED_CREDENTIAL } from '@common/utils/credential-encryption.util';
 
 @Injectable()
 export class CouriersService {
   constructor(
     @InjectModel(Courier.name) private courierModel: Model<Courier>,
+    private credentialsCipherService: CredentialsCipherService,
   ) {}
 
   async create(createCourierDto: CreateCourierDto): Promise<Courier> {
@@ -30,8 +33,11 @@ export class CouriersService {
       );
     }
 
-    const courier = new this.courierModel(createCourierDto);
-    return courier.save();
+    const courier = new this.courierModel(this.encryptCredentials(createCourierDto));
+    await courier.save();
+
+    // Reload so the webhook secret is not echoed back
+    return this.findOne(courier._id.toString());
   }
 
   async findAll(
@@ -108,6 +114,16 @@ export class CouriersService {
     return courier;
   }
 
+  /**
+   * Active courier of a type with its webhook secret, for verifying courier webhooks
+   */
+  async findWithWebhookSecret(courierType: CourierType): Promise<Courier | null> {
+    return this.courierModel
+      .findOne({ courierType, isDeleted: false, isActive: true })
+      .select('+webhookSecret')
+      .exec();
+  }
+
   async update(
     id: string,
     updateCourierDto: UpdateCourierDto,
@@ -142,7 +158,7 @@ export class CouriersService {
     }
 
     const updatedCourier = await this.courierModel
-      .findByIdAndUpdate(id, updateCourierDto, { new: true })
+      .findByIdAndUpdate(id, this.encryptCredentials(updateCourierDto), { new: true })
       .exec();
 
     if (!updatedCourier) {
@@ -191,4 +207,23 @@ export class CouriersService {
 
     return courier;
   }
+
+  /**
+   * Copy of the DTO with credentials encrypted. Masked values sent back unchanged
+   * from a response are dropped so they do not overwrite the stored credential.
+   */
+  private encryptCredentials<T extends UpdateCourierDto>(dto: T): T {
+    const data = { ...dto };
+
+    for (const field of COURIER_CREDENTIAL_FIELDS) {
+      const value = data[field];
+      if (value === MASKED_CREDENTIAL) {
+        delete data[field];
+      } else if (value) {
+        data[field] = this.credentialsCipherService.encrypt(value);
+      }
+    }
+
+    return data;
+  }
 }
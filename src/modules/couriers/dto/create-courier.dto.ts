@@ -5,6 +5,7 @@ import {
   IsOptional,
   IsEmail,
   IsBoolean,
+  MinLength,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { CourierType } from '@common/enums/courier-type.enum';
@@ -32,16 +33,44 @@ export class CreateCourierDto {
   @IsOptional()
   apiUrl?: string;
 
-  @ApiProperty({ example: 'api_key_123456', description: 'API key for authentication', required: false })
+  @ApiProperty({
+    example: 'api_key_123456',
+    description: 'API key for authentication; stored encrypted',
+    required: false,
+  })
   @IsString()
   @IsOptional()
   apiKey?: string;
 
-  @ApiProperty({ example: 'api_secret_123456', description: 'API secret for authentication', required: false })
+  @ApiProperty({
+    example: 'api_secret_123456',
+    description: 'API secret for authentication; stored encrypted',
+    required: false,
+  })
   @IsString()
   @IsOptional()
   apiSecret?: string;
 
+  @ApiProperty({
+    example: 'eyJhbGciOiJIUzI1NiJ9...',
+    description: 'API bearer token (TCS); stored encrypted',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  apiToken?: string;
+
+  @ApiProperty({
+    example: 'whsec_5f2b8c1d9e7a4b3c',
+    description:
+      'Secret the courier signs its status webhooks with (HMAC-SHA256 of the body in X-Courier-Signature, or sent as X-Webhook-Secret)',
+    required: false,
+  })
+  @IsString()
+  @MinLength(16)
+  @IsOptional()
+  webhookSecret?: string;
+
   @ApiProperty({ example: '+92-321-1234567', description: 'Contact phone number', required: false })
   @IsString()
   @IsOptional()
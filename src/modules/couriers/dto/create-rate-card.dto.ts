@@ -0,0 +1,102 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RateCardWeightSlabDto {
+  @ApiProperty({ example: 0.5, description: 'Slab covers weights up to this (KG)' })
+  @IsNumber()
+  @Min(0.01)
+  maxWeightKg: number;
+
+  @ApiProperty({ example: 150, description: 'Charge for the slab (PKR)' })
+  @IsNumber()
+  @Min(0)
+  rate: number;
+}
+
+export class RateCardZoneDto {
+  @ApiProperty({ example: 'Within City', description: 'Zone name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    example: ['Karachi'],
+    description: 'Cities in this zone; may be empty for the default zone',
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  cities: string[];
+
+  @ApiProperty({ type: [RateCardWeightSlabDto], description: 'Weight slabs' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RateCardWeightSlabDto)
+  slabs: RateCardWeightSlabDto[];
+
+  @ApiProperty({
+    example: 120,
+    description: 'Charge per started KG above the heaviest slab (PKR)',
+  })
+  @IsNumber()
+  @Min(0)
+  additionalKgRate: number;
+}
+
+export class CreateRateCardDto {
+  @ApiProperty({ example: 'TCS 2024 tariff', description: 'Rate card name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ type: [RateCardZoneDto], description: 'Delivery zones' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RateCardZoneDto)
+  zones: RateCardZoneDto[];
+
+  @ApiProperty({
+    example: 'Nationwide',
+    description: 'Zone used for cities not listed in any zone',
+  })
+  @IsString()
+  @IsNotEmpty()
+  defaultZone: string;
+
+  @ApiProperty({ example: 10, description: 'Overland surcharge (%)', required: false })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  overlandSurchargePercent?: number;
+
+  @ApiProperty({ example: 15, description: 'Fuel surcharge (%)', required: false })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  fuelSurchargePercent?: number;
+
+  @ApiProperty({
+    example: '2024-01-01',
+    description: 'Tariff start date; defaults to today',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  effectiveFrom?: string;
+}
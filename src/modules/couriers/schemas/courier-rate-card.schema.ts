@@ -0,0 +1,120 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export interface RateCardWeightSlab {
+  maxWeightKg: number; // Slab covers weights up to and including this
+  rate: number;
+}
+
+export interface RateCardZone {
+  name: string;
+  cities: string[]; // Matched case-insensitively against the shipment city
+  slabs: RateCardWeightSlab[]; // Ascending by maxWeightKg
+  additionalKgRate: number; // Per started KG above the heaviest slab
+}
+
+/**
+ * A courier's tariff. Only one card per courier is active; creating a card
+ * replaces the previous one, which is kept for shipments already costed with it.
+ */
+@Schema({ timestamps: true })
+export class CourierRateCard extends Document {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', description: 'Courier ID' })
+  @Prop({ type: Types.ObjectId, ref: 'Courier', required: true, index: true })
+  courierId: Types.ObjectId;
+
+  @ApiProperty({ example: 'TCS 2024 tariff', description: 'Rate card name' })
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @ApiProperty({
+    example: [
+      {
+        name: 'Within City',
+        cities: ['Karachi'],
+        slabs: [
+          { maxWeightKg: 0.5, rate: 150 },
+          { maxWeightKg: 1, rate: 200 },
+        ],
+        additionalKgRate: 120,
+      },
+      {
+        name: 'Nationwide',
+        cities: [],
+        slabs: [
+          { maxWeightKg: 0.5, rate: 220 },
+          { maxWeightKg: 1, rate: 300 },
+        ],
+        additionalKgRate: 180,
+      },
+    ],
+    description: 'Delivery zones with their weight slabs',
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        cities: { type: [String], default: [] },
+        slabs: [
+          {
+            _id: false,
+            maxWeightKg: { type: Number, required: true, min: 0 },
+            rate: { type: Number, required: true, min: 0 },
+          },
+        ],
+        additionalKgRate: { type: Number, default: 0, min: 0 },
+      },
+    ],
+    required: true,
+  })
+  zones: RateCardZone[];
+
+  @ApiProperty({
+    example: 'Nationwide',
+    description: 'Zone used for cities not listed in any zone',
+  })
+  @Prop({ required: true, trim: true })
+  defaultZone: string;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Percentage added to the weight charge of overland shipments',
+  })
+  @Prop({ default: 0, min: 0 })
+  overlandSurchargePercent: number;
+
+  @ApiProperty({
+    example: 15,
+    description: 'Fuel surcharge percentage on the weight charge and overland surcharge',
+  })
+  @Prop({ default: 0, min: 0 })
+  fuelSurchargePercent: number;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Tariff start date; shipments booked from then on use this card',
+  })
+  @Prop({ required: true })
+  effectiveFrom: Date;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierRateCardSchema = SchemaFactory.createForClass(CourierRateCard);
+
+// Indexes
+CourierRateCardSchema.index({ courierId: 1, effectiveFrom: -1, createdAt: -1 });
+CourierRateCardSchema.index({ courierId: 1, createdAt: -1 });
@@ -2,6 +2,10 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { CourierType } from '@common/enums/courier-type.enum';
+import { MASKED_CREDENTIAL } from '@common/utils/credential-encryption.util';
+
+// Stored encrypted and masked whenever a courier is serialized
+export const COURIER_CREDENTIAL_FIELDS = ['apiKey', 'apiSecret', 'apiToken'] as const;
 
 @Schema({ timestamps: true })
 export class Courier extends Document {
@@ -26,14 +30,34 @@ export class Courier extends Document {
   @Prop({ trim: true })
   apiUrl?: string;
 
-  @ApiProperty({ example: 'api_key_123456', description: 'API key for authentication', required: false })
+  @ApiProperty({
+    example: MASKED_CREDENTIAL,
+    description: 'API key for authentication (encrypted; always masked)',
+    required: false,
+  })
   @Prop({ trim: true })
   apiKey?: string;
 
-  @ApiProperty({ example: 'api_secret_123456', description: 'API secret for authentication', required: false })
+  @ApiProperty({
+    example: MASKED_CREDENTIAL,
+    description: 'API secret for authentication (encrypted; always masked)',
+    required: false,
+  })
   @Prop({ trim: true })
   apiSecret?: string;
 
+  @ApiProperty({
+    example: MASKED_CREDENTIAL,
+    description: 'API bearer token, used by TCS (encrypted; always masked)',
+    required: false,
+  })
+  @Prop({ trim: true })
+  apiToken?: string;
+
+  // Authenticates the courier's status webhooks; never returned by the API
+  @Prop({ trim: true, select: false })
+  webhookSecret?: string;
+
   @ApiProperty({ example: '+92-321-1234567', description: 'Contact phone number', required: false })
   @Prop({ trim: true })
   contactPhone?: string;
@@ -66,6 +90,18 @@ export class Courier extends Document {
 
 export const CourierSchema = SchemaFactory.createForClass(Courier);
 
+// Never return credentials, even encrypted
+CourierSchema.set('toJSON', {
+  transform: function (doc, ret) {
+    for (const field of COURIER_CREDENTIAL_FIELDS) {
+      if (ret[field]) {
+        ret[field] = MASKED_CREDENTIAL;
+      }
+    }
+    return ret;
+  },
+});
+
 // Indexes
 CourierSchema.index({ courierType: 1, isDeleted: 1 });
 CourierSchema.index({ isActive: 1, isDeleted: 1 });
@@ -0,0 +1,82 @@
+import { Types } from 'mongoose';
+import { calculateShippingCost, findRateCardZone } from './shipping-cost.util';
+import { CourierRateCard } from '../schemas/courier-rate-card.schema';
+
+function buildRateCard(overrides: Partial<CourierRateCard> = {}) {
+  return {
+    _id: new Types.ObjectId(),
+    zones: [
+      {
+        name: 'Within City',
+        cities: ['Karachi'],
+        slabs: [
+          { maxWeightKg: 1, rate: 200 },
+          { maxWeightKg: 0.5, rate: 150 },
+        ],
+        additionalKgRate: 120,
+      },
+      {
+        name: 'Nationwide',
+        cities: [],
+        slabs: [
+          { maxWeightKg: 0.5, rate: 220 },
+          { maxWeightKg: 1, rate: 300 },
+        ],
+        additionalKgRate: 180,
+      },
+    ],
+    defaultZone: 'Nationwide',
+    overlandSurchargePercent: 10,
+    fuelSurchargePercent: 15,
+    ...overrides,
+  } as unknown as CourierRateCard;
+}
+
+describe('shipping-cost.util', () => {
+  describe('findRateCardZone', () => {
+    it('matches cities ignoring case and spaces', () => {
+      expect(findRateCardZone(buildRateCard(), ' karachi ')?.name).toBe('Within City');
+    });
+
+    it('falls back to the default zone', () => {
+      expect(findRateCardZone(buildRateCard(), 'Quetta')?.name).toBe('Nationwide');
+    });
+  });
+
+  describe('calculateShippingCost', () => {
+    it('charges the first slab that covers the weight', () => {
+      expect(calculateShippingCost(buildRateCard(), 'Karachi', 0.8)).toMatchObject({
+        zone: 'Within City',
+        chargeableWeightKg: 0.8,
+        weightCharge: 200,
+        overlandSurcharge: 0,
+        fuelSurcharge: 30,
+        estimatedCost: 230,
+      });
+    });
+
+    it('charges the lightest slab without a weight', () => {
+      expect(calculateShippingCost(buildRateCard(), 'Karachi')).toMatchObject({
+        chargeableWeightKg: 0.5,
+        weightCharge: 150,
+      });
+    });
+
+    it('adds every started KG above the heaviest slab and the overland surcharge', () => {
+      // 300 + 2 * 180 = 660, overland 66, fuel 15% of 726
+      expect(calculateShippingCost(buildRateCard(), 'Lahore', 2.3, true)).toMatchObject({
+        zone: 'Nationwide',
+        weightCharge: 660,
+        overlandSurcharge: 66,
+        fuelSurcharge: 108.9,
+        estimatedCost: 834.9,
+      });
+    });
+
+    it('returns null when the city falls in no zone', () => {
+      const rateCard = buildRateCard({ defaultZone: 'Overseas' });
+
+      expect(calculateShippingCost(rateCard, 'Quetta', 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Types } from 'mongoose';
+import { CourierRateCard, RateCardZone } from '../schemas/courier-rate-card.schema';
+
+/**
+ * How a shipment's estimated cost was worked out from a rate card
+ */
+export interface ShippingCostBreakdown {
+  rateCardId: Types.ObjectId;
+  zone: string;
+  chargeableWeightKg: number;
+  weightCharge: number;
+  overlandSurcharge: number;
+  fuelSurcharge: number;
+  estimatedCost: number;
+}
+
+/**
+ * Find the zone a city falls in, falling back to the card's default zone
+ */
+export function findRateCardZone(
+  rateCard: CourierRateCard,
+  city: string,
+): RateCardZone | undefined {
+  const normalizedCity = (city || '').trim().toLowerCase();
+
+  return (
+    rateCard.zones.find((zone) =>
+      zone.cities.some((zoneCity) => zoneCity.trim().toLowerCase() === normalizedCity),
+    ) || rateCard.zones.find((zone) => zone.name === rateCard.defaultZone)
+  );
+}
+
+/**
+ * Estimate the cost of a shipment. Without a weight the lightest slab is charged.
+ * Returns null when the city falls in no zone.
+ */
+export function calculateShippingCost(
+  rateCard: CourierRateCard,
+  city: string,
+  weightInKg?: number,
+  overland = false,
+): ShippingCostBreakdown | null {
+  const zone = findRateCardZone(rateCard, city);
+  if (!zone || !zone.slabs.length) {
+    return null;
+  }
+
+  const slabs = [...zone.slabs].sort((a, b) => a.maxWeightKg - b.maxWeightKg);
+  const heaviestSlab = slabs[slabs.length - 1];
+  const chargeableWeightKg =
+    weightInKg && weightInKg > 0 ? weightInKg : slabs[0].maxWeightKg;
+
+  const slab = slabs.find((candidate) => chargeableWeightKg <= candidate.maxWeightKg);
+  const weightCharge = slab
+    ? slab.rate
+    : heaviestSlab.rate +
+      Math.ceil(chargeableWeightKg - heaviestSlab.maxWeightKg) * zone.additionalKgRate;
+
+  const overlandSurcharge = overland
+    ? (weightCharge * rateCard.overlandSurchargePercent) / 100
+    : 0;
+  const fuelSurcharge =
+    ((weightCharge + overlandSurcharge) * rateCard.fuelSurchargePercent) / 100;
+
+  return {
+    rateCardId: rateCard._id as Types.ObjectId,
+    zone: zone.name,
+    chargeableWeightKg,
+    weightCharge: roundAmount(weightCharge),
+    overlandSurcharge: roundAmount(overlandSurcharge),
+    fuelSurcharge: roundAmount(fuelSurcharge),
+    estimatedCost: roundAmount(weightCharge + overlandSurcharge + fuelSurcharge),
+  };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
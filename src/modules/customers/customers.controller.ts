@@ -0,0 +1,112 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CustomersService } from './customers.service';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+
+@ApiTags('Customers')
+@ApiBearerAuth('JWT-auth')
+@Controller('customers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CustomersController {
+  constructor(private readonly customersService: CustomersService) {}
+
+  @Get(':cnic')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Get a customer profile by CNIC across all banks',
+    description:
+      'Bank and BIP orders, phone numbers and addresses over time, shipments, delivery challans and comments, with flagged mismatches such as the same CNIC under different names.',
+  })
+  @ApiParam({
+    name: 'cnic',
+    description: 'Customer CNIC, with or without dashes',
+    example: '42101-1234567-1',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer profile',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          cnic: '42101-1234567-1',
+          names: ['John Doe', 'Jon Doe'],
+          phones: [
+            {
+              value: '03001234567',
+              firstSeen: '2024-01-10T00:00:00.000Z',
+              lastSeen: '2024-03-02T00:00:00.000Z',
+              seenCount: 3,
+            },
+          ],
+          addresses: [
+            {
+              value: 'House 12, Street 4, DHA Phase 5',
+              city: 'Karachi',
+              firstSeen: '2024-01-10T00:00:00.000Z',
+              lastSeen: '2024-03-02T00:00:00.000Z',
+              seenCount: 2,
+            },
+          ],
+          summary: {
+            totalOrders: 2,
+            bankOrders: 1,
+            bipOrders: 1,
+            banks: ['HBL', 'UBL'],
+            firstOrderDate: '2024-01-10T00:00:00.000Z',
+            lastOrderDate: '2024-03-02T00:00:00.000Z',
+          },
+          orders: [
+            {
+              _id: '65a1b2c3d4e5f6a7b8c9d0e1',
+              orderType: 'bip',
+              bank: 'UBL',
+              reference: 'EFORM-2024-001',
+              poNumber: 'PO-2024-010',
+              customerName: 'Jon Doe',
+              product: 'Galaxy S24',
+              giftCode: 'GIFT2024ABC',
+              qty: 1,
+              status: 'dispatched',
+              orderDate: '2024-03-02T00:00:00.000Z',
+              shipmentId: '65a1b2c3d4e5f6a7b8c9d0e9',
+            },
+          ],
+          shipments: [],
+          deliveryChallans: [],
+          comments: [
+            {
+              orderType: 'bank_order',
+              orderId: '65a1b2c3d4e5f6a7b8c9d0e2',
+              reference: 'REF-2024-001',
+              comment: 'Customer asked to deliver after 5pm',
+              timestamp: '2024-01-12T10:30:00.000Z',
+              source: 'user',
+            },
+          ],
+          mismatches: [
+            {
+              field: 'customerName',
+              message: 'Same CNIC is used with 2 different names',
+              values: ['John Doe', 'Jon Doe'],
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid CNIC' })
+  @ApiResponse({ status: 404, description: 'No orders found for the CNIC' })
+  getProfile(@Param('cnic') cnic: string) {
+    return this.customersService.getProfile(cnic);
+  }
+}
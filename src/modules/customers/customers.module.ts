@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CustomersController } from './customers.controller';
+import { CustomersService } from './customers.service';
+import {
+  BankOrder,
+  BankOrderSchema,
+} from '@modules/bank-orders/schemas/bank-order.schema';
+import { Bip, BipSchema } from '@modules/bip/schemas/bip.schema';
+import { Shipment, ShipmentSchema } from '@modules/shipments/schemas/shipment.schema';
+import {
+  DeliveryChallan,
+  DeliveryChallanSchema,
+} from '@modules/delivery-challans/schemas/delivery-challan.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: BankOrder.name, schema: BankOrderSchema },
+      { name: Bip.name, schema: BipSchema },
+      { name: Shipment.name, schema: ShipmentSchema },
+      { name: DeliveryChallan.name, schema: DeliveryChallanSchema },
+    ]),
+  ],
+  controllers: [CustomersController],
+  providers: [CustomersService],
+})
+export class CustomersModule {}
@@ -0,0 +1,303 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { BankOrder } from '@modules/bank-orders/schemas/bank-order.schema';
+import { Bip } from '@modules/bip/schemas/bip.schema';
+import { Shipment } from '@modules/shipments/schemas/shipment.schema';
+import { DeliveryChallan } from '@modules/delivery-challans/schemas/delivery-challan.schema';
+import { ProductType } from '@common/enums/product-type.enum';
+import {
+  CustomerComment,
+  CustomerContactEntry,
+  CustomerMismatch,
+  CustomerOrderSummary,
+  CustomerProfile,
+} from './interfaces/customer-profile.interface';
+
+@Injectable()
+export class CustomersService {
+  constructor(
+    @InjectModel(BankOrder.name) private bankOrderModel: Model<BankOrder>,
+    @InjectModel(Bip.name) private bipModel: Model<Bip>,
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    @InjectModel(DeliveryChallan.name)
+    private deliveryChallanModel: Model<DeliveryChallan>,
+  ) {}
+
+  /**
+   * Everything known about a customer across banks: bank and BIP orders,
+   * shipments, challans and comments, plus data that does not agree
+   */
+  async getProfile(cnic: string): Promise<CustomerProfile> {
+    const cnicValues = this.getCnicVariants(cnic);
+
+    const [bankOrders, bipOrders] = await Promise.all([
+      this.bankOrderModel
+        .find({ cnic: { $in: cnicValues }, isDeleted: false })
+        .populate('bankId', 'bankName')
+        .populate('comments.performedBy', 'firstName lastName email')
+        .sort({ orderDate: -1 })
+        .lean()
+        .exec(),
+      this.bipModel
+        .find({ cnic: { $in: cnicValues }, isDeleted: false })
+        .populate('bankId', 'bankName')
+        .populate('comments.performedBy', 'firstName lastName email')
+        .sort({ orderDate: -1 })
+        .lean()
+        .exec(),
+    ]);
+
+    if (bankOrders.length === 0 && bipOrders.length === 0) {
+      throw new NotFoundException(`No orders found for CNIC ${cnic}`);
+    }
+
+    const bankOrderIds = bankOrders.map((order) => order._id);
+    const bipOrderIds = bipOrders.map((order) => order._id);
+
+    // Shipments and challans are linked to the orders, and also matched on CNIC
+    // so records attached to another customer's order still show up
+    const [shipments, deliveryChallans] = await Promise.all([
+      this.shipmentModel
+        .find({
+          isDeleted: false,
+          $or: [
+            { bankOrderId: { $in: bankOrderIds } },
+            { bipOrderId: { $in: bipOrderIds } },
+            { customerCnic: { $in: cnicValues } },
+          ],
+        })
+        .populate('courierId', 'courierName courierType')
+        .sort({ bookingDate: -1 })
+        .lean()
+        .exec(),
+      this.deliveryChallanModel
+        .find({
+          isDeleted: false,
+          $or: [
+            { bankOrderId: { $in: bankOrderIds } },
+            { bipOrderId: { $in: bipOrderIds } },
+            { customerCnic: { $in: cnicValues } },
+          ],
+        })
+        .select('-pdfURLPath')
+        .sort({ challanDate: -1 })
+        .lean()
+        .exec(),
+    ]);
+
+    const orders: CustomerOrderSummary[] = [
+      ...bankOrders.map((order: any) => ({
+        _id: order._id.toString(),
+        orderType: ProductType.BANK_ORDER,
+        bank: order.bankId?.bankName,
+        reference: order.refNo,
+        poNumber: order.poNumber,
+        customerName: order.customerName,
+        product: order.product,
+        giftCode: order.giftCode,
+        qty: order.qty,
+        status: order.status,
+        orderDate: order.orderDate,
+        shipmentId: order.shipmentId?.toString(),
+      })),
+      ...bipOrders.map((order: any) => ({
+        _id: order._id.toString(),
+        orderType: ProductType.BIP,
+        bank: order.bankId?.bankName,
+        reference: order.eforms,
+        poNumber: order.poNumber,
+        customerName: order.customerName,
+        product: order.product,
+        giftCode: order.giftCode,
+        qty: order.qty,
+        status: order.status,
+        orderDate: order.orderDate,
+        shipmentId: order.shipmentId?.toString(),
+      })),
+    ].sort((a, b) => this.timeOf(b.orderDate) - this.timeOf(a.orderDate));
+
+    // Phone numbers and addresses over time, from the orders and their shipments
+    const phones = new Map<string, CustomerContactEntry>();
+    const addresses = new Map<string, CustomerContactEntry>();
+
+    bankOrders.forEach((order) => {
+      [order.mobile1, order.mobile2, order.phone1, order.phone2].forEach((phone) =>
+        this.addContact(phones, phone, order.orderDate),
+      );
+      this.addContact(addresses, order.address, order.orderDate, order.city);
+    });
+    bipOrders.forEach((order) => {
+      this.addContact(phones, order.mobile1, order.orderDate);
+      this.addContact(addresses, order.address, order.orderDate, order.city);
+    });
+    shipments.forEach((shipment) => {
+      this.addContact(phones, shipment.customerPhone, shipment.bookingDate);
+      this.addContact(addresses, shipment.address, shipment.bookingDate, shipment.city);
+    });
+
+    const comments: CustomerComment[] = [
+      ...bankOrders.flatMap((order) =>
+        (order.comments || []).map((comment) => ({
+          orderType: ProductType.BANK_ORDER,
+          orderId: order._id.toString(),
+          reference: order.refNo,
+          ...comment,
+        })),
+      ),
+      ...bipOrders.flatMap((order) =>
+        (order.comments || []).map((comment) => ({
+          orderType: ProductType.BIP,
+          orderId: order._id.toString(),
+          reference: order.eforms,
+          ...comment,
+        })),
+      ),
+    ].sort((a, b) => this.timeOf(b.timestamp) - this.timeOf(a.timestamp));
+
+    const orderDates = orders
+      .map((order) => order.orderDate)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => this.timeOf(a) - this.timeOf(b));
+
+    return {
+      cnic: cnic.trim(),
+      names: Array.from(new Set(orders.map((order) => order.customerName.trim()))),
+      phones: this.sortByLastSeen(phones),
+      addresses: this.sortByLastSeen(addresses),
+      summary: {
+        totalOrders: orders.length,
+        bankOrders: bankOrders.length,
+        bipOrders: bipOrders.length,
+        banks: Array.from(
+          new Set(
+            orders.map((order) => order.bank).filter((bank): bank is string => !!bank),
+          ),
+        ),
+        firstOrderDate: orderDates[0],
+        lastOrderDate: orderDates[orderDates.length - 1],
+      },
+      orders,
+      shipments,
+      deliveryChallans,
+      comments,
+      mismatches: this.findMismatches(cnicValues, orders, shipments, deliveryChallans),
+    };
+  }
+
+  /**
+   * Flag names that differ across the customer's records, and shipments or challans
+   * of the customer's orders that carry another CNIC
+   */
+  private findMismatches(
+    cnicValues: string[],
+    orders: CustomerOrderSummary[],
+    shipments: any[],
+    deliveryChallans: any[],
+  ): CustomerMismatch[] {
+    const mismatches: CustomerMismatch[] = [];
+
+    // Names are compared ignoring case and spacing
+    const namesByKey = new Map<string, string>();
+    [
+      ...orders.map((order) => order.customerName),
+      ...shipments.map((shipment) => shipment.customerName),
+      ...deliveryChallans.map((challan) => challan.customerName),
+    ]
+      .filter((name) => name && String(name).trim())
+      .forEach((name) => {
+        const key = this.normalizeName(name);
+        if (!namesByKey.has(key)) {
+          namesByKey.set(key, String(name).trim());
+        }
+      });
+
+    if (namesByKey.size > 1) {
+      const values = Array.from(namesByKey.values());
+      mismatches.push({
+        field: 'customerName',
+        message: `Same CNIC is used with ${values.length} different names`,
+        values,
+      });
+    }
+
+    const otherCnics = new Set<string>();
+    [...shipments, ...deliveryChallans].forEach((record) => {
+      const recordCnic = record.customerCnic && String(record.customerCnic).trim();
+      if (recordCnic && !cnicValues.includes(recordCnic)) {
+        otherCnics.add(recordCnic);
+      }
+    });
+
+    if (otherCnics.size > 0) {
+      mismatches.push({
+        field: 'cnic',
+        message: "Shipments or challans of this customer's orders carry a different CNIC",
+        values: Array.from(otherCnics),
+      });
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * CNICs are stored as entered, with or without dashes, so both forms are matched
+   */
+  private getCnicVariants(cnic: string): string[] {
+    const value = String(cnic || '').trim();
+    const digits = value.replace(/\D/g, '');
+
+    if (digits.length !== 13) {
+      throw new BadRequestException('CNIC must have 13 digits, e.g. 42101-1234567-1');
+    }
+
+    const dashed = `${digits.slice(0, 5)}-${digits.slice(5, 12)}-${digits.slice(12)}`;
+
+    return Array.from(new Set([value, digits, dashed]));
+  }
+
+  private addContact(
+    entries: Map<string, CustomerContactEntry>,
+    value: string | undefined,
+    seenAt?: Date,
+    city?: string,
+  ) {
+    const trimmed = value ? String(value).trim() : '';
+    if (!trimmed) {
+      return;
+    }
+
+    const key = `${trimmed.toLowerCase()}|${(city || '').trim().toLowerCase()}`;
+    const entry = entries.get(key) || {
+      value: trimmed,
+      ...(city && { city: city.trim() }),
+      seenCount: 0,
+    };
+
+    entry.seenCount++;
+    if (seenAt) {
+      if (!entry.firstSeen || this.timeOf(seenAt) < this.timeOf(entry.firstSeen)) {
+        entry.firstSeen = seenAt;
+      }
+      if (!entry.lastSeen || this.timeOf(seenAt) > this.timeOf(entry.lastSeen)) {
+        entry.lastSeen = seenAt;
+      }
+    }
+
+    entries.set(key, entry);
+  }
+
+  private sortByLastSeen(entries: Map<string, CustomerContactEntry>) {
+    return Array.from(entries.values()).sort(
+      (a, b) => this.timeOf(b.lastSeen) - this.timeOf(a.lastSeen),
+    );
+  }
+
+  private normalizeName(name: string): string {
+    return String(name).trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private timeOf(date?: Date | string): number {
+    return date ? new Date(date).getTime() : 0;
+  }
+}
@@ -0,0 +1,75 @@
+import { ProductType } from '@common/enums/product-type.enum';
+import { ChangeSource } from '@common/enums/change-source.enum';
+
+/**
+ * A phone number or address seen on the customer's records, with when it was used
+ */
+export interface CustomerContactEntry {
+  value: string;
+  city?: string;
+  firstSeen?: Date;
+  lastSeen?: Date;
+  // Orders and shipments the value appears on
+  seenCount: number;
+}
+
+/**
+ * One bank or BIP order of the customer
+ */
+export interface CustomerOrderSummary {
+  _id: string;
+  orderType: ProductType;
+  bank?: string;
+  // Ref No. for bank orders, EFORMS for BIP orders
+  reference: string;
+  poNumber: string;
+  customerName: string;
+  product: string;
+  giftCode: string;
+  qty: number;
+  status: string;
+  orderDate?: Date;
+  shipmentId?: string;
+}
+
+/**
+ * A comment left on one of the customer's orders
+ */
+export interface CustomerComment {
+  orderType: ProductType;
+  orderId: string;
+  reference: string;
+  comment: string;
+  timestamp: Date;
+  performedBy?: any;
+  source?: ChangeSource;
+}
+
+/**
+ * Data that does not agree across the customer's records
+ */
+export interface CustomerMismatch {
+  field: 'customerName' | 'cnic';
+  message: string;
+  values: string[];
+}
+
+export interface CustomerProfile {
+  cnic: string;
+  names: string[];
+  phones: CustomerContactEntry[];
+  addresses: CustomerContactEntry[];
+  summary: {
+    totalOrders: number;
+    bankOrders: number;
+    bipOrders: number;
+    banks: string[];
+    firstOrderDate?: Date;
+    lastOrderDate?: Date;
+  };
+  orders: CustomerOrderSummary[];
+  shipments: any[];
+  deliveryChallans: any[];
+  comments: CustomerComment[];
+  mismatches: CustomerMismatch[];
+}
@@ -575,7 +575,7 @@ export class DashboardService {
                 {
                   $in: [
                     '$status',
-                    ['in_transit', 'out_for_delivery', 'delivered'],
+                    ['picked_up', 'in_transit', 'out_for_delivery', 'delivered'],
                   ],
                 },
                 1,
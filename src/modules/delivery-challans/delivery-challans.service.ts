@@ -720,6 +720,19 @@ export class DeliveryChallansService {
     return { mergedPDF, challanIds };
   }
 
+  /**
+   * Merge the challans of the given orders and upload the merged PDF to S3
+   */
+  async uploadMergedChallans(
+    dto: BulkDownloadChallansDto,
+    fileName: string,
+  ): Promise<{ pdfURLPath: string; challanIds: string[] }> {
+    const { mergedPDF, challanIds } = await this.bulkDownloadChallans(dto);
+    const pdfURLPath = await this.s3Service.uploadMergedChallanPDF(mergedPDF, fileName);
+
+    return { pdfURLPath, challanIds };
+  }
+
   /**
    * Generate PDF for a given challan (helper method)
    */
@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ColumnMappingsService } from './column-mappings.service';
+import { ColumnMapping } from './schemas/column-mapping.schema';
+import { CreateColumnMappingDto } from './dto/create-column-mapping.dto';
+import { UpdateColumnMappingDto } from './dto/update-column-mapping.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+import { ProductType } from '@common/enums/product-type.enum';
+
+@ApiTags('Import Column Mappings')
+@ApiBearerAuth('JWT-auth')
+@Controller('imports/column-mappings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ColumnMappingsController {
+  constructor(private readonly columnMappingsService: ColumnMappingsService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a column mapping for a bank (Admin only)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Column mapping created',
+    type: ColumnMapping,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown or duplicate fields' })
+  @ApiResponse({ status: 404, description: 'Bank not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A mapping already exists for this bank and order type',
+  })
+  create(
+    @Body() createColumnMappingDto: CreateColumnMappingDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.columnMappingsService.create(createColumnMappingDto, userId);
+  }
+
+  @Post('suggest')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: "Suggest a mapping from an uploaded sheet's header row" })
+  @ApiConsumes('multipart/form-data')
+  @ApiQuery({ name: 'orderType', required: true, enum: ProductType })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Excel file (.xlsx or .xls)',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Suggested mapping, with headers that could not be matched',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          orderType: 'bank_order',
+          headers: ['Customer Full Name', 'NIC', 'Cell No', 'Remarks'],
+          columns: [
+            { source: 'Customer Full Name', field: 'CUSTOMER_NAME' },
+            { source: 'NIC', field: 'CNIC' },
+            { source: 'Cell No', field: 'MOBILE1' },
+          ],
+          unmappedHeaders: ['Remarks'],
+          missingRequiredFields: ['ADDRESS', 'CITY'],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file or order type' })
+  suggest(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('orderType') orderType: ProductType,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.columnMappingsService.suggestMapping(file, orderType);
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'List column mappings' })
+  @ApiQuery({
+    name: 'bankId',
+    required: false,
+    type: String,
+    description: 'Filter by bank',
+  })
+  @ApiQuery({ name: 'orderType', required: false, enum: ProductType })
+  @ApiResponse({
+    status: 200,
+    description: 'List of column mappings',
+    type: [ColumnMapping],
+  })
+  findAll(@Query('bankId') bankId?: string, @Query('orderType') orderType?: string) {
+    return this.columnMappingsService.findAll(bankId, orderType);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'Get a column mapping by ID' })
+  @ApiParam({ name: 'id', description: 'Column mapping MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Column mapping data', type: ColumnMapping })
+  @ApiResponse({ status: 404, description: 'Column mapping not found' })
+  findOne(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.columnMappingsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update a column mapping (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Column mapping MongoDB ObjectId' })
+  @ApiResponse({
+    status: 200,
+    description: 'Column mapping updated',
+    type: ColumnMapping,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown or duplicate fields' })
+  @ApiResponse({ status: 404, description: 'Column mapping not found' })
+  update(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateColumnMappingDto: UpdateColumnMappingDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.columnMappingsService.update(id, updateColumnMappingDto, userId);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a column mapping (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Column mapping MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Column mapping deleted' })
+  @ApiResponse({ status: 404, description: 'Column mapping not found' })
+  remove(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.columnMappingsService.remove(id);
+  }
+}
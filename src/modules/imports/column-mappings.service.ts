@@ -0,0 +1,335 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import {
+  ColumnMapping,
+  ColumnMappingEntry,
+  ColumnMappingTransforms,
+} from './schemas/column-mapping.schema';
+import { CreateColumnMappingDto } from './dto/create-column-mapping.dto';
+import { UpdateColumnMappingDto } from './dto/update-column-mapping.dto';
+import { ImportFile } from './interfaces/import.interface';
+import { ImportColumn, IMPORT_COLUMNS } from './constants/import-columns.constant';
+import {
+  cleanPhoneNumber,
+  normalizeHeader,
+  parseDateWithFormat,
+} from './utils/import-transform.util';
+import { readImportWorkbook } from './utils/import-file.util';
+import { ProductType } from '@common/enums/product-type.enum';
+
+export interface SuggestedColumnMapping {
+  orderType: ProductType;
+  headers: string[];
+  columns: ColumnMappingEntry[];
+  unmappedHeaders: string[];
+  missingRequiredFields: string[];
+}
+
+@Injectable()
+export class ColumnMappingsService {
+  constructor(
+    @InjectModel(ColumnMapping.name) private columnMappingModel: Model<ColumnMapping>,
+    @InjectModel('Bank') private bankModel: Model<any>,
+  ) {}
+
+  async create(
+    createColumnMappingDto: CreateColumnMappingDto,
+    userId?: string,
+  ): Promise<ColumnMapping> {
+    const { bankId, orderType, columns, transforms } = createColumnMappingDto;
+
+    await this.assertBankExists(bankId);
+    this.validateColumns(columns, orderType);
+
+    const existingMapping = await this.columnMappingModel.findOne({
+      bankId: new Types.ObjectId(bankId),
+      orderType: orderType || null,
+      isDeleted: false,
+    });
+
+    if (existingMapping) {
+      throw new ConflictException(
+        orderType
+          ? `A ${orderType} column mapping already exists for this bank`
+          : 'A default column mapping already exists for this bank',
+      );
+    }
+
+    return this.columnMappingModel.create({
+      bankId: new Types.ObjectId(bankId),
+      orderType: orderType || null,
+      columns,
+      transforms: transforms || {},
+      updatedBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+  }
+
+  async findAll(bankId?: string, orderType?: string): Promise<ColumnMapping[]> {
+    const query: any = { isDeleted: false };
+
+    if (bankId && Types.ObjectId.isValid(bankId)) {
+      query.bankId = new Types.ObjectId(bankId);
+    }
+
+    if (orderType && orderType.trim()) {
+      query.orderType = orderType.trim();
+    }
+
+    return this.columnMappingModel
+      .find(query)
+      .populate('bankId', 'bankName')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(id: string): Promise<ColumnMapping> {
+    const mapping = await this.columnMappingModel
+      .findOne({ _id: id, isDeleted: false })
+      .populate('bankId', 'bankName')
+      .exec();
+
+    if (!mapping) {
+      throw new NotFoundException(`Column mapping with ID ${id} not found`);
+    }
+
+    return mapping;
+  }
+
+  async update(
+    id: string,
+    updateColumnMappingDto: UpdateColumnMappingDto,
+    userId?: string,
+  ): Promise<ColumnMapping> {
+    const mapping = await this.columnMappingModel.findOne({ _id: id, isDeleted: false });
+
+    if (!mapping) {
+      throw new NotFoundException(`Column mapping with ID ${id} not found`);
+    }
+
+    if (updateColumnMappingDto.columns) {
+      this.validateColumns(updateColumnMappingDto.columns, mapping.orderType);
+      mapping.columns = updateColumnMappingDto.columns;
+    }
+
+    if (updateColumnMappingDto.transforms) {
+      mapping.transforms = updateColumnMappingDto.transforms;
+    }
+
+    mapping.updatedBy = userId ? new Types.ObjectId(userId) : mapping.updatedBy;
+    await mapping.save();
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<{ message: string }> {
+    const mapping = await this.columnMappingModel.findOne({ _id: id, isDeleted: false });
+
+    if (!mapping) {
+      throw new NotFoundException(`Column mapping with ID ${id} not found`);
+    }
+
+    // Soft delete
+    await this.columnMappingModel.findByIdAndUpdate(id, { isDeleted: true });
+
+    return { message: 'Column mapping deleted successfully' };
+  }
+
+  /**
+   * Mapping an import should use: the bank's mapping for the order type,
+   * falling back to the bank-wide default
+   */
+  async findForImport(
+    bankId: string,
+    orderType: ProductType,
+  ): Promise<ColumnMapping | null> {
+    const mappings = await this.columnMappingModel
+      .find({
+        bankId: new Types.ObjectId(bankId),
+        orderType: { $in: [orderType, null] },
+        isDeleted: false,
+      })
+      .exec();
+
+    return (
+      mappings.find((mapping) => mapping.orderType === orderType) ||
+      mappings.find((mapping) => !mapping.orderType) ||
+      null
+    );
+  }
+
+  /**
+   * Rename a sheet's columns to the import fields and apply the mapping's transforms.
+   * Columns without a mapping are passed through, so standard headers keep working.
+   */
+  applyMapping<T extends Record<string, any>>(
+    rows: any[],
+    mapping: ColumnMapping,
+    orderType: ProductType,
+  ): T[] {
+    const fieldsBySource = new Map<string, string>();
+    mapping.columns.forEach((column) =>
+      fieldsBySource.set(normalizeHeader(column.source), column.field),
+    );
+
+    const importColumns = IMPORT_COLUMNS[orderType];
+    const transforms: ColumnMappingTransforms = mapping.transforms || {};
+
+    return rows.map((row) => {
+      const mappedRow: Record<string, any> = {};
+
+      Object.keys(row).forEach((header) => {
+        const field = fieldsBySource.get(normalizeHeader(header));
+        if (field) {
+          mappedRow[field] = row[header];
+        } else if (!(header in mappedRow)) {
+          mappedRow[header] = row[header];
+        }
+      });
+
+      importColumns.forEach((column) =>
+        this.applyTransforms(mappedRow, column, transforms),
+      );
+
+      return mappedRow as T;
+    });
+  }
+
+  /**
+   * Suggest a mapping from the header row of an uploaded sheet or CSV file
+   */
+  suggestMapping(file: ImportFile, orderType: ProductType): SuggestedColumnMapping {
+    if (!IMPORT_COLUMNS[orderType]) {
+      throw new BadRequestException(
+        `Order type must be one of: ${Object.values(ProductType).join(', ')}`,
+      );
+    }
+
+    let headers: string[];
+    try {
+      const workbook = readImportWorkbook(file);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const [headerRow] = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+      headers = (headerRow || [])
+        .map((header) => String(header ?? '').trim())
+        .filter((header) => header !== '');
+    } catch (error) {
+      throw new BadRequestException(`Failed to read file: ${error.message}`);
+    }
+
+    if (headers.length === 0) {
+      throw new BadRequestException('The first row of the sheet has no headers');
+    }
+
+    const columns: ColumnMappingEntry[] = [];
+    const usedHeaders = new Set<string>();
+
+    // Exact matches on the field name or an alias take priority over partial matches
+    const passes: Array<(normalized: string, alias: string) => boolean> = [
+      (normalized, alias) => normalized === alias,
+      (normalized, alias) =>
+        alias.length >= 4 &&
+        normalized.length >= 4 &&
+        (normalized.includes(alias) || alias.includes(normalized)),
+    ];
+
+    passes.forEach((matches) => {
+      IMPORT_COLUMNS[orderType].forEach((column) => {
+        if (columns.some((entry) => entry.field === column.field)) {
+          return;
+        }
+
+        const candidates = [normalizeHeader(column.field), ...column.aliases];
+        const header = headers.find(
+          (h) =>
+            !usedHeaders.has(h) &&
+            candidates.some((alias) => matches(normalizeHeader(h), alias)),
+        );
+
+        if (header) {
+          usedHeaders.add(header);
+          columns.push({ source: header, field: column.field });
+        }
+      });
+    });
+
+    return {
+      orderType,
+      headers,
+      columns,
+      unmappedHeaders: headers.filter((header) => !usedHeaders.has(header)),
+      missingRequiredFields: IMPORT_COLUMNS[orderType]
+        .filter((column) => column.required)
+        .filter((column) => !columns.some((entry) => entry.field === column.field))
+        .map((column) => column.field),
+    };
+  }
+
+  private applyTransforms(
+    row: Record<string, any>,
+    column: ImportColumn,
+    transforms: ColumnMappingTransforms,
+  ): void {
+    const value = row[column.field];
+    const isEmpty = value === undefined || value === null || String(value).trim() === '';
+
+    if (column.kind === 'city' && isEmpty && transforms.defaultCity) {
+      row[column.field] = transforms.defaultCity;
+    }
+
+    if (column.kind === 'phone' && !isEmpty && transforms.phoneCleanup) {
+      row[column.field] = cleanPhoneNumber(value);
+    }
+
+    // Excel dates arrive as numbers and are handled by the importer; only text is parsed here
+    if (column.kind === 'date' && typeof value === 'string' && transforms.dateFormat) {
+      row[column.field] = parseDateWithFormat(value, transforms.dateFormat) || value;
+    }
+  }
+
+  private validateColumns(columns: ColumnMappingEntry[], orderType?: ProductType | null) {
+    const allowedFields = new Set(
+      (orderType ? [orderType] : Object.values(ProductType)).flatMap((type) =>
+        IMPORT_COLUMNS[type].map((column) => column.field),
+      ),
+    );
+
+    const unknownFields = columns
+      .map((column) => column.field)
+      .filter((field) => !allowedFields.has(field));
+    if (unknownFields.length > 0) {
+      throw new BadRequestException(
+        `Unknown import field(s): ${unknownFields.join(', ')}. Allowed fields: ${Array.from(allowedFields).join(', ')}`,
+      );
+    }
+
+    const fields = columns.map((column) => column.field);
+    const duplicateFields = fields.filter(
+      (field, index) => fields.indexOf(field) !== index,
+    );
+    if (duplicateFields.length > 0) {
+      throw new BadRequestException(
+        `Each field can only be mapped once: ${Array.from(new Set(duplicateFields)).join(', ')}`,
+      );
+    }
+
+    const sources = columns.map((column) => normalizeHeader(column.source));
+    if (new Set(sources).size !== sources.length) {
+      throw new BadRequestException('Each source header can only be mapped once');
+    }
+  }
+
+  private async assertBankExists(bankId: string): Promise<void> {
+    const bank = await this.bankModel.findOne({ _id: bankId, isDeleted: false });
+
+    if (!bank) {
+      throw new NotFoundException(`Bank with ID ${bankId} not found`);
+    }
+  }
+}
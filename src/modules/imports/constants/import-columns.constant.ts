@@ -0,0 +1,155 @@
+import { ProductType } from '@common/enums/product-type.enum';
+
+export interface ImportColumn {
+  // Header the importer reads the value from
+  field: string;
+  required: boolean;
+  // Normalized header names that usually mean this field, used to suggest mappings
+  aliases: string[];
+  kind?: 'phone' | 'date' | 'city';
+}
+
+const CUSTOMER_COLUMNS: ImportColumn[] = [
+  {
+    field: 'CNIC',
+    required: true,
+    aliases: ['cnic', 'nic', 'cnicno', 'cnicnumber', 'customercnic'],
+  },
+  {
+    field: 'CUSTOMER_NAME',
+    required: true,
+    aliases: ['customername', 'name', 'customer', 'fullname', 'clientname'],
+  },
+  {
+    field: 'MOBILE1',
+    required: true,
+    aliases: [
+      'mobile1',
+      'mobile',
+      'mobileno',
+      'mobilenumber',
+      'cell',
+      'cellno',
+      'contactno',
+    ],
+    kind: 'phone',
+  },
+];
+
+const ADDRESS_COLUMNS: ImportColumn[] = [
+  {
+    field: 'ADDRESS',
+    required: true,
+    aliases: ['address', 'deliveryaddress', 'customeraddress', 'shippingaddress'],
+  },
+  {
+    field: 'CITY',
+    required: true,
+    aliases: ['city', 'town', 'deliverycity'],
+    kind: 'city',
+  },
+];
+
+const PRODUCT_COLUMNS: ImportColumn[] = [
+  {
+    field: 'PRODUCT',
+    required: true,
+    aliases: ['product', 'productname', 'item', 'itemname'],
+  },
+  {
+    field: 'GIFTCODE',
+    required: true,
+    aliases: ['giftcode', 'gift', 'itemcode', 'productcode'],
+  },
+  {
+    field: 'Qty',
+    required: true,
+    aliases: ['qty', 'quantity', 'units'],
+  },
+];
+
+const ORDER_DATE_COLUMN: ImportColumn = {
+  field: 'ORDER DATE',
+  required: true,
+  aliases: ['orderdate', 'date', 'orderedon'],
+  kind: 'date',
+};
+
+const PO_NUMBER_COLUMN: ImportColumn = {
+  field: 'PO #',
+  required: true,
+  aliases: ['po', 'pono', 'ponumber', 'purchaseorder', 'purchaseorderno'],
+};
+
+/**
+ * Columns each importer reads, keyed by the header names of the standard template
+ */
+export const IMPORT_COLUMNS: Record<ProductType, ImportColumn[]> = {
+  [ProductType.BANK_ORDER]: [
+    ...CUSTOMER_COLUMNS,
+    {
+      field: 'MOBILE2',
+      required: false,
+      aliases: ['mobile2', 'alternatemobile', 'secondarymobile'],
+      kind: 'phone',
+    },
+    {
+      field: 'PHONE1',
+      required: false,
+      aliases: ['phone1', 'phone', 'landline', 'telephone'],
+      kind: 'phone',
+    },
+    { field: 'PHONE2', required: false, aliases: ['phone2'], kind: 'phone' },
+    ...ADDRESS_COLUMNS,
+    {
+      field: 'BRAND',
+      required: true,
+      aliases: ['brand', 'make', 'manufacturer'],
+    },
+    ...PRODUCT_COLUMNS,
+    {
+      field: 'Ref No.',
+      required: true,
+      aliases: ['refno', 'ref', 'reference', 'referenceno', 'referencenumber'],
+    },
+    PO_NUMBER_COLUMN,
+    ORDER_DATE_COLUMN,
+    {
+      field: 'Redeemed Points',
+      required: true,
+      aliases: ['redeemedpoints', 'points', 'pointsredeemed'],
+    },
+  ],
+  [ProductType.BIP]: [
+    {
+      field: 'EFORMS',
+      required: true,
+      aliases: ['eforms', 'eform', 'eformno', 'eformnumber', 'formno'],
+    },
+    ...CUSTOMER_COLUMNS,
+    {
+      field: 'authorized_receiver',
+      required: false,
+      aliases: ['authorizedreceiver', 'receiver', 'receivername'],
+    },
+    {
+      field: 'receiver_cnic',
+      required: false,
+      aliases: ['receivercnic', 'authorizedreceivercnic'],
+    },
+    ...ADDRESS_COLUMNS,
+    ...PRODUCT_COLUMNS,
+    PO_NUMBER_COLUMN,
+    ORDER_DATE_COLUMN,
+    {
+      field: 'AMOUNT',
+      required: true,
+      aliases: ['amount', 'price', 'value', 'total'],
+    },
+    {
+      field: 'COLOR',
+      required: false,
+      aliases: ['color', 'colour'],
+    },
+  ],
+};
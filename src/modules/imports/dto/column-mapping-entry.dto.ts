@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ColumnMappingEntryDto {
+  @ApiProperty({ example: 'Customer Full Name', description: 'Header in the bank file' })
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @ApiProperty({ example: 'CUSTOMER_NAME', description: 'Import field it maps to' })
+  @IsString()
+  @IsNotEmpty()
+  field: string;
+}
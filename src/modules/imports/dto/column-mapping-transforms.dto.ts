@@ -0,0 +1,36 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ColumnMappingTransformsDto {
+  @ApiProperty({
+    example: 'DD/MM/YYYY',
+    description:
+      'Format of text dates in the file, built from YYYY/YY, MMM/MM/M and DD/D',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^(?=.*YY)(?=.*M)(?=.*D)[YMD\s./-]+$/, {
+    message: 'dateFormat must contain year, month and day tokens, e.g. DD/MM/YYYY',
+  })
+  dateFormat?: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Strip spaces, dashes and the +92 prefix from phone numbers',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  phoneCleanup?: boolean;
+
+  @ApiProperty({
+    example: 'Karachi',
+    description: 'City used when a row has none',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  defaultCity?: string;
+}
@@ -0,0 +1,48 @@
+import {
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductType } from '@common/enums/product-type.enum';
+import { ColumnMappingEntryDto } from './column-mapping-entry.dto';
+import { ColumnMappingTransformsDto } from './column-mapping-transforms.dto';
+
+export class CreateColumnMappingDto {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank MongoDB ObjectId',
+  })
+  @IsMongoId({ message: 'Invalid bank ID format' })
+  @IsNotEmpty()
+  bankId: string;
+
+  @ApiProperty({
+    example: 'bank_order',
+    description: 'Importer the mapping applies to (omit to use it for both)',
+    enum: ProductType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ProductType)
+  orderType?: ProductType;
+
+  @ApiProperty({
+    type: [ColumnMappingEntryDto],
+    description: 'Source header to field mappings',
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ColumnMappingEntryDto)
+  columns: ColumnMappingEntryDto[];
+
+  @ApiProperty({ type: ColumnMappingTransformsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ColumnMappingTransformsDto)
+  transforms?: ColumnMappingTransformsDto;
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RollbackImportBatchDto {
+  @ApiProperty({
+    example: 'Bank sent the wrong file',
+    description: 'Why the batch is being rolled back',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
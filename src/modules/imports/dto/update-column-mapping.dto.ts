@@ -0,0 +1,28 @@
+import { IsArray, IsOptional, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ColumnMappingEntryDto } from './column-mapping-entry.dto';
+import { ColumnMappingTransformsDto } from './column-mapping-transforms.dto';
+
+export class UpdateColumnMappingDto {
+  @ApiProperty({
+    type: [ColumnMappingEntryDto],
+    description: 'Source header to field mappings (replaces the existing list)',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ColumnMappingEntryDto)
+  columns?: ColumnMappingEntryDto[];
+
+  @ApiProperty({
+    type: ColumnMappingTransformsDto,
+    description: 'Transforms (replaces the existing settings)',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ColumnMappingTransformsDto)
+  transforms?: ColumnMappingTransformsDto;
+}
@@ -0,0 +1,175 @@
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportJobStatus } from './schemas/import-job.schema';
+import { readImportSheets, readImportWorkbook } from './utils/import-file.util';
+import { ProductType } from '@common/enums/product-type.enum';
+
+/**
+ * A workbook with one sheet per branch, each row naming the sheet it came from
+ */
+function buildWorkbook(): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const sheets: Record<string, number> = { Karachi: 2, Lahore: 3, Islamabad: 1 };
+  for (const [sheetName, rowCount] of Object.entries(sheets)) {
+    const rows = Array.from({ length: rowCount }, (_, i) => ({
+      BRANCH: sheetName,
+      ROW: i + 1,
+    }));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheetName);
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/**
+ * Just enough of the ImportJob model for a job to be queued, claimed and finished
+ */
+function createJobModel() {
+  let storedJob: any;
+  const chain = (result: () => any) => {
+    const query: any = {
+      populate: () => query,
+      select: () => query,
+      exec: async () => result(),
+    };
+    return query;
+  };
+
+  return {
+    get storedJob() {
+      return storedJob;
+    },
+    create: jest.fn(async (doc: any) => {
+      storedJob = { ...doc, _id: new Types.ObjectId() };
+      return storedJob;
+    }),
+    find: jest.fn((filter: any) =>
+      chain(() => (storedJob?.status === filter.status ? [storedJob] : [])),
+    ),
+    findById: jest.fn(() => chain(() => storedJob)),
+    // Claims a queued job, or fails a processing one
+    findOneAndUpdate: jest.fn((filter: any, update: any) =>
+      chain(() => {
+        if (!storedJob || storedJob.status !== filter.status) {
+          return null;
+        }
+        storedJob = { ...storedJob, ...update };
+        return storedJob;
+      }),
+    ),
+    findByIdAndUpdate: jest.fn(async () => storedJob),
+  };
+}
+
+describe('ImportJobsService', () => {
+  let jobModel: ReturnType<typeof createJobModel>;
+  let importsService: { failJobBatch: jest.Mock };
+  let service: ImportJobsService;
+  let importedBranches: string[];
+
+  const file = {
+    originalname: 'orders.xlsx',
+    mimetype: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    buffer: buildWorkbook(),
+  };
+
+  beforeEach(() => {
+    jobModel = createJobModel();
+    importsService = { failJobBatch: jest.fn() };
+    service = new ImportJobsService(
+      jobModel as any,
+      new ConfigService({ imports: { jobStaleMinutes: 15 } }),
+      importsService as any,
+    );
+    importedBranches = [];
+
+    // Reads the rows the way the order importers do
+    service.registerProcessor(
+      ProductType.BANK_ORDER,
+      async (jobFile, _b, _u, options) => {
+        const sheets = readImportSheets<{ BRANCH: string }>(
+          readImportWorkbook(jobFile),
+          options,
+        );
+        importedBranches = sheets.flatMap((sheet) => sheet.rows.map((row) => row.BRANCH));
+        return {
+          totalRows: importedBranches.length,
+          successCount: importedBranches.length,
+          failedCount: 0,
+          successRecords: [],
+          failedRecords: [],
+          duplicateCount: 0,
+          updatedCount: 0,
+          duplicateRecords: [],
+        };
+      },
+    );
+  });
+
+  const runQueuedJob = async (options: { sheetName?: string; allSheets?: boolean }) => {
+    await service.createJob(
+      ProductType.BANK_ORDER,
+      new Types.ObjectId().toString(),
+      file,
+      undefined,
+      options,
+    );
+    await (service as any).drainQueue();
+
+    const [, update] = jobModel.findByIdAndUpdate.mock.calls.at(-1) as any[];
+    expect(update.status).toBe(ImportJobStatus.COMPLETED);
+  };
+
+  it('imports the first sheet when none is selected', async () => {
+    await runQueuedJob({});
+    expect(importedBranches).toEqual(['Karachi', 'Karachi']);
+  });
+
+  it('imports only the named sheet', async () => {
+    await runQueuedJob({ sheetName: 'Lahore' });
+    expect(importedBranches).toEqual(['Lahore', 'Lahore', 'Lahore']);
+  });
+
+  it('imports every sheet of an all-sheets upload', async () => {
+    await runQueuedJob({ allSheets: true });
+    expect(importedBranches).toEqual([
+      'Karachi',
+      'Karachi',
+      'Lahore',
+      'Lahore',
+      'Lahore',
+      'Islamabad',
+    ]);
+  });
+
+  it('fails the batch of a job whose import throws', async () => {
+    service.registerProcessor(ProductType.BANK_ORDER, async () => {
+      throw new Error('connection closed');
+    });
+
+    await service.createJob(
+      ProductType.BANK_ORDER,
+      new Types.ObjectId().toString(),
+      file,
+    );
+    await (service as any).drainQueue();
+
+    expect(importsService.failJobBatch).toHaveBeenCalledWith(
+      jobModel.storedJob._id,
+      'connection closed',
+    );
+  });
+
+  it('fails the batch of a job that stopped reporting progress', async () => {
+    await jobModel.create({ status: ImportJobStatus.PROCESSING });
+
+    await (service as any).failStaleJobs();
+
+    expect(jobModel.storedJob.status).toBe(ImportJobStatus.FAILED);
+    expect(importsService.failJobBatch).toHaveBeenCalledWith(
+      jobModel.storedJob._id,
+      expect.stringContaining('Import was interrupted'),
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { ImportJob, ImportJobStatus } from './schemas/import-job.schema';
+import { ImportsService } from './imports.service';
+import {
+  ImportFile,
+  ImportOptions,
+  ImportResultSummary,
+  StoredImportOptions,
+} from './interfaces/import.interface';
+import { ProductType } from '@common/enums/product-type.enum';
+
+/**
+ * Runs a queued import; registered by the bank order and BIP services for their order type
+ */
+export type ImportJobProcessor = (
+  file: ImportFile,
+  bankId: string,
+  userId: string | undefined,
+  options: ImportOptions,
+) => Promise<ImportResultSummary>;
+
+@Injectable()
+export class ImportJobsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ImportJobsService.name);
+  private readonly processors = new Map<ProductType, ImportJobProcessor>();
+  private pollTimer?: NodeJS.Timeout;
+  private isDraining = false;
+
+  constructor(
+    @InjectModel(ImportJob.name) private importJobModel: Model<ImportJob>,
+    private configService: ConfigService,
+    private importsService: ImportsService,
+  ) {}
+
+  onModuleInit() {
+    const pollInterval =
+      this.configService.get<number>('imports.jobPollIntervalMs') || 5000;
+    this.pollTimer = setInterval(() => this.drainQueue(), pollInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  registerProcessor(orderType: ProductType, processor: ImportJobProcessor) {
+    this.processors.set(orderType, processor);
+  }
+
+  /**
+   * Queue a file for import and start the worker without waiting for the next poll
+   */
+  async createJob(
+    orderType: ProductType,
+    bankId: string,
+    file: ImportFile,
+    userId?: string,
+    options: StoredImportOptions = {},
+  ): Promise<ImportJob> {
+    const job = await this.importJobModel.create({
+      orderType,
+      bankId: new Types.ObjectId(bankId),
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      fileData: file.buffer,
+      duplicatePolicy: options.duplicatePolicy,
+      sheetName: options.sheetName,
+      allSheets: options.allSheets,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+      status: ImportJobStatus.QUEUED,
+    });
+
+    setImmediate(() => this.drainQueue());
+
+    return this.findJob(job._id.toString());
+  }
+
+  async findJob(id: string): Promise<ImportJob> {
+    const job = await this.importJobModel
+      .findById(id)
+      .populate('bankId', 'bankName')
+      .populate('createdBy', 'firstName lastName email')
+      .exec();
+
+    if (!job) {
+      throw new NotFoundException(`Import job with ID ${id} not found`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Process queued jobs one at a time until none are left
+   */
+  private async drainQueue() {
+    if (this.isDraining) {
+      return;
+    }
+
+    this.isDraining = true;
+    try {
+      await this.failStaleJobs();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      this.logger.error(`Import job queue error: ${error.message}`, error.stack);
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  /**
+   * Atomically take the oldest queued job this instance has a processor for
+   */
+  private async claimNextJob(): Promise<ImportJob | null> {
+    const now = new Date();
+
+    return this.importJobModel
+      .findOneAndUpdate(
+        {
+          status: ImportJobStatus.QUEUED,
+          orderType: { $in: Array.from(this.processors.keys()) },
+        },
+        { status: ImportJobStatus.PROCESSING, startedAt: now, heartbeatAt: now },
+        { sort: { createdAt: 1 }, new: true },
+      )
+      .select('+fileData')
+      .exec();
+  }
+
+  private async runJob(job: ImportJob) {
+    // Claimed jobs always have a processor registered for their order type
+    const processor = this.processors.get(job.orderType) as ImportJobProcessor;
+    const file: ImportFile = {
+      originalname: job.fileName,
+      mimetype: job.mimeType,
+      buffer: job.fileData || Buffer.alloc(0),
+    };
+
+    try {
+      const result = await processor(
+        file,
+        job.bankId.toString(),
+        job.createdBy?.toString(),
+        {
+          duplicatePolicy: job.duplicatePolicy,
+          sheetName: job.sheetName,
+          allSheets: job.allSheets,
+          importJobId: job._id.toString(),
+          onProgress: (processedRows, partialResult) =>
+            this.reportProgress(job._id, processedRows, partialResult),
+        },
+      );
+
+      await this.importJobModel.findByIdAndUpdate(job._id, {
+        status: ImportJobStatus.COMPLETED,
+        totalRows: result.totalRows,
+        processedRows: result.totalRows,
+        progress: 100,
+        result,
+        importBatchId: result.importBatchId
+          ? new Types.ObjectId(result.importBatchId)
+          : undefined,
+        completedAt: new Date(),
+        $unset: { fileData: 1 },
+      });
+    } catch (error) {
+      this.logger.error(`Import job ${job._id} failed: ${error.message}`, error.stack);
+
+      await this.importJobModel.findByIdAndUpdate(job._id, {
+        status: ImportJobStatus.FAILED,
+        error: error.message,
+        completedAt: new Date(),
+        $unset: { fileData: 1 },
+      });
+      await this.importsService.failJobBatch(job._id, error.message);
+    }
+  }
+
+  /**
+   * Store progress and partial counts; successful rows are only kept in the final result
+   */
+  private async reportProgress(
+    jobId: Types.ObjectId,
+    processedRows: number,
+    partialResult: ImportResultSummary,
+  ) {
+    const { successRecords, ...partial } = partialResult;
+
+    await this.importJobModel.findByIdAndUpdate(jobId, {
+      totalRows: partialResult.totalRows,
+      processedRows,
+      progress: Math.floor((processedRows / partialResult.totalRows) * 100),
+      result: { ...partial, successRecordCount: successRecords.length },
+      heartbeatAt: new Date(),
+    });
+  }
+
+  /**
+   * Jobs whose worker stopped reporting (e.g. the process restarted) are marked failed,
+   * since re-running them could import the processed rows twice
+   */
+  private async failStaleJobs() {
+    const staleMinutes = this.configService.get<number>('imports.jobStaleMinutes') || 15;
+    const staleFilter = {
+      status: ImportJobStatus.PROCESSING,
+      heartbeatAt: { $lt: new Date(Date.now() - staleMinutes * 60 * 1000) },
+    };
+    const error =
+      'Import was interrupted. Check the import batch before uploading the file again';
+
+    const staleJobs = await this.importJobModel.find(staleFilter).select('_id').exec();
+
+    // One at a time with the stale check repeated, so a job that reported progress
+    // in the meantime is left running; its batch is failed so it can be rolled back
+    for (const { _id } of staleJobs) {
+      const failedJob = await this.importJobModel
+        .findOneAndUpdate(
+          { _id, ...staleFilter },
+          {
+            status: ImportJobStatus.FAILED,
+            error,
+            completedAt: new Date(),
+            $unset: { fileData: 1 },
+          },
+        )
+        .exec();
+
+      if (failedJob) {
+        await this.importsService.failJobBatch(_id, error);
+      }
+    }
+  }
+}
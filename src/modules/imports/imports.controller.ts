@@ -0,0 +1,189 @@
+import { Controller, Get, Post, Param, Query, Body, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ImportsService } from './imports.service';
+import { ImportJobsService } from './import-jobs.service';
+import { ImportBatchStatus } from './schemas/import-batch.schema';
+import { RollbackImportBatchDto } from './dto/rollback-import-batch.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+import { ProductType } from '@common/enums/product-type.enum';
+
+@ApiTags('Imports')
+@ApiBearerAuth('JWT-auth')
+@Controller('imports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ImportsController {
+  constructor(
+    private readonly importsService: ImportsService,
+    private readonly importJobsService: ImportJobsService,
+  ) {}
+
+  @Get('batches')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'List import batches (Admin/Staff only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({
+    name: 'orderType',
+    required: false,
+    enum: ProductType,
+    description: 'Filter by importer',
+  })
+  @ApiQuery({
+    name: 'bankId',
+    required: false,
+    type: String,
+    description: 'Filter by bank ID',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ImportBatchStatus,
+    description: 'Filter by batch status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of import batches with pagination (failed rows omitted)',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          data: [
+            {
+              _id: '65a1b2c3d4e5f6a7b8c9d0e1',
+              orderType: 'bank_order',
+              bankId: { _id: '507f1f77bcf86cd799439011', bankName: 'HBL' },
+              fileName: 'orders-jan.xlsx',
+              fileHash:
+                '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+              uploadedBy: {
+                _id: '507f1f77bcf86cd799439012',
+                firstName: 'Ali',
+                lastName: 'Khan',
+                email: 'ali@example.com',
+              },
+              status: 'completed',
+              totalRows: 100,
+              successCount: 95,
+              failedCount: 5,
+              createdAt: '2024-01-15T10:30:00.000Z',
+            },
+          ],
+          total: 1,
+          page: 1,
+          limit: 10,
+          totalPages: 1,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' })
+  findAllBatches(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('orderType') orderType?: string,
+    @Query('bankId') bankId?: string,
+    @Query('status') status?: string,
+  ) {
+    return this.importsService.findAllBatches(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+      orderType,
+      bankId,
+      status,
+    );
+  }
+
+  @Get('batches/:id')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Get an import batch with its failed rows (Admin/Staff only)',
+  })
+  @ApiParam({ name: 'id', description: 'Import batch MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Import batch data' })
+  @ApiResponse({ status: 404, description: 'Import batch not found' })
+  findBatch(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.importsService.findBatch(id);
+  }
+
+  @Post('batches/:id/rollback')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Roll back an import batch by soft-deleting its orders (Admin only)',
+    description:
+      'Refused if any order in the batch has moved past confirmed or has a purchase order or shipment.',
+  })
+  @ApiParam({ name: 'id', description: 'Import batch MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Batch rolled back successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Batch already rolled back or some orders are already in fulfilment',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Insufficient permissions' })
+  @ApiResponse({ status: 404, description: 'Import batch not found' })
+  rollbackBatch(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() rollbackDto: RollbackImportBatchDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.importsService.rollbackBatch(id, userId, rollbackDto.reason);
+  }
+
+  @Get(':jobId')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Get the progress and result of an import job (Admin/Staff only)',
+    description:
+      'Poll until status is completed or failed. While processing, result holds partial counts and failed rows; once completed it holds the full import result.',
+  })
+  @ApiParam({ name: 'jobId', description: 'Import job MongoDB ObjectId' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import job data',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          _id: '65a1b2c3d4e5f6a7b8c9d0e2',
+          orderType: 'bank_order',
+          bankId: { _id: '507f1f77bcf86cd799439011', bankName: 'HBL' },
+          fileName: 'orders-jan.xlsx',
+          status: 'processing',
+          totalRows: 5000,
+          processedRows: 1500,
+          progress: 30,
+          result: {
+            totalRows: 5000,
+            successCount: 1480,
+            failedCount: 15,
+            duplicateCount: 5,
+            updatedCount: 0,
+            successRecordCount: 1480,
+            failedRecords: [
+              { row: 10, data: { CNIC: '' }, errors: ['CNIC is required'] },
+            ],
+            duplicateRecords: [],
+            importBatchId: '65a1b2c3d4e5f6a7b8c9d0e1',
+          },
+          startedAt: '2024-01-15T10:30:05.000Z',
+          createdAt: '2024-01-15T10:30:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Import job not found' })
+  findJob(@Param('jobId', ParseObjectIdPipe) jobId: string) {
+    return this.importJobsService.findJob(jobId);
+  }
+}
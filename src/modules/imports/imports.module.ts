@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ImportsService } from './imports.service';
+import { ImportsController } from './imports.controller';
+import { ImportJobsService } from './import-jobs.service';
+import { ColumnMappingsService } from './column-mappings.service';
+import { ColumnMappingsController } from './column-mappings.controller';
+import { ImportPreview, ImportPreviewSchema } from './schemas/import-preview.schema';
+import { ImportBatch, ImportBatchSchema } from './schemas/import-batch.schema';
+import { ColumnMapping, ColumnMappingSchema } from './schemas/column-mapping.schema';
+import { ImportJob, ImportJobSchema } from './schemas/import-job.schema';
+import {
+  BankOrder,
+  BankOrderSchema,
+} from '@modules/bank-orders/schemas/bank-order.schema';
+import { BanksModule } from '@modules/banks/banks.module';
+import { Bip, BipSchema } from '@modules/bip/schemas/bip.schema';
+import { Shipment, ShipmentSchema } from '@modules/shipments/schemas/shipment.schema';
+import {
+  PurchaseOrder,
+  PurchaseOrderSchema,
+} from '@modules/purchase-orders/schemas/purchase-order.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ImportPreview.name, schema: ImportPreviewSchema },
+      { name: ImportBatch.name, schema: ImportBatchSchema },
+      { name: ColumnMapping.name, schema: ColumnMappingSchema },
+      { name: ImportJob.name, schema: ImportJobSchema },
+      { name: BankOrder.name, schema: BankOrderSchema },
+      { name: Bip.name, schema: BipSchema },
+      { name: Shipment.name, schema: ShipmentSchema },
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema },
+    ]),
+    BanksModule,
+  ],
+  // Column mappings first so its static routes are matched before the /imports/:param routes
+  controllers: [ColumnMappingsController, ImportsController],
+  providers: [ImportsService, ColumnMappingsService, ImportJobsService],
+  exports: [ImportsService, ColumnMappingsService, ImportJobsService],
+})
+export class ImportsModule {}
@@ -0,0 +1,448 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { ImportPreview } from './schemas/import-preview.schema';
+import { ImportBatch, ImportBatchStatus } from './schemas/import-batch.schema';
+import {
+  DuplicateRecord,
+  ImportFailedRow,
+  ImportFile,
+  SheetImportResult,
+  StoredImportOptions,
+} from './interfaces/import.interface';
+import { ProductType } from '@common/enums/product-type.enum';
+import { OrderStatus } from '@common/enums/order-status.enum';
+import { BankOrder } from '@modules/bank-orders/schemas/bank-order.schema';
+import { Bip } from '@modules/bip/schemas/bip.schema';
+import { Shipment } from '@modules/shipments/schemas/shipment.schema';
+import { PurchaseOrder } from '@modules/purchase-orders/schemas/purchase-order.schema';
+
+// Orders in these statuses have not been worked on yet and can be rolled back
+const ROLLBACK_ALLOWED_STATUSES = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.CANCELLED,
+];
+
+@Injectable()
+export class ImportsService {
+  constructor(
+    @InjectModel(ImportPreview.name) private importPreviewModel: Model<ImportPreview>,
+    @InjectModel(ImportBatch.name) private importBatchModel: Model<ImportBatch>,
+    @InjectModel(BankOrder.name) private bankOrderModel: Model<BankOrder>,
+    @InjectModel(Bip.name) private bipModel: Model<Bip>,
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    @InjectModel(PurchaseOrder.name) private purchaseOrderModel: Model<PurchaseOrder>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * SHA-256 hash of an uploaded file, used to tie previews and commits to the same bytes
+   */
+  hashFile(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Number of rows an importer processes and bulk-inserts at a time
+   */
+  getBulkChunkSize(): number {
+    return this.configService.get<number>('imports.chunkSize') || 500;
+  }
+
+  /**
+   * Insert already validated orders in one round trip without stopping at the first failure.
+   * Returns the error message for each document that could not be inserted, by index.
+   */
+  async insertOrders(model: Model<any>, docs: any[]): Promise<Map<number, string>> {
+    const errors = new Map<number, string>();
+
+    if (docs.length === 0) {
+      return errors;
+    }
+
+    try {
+      await model.insertMany(docs, { ordered: false });
+    } catch (error) {
+      if (!error.writeErrors) {
+        throw error;
+      }
+
+      error.writeErrors.forEach((writeError: any) =>
+        errors.set(
+          writeError.index,
+          writeError.errmsg || writeError.err?.errmsg || 'Failed to save order',
+        ),
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Store a previewed file and return the token needed to commit it
+   */
+  async createPreview(
+    orderType: ProductType,
+    bankId: string,
+    file: ImportFile,
+    userId?: string,
+    options: StoredImportOptions = {},
+  ): Promise<ImportPreview> {
+    const ttlMinutes = this.configService.get<number>('imports.previewTtlMinutes') || 60;
+
+    return this.importPreviewModel.create({
+      token: crypto.randomBytes(24).toString('hex'),
+      orderType,
+      bankId: new Types.ObjectId(bankId),
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      fileHash: this.hashFile(file.buffer),
+      fileData: file.buffer,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+      duplicatePolicy: options.duplicatePolicy,
+      sheetName: options.sheetName,
+      allSheets: options.allSheets,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    });
+  }
+
+  /**
+   * Load the previewed file for a token, checking it belongs to the same importer and bank
+   */
+  async getPreviewFile(
+    token: string,
+    orderType: ProductType,
+    bankId: string,
+  ): Promise<ImportFile & StoredImportOptions & { fileHash: string }> {
+    const preview = await this.importPreviewModel
+      .findOne({ token, expiresAt: { $gt: new Date() } })
+      .select('+fileData')
+      .exec();
+
+    if (!preview) {
+      throw new NotFoundException(
+        'Import preview not found or expired. Please preview the file again',
+      );
+    }
+
+    if (preview.orderType !== orderType) {
+      throw new BadRequestException(
+        `Import preview was created for ${preview.orderType} orders, not ${orderType} orders`,
+      );
+    }
+
+    if (preview.bankId.toString() !== bankId) {
+      throw new BadRequestException('Import preview was created for a different bank');
+    }
+
+    return {
+      originalname: preview.fileName,
+      mimetype: preview.mimeType,
+      buffer: Buffer.from(preview.fileData),
+      fileHash: preview.fileHash,
+      duplicatePolicy: preview.duplicatePolicy,
+      sheetName: preview.sheetName,
+      allSheets: preview.allSheets,
+    };
+  }
+
+  /**
+   * Remove a preview once it has been committed
+   */
+  async removePreview(token: string): Promise<void> {
+    await this.importPreviewModel.deleteOne({ token });
+  }
+
+  /**
+   * Start a batch for an import so every created order can reference it
+   */
+  async createBatch(
+    orderType: ProductType,
+    bankId: string,
+    file: ImportFile,
+    totalRows: number,
+    userId?: string,
+    importJobId?: string,
+  ): Promise<ImportBatch> {
+    return this.importBatchModel.create({
+      orderType,
+      bankId: new Types.ObjectId(bankId),
+      fileName: file.originalname,
+      fileHash: this.hashFile(file.buffer),
+      uploadedBy: userId ? new Types.ObjectId(userId) : undefined,
+      importJobId: importJobId ? new Types.ObjectId(importJobId) : undefined,
+      status: ImportBatchStatus.PROCESSING,
+      totalRows,
+    });
+  }
+
+  /**
+   * Record the outcome of an import on its batch
+   */
+  async completeBatch(
+    batchId: Types.ObjectId | string,
+    result: {
+      successCount: number;
+      failedCount: number;
+      failedRecords: ImportFailedRow[];
+      duplicateCount: number;
+      updatedCount: number;
+      duplicateRecords: DuplicateRecord[];
+      sheets?: SheetImportResult[];
+    },
+  ): Promise<void> {
+    await this.importBatchModel.findByIdAndUpdate(batchId, {
+      status: ImportBatchStatus.COMPLETED,
+      successCount: result.successCount,
+      failedCount: result.failedCount,
+      failedRecords: result.failedRecords,
+      duplicateCount: result.duplicateCount,
+      updatedCount: result.updatedCount,
+      duplicateRecords: result.duplicateRecords,
+      sheets: result.sheets,
+    });
+  }
+
+  /**
+   * Mark a batch failed when its import stops part way, so the orders it saved
+   * can be rolled back
+   */
+  async failBatch(batchId: Types.ObjectId | string, error: string): Promise<void> {
+    await this.importBatchModel.updateOne(
+      { _id: batchId, status: ImportBatchStatus.PROCESSING },
+      { status: ImportBatchStatus.FAILED, error },
+    );
+  }
+
+  /**
+   * Mark the batch of a failed or interrupted import job failed, in case the
+   * import stopped before it could do so itself
+   */
+  async failJobBatch(importJobId: Types.ObjectId | string, error: string): Promise<void> {
+    await this.importBatchModel.updateMany(
+      { importJobId, status: ImportBatchStatus.PROCESSING },
+      { status: ImportBatchStatus.FAILED, error },
+    );
+  }
+
+  async findAllBatches(
+    page = 1,
+    limit = 10,
+    orderType?: string,
+    bankId?: string,
+    status?: string,
+  ) {
+    const skip = (page - 1) * limit;
+    const query: any = {};
+
+    if (orderType && orderType.trim()) {
+      query.orderType = orderType.trim();
+    }
+
+    if (bankId && Types.ObjectId.isValid(bankId)) {
+      query.bankId = new Types.ObjectId(bankId);
+    }
+
+    if (status && status.trim()) {
+      query.status = status.trim();
+    }
+
+    const [data, total] = await Promise.all([
+      this.importBatchModel
+        .find(query)
+        // Failed and duplicate rows can be large; the single batch endpoint returns them
+        .select('-failedRecords -duplicateRecords')
+        .populate('bankId', 'bankName')
+        .populate('uploadedBy', 'firstName lastName email')
+        .populate('rolledBackBy', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.importBatchModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findBatch(id: string): Promise<ImportBatch> {
+    const batch = await this.importBatchModel
+      .findById(id)
+      .populate('bankId', 'bankName')
+      .populate('uploadedBy', 'firstName lastName email')
+      .populate('rolledBackBy', 'firstName lastName email')
+      .exec();
+
+    if (!batch) {
+      throw new NotFoundException(`Import batch with ID ${id} not found`);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Soft-delete every order created by a completed or failed batch.
+   * Refused if any of them has moved past confirmed or has a purchase order or shipment.
+   */
+  async rollbackBatch(
+    id: string,
+    userId?: string,
+    reason?: string,
+  ): Promise<ImportBatch> {
+    const batch = await this.importBatchModel.findById(id);
+
+    if (!batch) {
+      throw new NotFoundException(`Import batch with ID ${id} not found`);
+    }
+
+    if (batch.status === ImportBatchStatus.ROLLED_BACK) {
+      throw new BadRequestException('Import batch has already been rolled back');
+    }
+
+    if (batch.status === ImportBatchStatus.PROCESSING) {
+      throw new BadRequestException('Import batch is still being processed');
+    }
+
+    const isBankOrder = batch.orderType === ProductType.BANK_ORDER;
+    const orderModel: Model<any> = isBankOrder ? this.bankOrderModel : this.bipModel;
+    const orderField = isBankOrder ? 'bankOrderId' : 'bipOrderId';
+    const labelField = isBankOrder ? 'refNo' : 'eforms';
+
+    const orders = await orderModel
+      .find({ importBatchId: batch._id, isDeleted: false })
+      .select(`_id status shipmentId ${labelField}`)
+      .lean()
+      .exec();
+    const orderIds = orders.map((order) => order._id);
+
+    // Orders with a shipment or an open purchase order are already being fulfilled
+    const { shippedIds, poNumbersByOrder } = await this.findFulfilmentLinks(
+      orderField,
+      orderIds,
+    );
+
+    const blockers: string[] = [];
+    orders.forEach((order) => {
+      const orderId = String(order._id);
+      const label = order[labelField] || orderId;
+
+      if (!ROLLBACK_ALLOWED_STATUSES.includes(order.status)) {
+        blockers.push(`${label}: status is '${order.status}'`);
+      } else if (order.shipmentId || shippedIds.has(orderId)) {
+        blockers.push(`${label}: has a shipment`);
+      } else if (poNumbersByOrder.has(orderId)) {
+        blockers.push(`${label}: on purchase order ${poNumbersByOrder.get(orderId)}`);
+      }
+    });
+
+    if (blockers.length > 0) {
+      const shown = blockers.slice(0, 10).join('; ');
+      const more = blockers.length > 10 ? ` and ${blockers.length - 10} more` : '';
+      throw new BadRequestException(
+        `Cannot roll back import batch: ${blockers.length} order(s) are already in fulfilment (${shown}${more})`,
+      );
+    }
+
+    // An order can be dispatched or put on a purchase order since the check, so the
+    // write repeats the conditions; shipments and purchase orders are other
+    // collections, so their links are looked up again just before it
+    const latestLinks = await this.findFulfilmentLinks(orderField, orderIds);
+    const linkedIds = [...latestLinks.shippedIds, ...latestLinks.poNumbersByOrder.keys()];
+    const { modifiedCount } = await orderModel.updateMany(
+      {
+        _id: {
+          $in: orderIds,
+          $nin: linkedIds.map((orderId) => new Types.ObjectId(orderId)),
+        },
+        isDeleted: false,
+        status: { $in: ROLLBACK_ALLOWED_STATUSES },
+        // Matches orders without a shipment, like the check above
+        shipmentId: null,
+      },
+      { isDeleted: true },
+    );
+
+    batch.rolledBackCount = (batch.rolledBackCount || 0) + modifiedCount;
+
+    if (modifiedCount !== orderIds.length) {
+      await batch.save();
+
+      const remaining = await orderModel
+        .find({ _id: { $in: orderIds }, isDeleted: false })
+        .select(labelField)
+        .lean()
+        .exec();
+      const labels = remaining.map((order) => order[labelField] || String(order._id));
+      const shown = labels.slice(0, 10).join(', ');
+      const more = labels.length > 10 ? ` and ${labels.length - 10} more` : '';
+      throw new ConflictException(
+        `Import batch was only partly rolled back: ${modifiedCount} of ${orderIds.length} order(s) removed. ` +
+          `${labels.length} order(s) went into fulfilment during the rollback and were kept (${shown}${more})`,
+      );
+    }
+
+    batch.status = ImportBatchStatus.ROLLED_BACK;
+    batch.rolledBackAt = new Date();
+    batch.rolledBackBy = userId ? new Types.ObjectId(userId) : undefined;
+    batch.rollbackReason = reason;
+    await batch.save();
+
+    return this.findBatch(id);
+  }
+
+  /**
+   * Orders that have a shipment, and the purchase order each order is on
+   */
+  private async findFulfilmentLinks(
+    orderField: 'bankOrderId' | 'bipOrderId',
+    orderIds: unknown[],
+  ): Promise<{ shippedIds: Set<string>; poNumbersByOrder: Map<string, string> }> {
+    const [shipments, purchaseOrders] = await Promise.all([
+      this.shipmentModel
+        .find({ [orderField]: { $in: orderIds } })
+        .select(orderField)
+        .lean()
+        .exec(),
+      this.purchaseOrderModel
+        .find({
+          isDeleted: false,
+          status: { $ne: 'cancelled' },
+          $or: [
+            { [orderField]: { $in: orderIds } },
+            { [`products.${orderField}`]: { $in: orderIds } },
+          ],
+        })
+        .select(`poNumber ${orderField} products.${orderField}`)
+        .lean()
+        .exec(),
+    ]);
+
+    const shippedIds = new Set(shipments.map((shipment) => String(shipment[orderField])));
+    const poNumbersByOrder = new Map<string, string>();
+    purchaseOrders.forEach((po) => {
+      const linkedIds = [
+        po[orderField],
+        ...(po.products || []).map((p) => p[orderField]),
+      ];
+      linkedIds
+        .filter(Boolean)
+        .forEach((orderId) => poNumbersByOrder.set(String(orderId), po.poNumber));
+    });
+
+    return { shippedIds, poNumbersByOrder };
+  }
+}
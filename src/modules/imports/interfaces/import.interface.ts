@@ -0,0 +1,119 @@
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+
+/**
+ * The parts of an uploaded file the order importers need.
+ * Satisfied by both a Multer upload and a stored import preview.
+ */
+export type ImportFile = Pick<Express.Multer.File, 'originalname' | 'buffer'> & {
+  mimetype?: string;
+};
+
+/**
+ * Product that would be auto-created by an import
+ */
+export interface ProductToCreate {
+  giftCode: string;
+  name: string;
+  rows: number[];
+}
+
+/**
+ * Which sheets of a workbook to import; the first sheet when neither is set
+ */
+export interface SheetSelection {
+  sheetName?: string;
+  allSheets?: boolean;
+}
+
+export interface ImportOptions extends SheetSelection {
+  // Run validation, duplicate checks and product resolution without saving anything
+  dryRun?: boolean;
+  // What to do with rows that repeat an existing order or an earlier row (default: skip)
+  duplicatePolicy?: DuplicatePolicy;
+  // Queued job running the import, recorded on its batch
+  importJobId?: string;
+  // Called after each chunk of rows with the number of rows processed so far
+  onProgress?: (
+    processedRows: number,
+    partialResult: ImportResultSummary,
+  ) => Promise<void>;
+}
+
+/**
+ * Options kept with a preview or a queued job so the import later runs the same way
+ */
+export type StoredImportOptions = Pick<
+  ImportOptions,
+  'duplicatePolicy' | 'sheetName' | 'allSheets'
+>;
+
+/**
+ * Counts for one sheet of the imported file
+ */
+export interface SheetImportResult {
+  sheetName: string;
+  totalRows: number;
+  successCount: number;
+  failedCount: number;
+  duplicateCount: number;
+  updatedCount: number;
+}
+
+/**
+ * The parts of the bank order and BIP import results shared by both importers
+ */
+export interface ImportResultSummary {
+  totalRows: number;
+  successCount: number;
+  failedCount: number;
+  duplicateCount: number;
+  updatedCount: number;
+  successRecords: any[];
+  failedRecords: ImportFailedRow[];
+  duplicateRecords: DuplicateRecord[];
+  sheets?: SheetImportResult[];
+  importBatchId?: string;
+}
+
+/**
+ * One key on which a row collided with an existing order or an earlier row of the file
+ */
+export interface DuplicateMatch {
+  field: string;
+  value: string;
+  existingOrderId?: string;
+  existingStatus?: string;
+  existingRow?: number;
+  existingSheet?: string;
+}
+
+/**
+ * Where a row of the import came from: its sheet and its row number on that sheet
+ */
+export interface ImportRowSource {
+  sheet: string;
+  row: number;
+}
+
+/**
+ * Row held back (or used to update an order) because it is a duplicate
+ */
+export interface DuplicateRecord {
+  sheet?: string;
+  row: number;
+  data: Record<string, any>;
+  matches: DuplicateMatch[];
+  action: 'skipped' | 'updated' | 'failed';
+  reason?: string;
+  id?: string;
+}
+
+/**
+ * Row that failed to import, as stored on the import batch
+ */
+export interface ImportFailedRow {
+  sheet?: string;
+  row: number;
+  data: Record<string, any>;
+  errors: string[];
+}
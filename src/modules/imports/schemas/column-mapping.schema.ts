@@ -0,0 +1,112 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductType } from '@common/enums/product-type.enum';
+
+export class ColumnMappingEntry {
+  @ApiProperty({ example: 'Customer Full Name', description: 'Header in the bank file' })
+  source: string;
+
+  @ApiProperty({ example: 'CUSTOMER_NAME', description: 'Import field it maps to' })
+  field: string;
+}
+
+export class ColumnMappingTransforms {
+  @ApiProperty({
+    example: 'DD/MM/YYYY',
+    description: 'Format of text dates in the file',
+    required: false,
+  })
+  dateFormat?: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Strip spaces, dashes and the +92 prefix from phone numbers',
+    required: false,
+  })
+  phoneCleanup?: boolean;
+
+  @ApiProperty({
+    example: 'Karachi',
+    description: 'City used when a row has none',
+    required: false,
+  })
+  defaultCity?: string;
+}
+
+@Schema({ timestamps: true })
+export class ColumnMapping extends Document {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank the mapping belongs to',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Bank', required: true, index: true })
+  bankId: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'bank_order',
+    description: 'Importer the mapping applies to (omit to use it for both)',
+    enum: ProductType,
+    required: false,
+  })
+  @Prop({ type: String, enum: ProductType, default: null })
+  orderType?: ProductType | null;
+
+  @ApiProperty({
+    type: [ColumnMappingEntry],
+    description: 'Source header to field mappings',
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        source: { type: String, required: true, trim: true },
+        field: { type: String, required: true },
+      },
+    ],
+    default: [],
+  })
+  columns: ColumnMappingEntry[];
+
+  @ApiProperty({ type: ColumnMappingTransforms, required: false })
+  @Prop({
+    type: {
+      _id: false,
+      dateFormat: { type: String, trim: true },
+      phoneCleanup: { type: Boolean },
+      defaultCity: { type: String, trim: true },
+    },
+    default: {},
+  })
+  transforms?: ColumnMappingTransforms;
+
+  @ApiProperty({ example: false, description: 'Soft delete flag' })
+  @Prop({ default: false })
+  isDeleted: boolean;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who last changed the mapping',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const ColumnMappingSchema = SchemaFactory.createForClass(ColumnMapping);
+
+// Indexes
+// One active mapping per bank and order type (a null order type is the bank-wide default)
+ColumnMappingSchema.index(
+  { bankId: 1, orderType: 1 },
+  { unique: true, partialFilterExpression: { isDeleted: false } },
+);
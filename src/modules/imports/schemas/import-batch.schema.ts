@@ -0,0 +1,206 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductType } from '@common/enums/product-type.enum';
+import {
+  DuplicateRecord,
+  ImportFailedRow,
+  SheetImportResult,
+} from '../interfaces/import.interface';
+
+export enum ImportBatchStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed', // Stopped part way; orders already saved can be rolled back
+  ROLLED_BACK = 'rolled_back',
+}
+
+@Schema({ timestamps: true })
+export class ImportBatch extends Document {
+  @ApiProperty({
+    example: 'bank_order',
+    description: 'Which importer created the batch',
+    enum: ProductType,
+  })
+  @Prop({ type: String, enum: ProductType, required: true, index: true })
+  orderType: ProductType;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank ID the file was imported for',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Bank', required: true, index: true })
+  bankId: Types.ObjectId;
+
+  @ApiProperty({ example: 'orders-jan.xlsx', description: 'Original file name' })
+  @Prop({ required: true, trim: true })
+  fileName: string;
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description: 'SHA-256 hash of the imported file',
+  })
+  @Prop({ required: true, index: true })
+  fileHash: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who uploaded the file',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  uploadedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Background job that ran the import',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ImportJob', index: true })
+  importJobId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'completed',
+    description: 'Batch status',
+    enum: ImportBatchStatus,
+  })
+  @Prop({
+    type: String,
+    enum: ImportBatchStatus,
+    default: ImportBatchStatus.PROCESSING,
+    index: true,
+  })
+  status: ImportBatchStatus;
+
+  @ApiProperty({
+    example: 'Failed to process Excel file: connection closed',
+    description: 'Why the import stopped, for failed batches',
+    required: false,
+  })
+  @Prop()
+  error?: string;
+
+  @ApiProperty({ example: 100, description: 'Number of data rows in the file' })
+  @Prop({ required: true, min: 0 })
+  totalRows: number;
+
+  @ApiProperty({ example: 95, description: 'Number of orders created' })
+  @Prop({ default: 0, min: 0 })
+  successCount: number;
+
+  @ApiProperty({ example: 5, description: 'Number of rows that failed' })
+  @Prop({ default: 0, min: 0 })
+  failedCount: number;
+
+  @ApiProperty({
+    example: [
+      {
+        row: 10,
+        data: { CNIC: '', CUSTOMER_NAME: 'Jane Doe' },
+        errors: ['CNIC is required'],
+      },
+    ],
+    description: 'Rows that failed to import, with the original data and errors',
+    required: false,
+  })
+  // Stored as plain objects: `errors` is a reserved Mongoose path name
+  @Prop({ type: [Object], default: [] })
+  failedRecords?: ImportFailedRow[];
+
+  @ApiProperty({ example: 3, description: 'Number of duplicate rows' })
+  @Prop({ default: 0, min: 0 })
+  duplicateCount: number;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Duplicate rows that updated a pending order',
+  })
+  @Prop({ default: 0, min: 0 })
+  updatedCount: number;
+
+  @ApiProperty({
+    example: [
+      {
+        row: 12,
+        data: { 'PO #': 'PO-2024-001', CUSTOMER_NAME: 'John Doe' },
+        matches: [
+          {
+            field: 'PO #',
+            value: 'PO-2024-001',
+            existingOrderId: '65a1b2c3d4e5f6a7b8c9d0e1',
+            existingStatus: 'confirmed',
+          },
+        ],
+        action: 'skipped',
+        reason: 'PO # PO-2024-001 already exists',
+      },
+    ],
+    description: 'Rows held back or used for updates because they were duplicates',
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  duplicateRecords?: DuplicateRecord[];
+
+  @ApiProperty({
+    example: [
+      {
+        sheetName: 'Karachi Branch',
+        totalRows: 60,
+        successCount: 57,
+        failedCount: 2,
+        duplicateCount: 1,
+        updatedCount: 0,
+      },
+    ],
+    description: 'Counts per imported sheet',
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  sheets?: SheetImportResult[];
+
+  @ApiProperty({
+    example: '2024-01-16T09:00:00.000Z',
+    description: 'When the batch was rolled back',
+    required: false,
+  })
+  @Prop()
+  rolledBackAt?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who rolled the batch back',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  rolledBackBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'Bank sent the wrong file',
+    description: 'Reason given for the rollback',
+    required: false,
+  })
+  @Prop({ trim: true })
+  rollbackReason?: string;
+
+  @ApiProperty({
+    example: 95,
+    description: 'Number of orders soft-deleted by the rollback',
+    required: false,
+  })
+  @Prop()
+  rolledBackCount?: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const ImportBatchSchema = SchemaFactory.createForClass(ImportBatch);
+
+// Indexes
+ImportBatchSchema.index({ createdAt: -1 });
@@ -0,0 +1,166 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductType } from '@common/enums/product-type.enum';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true })
+export class ImportJob extends Document {
+  @ApiProperty({
+    example: 'bank_order',
+    description: 'Which importer processes the job',
+    enum: ProductType,
+  })
+  @Prop({ type: String, enum: ProductType, required: true })
+  orderType: ProductType;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank ID the file is imported for',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Bank', required: true, index: true })
+  bankId: Types.ObjectId;
+
+  @ApiProperty({ example: 'orders-jan.xlsx', description: 'Original file name' })
+  @Prop({ required: true, trim: true })
+  fileName: string;
+
+  @ApiProperty({
+    example: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    description: 'Uploaded file MIME type',
+    required: false,
+  })
+  @Prop()
+  mimeType?: string;
+
+  // Raw file bytes, read by the worker and cleared once the job finishes
+  @Prop({ type: Buffer, select: false })
+  fileData?: Buffer;
+
+  @ApiProperty({
+    example: 'skip',
+    description: 'Duplicate policy the import runs with',
+    enum: DuplicatePolicy,
+    required: false,
+  })
+  @Prop({ type: String, enum: DuplicatePolicy })
+  duplicatePolicy?: DuplicatePolicy;
+
+  @ApiProperty({
+    example: 'Karachi Branch',
+    description: 'Sheet to import',
+    required: false,
+  })
+  @Prop({ trim: true })
+  sheetName?: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether every sheet of the workbook is imported',
+    required: false,
+  })
+  @Prop()
+  allSheets?: boolean;
+
+  @ApiProperty({
+    example: 'processing',
+    description: 'Job status',
+    enum: ImportJobStatus,
+  })
+  @Prop({
+    type: String,
+    enum: ImportJobStatus,
+    default: ImportJobStatus.QUEUED,
+    index: true,
+  })
+  status: ImportJobStatus;
+
+  @ApiProperty({
+    example: 5000,
+    description: 'Number of data rows in the file',
+    required: false,
+  })
+  @Prop()
+  totalRows?: number;
+
+  @ApiProperty({ example: 1500, description: 'Rows processed so far' })
+  @Prop({ default: 0 })
+  processedRows: number;
+
+  @ApiProperty({ example: 30, description: 'Percentage of rows processed' })
+  @Prop({ default: 0, min: 0, max: 100 })
+  progress: number;
+
+  @ApiProperty({
+    example: {
+      totalRows: 5000,
+      successCount: 1480,
+      failedCount: 15,
+      duplicateCount: 5,
+      updatedCount: 0,
+    },
+    description:
+      'Import result: partial counts and failed rows while processing, the full ImportResult once completed',
+    required: false,
+  })
+  @Prop({ type: Object })
+  result?: Record<string, any>;
+
+  @ApiProperty({
+    example: 'Excel file is empty',
+    description: 'Why the job failed',
+    required: false,
+  })
+  @Prop()
+  error?: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Import batch created by the job',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'ImportBatch' })
+  importBatchId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who queued the import',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:05.000Z', required: false })
+  @Prop()
+  startedAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:32:40.000Z', required: false })
+  @Prop()
+  completedAt?: Date;
+
+  // Last time the worker reported progress; used to detect jobs whose worker died
+  @Prop()
+  heartbeatAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const ImportJobSchema = SchemaFactory.createForClass(ImportJob);
+
+// Indexes
+// Workers claim the oldest queued job first
+ImportJobSchema.index({ status: 1, createdAt: 1 });
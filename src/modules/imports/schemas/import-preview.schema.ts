@@ -0,0 +1,108 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductType } from '@common/enums/product-type.enum';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+
+@Schema({ timestamps: true })
+export class ImportPreview extends Document {
+  @ApiProperty({
+    example: 'a3f1c9e2b4d6...',
+    description: 'Token used to commit the previewed file',
+  })
+  @Prop({ required: true, unique: true, index: true })
+  token: string;
+
+  @ApiProperty({
+    example: 'bank_order',
+    description: 'Which importer the preview belongs to',
+    enum: ProductType,
+  })
+  @Prop({ type: String, enum: ProductType, required: true })
+  orderType: ProductType;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Bank ID the file was previewed for',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Bank', required: true })
+  bankId: Types.ObjectId;
+
+  @ApiProperty({ example: 'orders-jan.xlsx', description: 'Original file name' })
+  @Prop({ required: true, trim: true })
+  fileName: string;
+
+  @ApiProperty({
+    example: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    description: 'Uploaded file MIME type',
+    required: false,
+  })
+  @Prop()
+  mimeType?: string;
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description: 'SHA-256 hash of the previewed file',
+  })
+  @Prop({ required: true })
+  fileHash: string;
+
+  // Raw file bytes, kept so the commit imports exactly what was previewed
+  @Prop({ type: Buffer, required: true, select: false })
+  fileData: Buffer;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who requested the preview',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'skip',
+    description: 'Duplicate policy the preview was made with',
+    enum: DuplicatePolicy,
+    required: false,
+  })
+  @Prop({ type: String, enum: DuplicatePolicy })
+  duplicatePolicy?: DuplicatePolicy;
+
+  @ApiProperty({
+    example: 'Karachi Branch',
+    description: 'Sheet the preview was made from',
+    required: false,
+  })
+  @Prop({ trim: true })
+  sheetName?: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether the preview covered every sheet of the workbook',
+    required: false,
+  })
+  @Prop()
+  allSheets?: boolean;
+
+  @ApiProperty({
+    example: '2024-01-15T11:30:00.000Z',
+    description: 'When the preview token expires',
+  })
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const ImportPreviewSchema = SchemaFactory.createForClass(ImportPreview);
+
+// Indexes
+// Expired previews are removed automatically by MongoDB
+ImportPreviewSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
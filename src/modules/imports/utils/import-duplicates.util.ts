@@ -0,0 +1,129 @@
+import {
+  DuplicateMatch,
+  DuplicateRecord,
+  ImportRowSource,
+} from '../interfaces/import.interface';
+import { DuplicatePolicy } from '@common/enums/duplicate-policy.enum';
+import { OrderStatus } from '@common/enums/order-status.enum';
+
+/**
+ * A field duplicates are detected on, e.g. the PO number or the CNIC + gift code pair
+ */
+export interface DuplicateKey<TRow> {
+  field: string;
+  fromRow: (row: TRow) => string | null;
+  fromOrder: (order: any) => string | null;
+}
+
+/**
+ * Find the rows that repeat an existing order or an earlier row of the same file.
+ * Returns the matches for each duplicate row, keyed by the row's index in `rows`.
+ * Rows listed in `skipIndexes` (e.g. invalid rows) are neither checked nor remembered.
+ */
+export function findImportDuplicates<TRow>(
+  rows: TRow[],
+  existingOrders: any[],
+  keys: DuplicateKey<TRow>[],
+  rowSourceOf: (index: number) => ImportRowSource,
+  skipIndexes: Set<number> = new Set(),
+): Map<number, DuplicateMatch[]> {
+  const duplicates = new Map<number, DuplicateMatch[]>();
+
+  keys.forEach((key) => {
+    const ordersByValue = new Map<string, any>();
+    existingOrders.forEach((order) => {
+      const value = key.fromOrder(order);
+      if (value && !ordersByValue.has(value)) {
+        ordersByValue.set(value, order);
+      }
+    });
+
+    const firstRowByValue = new Map<string, ImportRowSource>();
+
+    rows.forEach((row, index) => {
+      if (skipIndexes.has(index)) {
+        return;
+      }
+
+      const value = key.fromRow(row);
+      if (!value) {
+        return;
+      }
+
+      const matches: DuplicateMatch[] = [];
+      const existingOrder = ordersByValue.get(value);
+      if (existingOrder) {
+        matches.push({
+          field: key.field,
+          value,
+          existingOrderId: existingOrder._id.toString(),
+          existingStatus: existingOrder.status,
+        });
+      }
+
+      const firstRow = firstRowByValue.get(value);
+      if (firstRow) {
+        // The sheet is only named when the earlier row is on a different sheet
+        const rowSource = rowSourceOf(index);
+        matches.push({
+          field: key.field,
+          value,
+          existingRow: firstRow.row,
+          ...(firstRow.sheet !== rowSource.sheet && { existingSheet: firstRow.sheet }),
+        });
+      } else {
+        firstRowByValue.set(value, rowSourceOf(index));
+      }
+
+      if (matches.length > 0) {
+        duplicates.set(index, [...(duplicates.get(index) || []), ...matches]);
+      }
+    });
+  });
+
+  return duplicates;
+}
+
+/**
+ * Decide what happens to a duplicate row under the import's duplicate policy
+ */
+export function resolveDuplicate(
+  matches: DuplicateMatch[],
+  policy: DuplicatePolicy,
+): { action: DuplicateRecord['action']; reason: string; orderId?: string } {
+  const reason = matches
+    .map((match) =>
+      match.existingRow
+        ? `${match.field} ${match.value} repeats row ${match.existingRow}` +
+          (match.existingSheet ? ` of sheet ${match.existingSheet}` : '')
+        : `${match.field} ${match.value} already exists`,
+    )
+    .join('; ');
+
+  if (policy === DuplicatePolicy.FAIL) {
+    return { action: 'failed', reason };
+  }
+
+  if (policy === DuplicatePolicy.UPDATE_IF_PENDING) {
+    if (matches.some((match) => match.existingRow)) {
+      return { action: 'skipped', reason: `${reason}; repeated rows are not imported` };
+    }
+
+    const orderIds = new Set(matches.map((match) => match.existingOrderId));
+    if (orderIds.size > 1) {
+      return { action: 'skipped', reason: `${reason}; matches more than one order` };
+    }
+
+    const [match] = matches;
+    if (match.existingStatus !== OrderStatus.PENDING) {
+      return {
+        action: 'skipped',
+        reason: `${reason}; existing order is ${match.existingStatus}, only pending orders are updated`,
+      };
+    }
+
+    return { action: 'updated', reason, orderId: match.existingOrderId };
+  }
+
+  return { action: 'skipped', reason };
+}
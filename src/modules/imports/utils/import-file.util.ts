@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import { TextDecoder } from 'util';
+import * as XLSX from 'xlsx';
+import {
+  ImportFile,
+  ImportResultSummary,
+  SheetImportResult,
+  SheetSelection,
+} from '../interfaces/import.interface';
+
+export const IMPORT_FILE_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+// Delimiters tried on CSV files, in order of preference on a tie
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Parsed rows of one sheet of an import file
+ */
+export interface ImportSheetRows<TRow> {
+  sheetName: string;
+  rows: TRow[];
+}
+
+export function getImportFileExtension(file: ImportFile): string {
+  return file.originalname.substring(file.originalname.lastIndexOf('.')).toLowerCase();
+}
+
+/**
+ * Read an uploaded Excel or CSV file. CSV text is decoded and split on its
+ * detected delimiter, and every CSV value is kept as text so leading zeros survive.
+ */
+export function readImportWorkbook(file: ImportFile): XLSX.WorkBook {
+  if (getImportFileExtension(file) !== '.csv') {
+    return XLSX.read(file.buffer, { type: 'buffer' });
+  }
+
+  const text = decodeCsv(file.buffer);
+
+  return XLSX.read(text, {
+    type: 'string',
+    raw: true,
+    FS: detectCsvDelimiter(text),
+  } as XLSX.ParsingOptions);
+}
+
+/**
+ * Read the selected sheets of a workbook: the named sheet, every sheet, or the first one
+ */
+export function readImportSheets<TRow>(
+  workbook: XLSX.WorkBook,
+  selection: SheetSelection = {},
+): ImportSheetRows<TRow>[] {
+  let sheetNames = workbook.SheetNames.slice(0, 1);
+
+  if (selection.allSheets) {
+    sheetNames = workbook.SheetNames;
+  } else if (selection.sheetName) {
+    if (!workbook.SheetNames.includes(selection.sheetName)) {
+      throw new BadRequestException(
+        `Sheet "${selection.sheetName}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`,
+      );
+    }
+    sheetNames = [selection.sheetName];
+  }
+
+  return sheetNames.map((sheetName) => ({
+    sheetName,
+    rows: XLSX.utils.sheet_to_json<TRow>(workbook.Sheets[sheetName]),
+  }));
+}
+
+/**
+ * Break an import result down by sheet using the sheet name on each record
+ */
+export function summarizeSheets(
+  sheets: ImportSheetRows<unknown>[],
+  result: ImportResultSummary,
+): SheetImportResult[] {
+  const countFor = (records: Array<{ sheet?: string }>, sheetName: string) =>
+    records.filter((record) => record.sheet === sheetName).length;
+
+  return sheets.map(({ sheetName, rows }) => ({
+    sheetName,
+    totalRows: rows.length,
+    successCount: countFor(result.successRecords, sheetName),
+    failedCount: countFor(result.failedRecords, sheetName),
+    duplicateCount: countFor(result.duplicateRecords, sheetName),
+    updatedCount: countFor(
+      result.duplicateRecords.filter((record) => record.action === 'updated'),
+      sheetName,
+    ),
+  }));
+}
+
+/**
+ * Decode CSV bytes: a BOM decides the encoding, otherwise UTF-8 is tried and
+ * Windows-1252 (what Excel saves "CSV" as on most desktops) is the fallback
+ */
+function decodeCsv(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8');
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  }
+
+  // UTF-16 without a BOM: ASCII text has a zero in every other byte
+  const sample = buffer.subarray(0, 200);
+  const oddZeros = sample.filter((byte, i) => i % 2 === 1 && byte === 0).length;
+  if (sample.length >= 4 && oddZeros >= sample.length / 4) {
+    return buffer.toString('utf16le');
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most columns,
+ * ignoring delimiters inside quoted values
+ */
+function detectCsvDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/).find((line) => line.trim() !== '') || '';
+  const unquoted = headerLine.replace(/"[^"]*"/g, '');
+
+  let best = CSV_DELIMITERS[0];
+  let bestCount = 0;
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const count = unquoted.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,113 @@
+// Regex fragment for each supported date format token, longest tokens first
+const DATE_TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMM: '([A-Za-z]{3})',
+  MM: '(\\d{1,2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  D: '(\\d{1,2})',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+/**
+ * Lower-case a header and strip everything but letters and digits,
+ * so "Ref No.", "REF_NO" and "ref no" compare equal
+ */
+export function normalizeHeader(header: string): string {
+  return String(header)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Parse a date string using a format such as DD/MM/YYYY, D-MMM-YY or YYYY.MM.DD.
+ * Returns null when the value does not match the format or is not a real date.
+ */
+export function parseDateWithFormat(value: string, format: string): Date | null {
+  const tokens: string[] = [];
+  const pattern = format.replace(
+    /YYYY|YY|MMM|MM|M|DD|D|[.*+?^${}()|[\]\\/-]/g,
+    (match) => {
+      if (DATE_TOKEN_PATTERNS[match]) {
+        tokens.push(match);
+        return DATE_TOKEN_PATTERNS[match];
+      }
+      return `\\${match}`;
+    },
+  );
+
+  const match = new RegExp(`^${pattern}$`).exec(String(value).trim());
+  if (!match) {
+    return null;
+  }
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+
+  tokens.forEach((token, index) => {
+    const part = match[index + 1];
+    if (token === 'YYYY') {
+      year = Number(part);
+    } else if (token === 'YY') {
+      year = 2000 + Number(part);
+    } else if (token === 'MMM') {
+      month = MONTH_NAMES.indexOf(part.toLowerCase()) + 1;
+    } else if (token === 'MM' || token === 'M') {
+      month = Number(part);
+    } else {
+      day = Number(part);
+    }
+  });
+
+  const date = new Date(year, month - 1, day);
+
+  // Reject overflowing values such as 31/02/2024
+  if (
+    isNaN(date.getTime()) ||
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Reduce a Pakistani phone number to its local form, e.g. "+92 300-1234567" -> "03001234567"
+ */
+export function cleanPhoneNumber(value: string | number): string {
+  const digits = String(value).replace(/\D/g, '');
+
+  if (digits.startsWith('0092')) {
+    return `0${digits.slice(4)}`;
+  }
+
+  if (digits.startsWith('92') && digits.length === 12) {
+    return `0${digits.slice(2)}`;
+  }
+
+  // Mobile numbers whose leading zero was dropped by Excel
+  if (digits.startsWith('3') && digits.length === 10) {
+    return `0${digits}`;
+  }
+
+  return digits;
+}
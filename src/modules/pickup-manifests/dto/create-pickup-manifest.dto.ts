@@ -0,0 +1,50 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export class CreatePickupManifestDto {
+  @ApiProperty({
+    example: 'tcs',
+    description: 'Courier collecting the shipments',
+    enum: CourierType,
+    enumName: 'CourierType',
+  })
+  @IsEnum(CourierType)
+  @IsNotEmpty()
+  courierType: CourierType;
+
+  @ApiProperty({ example: '2024-01-15', description: 'Pickup date' })
+  @IsDateString()
+  @IsNotEmpty()
+  pickupDate: string;
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+    description: 'Booked shipments of this courier to put on the manifest',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsMongoId({ each: true })
+  shipmentIds: string[];
+
+  @ApiProperty({
+    example: 'Collect after 3 PM',
+    description: 'Remarks printed on the load sheet',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
@@ -0,0 +1,33 @@
+import { IsArray, IsMongoId, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HandoverPickupManifestDto {
+  @ApiProperty({
+    example: 'Ali Raza',
+    description: 'Courier rider collecting the shipments',
+  })
+  @IsString()
+  @IsNotEmpty()
+  riderName: string;
+
+  @ApiProperty({ example: '+923001234567', description: 'Rider phone', required: false })
+  @IsString()
+  @IsOptional()
+  riderPhone?: string;
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439012'],
+    description: 'Shipments on the manifest that the rider did not collect',
+    required: false,
+    type: [String],
+  })
+  @IsArray()
+  @IsMongoId({ each: true })
+  @IsOptional()
+  excludedShipmentIds?: string[];
+
+  @ApiProperty({ example: 'Two parcels left for tomorrow', required: false })
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
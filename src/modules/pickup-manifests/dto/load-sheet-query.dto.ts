@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum LoadSheetFormat {
+  PDF = 'pdf',
+  EXCEL = 'xlsx',
+}
+
+export class LoadSheetQueryDto {
+  @ApiProperty({
+    example: LoadSheetFormat.PDF,
+    description: 'Load sheet file format',
+    enum: LoadSheetFormat,
+    required: false,
+    default: LoadSheetFormat.PDF,
+  })
+  @IsEnum(LoadSheetFormat)
+  @IsOptional()
+  format?: LoadSheetFormat;
+}
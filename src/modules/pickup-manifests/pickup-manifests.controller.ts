@@ -0,0 +1,163 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { PickupManifestsService } from './pickup-manifests.service';
+import { CreatePickupManifestDto } from './dto/create-pickup-manifest.dto';
+import { HandoverPickupManifestDto } from './dto/handover-pickup-manifest.dto';
+import { LoadSheetFormat, LoadSheetQueryDto } from './dto/load-sheet-query.dto';
+import { PickupManifest, PickupManifestStatus } from './schemas/pickup-manifest.schema';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+@ApiTags('Pickup Manifests')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({ path: 'pickup-manifests', version: '1' })
+export class PickupManifestsController {
+  constructor(private readonly pickupManifestsService: PickupManifestsService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Create a pickup manifest from booked shipments of a courier',
+  })
+  @ApiResponse({ status: 201, description: 'Manifest created', type: PickupManifest })
+  @ApiResponse({
+    status: 400,
+    description:
+      'A shipment is not booked, belongs to another courier or is on a manifest',
+  })
+  @ApiResponse({ status: 404, description: 'Courier or shipments not found' })
+  create(
+    @Body() createPickupManifestDto: CreatePickupManifestDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.pickupManifestsService.create(createPickupManifestDto, userId);
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'List pickup manifests, newest first' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({ name: 'courierType', required: false, enum: CourierType })
+  @ApiQuery({ name: 'status', required: false, enum: PickupManifestStatus })
+  @ApiQuery({ name: 'pickupDate', required: false, type: String, example: '2024-01-15' })
+  @ApiResponse({ status: 200, description: 'Manifests with pagination' })
+  findAll(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('courierType') courierType?: CourierType,
+    @Query('status') status?: PickupManifestStatus,
+    @Query('pickupDate') pickupDate?: string,
+  ) {
+    return this.pickupManifestsService.findAll(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+      courierType,
+      status,
+      pickupDate,
+    );
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Get a pickup manifest with its shipments' })
+  @ApiParam({ name: 'id', description: 'Pickup manifest MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Manifest', type: PickupManifest })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  findOne(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.pickupManifestsService.findOne(id);
+  }
+
+  @Get(':id/load-sheet')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Download or reprint the load sheet as PDF or Excel' })
+  @ApiParam({ name: 'id', description: 'Pickup manifest MongoDB ObjectId' })
+  @ApiResponse({
+    status: 200,
+    description: 'Load sheet file',
+    content: {
+      'application/pdf': { schema: { type: 'string', format: 'binary' } },
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+        schema: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Manifest is cancelled' })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  async downloadLoadSheet(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Query() query: LoadSheetQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const format = query.format || LoadSheetFormat.PDF;
+    const { buffer, manifestNumber } =
+      await this.pickupManifestsService.generateLoadSheet(id, format);
+
+    res.setHeader(
+      'Content-Type',
+      format === LoadSheetFormat.EXCEL
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'application/pdf',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="load-sheet-${manifestNumber}.${format}"`,
+    );
+    res.setHeader('Content-Length', buffer.length);
+    res.status(HttpStatus.OK).send(buffer);
+  }
+
+  @Post(':id/handover')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Hand the manifest over to the courier rider',
+    description:
+      'Marks its shipments as picked up; shipments the rider left are removed.',
+  })
+  @ApiParam({ name: 'id', description: 'Pickup manifest MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Manifest handed over', type: PickupManifest })
+  @ApiResponse({ status: 400, description: 'Manifest is not open' })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  handover(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() handoverPickupManifestDto: HandoverPickupManifestDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.pickupManifestsService.handover(id, handoverPickupManifestDto, userId);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Cancel an open manifest and release its shipments' })
+  @ApiParam({ name: 'id', description: 'Pickup manifest MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Manifest cancelled', type: PickupManifest })
+  @ApiResponse({ status: 400, description: 'Manifest is not open' })
+  @ApiResponse({ status: 404, description: 'Manifest not found' })
+  cancel(@Param('id', ParseObjectIdPipe) id: string) {
+    return this.pickupManifestsService.cancel(id);
+  }
+}
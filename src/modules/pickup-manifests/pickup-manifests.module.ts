@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PickupManifestsController } from './pickup-manifests.controller';
+import { PickupManifestsService } from './pickup-manifests.service';
+import { PickupManifest, PickupManifestSchema } from './schemas/pickup-manifest.schema';
+import { ShipmentsModule } from '@modules/shipments/shipments.module';
+import { CouriersModule } from '@modules/couriers/couriers.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PickupManifest.name, schema: PickupManifestSchema },
+    ]),
+    ShipmentsModule,
+    CouriersModule,
+  ],
+  controllers: [PickupManifestsController],
+  providers: [PickupManifestsService],
+  exports: [PickupManifestsService],
+})
+export class PickupManifestsModule {}
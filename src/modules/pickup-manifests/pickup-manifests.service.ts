@@ -0,0 +1,347 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  PickupManifest,
+  PickupManifestItem,
+  PickupManifestStatus,
+} from './schemas/pickup-manifest.schema';
+import { CreatePickupManifestDto } from './dto/create-pickup-manifest.dto';
+import { HandoverPickupManifestDto } from './dto/handover-pickup-manifest.dto';
+import { LoadSheetFormat } from './dto/load-sheet-query.dto';
+import { generateLoadSheetPDF, LoadSheetData } from './utils/load-sheet-pdf-generator';
+import { generateLoadSheetExcel } from './utils/load-sheet-excel-generator';
+import { Shipment, ShipmentStatus } from '@modules/shipments/schemas/shipment.schema';
+import { ShipmentsService } from '@modules/shipments/shipments.service';
+import { CouriersService } from '@modules/couriers/couriers.service';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+@Injectable()
+export class PickupManifestsService {
+  constructor(
+    @InjectModel(PickupManifest.name)
+    private pickupManifestModel: Model<PickupManifest>,
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    private shipmentsService: ShipmentsService,
+    private couriersService: CouriersService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Generate unique manifest number in format PM-YYYY-NNNN
+   */
+  private async generateManifestNumber(): Promise<string> {
+    const prefix = `PM-${new Date().getFullYear()}-`;
+
+    const lastManifest = await this.pickupManifestModel
+      .findOne({ manifestNumber: { $regex: `^${prefix}` } })
+      .sort({ manifestNumber: -1 })
+      .exec();
+
+    const nextNumber = lastManifest
+      ? parseInt(lastManifest.manifestNumber.replace(prefix, ''), 10) + 1
+      : 1;
+
+    return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Put booked shipments of one courier on a new manifest for the rider to collect
+   */
+  async create(dto: CreatePickupManifestDto, userId?: string): Promise<PickupManifest> {
+    const courier = await this.couriersService.findByType(dto.courierType);
+    const shipmentIds = [...new Set(dto.shipmentIds)];
+
+    const shipments = await this.shipmentModel
+      .find({ _id: { $in: shipmentIds }, isDeleted: false })
+      .select('-trackingEvents -courierApiResponse')
+      .exec();
+
+    const foundIds = new Set(shipments.map((shipment) => shipment._id.toString()));
+    const missingIds = shipmentIds.filter((id) => !foundIds.has(id));
+    if (missingIds.length) {
+      throw new NotFoundException(`Shipments not found: ${missingIds.join(', ')}`);
+    }
+
+    const problems = shipments
+      .map((shipment) => {
+        if (!shipment.courierId.equals(courier._id)) {
+          return `${shipment.trackingNumber} is booked with another courier`;
+        }
+        if (shipment.status !== ShipmentStatus.BOOKED) {
+          return `${shipment.trackingNumber} is ${shipment.status}`;
+        }
+        if (shipment.pickupManifestId) {
+          return `${shipment.trackingNumber} is already on a manifest`;
+        }
+        return null;
+      })
+      .filter(Boolean);
+    if (problems.length) {
+      throw new BadRequestException({
+        message: 'Only booked shipments of this courier without a manifest can be added',
+        errors: problems,
+      });
+    }
+
+    // Keep the requested order on the load sheet
+    const shipmentsById = new Map(shipments.map((s) => [s._id.toString(), s]));
+    const items: PickupManifestItem[] = shipmentIds.map((id) => {
+      const shipment = shipmentsById.get(id)!;
+      return {
+        shipmentId: shipment._id,
+        trackingNumber: shipment.trackingNumber,
+        consignmentNumber: shipment.consignmentNumber,
+        customerName: shipment.customerName,
+        city: shipment.city,
+        pieces: shipment.quantity,
+        weightInKg: shipment.weightInKg,
+      };
+    });
+
+    const manifest = new this.pickupManifestModel({
+      manifestNumber: await this.generateManifestNumber(),
+      courierId: courier._id,
+      courierType: courier.courierType,
+      pickupDate: new Date(dto.pickupDate),
+      items,
+      remarks: dto.remarks,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+      ...this.calculateTotals(items),
+    });
+    await manifest.save();
+
+    await this.shipmentModel.updateMany(
+      { _id: { $in: items.map((item) => item.shipmentId) } },
+      { pickupManifestId: manifest._id },
+    );
+
+    return manifest;
+  }
+
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    courierType?: CourierType,
+    status?: PickupManifestStatus,
+    pickupDate?: string,
+  ): Promise<{
+    data: PickupManifest[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: any = { isDeleted: false };
+
+    if (courierType) {
+      query.courierType = courierType;
+    }
+    if (status) {
+      query.status = status;
+    }
+    if (pickupDate) {
+      const dayStart = new Date(pickupDate);
+      dayStart.setHours(0, 0, 0, 0);
+      const dayEnd = new Date(dayStart);
+      dayEnd.setDate(dayEnd.getDate() + 1);
+      query.pickupDate = { $gte: dayStart, $lt: dayEnd };
+    }
+
+    const [data, total] = await Promise.all([
+      this.pickupManifestModel
+        .find(query)
+        .select('-items')
+        .populate('courierId', 'courierName courierType')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.pickupManifestModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string): Promise<PickupManifest> {
+    const manifest = await this.pickupManifestModel
+      .findOne({ _id: id, isDeleted: false })
+      .populate('courierId', 'courierName courierType contactPhone')
+      .populate('createdBy', 'firstName lastName email')
+      .populate('handedOverBy', 'firstName lastName email')
+      .exec();
+
+    if (!manifest) {
+      throw new NotFoundException(`Pickup manifest with ID ${id} not found`);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Load sheet of a manifest as PDF or Excel. Every print is counted.
+   */
+  async generateLoadSheet(
+    id: string,
+    format: LoadSheetFormat,
+  ): Promise<{ buffer: Buffer; manifestNumber: string }> {
+    const manifest = await this.pickupManifestModel
+      .findOne({ _id: id, isDeleted: false })
+      .populate<{ courierId: Courier }>('courierId', 'courierName')
+      .exec();
+
+    if (!manifest) {
+      throw new NotFoundException(`Pickup manifest with ID ${id} not found`);
+    }
+    if (manifest.status === PickupManifestStatus.CANCELLED) {
+      throw new BadRequestException(
+        'Cannot print the load sheet of a cancelled manifest',
+      );
+    }
+
+    const shipper = this.configService.get('shipper');
+    const data: LoadSheetData = {
+      manifestNumber: manifest.manifestNumber,
+      courierName: manifest.courierId?.courierName || manifest.courierType,
+      pickupDate: manifest.pickupDate,
+      shipperName: shipper.name,
+      originCity: shipper.city,
+      items: manifest.items,
+      totalShipments: manifest.totalShipments,
+      totalPieces: manifest.totalPieces,
+      totalWeightInKg: manifest.totalWeightInKg,
+      remarks: manifest.remarks,
+      riderName: manifest.riderName,
+      riderPhone: manifest.riderPhone,
+      handedOverAt: manifest.handedOverAt,
+    };
+
+    const buffer =
+      format === LoadSheetFormat.EXCEL
+        ? await generateLoadSheetExcel(data)
+        : await generateLoadSheetPDF(data);
+
+    await this.pickupManifestModel.updateOne(
+      { _id: manifest._id },
+      { $inc: { printCount: 1 } },
+    );
+
+    return { buffer, manifestNumber: manifest.manifestNumber };
+  }
+
+  /**
+   * Record that the courier rider collected the manifest. Shipments the rider did not
+   * take come off the manifest; the rest are marked as picked up.
+   */
+  async handover(
+    id: string,
+    dto: HandoverPickupManifestDto,
+    userId?: string,
+  ): Promise<PickupManifest> {
+    const manifest = await this.findOpenManifest(id);
+
+    const excludedIds = new Set(dto.excludedShipmentIds || []);
+    const unknownIds = [...excludedIds].filter(
+      (shipmentId) => !manifest.items.some((item) => item.shipmentId.equals(shipmentId)),
+    );
+    if (unknownIds.length) {
+      throw new BadRequestException(
+        `Shipments not on manifest ${manifest.manifestNumber}: ${unknownIds.join(', ')}`,
+      );
+    }
+
+    const items = manifest.items.filter(
+      (item) => !excludedIds.has(item.shipmentId.toString()),
+    );
+    if (!items.length) {
+      throw new BadRequestException(
+        'The rider collected no shipments; cancel the manifest instead',
+      );
+    }
+
+    if (excludedIds.size) {
+      const excludedObjectIds = [...excludedIds].map(
+        (shipmentId) => new Types.ObjectId(shipmentId),
+      );
+      await this.shipmentModel.updateMany(
+        { _id: { $in: excludedObjectIds }, pickupManifestId: manifest._id },
+        { $unset: { pickupManifestId: 1 } },
+      );
+      manifest.excludedShipmentIds = excludedObjectIds;
+    }
+
+    await this.shipmentsService.markPickedUp(
+      items.map((item) => item.shipmentId),
+      `Picked up by ${dto.riderName} on manifest ${manifest.manifestNumber}`,
+      userId,
+    );
+
+    manifest.items = items;
+    Object.assign(manifest, this.calculateTotals(items));
+    manifest.status = PickupManifestStatus.HANDED_OVER;
+    manifest.riderName = dto.riderName;
+    manifest.riderPhone = dto.riderPhone;
+    manifest.handedOverAt = new Date();
+    manifest.handedOverBy = userId ? new Types.ObjectId(userId) : undefined;
+    if (dto.remarks) {
+      manifest.remarks = manifest.remarks
+        ? `${manifest.remarks}\n${dto.remarks}`
+        : dto.remarks;
+    }
+
+    return manifest.save();
+  }
+
+  /**
+   * Cancel a manifest before handover so its shipments can go on another one
+   */
+  async cancel(id: string): Promise<PickupManifest> {
+    const manifest = await this.findOpenManifest(id);
+
+    await this.shipmentModel.updateMany(
+      { pickupManifestId: manifest._id },
+      { $unset: { pickupManifestId: 1 } },
+    );
+
+    manifest.status = PickupManifestStatus.CANCELLED;
+    return manifest.save();
+  }
+
+  private async findOpenManifest(id: string): Promise<PickupManifest> {
+    const manifest = await this.pickupManifestModel.findOne({
+      _id: id,
+      isDeleted: false,
+    });
+
+    if (!manifest) {
+      throw new NotFoundException(`Pickup manifest with ID ${id} not found`);
+    }
+    if (manifest.status !== PickupManifestStatus.OPEN) {
+      throw new BadRequestException(
+        `Pickup manifest ${manifest.manifestNumber} is already ${manifest.status}`,
+      );
+    }
+
+    return manifest;
+  }
+
+  private calculateTotals(items: PickupManifestItem[]) {
+    return {
+      totalShipments: items.length,
+      totalPieces: items.reduce((sum, item) => sum + item.pieces, 0),
+      // Rounded to grams to avoid floating point noise on the load sheet
+      totalWeightInKg:
+        Math.round(items.reduce((sum, item) => sum + (item.weightInKg || 0), 0) * 1000) /
+        1000,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export enum PickupManifestStatus {
+  OPEN = 'open', // Waiting for the courier rider
+  HANDED_OVER = 'handed_over',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Shipment as listed on the load sheet, kept as it was when the manifest was made
+ * so reprints match what the rider signed for
+ */
+export interface PickupManifestItem {
+  shipmentId: Types.ObjectId;
+  trackingNumber: string;
+  consignmentNumber?: string;
+  customerName: string;
+  city: string;
+  pieces: number;
+  weightInKg?: number;
+}
+
+@Schema({ timestamps: true })
+export class PickupManifest extends Document {
+  @ApiProperty({
+    example: 'PM-2024-0001',
+    description: 'Auto-generated pickup manifest number',
+  })
+  @Prop({ required: true, unique: true, trim: true })
+  manifestNumber: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Courier collecting the shipments',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Courier', required: true, index: true })
+  courierId: Types.ObjectId;
+
+  @ApiProperty({ example: 'tcs', description: 'Courier type', enum: CourierType })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({ example: '2024-01-15T00:00:00.000Z', description: 'Pickup date' })
+  @Prop({ required: true, index: true })
+  pickupDate: Date;
+
+  @ApiProperty({
+    example: 'open',
+    description: 'Manifest status',
+    enum: PickupManifestStatus,
+  })
+  @Prop({
+    type: String,
+    enum: PickupManifestStatus,
+    default: PickupManifestStatus.OPEN,
+    index: true,
+  })
+  status: PickupManifestStatus;
+
+  @ApiProperty({
+    example: [
+      {
+        shipmentId: '507f1f77bcf86cd799439011',
+        trackingNumber: '779900000001',
+        consignmentNumber: '779900000001',
+        customerName: 'John Doe',
+        city: 'Lahore',
+        pieces: 1,
+        weightInKg: 0.5,
+      },
+    ],
+    description: 'Shipments on the load sheet',
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        shipmentId: { type: Types.ObjectId, ref: 'Shipment', required: true },
+        trackingNumber: { type: String, required: true },
+        consignmentNumber: String,
+        customerName: { type: String, required: true },
+        city: { type: String, required: true },
+        pieces: { type: Number, required: true },
+        weightInKg: Number,
+      },
+    ],
+    default: [],
+  })
+  items: PickupManifestItem[];
+
+  @ApiProperty({ example: 25, description: 'Number of shipments' })
+  @Prop({ default: 0 })
+  totalShipments: number;
+
+  @ApiProperty({ example: 27, description: 'Total pieces' })
+  @Prop({ default: 0 })
+  totalPieces: number;
+
+  @ApiProperty({
+    example: 12.5,
+    description: 'Total weight in KG of shipments with a weight',
+  })
+  @Prop({ default: 0 })
+  totalWeightInKg: number;
+
+  @ApiProperty({ example: 'Collect after 3 PM', required: false })
+  @Prop({ trim: true })
+  remarks?: string;
+
+  @ApiProperty({
+    example: 'Ali Raza',
+    description: 'Courier rider who collected',
+    required: false,
+  })
+  @Prop({ trim: true })
+  riderName?: string;
+
+  @ApiProperty({ example: '+923001234567', required: false })
+  @Prop({ trim: true })
+  riderPhone?: string;
+
+  @ApiProperty({ example: '2024-01-15T15:10:00.000Z', required: false })
+  @Prop()
+  handedOverAt?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who handed the shipments over',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  handedOverBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439012'],
+    description: 'Shipments left off at handover because the rider did not collect them',
+    required: false,
+  })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Shipment' }], default: [] })
+  excludedShipmentIds: Types.ObjectId[];
+
+  @ApiProperty({ example: 2, description: 'Number of times the load sheet was printed' })
+  @Prop({ default: 0 })
+  printCount: number;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who created the manifest',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiProperty({ example: false, description: 'Soft delete flag' })
+  @Prop({ default: false })
+  isDeleted: boolean;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const PickupManifestSchema = SchemaFactory.createForClass(PickupManifest);
+
+// Indexes
+PickupManifestSchema.index({ isDeleted: 1, createdAt: -1 });
+PickupManifestSchema.index({ courierId: 1, pickupDate: -1 });
+PickupManifestSchema.index({ 'items.shipmentId': 1 });
@@ -0,0 +1,121 @@
+import * as ExcelJS from 'exceljs';
+import { LoadSheetData } from './load-sheet-pdf-generator';
+
+/**
+ * Generate the load sheet as an Excel workbook, with the same content as the PDF
+ */
+export async function generateLoadSheetExcel(data: LoadSheetData): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Load Sheet');
+
+  sheet.columns = [
+    { key: 'serial', width: 6 },
+    { key: 'trackingNumber', width: 20 },
+    { key: 'consignmentNumber', width: 20 },
+    { key: 'customerName', width: 28 },
+    { key: 'city', width: 16 },
+    { key: 'pieces', width: 8 },
+    { key: 'weightInKg', width: 12 },
+  ];
+
+  sheet.mergeCells('A1:G1');
+  sheet.getCell('A1').value = `Courier Pickup Manifest - ${data.manifestNumber}`;
+  sheet.getCell('A1').font = { size: 16, bold: true };
+  sheet.getCell('A1').alignment = { horizontal: 'center' };
+
+  sheet.addRow([]);
+  sheet.addRow([
+    'Courier',
+    data.courierName,
+    '',
+    'Pickup Date',
+    formatDate(data.pickupDate),
+  ]);
+  sheet.addRow(['Shipper', `${data.shipperName}, ${data.originCity}`]);
+  if (data.remarks) {
+    sheet.addRow(['Remarks', data.remarks]);
+  }
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow([
+    '#',
+    'Tracking #',
+    'CN #',
+    'Consignee',
+    'City',
+    'Pieces',
+    'Weight (KG)',
+  ]);
+  headerRow.font = { bold: true };
+  headerRow.eachCell((cell) => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE6E6E6' } };
+  });
+
+  data.items.forEach((item, index) => {
+    sheet.addRow([
+      index + 1,
+      item.trackingNumber,
+      item.consignmentNumber || '',
+      item.customerName,
+      item.city,
+      item.pieces,
+      item.weightInKg ?? '',
+    ]);
+  });
+
+  // Borders around the shipment table
+  for (let rowNumber = headerRow.number; rowNumber <= sheet.rowCount; rowNumber++) {
+    sheet.getRow(rowNumber).eachCell({ includeEmpty: true }, (cell) => {
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' },
+      };
+    });
+  }
+
+  sheet.addRow([]);
+  const totalsRow = sheet.addRow([
+    'Total',
+    `${data.totalShipments} shipments`,
+    '',
+    '',
+    '',
+    data.totalPieces,
+    data.totalWeightInKg,
+  ]);
+  totalsRow.font = { bold: true };
+
+  if (data.handedOverAt) {
+    sheet.addRow([
+      'Handed over',
+      `${data.riderName || ''} ${data.riderPhone || ''}`.trim(),
+      '',
+      'On',
+      `${formatDate(data.handedOverAt)} ${data.handedOverAt.toLocaleTimeString('en-GB')}`,
+    ]);
+  }
+
+  sheet.addRow([]);
+  sheet.addRow([]);
+  sheet.addRow(['', '____________________', '', '', '____________________']);
+  sheet.addRow([
+    '',
+    'Handed over by (Name & Signature)',
+    '',
+    '',
+    'Received by Rider (Name & Signature)',
+  ]);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
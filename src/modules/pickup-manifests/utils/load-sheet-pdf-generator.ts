@@ -0,0 +1,224 @@
+import PDFDocument from 'pdfkit';
+import { PickupManifestItem } from '../schemas/pickup-manifest.schema';
+
+export interface LoadSheetData {
+  manifestNumber: string;
+  courierName: string;
+  pickupDate: Date;
+  shipperName: string;
+  originCity: string;
+  items: PickupManifestItem[];
+  totalShipments: number;
+  totalPieces: number;
+  totalWeightInKg: number;
+  remarks?: string;
+  riderName?: string;
+  riderPhone?: string;
+  handedOverAt?: Date;
+}
+
+const COLUMNS = [
+  { header: '#', width: 25 },
+  { header: 'Tracking #', width: 95 },
+  { header: 'CN #', width: 85 },
+  { header: 'Consignee', width: 125 },
+  { header: 'City', width: 75 },
+  { header: 'Pcs', width: 35 },
+  { header: 'Weight (KG)', width: 55 },
+];
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+/**
+ * Generate the load sheet a courier rider signs when collecting a pickup manifest
+ */
+export function generateLoadSheetPDF(data: LoadSheetData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({ margin: PAGE_MARGIN, size: 'A4' });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      // Title and manifest details
+      doc
+        .fillColor('#000')
+        .font('Helvetica-Bold')
+        .fontSize(16)
+        .text('Courier Pickup Manifest / Load Sheet', { align: 'center' });
+      doc.moveDown(0.8);
+
+      const detailsY = doc.y;
+      writeDetail(doc, 'Manifest #', data.manifestNumber, PAGE_MARGIN, detailsY);
+      writeDetail(doc, 'Pickup Date', formatDate(data.pickupDate), 330, detailsY);
+      writeDetail(doc, 'Courier', data.courierName, PAGE_MARGIN, detailsY + 16);
+      writeDetail(
+        doc,
+        'Shipper',
+        `${data.shipperName}, ${data.originCity}`,
+        330,
+        detailsY + 16,
+      );
+      if (data.remarks) {
+        writeDetail(doc, 'Remarks', data.remarks, PAGE_MARGIN, detailsY + 32);
+      }
+
+      // Shipment table, repeating the header on each page
+      let rowY = detailsY + (data.remarks ? 56 : 40);
+      rowY = drawRow(
+        doc,
+        COLUMNS.map((column) => column.header),
+        rowY,
+        true,
+      );
+      data.items.forEach((item, index) => {
+        if (rowY + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+          doc.addPage();
+          rowY = drawRow(
+            doc,
+            COLUMNS.map((column) => column.header),
+            PAGE_MARGIN,
+            true,
+          );
+        }
+
+        rowY = drawRow(
+          doc,
+          [
+            String(index + 1),
+            item.trackingNumber,
+            item.consignmentNumber || '-',
+            item.customerName,
+            item.city,
+            String(item.pieces),
+            item.weightInKg ? String(item.weightInKg) : '-',
+          ],
+          rowY,
+          false,
+        );
+      });
+
+      // Totals and signatures stay together on the last page
+      if (rowY + 170 > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+        rowY = PAGE_MARGIN;
+      }
+
+      rowY += 12;
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(10)
+        .text(
+          `Total Shipments: ${data.totalShipments}    Total Pieces: ${data.totalPieces}    ` +
+            `Total Weight: ${data.totalWeightInKg} KG`,
+          PAGE_MARGIN,
+          rowY,
+        );
+
+      if (data.handedOverAt) {
+        rowY += 18;
+        doc
+          .font('Helvetica')
+          .fontSize(9)
+          .text(
+            `Handed over to ${data.riderName || 'rider'}` +
+              `${data.riderPhone ? ` (${data.riderPhone})` : ''} on ` +
+              `${formatDate(data.handedOverAt)} ${data.handedOverAt.toLocaleTimeString('en-GB')}`,
+            PAGE_MARGIN,
+            rowY,
+          );
+      }
+
+      const signatureY = rowY + 70;
+      drawSignatureLine(
+        doc,
+        'Handed over by (Name & Signature)',
+        PAGE_MARGIN,
+        signatureY,
+      );
+      drawSignatureLine(doc, 'Received by Rider (Name & Signature)', 330, signatureY);
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .text(
+          'The rider confirms receiving the shipments listed above in good condition.',
+          PAGE_MARGIN,
+          signatureY + 40,
+          { align: 'center', width: doc.page.width - PAGE_MARGIN * 2 },
+        );
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function writeDetail(
+  doc: PDFKit.PDFDocument,
+  label: string,
+  value: string,
+  x: number,
+  y: number,
+): void {
+  doc
+    .fontSize(10)
+    .font('Helvetica-Bold')
+    .text(`${label}: `, x, y, { continued: true })
+    .font('Helvetica')
+    .text(value);
+}
+
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  values: string[],
+  y: number,
+  isHeader: boolean,
+): number {
+  let x = PAGE_MARGIN;
+
+  if (isHeader) {
+    const tableWidth = COLUMNS.reduce((sum, column) => sum + column.width, 0);
+    doc.rect(x, y, tableWidth, ROW_HEIGHT).fill('#e6e6e6');
+  }
+
+  doc
+    .fillColor('#000')
+    .font(isHeader ? 'Helvetica-Bold' : 'Helvetica')
+    .fontSize(8);
+  values.forEach((value, index) => {
+    const { width } = COLUMNS[index];
+    doc.lineWidth(0.5).rect(x, y, width, ROW_HEIGHT).stroke();
+    doc.text(value, x + 3, y + 5, { width: width - 6, height: 10, lineBreak: false });
+    x += width;
+  });
+
+  return y + ROW_HEIGHT;
+}
+
+function drawSignatureLine(
+  doc: PDFKit.PDFDocument,
+  label: string,
+  x: number,
+  y: number,
+): void {
+  doc
+    .moveTo(x, y)
+    .lineTo(x + 200, y)
+    .lineWidth(0.5)
+    .stroke();
+  doc
+    .font('Helvetica')
+    .fontSize(9)
+    .text(label, x, y + 5);
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsMongoId,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const MAX_RIDER_ASSIGNMENT_SHIPMENTS = 200;
+
+export class AssignRiderDto {
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+    description: `Self-delivery shipments to give the rider (up to ${MAX_RIDER_ASSIGNMENT_SHIPMENTS})`,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_RIDER_ASSIGNMENT_SHIPMENTS)
+  @IsMongoId({ each: true })
+  shipmentIds: string[];
+
+  @ApiProperty({
+    example: '2024-01-16',
+    description: 'Day the rider is to deliver them (ISO date format, default today)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  deliveryDate?: string;
+}
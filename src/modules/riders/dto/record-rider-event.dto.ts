@@ -0,0 +1,67 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryFailureReason } from '@modules/shipments/schemas/shipment.schema';
+
+export enum RiderDeliveryEvent {
+  OUT_FOR_DELIVERY = 'out_for_delivery', // The rider has set out with the parcel
+  ATTEMPTED = 'attempted', // Not delivered this time; tried again until the attempts run out
+  DELIVERED = 'delivered', // Needs the proof of delivery uploaded first
+  FAILED = 'failed', // Cannot be delivered; the parcel goes back
+}
+
+export class RecordRiderEventDto {
+  @ApiProperty({
+    example: 'attempted',
+    description: 'What happened at the stop',
+    enum: RiderDeliveryEvent,
+  })
+  @IsEnum(RiderDeliveryEvent)
+  event: RiderDeliveryEvent;
+
+  @ApiProperty({
+    example: 'customer_unavailable',
+    description: 'Why the delivery did not go through; required for attempted and failed',
+    enum: DeliveryFailureReason,
+    required: false,
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.event === RiderDeliveryEvent.ATTEMPTED ||
+      dto.event === RiderDeliveryEvent.FAILED,
+  )
+  @IsNotEmpty({
+    message: 'failureReason is required when a delivery is attempted or failed',
+  })
+  @IsEnum(DeliveryFailureReason)
+  failureReason?: DeliveryFailureReason;
+
+  @ApiProperty({
+    example: '2024-01-17',
+    description:
+      'Day to try again after an attempt, e.g. the day the customer asked for (ISO date format, default after the configured delay)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  nextAttemptDate?: string;
+
+  @ApiProperty({
+    example: 'Gate locked, neighbour says customer is away until Friday',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  remarks?: string;
+
+  @ApiProperty({ example: 'Gulshan-e-Iqbal, Karachi', required: false })
+  @IsOptional()
+  @IsString()
+  location?: string;
+}
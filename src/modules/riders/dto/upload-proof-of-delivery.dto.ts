@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UploadProofOfDeliveryDto {
+  @ApiProperty({
+    example: 'Ali Raza',
+    description: 'Name of the person who took the parcel',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  receivedBy?: string;
+}
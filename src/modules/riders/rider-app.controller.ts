@@ -0,0 +1,154 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RidersService } from './riders.service';
+import { RecordRiderEventDto } from './dto/record-rider-event.dto';
+import { UploadProofOfDeliveryDto } from './dto/upload-proof-of-delivery.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+
+// Largest proof of delivery image accepted from the rider app
+const MAX_PROOF_OF_DELIVERY_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Endpoints used by the rider app; a rider only sees the shipments assigned to them
+ */
+@ApiTags('Rider App')
+@ApiBearerAuth('JWT-auth')
+@Controller('rider')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RiderAppController {
+  constructor(private readonly ridersService: RidersService) {}
+
+  @Get('stops')
+  @Roles(UserRole.RIDER)
+  @ApiOperation({
+    summary: 'List my stops for a day (Rider only)',
+    description:
+      'Shipments planned for the day plus undelivered shipments from earlier days.',
+  })
+  @ApiQuery({
+    name: 'date',
+    required: false,
+    type: String,
+    description: 'Delivery day (ISO date format, default today)',
+    example: '2024-01-16',
+  })
+  @ApiResponse({ status: 200, description: 'Stops retrieved successfully' })
+  findStops(@CurrentUser('_id') riderId: string, @Query('date') date?: string) {
+    return this.ridersService.findStops(riderId, date);
+  }
+
+  @Get('stops/:shipmentId')
+  @Roles(UserRole.RIDER)
+  @ApiOperation({ summary: 'Get one of my stops (Rider only)' })
+  @ApiParam({ name: 'shipmentId', description: 'Shipment MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Stop retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Shipment not assigned to the rider' })
+  findStop(
+    @CurrentUser('_id') riderId: string,
+    @Param('shipmentId', ParseObjectIdPipe) shipmentId: string,
+  ) {
+    return this.ridersService.findStop(riderId, shipmentId);
+  }
+
+  @Post('stops/:shipmentId/events')
+  @Roles(UserRole.RIDER)
+  @ApiOperation({
+    summary: 'Record a delivery event at a stop (Rider only)',
+    description:
+      'out_for_delivery, attempted (tried again later), delivered (needs the proof of delivery) or failed (returned). Attempted and failed need a failure reason.',
+  })
+  @ApiParam({ name: 'shipmentId', description: 'Shipment MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Event recorded' })
+  @ApiResponse({
+    status: 400,
+    description: 'Shipment already closed, reason missing or proof of delivery missing',
+  })
+  @ApiResponse({ status: 404, description: 'Shipment not assigned to the rider' })
+  recordEvent(
+    @CurrentUser('_id') riderId: string,
+    @Param('shipmentId', ParseObjectIdPipe) shipmentId: string,
+    @Body() eventDto: RecordRiderEventDto,
+  ) {
+    return this.ridersService.recordEvent(riderId, shipmentId, eventDto);
+  }
+
+  @Post('stops/:shipmentId/proof-of-delivery')
+  @Roles(UserRole.RIDER)
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'photo', maxCount: 1 },
+        { name: 'signature', maxCount: 1 },
+      ],
+      { limits: { fileSize: MAX_PROOF_OF_DELIVERY_IMAGE_BYTES } },
+    ),
+  )
+  @ApiOperation({ summary: 'Upload the proof of delivery for a stop (Rider only)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiParam({ name: 'shipmentId', description: 'Shipment MongoDB ObjectId' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['photo', 'signature'],
+      properties: {
+        photo: {
+          type: 'string',
+          format: 'binary',
+          description: 'Photo of the handed over parcel (JPEG, PNG or WebP, up to 5 MB)',
+        },
+        signature: {
+          type: 'string',
+          format: 'binary',
+          description: "Recipient's signature (JPEG, PNG or WebP, up to 5 MB)",
+        },
+        receivedBy: {
+          type: 'string',
+          example: 'Ali Raza',
+          description: 'Name of the person who took the parcel',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Proof of delivery uploaded' })
+  @ApiResponse({ status: 400, description: 'Image missing or not an image' })
+  @ApiResponse({ status: 404, description: 'Shipment not assigned to the rider' })
+  uploadProofOfDelivery(
+    @CurrentUser('_id') riderId: string,
+    @Param('shipmentId', ParseObjectIdPipe) shipmentId: string,
+    @UploadedFiles()
+    files: { photo?: Express.Multer.File[]; signature?: Express.Multer.File[] },
+    @Body() uploadDto: UploadProofOfDeliveryDto,
+  ) {
+    return this.ridersService.uploadProofOfDelivery(
+      riderId,
+      shipmentId,
+      files,
+      uploadDto,
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { Body, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { RidersService } from './riders.service';
+import { AssignRiderDto } from './dto/assign-rider.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { RolesGuard } from '@common/guards/roles.guard';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+
+@ApiTags('Riders')
+@ApiBearerAuth('JWT-auth')
+@Controller('riders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RidersController {
+  constructor(private readonly ridersService: RidersService) {}
+
+  @Post(':riderId/assignments')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Assign self-delivery shipments to a rider for a delivery day',
+    description:
+      'Shipments already assigned move to this rider and day. Every shipment must be an open self-delivery shipment.',
+  })
+  @ApiParam({ name: 'riderId', description: 'Rider user MongoDB ObjectId' })
+  @ApiResponse({
+    status: 201,
+    description: 'Shipments assigned',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          riderId: '507f1f77bcf86cd799439011',
+          plannedDeliveryDate: '2024-01-16T00:00:00.000Z',
+          assigned: 12,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'User is not an active rider, or a shipment cannot be assigned',
+  })
+  @ApiResponse({ status: 404, description: 'Rider or shipment not found' })
+  assignShipments(
+    @Param('riderId', ParseObjectIdPipe) riderId: string,
+    @Body() assignDto: AssignRiderDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.ridersService.assignShipments(riderId, assignDto, userId);
+  }
+
+  @Get(':riderId/stops')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: "List a rider's stops for a day",
+    description:
+      'Shipments planned for the day plus undelivered shipments from earlier days.',
+  })
+  @ApiParam({ name: 'riderId', description: 'Rider user MongoDB ObjectId' })
+  @ApiQuery({
+    name: 'date',
+    required: false,
+    type: String,
+    description: 'Delivery day (ISO date format, default today)',
+    example: '2024-01-16',
+  })
+  @ApiResponse({ status: 200, description: 'Stops retrieved successfully' })
+  findStops(
+    @Param('riderId', ParseObjectIdPipe) riderId: string,
+    @Query('date') date?: string,
+  ) {
+    return this.ridersService.findStops(riderId, date);
+  }
+}
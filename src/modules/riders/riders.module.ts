@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { RidersService } from './riders.service';
+import { RidersController } from './riders.controller';
+import { RiderAppController } from './rider-app.controller';
+import { ShipmentsModule } from '@modules/shipments/shipments.module';
+import { UsersModule } from '@modules/users/users.module';
+
+@Module({
+  imports: [ShipmentsModule, UsersModule],
+  controllers: [RidersController, RiderAppController],
+  providers: [RidersService],
+  exports: [RidersService],
+})
+export class RidersModule {}
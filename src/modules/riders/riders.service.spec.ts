@@ -0,0 +1,74 @@
+import { Types } from 'mongoose';
+import { RidersService } from './riders.service';
+import { RiderDeliveryEvent } from './dto/record-rider-event.dto';
+import {
+  DeliveryFailureReason,
+  ShipmentStatus,
+} from '@modules/shipments/schemas/shipment.schema';
+
+describe('RidersService', () => {
+  describe('recordEvent', () => {
+    const riderId = new Types.ObjectId().toString();
+    const shipmentId = new Types.ObjectId().toString();
+    const shipment = { _id: shipmentId, status: ShipmentStatus.OUT_FOR_DELIVERY };
+
+    let shipmentsService: { applyRiderStatus: jest.Mock };
+    let service: RidersService;
+
+    beforeEach(() => {
+      const shipmentModel = {
+        findOne: jest.fn(() => ({ exec: async () => shipment })),
+      };
+      shipmentsService = { applyRiderStatus: jest.fn(async () => shipment) };
+      service = new RidersService(
+        shipmentModel as any,
+        shipmentsService as any,
+        {} as any,
+        {} as any,
+      );
+    });
+
+    it('records an attempted delivery as a failed attempt to try again', async () => {
+      await service.recordEvent(riderId, shipmentId, {
+        event: RiderDeliveryEvent.ATTEMPTED,
+        failureReason: DeliveryFailureReason.CUSTOMER_UNAVAILABLE,
+        nextAttemptDate: '2024-01-17',
+      });
+
+      expect(shipmentsService.applyRiderStatus).toHaveBeenCalledWith(
+        shipment,
+        ShipmentStatus.FAILED,
+        riderId,
+        expect.objectContaining({
+          failureReason: DeliveryFailureReason.CUSTOMER_UNAVAILABLE,
+          nextAttemptDate: new Date('2024-01-17'),
+          returnToOrigin: false,
+        }),
+      );
+    });
+
+    it('records a failed delivery as an attempt that returns the shipment to origin', async () => {
+      await service.recordEvent(riderId, shipmentId, {
+        event: RiderDeliveryEvent.FAILED,
+        failureReason: DeliveryFailureReason.REFUSED,
+      });
+
+      expect(shipmentsService.applyRiderStatus).toHaveBeenCalledWith(
+        shipment,
+        ShipmentStatus.FAILED,
+        riderId,
+        expect.objectContaining({
+          failureReason: DeliveryFailureReason.REFUSED,
+          returnToOrigin: true,
+        }),
+      );
+    });
+
+    it('refuses delivered until the proof of delivery is uploaded', async () => {
+      await expect(
+        service.recordEvent(riderId, shipmentId, { event: RiderDeliveryEvent.DELIVERED }),
+      ).rejects.toThrow('Upload the proof of delivery');
+      expect(shipmentsService.applyRiderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
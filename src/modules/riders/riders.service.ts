@@ -0,0 +1,253 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { randomUUID } from 'crypto';
+import {
+  FINAL_SHIPMENT_STATUSES,
+  Shipment,
+  ShipmentStatus,
+} from '@modules/shipments/schemas/shipment.schema';
+import { ShipmentsService } from '@modules/shipments/shipments.service';
+import { UsersService } from '@modules/users/users.service';
+import { S3Service } from '@common/services/s3.service';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { AssignRiderDto } from './dto/assign-rider.dto';
+import { RecordRiderEventDto, RiderDeliveryEvent } from './dto/record-rider-event.dto';
+import { UploadProofOfDeliveryDto } from './dto/upload-proof-of-delivery.dto';
+
+// Shipment status each rider event moves the shipment to; a failed delivery is
+// recorded as an attempt and then returned to origin
+const RIDER_EVENT_STATUS: Record<RiderDeliveryEvent, ShipmentStatus> = {
+  [RiderDeliveryEvent.OUT_FOR_DELIVERY]: ShipmentStatus.OUT_FOR_DELIVERY,
+  [RiderDeliveryEvent.ATTEMPTED]: ShipmentStatus.FAILED,
+  [RiderDeliveryEvent.DELIVERED]: ShipmentStatus.DELIVERED,
+  [RiderDeliveryEvent.FAILED]: ShipmentStatus.FAILED,
+};
+
+const PROOF_OF_DELIVERY_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Fields a rider needs to find the customer and hand over the parcel
+const RIDER_STOP_FIELDS =
+  'trackingNumber status customerName customerPhone address city productDescription ' +
+  'quantity declaredValue plannedDeliveryDate deliveryRemarks proofOfDelivery ' +
+  'bankOrderId bipOrderId';
+
+@Injectable()
+export class RidersService {
+  constructor(
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    private shipmentsService: ShipmentsService,
+    private usersService: UsersService,
+    private s3Service: S3Service,
+  ) {}
+
+  /**
+   * Assign self-delivery shipments to a rider for a delivery day. Assigning a
+   * shipment again moves it to the new rider or day.
+   */
+  async assignShipments(riderId: string, assignDto: AssignRiderDto, userId: string) {
+    const rider = await this.usersService.findOne(riderId);
+    if (rider.role !== UserRole.RIDER) {
+      throw new BadRequestException(`User ${rider.email} is not a rider`);
+    }
+    if (!rider.isActive) {
+      throw new BadRequestException(`Rider ${rider.email} is not active`);
+    }
+
+    const shipmentIds = [...new Set(assignDto.shipmentIds)];
+    const shipments = await this.shipmentModel
+      .find({ _id: { $in: shipmentIds }, isDeleted: false })
+      .populate('courierId', 'courierType')
+      .exec();
+
+    const found = new Set(shipments.map((shipment) => shipment._id.toString()));
+    const missing = shipmentIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Shipments not found: ${missing.join(', ')}`);
+    }
+
+    for (const shipment of shipments) {
+      const courier = shipment.courierId as any;
+      if (courier?.courierType !== CourierType.SELF_DELIVERY) {
+        throw new BadRequestException(
+          `Shipment ${shipment.trackingNumber} is not a self-delivery shipment`,
+        );
+      }
+      if (FINAL_SHIPMENT_STATUSES.includes(shipment.status)) {
+        throw new BadRequestException(
+          `Shipment ${shipment.trackingNumber} is already ${shipment.status}`,
+        );
+      }
+    }
+
+    const plannedDeliveryDate = this.startOfDay(assignDto.deliveryDate);
+    await this.shipmentModel.updateMany(
+      { _id: { $in: shipmentIds } },
+      {
+        $set: {
+          riderId: new Types.ObjectId(riderId),
+          plannedDeliveryDate,
+          riderAssignedAt: new Date(),
+          riderAssignedBy: new Types.ObjectId(userId),
+        },
+      },
+    );
+
+    return {
+      riderId,
+      plannedDeliveryDate,
+      assigned: shipmentIds.length,
+    };
+  }
+
+  /**
+   * A rider's stops for a day: the shipments planned for it, plus open shipments
+   * from earlier days that were not delivered yet
+   */
+  async findStops(riderId: string, date?: string): Promise<Shipment[]> {
+    const dayStart = this.startOfDay(date);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    return this.shipmentModel
+      .find({
+        riderId: new Types.ObjectId(riderId),
+        isDeleted: false,
+        $or: [
+          { plannedDeliveryDate: { $gte: dayStart, $lt: dayEnd } },
+          {
+            plannedDeliveryDate: { $lt: dayStart },
+            status: { $nin: FINAL_SHIPMENT_STATUSES },
+          },
+        ],
+      })
+      .select(RIDER_STOP_FIELDS)
+      .sort({ plannedDeliveryDate: 1, city: 1, address: 1 })
+      .exec();
+  }
+
+  /**
+   * One of the rider's stops; shipments assigned to other riders are not found
+   */
+  async findStop(riderId: string, shipmentId: string): Promise<Shipment> {
+    const shipment = await this.shipmentModel
+      .findOne({
+        _id: shipmentId,
+        riderId: new Types.ObjectId(riderId),
+        isDeleted: false,
+      })
+      .exec();
+
+    if (!shipment) {
+      throw new NotFoundException(
+        `Shipment with ID ${shipmentId} is not assigned to you`,
+      );
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Record what happened at a stop. Delivered needs the proof of delivery uploaded
+   * first; attempted and failed need a reason.
+   */
+  async recordEvent(riderId: string, shipmentId: string, eventDto: RecordRiderEventDto) {
+    const shipment = await this.findStop(riderId, shipmentId);
+
+    if (eventDto.event === RiderDeliveryEvent.DELIVERED && !shipment.proofOfDelivery) {
+      throw new BadRequestException(
+        'Upload the proof of delivery before marking the shipment delivered',
+      );
+    }
+
+    return this.shipmentsService.applyRiderStatus(
+      shipment,
+      RIDER_EVENT_STATUS[eventDto.event],
+      riderId,
+      {
+        remarks: eventDto.remarks,
+        location: eventDto.location,
+        failureReason: eventDto.failureReason,
+        nextAttemptDate: eventDto.nextAttemptDate
+          ? new Date(eventDto.nextAttemptDate)
+          : undefined,
+        returnToOrigin: eventDto.event === RiderDeliveryEvent.FAILED,
+      },
+    );
+  }
+
+  /**
+   * Upload the delivery photo and the recipient's signature for a stop. Uploading
+   * again replaces the previous images.
+   */
+  async uploadProofOfDelivery(
+    riderId: string,
+    shipmentId: string,
+    files: { photo?: Express.Multer.File[]; signature?: Express.Multer.File[] },
+    uploadDto: UploadProofOfDeliveryDto,
+  ) {
+    const photo = files?.photo?.[0];
+    const signature = files?.signature?.[0];
+    if (!photo || !signature) {
+      throw new BadRequestException('Both a photo and a signature image are required');
+    }
+    for (const [kind, file] of [
+      ['photo', photo],
+      ['signature', signature],
+    ] as const) {
+      if (!PROOF_OF_DELIVERY_IMAGE_TYPES[file.mimetype]) {
+        throw new BadRequestException(
+          `The ${kind} must be a JPEG, PNG or WebP image, got ${file.mimetype}`,
+        );
+      }
+    }
+
+    const shipment = await this.findStop(riderId, shipmentId);
+    if (FINAL_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(
+        `Shipment ${shipment.trackingNumber} is already ${shipment.status}`,
+      );
+    }
+
+    const [photoUrl, signatureUrl] = await Promise.all([
+      this.uploadImage(photo, shipmentId, 'photo'),
+      this.uploadImage(signature, shipmentId, 'signature'),
+    ]);
+
+    shipment.proofOfDelivery = {
+      photoUrl,
+      signatureUrl,
+      receivedBy: uploadDto.receivedBy,
+      uploadedAt: new Date(),
+      uploadedBy: new Types.ObjectId(riderId),
+    };
+    await shipment.save();
+
+    return shipment;
+  }
+
+  private async uploadImage(
+    file: Express.Multer.File,
+    shipmentId: string,
+    kind: 'photo' | 'signature',
+  ): Promise<string> {
+    const extension = PROOF_OF_DELIVERY_IMAGE_TYPES[file.mimetype];
+    return this.s3Service.uploadProofOfDeliveryImage(
+      file.buffer,
+      shipmentId,
+      `${kind}-${randomUUID()}.${extension}`,
+      file.mimetype,
+    );
+  }
+
+  private startOfDay(date?: string): Date {
+    const day = date ? new Date(date) : new Date();
+    day.setHours(0, 0, 0, 0);
+    return day;
+  }
+}
@@ -0,0 +1,433 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  ACTIVE_COURIER_BOOKING_STATUSES,
+  CourierBooking,
+  CourierBookingStatus,
+} from './schemas/courier-booking.schema';
+import { Shipment } from './schemas/shipment.schema';
+import { ResolveCourierBookingDto } from './dto/resolve-courier-booking.dto';
+import { CourierBookingReconciliation } from './interfaces/courier-booking-reconciliation.interface';
+import { CourierAdapterRegistry } from './integrations/courier-adapter.registry';
+import {
+  CourierBookingFailureKind,
+  CourierBookingRequest,
+  CourierBookingResponse,
+  CourierOperation,
+} from './integrations/courier-adapter.interface';
+import { CouriersService } from '@modules/couriers/couriers.service';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import {
+  CourierApiLogContext,
+  runWithCourierApiLogContext,
+} from '@modules/courier-api-logs/utils/courier-api-log-context.util';
+
+// MongoDB duplicate key error
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Books orders with couriers so that one order never has two live consignments.
+ * Each booking is recorded before the courier is called and settled once the
+ * shipment is saved; a scheduled reconciliation settles the ones left behind.
+ */
+@Injectable()
+export class CourierBookingsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CourierBookingsService.name);
+  private reconcileTimer?: NodeJS.Timeout;
+  private isReconciling = false;
+
+  constructor(
+    @InjectModel(CourierBooking.name) private bookingModel: Model<CourierBooking>,
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    private couriersService: CouriersService,
+    private courierAdapterRegistry: CourierAdapterRegistry,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMinutes =
+      this.configService.get<number>('courierBooking.reconcileIntervalMinutes') || 15;
+    this.reconcileTimer = setInterval(
+      () => this.reconcile().catch(() => undefined),
+      intervalMinutes * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+    }
+  }
+
+  /**
+   * Book an order with the courier. Transient failures are retried with backoff;
+   * when the courier may have booked it without answering, the order is held until
+   * the booking is resolved.
+   */
+  async book(
+    order: { bankOrderId?: string; bipOrderId?: string },
+    courier: Courier,
+    bookingData: CourierBookingRequest,
+    apiLogContext: CourierApiLogContext,
+  ): Promise<{ booking: CourierBooking; bookingResult: CourierBookingResponse }> {
+    const adapter = this.courierAdapterRegistry.getAdapter(
+      courier.courierType,
+      CourierOperation.BOOK,
+    );
+    const booking = await this.createPendingBooking(order, courier);
+    const maxAttempts = this.configService.get<number>('courierBooking.maxAttempts') || 3;
+    const retryDelayMs =
+      this.configService.get<number>('courierBooking.retryDelayMs') || 1000;
+
+    let bookingResult: CourierBookingResponse;
+    for (;;) {
+      booking.attempts++;
+      try {
+        bookingResult = await runWithCourierApiLogContext(apiLogContext, () =>
+          adapter.bookShipment(courier, bookingData),
+        );
+      } catch (error) {
+        // Adapters report failures in the result; anything thrown is unexpected
+        bookingResult = {
+          success: false,
+          error: error.message,
+          failureKind: CourierBookingFailureKind.UNKNOWN,
+        };
+      }
+
+      if (
+        bookingResult.success ||
+        bookingResult.failureKind !== CourierBookingFailureKind.TRANSIENT ||
+        booking.attempts >= maxAttempts
+      ) {
+        break;
+      }
+
+      this.logger.warn(
+        `Booking ${booking.idempotencyKey} with ${courier.courierType} failed (${bookingResult.error}); retrying`,
+      );
+      await this.sleep(retryDelayMs * 2 ** (booking.attempts - 1));
+    }
+
+    booking.courierResponse = bookingResult.rawResponse;
+    if (bookingResult.success) {
+      booking.status = CourierBookingStatus.BOOKED;
+      booking.trackingNumber = bookingResult.trackingNumber;
+      booking.consignmentNumber = bookingResult.consignmentNumber;
+      await booking.save();
+
+      return { booking, bookingResult };
+    }
+
+    booking.lastError = bookingResult.error || 'Unknown error';
+    if (bookingResult.failureKind === CourierBookingFailureKind.UNKNOWN) {
+      booking.status = CourierBookingStatus.UNCONFIRMED;
+      await booking.save();
+
+      throw new InternalServerErrorException(
+        `No clear answer from ${courier.courierType} (${booking.lastError}). The order may have been booked, so it is held until the booking is resolved.`,
+      );
+    }
+
+    booking.status = CourierBookingStatus.FAILED;
+    booking.isActive = false;
+    await booking.save();
+
+    throw new InternalServerErrorException(
+      `Failed to book shipment with ${courier.courierType}: ${booking.lastError}`,
+    );
+  }
+
+  /**
+   * Settle a booking once its shipment is saved
+   */
+  async complete(booking: CourierBooking, shipmentId: Types.ObjectId): Promise<void> {
+    await this.bookingModel.updateOne(
+      { _id: booking._id },
+      { status: CourierBookingStatus.COMPLETED, isActive: false, shipmentId },
+    );
+  }
+
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    status?: CourierBookingStatus,
+  ): Promise<{
+    data: CourierBooking[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: any = {};
+
+    if (status) {
+      query.status = status;
+    }
+
+    const [data, total] = await Promise.all([
+      this.bookingModel
+        .find(query)
+        .select('-courierResponse')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.bookingModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Settle bookings left behind by a failed dispatch. A booked consignment whose
+   * shipment was saved is completed, one without a shipment is cancelled with the
+   * courier, and a call that never finished is marked unconfirmed for review.
+   */
+  async reconcile(): Promise<CourierBookingReconciliation> {
+    if (this.isReconciling) {
+      throw new ConflictException('Courier booking reconciliation is already running');
+    }
+
+    this.isReconciling = true;
+    try {
+      const staleMinutes =
+        this.configService.get<number>('courierBooking.staleMinutes') || 10;
+      const staleBefore = new Date(Date.now() - staleMinutes * 60 * 1000);
+      const summary: CourierBookingReconciliation = {
+        completed: 0,
+        cancelled: 0,
+        unconfirmed: 0,
+        failed: 0,
+      };
+
+      // The dispatch that made these stopped while waiting for the courier
+      const interrupted = await this.bookingModel.updateMany(
+        { status: CourierBookingStatus.PENDING, updatedAt: { $lt: staleBefore } },
+        {
+          status: CourierBookingStatus.UNCONFIRMED,
+          lastError: 'Dispatch stopped before the courier answered',
+        },
+      );
+      summary.unconfirmed = interrupted.modifiedCount;
+
+      const orphans = await this.bookingModel
+        .find({ status: CourierBookingStatus.BOOKED, updatedAt: { $lt: staleBefore } })
+        .exec();
+
+      for (const booking of orphans) {
+        const consignmentNumber = booking.consignmentNumber || booking.trackingNumber;
+        if (!consignmentNumber) {
+          await this.bookingModel.updateOne(
+            { _id: booking._id },
+            {
+              status: CourierBookingStatus.UNCONFIRMED,
+              lastError: 'The courier returned no consignment number',
+            },
+          );
+          summary.unconfirmed++;
+          continue;
+        }
+
+        const shipmentId = await this.findShipmentId(booking, consignmentNumber);
+        if (shipmentId) {
+          await this.complete(booking, shipmentId);
+          summary.completed++;
+          continue;
+        }
+
+        try {
+          await this.cancelWithCourier(booking, consignmentNumber);
+          await this.settle(booking, CourierBookingStatus.CANCELLED, {
+            resolution: 'Cancelled by reconciliation; no shipment was saved',
+          });
+          summary.cancelled++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to cancel orphaned booking ${booking.idempotencyKey}: ${error.message}`,
+          );
+          await this.bookingModel.updateOne(
+            { _id: booking._id },
+            { lastError: error.message },
+          );
+          summary.failed++;
+        }
+      }
+
+      if (summary.unconfirmed || orphans.length) {
+        this.logger.log(
+          `Courier booking reconciliation: ${summary.completed} completed, ${summary.cancelled} cancelled, ${summary.unconfirmed} unconfirmed, ${summary.failed} failed`,
+        );
+      }
+
+      return summary;
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Release a held booking once it has been checked with the courier. A consignment
+   * found for it is cancelled with the courier; without one, nothing was booked.
+   */
+  async resolve(
+    id: string,
+    resolveDto: ResolveCourierBookingDto,
+    userId?: string,
+  ): Promise<CourierBooking> {
+    const booking = await this.bookingModel.findById(id).exec();
+    if (!booking) {
+      throw new NotFoundException(`Courier booking with ID ${id} not found`);
+    }
+    if (
+      booking.status !== CourierBookingStatus.UNCONFIRMED &&
+      booking.status !== CourierBookingStatus.BOOKED
+    ) {
+      throw new BadRequestException(
+        `Only unconfirmed or orphaned bookings can be resolved. Current status: ${booking.status}`,
+      );
+    }
+
+    const consignmentNumber =
+      resolveDto.consignmentNumber || booking.consignmentNumber || booking.trackingNumber;
+    if (consignmentNumber && (await this.findShipmentId(booking, consignmentNumber))) {
+      throw new BadRequestException(
+        `Consignment ${consignmentNumber} has a shipment; cancel the shipment instead`,
+      );
+    }
+    if (consignmentNumber) {
+      await this.cancelWithCourier(booking, consignmentNumber);
+    }
+
+    return this.settle(
+      booking,
+      consignmentNumber ? CourierBookingStatus.CANCELLED : CourierBookingStatus.FAILED,
+      {
+        consignmentNumber,
+        resolution:
+          resolveDto.remarks ||
+          (consignmentNumber
+            ? `Consignment ${consignmentNumber} cancelled with the courier`
+            : 'Confirmed that nothing was booked'),
+        resolvedBy: userId ? new Types.ObjectId(userId) : undefined,
+        resolvedAt: new Date(),
+      },
+    );
+  }
+
+  private async createPendingBooking(
+    order: { bankOrderId?: string; bipOrderId?: string },
+    courier: Courier,
+  ): Promise<CourierBooking> {
+    const idempotencyKey = order.bankOrderId
+      ? `bank-order:${order.bankOrderId}`
+      : `bip-order:${order.bipOrderId}`;
+
+    try {
+      return await this.bookingModel.create({
+        idempotencyKey,
+        bankOrderId: order.bankOrderId
+          ? new Types.ObjectId(order.bankOrderId)
+          : undefined,
+        bipOrderId: order.bipOrderId ? new Types.ObjectId(order.bipOrderId) : undefined,
+        courierId: courier._id,
+        courierType: courier.courierType,
+      });
+    } catch (error) {
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+
+      const activeBooking = await this.bookingModel
+        .findOne({ idempotencyKey, status: { $in: ACTIVE_COURIER_BOOKING_STATUSES } })
+        .select('status')
+        .exec();
+      throw new ConflictException(
+        `This order already has a ${activeBooking?.status || 'pending'} courier booking; it cannot be booked again until that booking is settled`,
+      );
+    }
+  }
+
+  private async findShipmentId(
+    booking: CourierBooking,
+    consignmentNumber: string,
+  ): Promise<Types.ObjectId | undefined> {
+    const shipment = await this.shipmentModel
+      .findOne({
+        courierId: booking.courierId,
+        isDeleted: false,
+        $or: [{ consignmentNumber }, { trackingNumber: consignmentNumber }],
+      })
+      .select('_id')
+      .exec();
+
+    return shipment?._id as Types.ObjectId | undefined;
+  }
+
+  private async cancelWithCourier(
+    booking: CourierBooking,
+    consignmentNumber: string,
+  ): Promise<void> {
+    const courier = await this.couriersService.findOne(booking.courierId.toString());
+    const cancellationResult = await runWithCourierApiLogContext(
+      {
+        operation: CourierOperation.CANCEL,
+        bankOrderId: booking.bankOrderId?.toString(),
+        bipOrderId: booking.bipOrderId?.toString(),
+        logIds: [],
+      },
+      () =>
+        this.courierAdapterRegistry
+          .getAdapter(courier.courierType, CourierOperation.CANCEL)
+          .cancelShipment(courier, consignmentNumber, 'Duplicate or orphaned booking'),
+    );
+
+    if (!cancellationResult.success) {
+      throw new InternalServerErrorException(
+        `Failed to cancel consignment ${consignmentNumber} with ${courier.courierType}: ${cancellationResult.error || 'Unknown error'}`,
+      );
+    }
+  }
+
+  private async settle(
+    booking: CourierBooking,
+    status: CourierBookingStatus,
+    update: Partial<CourierBooking>,
+  ): Promise<CourierBooking> {
+    const settledBooking = await this.bookingModel
+      .findOneAndUpdate(
+        { _id: booking._id, status: booking.status },
+        { ...update, status, isActive: false },
+        { new: true },
+      )
+      .exec();
+
+    if (!settledBooking) {
+      throw new ConflictException('The booking was changed while it was being settled');
+    }
+
+    return settledBooking;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { DispatchOrderDto } from './dispatch-order.dto';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+// Orders are booked one after another, so keep a batch within one request's time
+export const MAX_BULK_DISPATCH_ORDERS = 300;
+
+/**
+ * Orders to book with one courier; the options apply to every order in the batch
+ */
+export class BulkDispatchDto extends PickType(DispatchOrderDto, [
+  'weightInKg',
+  'fragile',
+  'serviceCode',
+  'specialInstructions',
+  'length',
+  'width',
+  'height',
+] as const) {
+  @ApiProperty({
+    example: 'leopards',
+    description: 'Courier to book every order in the batch with',
+    enum: CourierType,
+    enumName: 'CourierType',
+  })
+  @IsEnum(CourierType)
+  @IsNotEmpty()
+  courierType: CourierType;
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+    description: 'Bank order IDs to dispatch',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BULK_DISPATCH_ORDERS)
+  @IsMongoId({ each: true })
+  bankOrderIds?: string[];
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439013'],
+    description: 'BIP order IDs to dispatch',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BULK_DISPATCH_ORDERS)
+  @IsMongoId({ each: true })
+  bipOrderIds?: string[];
+}
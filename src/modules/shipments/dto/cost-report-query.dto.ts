@@ -0,0 +1,39 @@
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum CostReportGroupBy {
+  COURIER = 'courier',
+  BANK = 'bank',
+}
+
+export class CostReportQueryDto {
+  @ApiProperty({
+    example: '2024-01-01',
+    description: 'Booking date from (ISO date format)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    example: '2024-01-31',
+    description: 'Booking date to, inclusive (ISO date format)',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    example: 'courier',
+    description: 'Group costs by courier or by bank',
+    enum: CostReportGroupBy,
+    enumName: 'CostReportGroupBy',
+    required: false,
+    default: CostReportGroupBy.COURIER,
+  })
+  @IsOptional()
+  @IsEnum(CostReportGroupBy)
+  groupBy?: CostReportGroupBy = CostReportGroupBy.COURIER;
+}
@@ -1,27 +1,21 @@
-import {
-  IsString,
-  IsNotEmpty,
-  IsEnum,
-  IsOptional,
-  IsNumber,
-  Min,
-  IsBoolean,
-} from 'class-validator';
+import { IsString, IsEnum, IsOptional, IsNumber, Min, IsBoolean } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { CourierType } from '@common/enums/courier-type.enum';
 
 export class DispatchOrderDto {
   @ApiProperty({
     example: 'leopards',
-    description: 'Courier type to use for dispatch',
+    description:
+      'Courier type to use for dispatch; chosen by the courier selection rules when omitted',
     enum: CourierType,
     enumName: 'CourierType',
+    required: false,
   })
   @IsEnum(CourierType, {
     message: 'Courier type must be one of: leopards, tcs, tcs_overland',
   })
-  @IsNotEmpty()
-  courierType: CourierType;
+  @IsOptional()
+  courierType?: CourierType;
 
   @ApiProperty({
     example: 'Premium Gift Item - Mobile Phone',
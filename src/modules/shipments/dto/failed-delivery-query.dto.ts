@@ -0,0 +1,61 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryFailureReason } from '../schemas/shipment.schema';
+
+export class FailedDeliveryQueryDto {
+  @ApiProperty({ example: 1, required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ example: 20, required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiProperty({
+    example: 'wrong_address',
+    description: 'Reason of the latest failed attempt',
+    enum: DeliveryFailureReason,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DeliveryFailureReason)
+  reason?: DeliveryFailureReason;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @IsOptional()
+  @IsMongoId()
+  courierId?: string;
+
+  @ApiProperty({ example: 'Karachi', required: false })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiProperty({
+    example: true,
+    description:
+      'Only shipments whose next attempt is today or earlier, or not scheduled',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  due?: boolean;
+}
@@ -12,13 +12,15 @@ import { CourierType } from '@common/enums/courier-type.enum';
 export class ManualDispatchDto {
   @ApiProperty({
     example: CourierType.TCS_OVERLAND,
-    description: 'Courier type for manual dispatch (TCS Overland or Self Delivery)',
+    description:
+      'Courier type for manual dispatch (TCS Overland or Self Delivery); chosen by the courier selection rules when omitted',
     enum: CourierType,
     enumName: 'CourierType',
+    required: false,
   })
   @IsEnum(CourierType)
-  @IsNotEmpty()
-  courierType: CourierType;
+  @IsOptional()
+  courierType?: CourierType;
 
   @ApiProperty({
     example: 'TRK123456789',
@@ -56,6 +58,16 @@ export class ManualDispatchDto {
   @IsOptional()
   declaredValue?: number;
 
+  @ApiProperty({
+    example: 0.5,
+    description: 'Package weight in KG, used to estimate the shipping cost',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0.01)
+  @IsOptional()
+  weightInKg?: number;
+
   @ApiProperty({
     example: 'Handle with care - Fragile item',
     description: 'Special instructions or remarks',
@@ -0,0 +1,34 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { LabelLayout } from '../utils/shipping-label-pdf-generator';
+
+export class PrintLabelsDto {
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012'],
+    description: 'Shipment IDs, printed in this order',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsMongoId({ each: true })
+  shipmentIds: string[];
+
+  @ApiProperty({
+    example: LabelLayout.A4,
+    description: 'Four labels per A4 sheet, or one label per 4x6 thermal page',
+    enum: LabelLayout,
+    required: false,
+    default: LabelLayout.A4,
+  })
+  @IsEnum(LabelLayout)
+  @IsOptional()
+  layout?: LabelLayout;
+}
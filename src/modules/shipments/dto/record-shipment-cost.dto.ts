@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RecordShipmentCostDto {
+  @ApiProperty({ example: 240, description: 'Cost billed by the courier (PKR)' })
+  @IsNumber()
+  @Min(0)
+  @IsNotEmpty()
+  actualCost: number;
+
+  @ApiProperty({
+    example: 'INV-2024-0113',
+    description: 'Courier invoice the cost was billed on',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  billingReference?: string;
+}
@@ -0,0 +1,23 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResolveCourierBookingDto {
+  @ApiProperty({
+    example: 'CN123456789',
+    description:
+      'Consignment the courier created for the booking, found in its portal; it is cancelled with the courier. Leave out when nothing was booked.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  consignmentNumber?: string;
+
+  @ApiProperty({
+    example: 'Checked TCS portal, nothing was booked',
+    description: 'How the booking was checked',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  remarks?: string;
+}
@@ -0,0 +1,46 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ScheduleReattemptDto {
+  @ApiProperty({
+    example: '2024-01-18',
+    description: 'Day of the next delivery attempt (ISO date format)',
+  })
+  @IsDateString()
+  @IsNotEmpty()
+  nextAttemptDate: string;
+
+  @ApiProperty({
+    example: 'House 12, Street 4, Block B, Gulshan-e-Iqbal',
+    description: 'Corrected delivery address',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  address?: string;
+
+  @ApiProperty({ example: 'Karachi', description: 'Corrected city', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  city?: string;
+
+  @ApiProperty({
+    example: '03001234567',
+    description: 'Corrected customer phone',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  customerPhone?: string;
+
+  @ApiProperty({
+    example: 'Customer confirmed they will be home after 5 PM',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  remarks?: string;
+}
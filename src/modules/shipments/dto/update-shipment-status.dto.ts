@@ -1,6 +1,6 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { ShipmentStatus } from '../schemas/shipment.schema';
+import { DeliveryFailureReason, ShipmentStatus } from '../schemas/shipment.schema';
 
 export class UpdateShipmentStatusDto {
   @ApiProperty({
@@ -11,7 +11,7 @@ export class UpdateShipmentStatusDto {
   })
   @IsEnum(ShipmentStatus, {
     message:
-      'Status must be one of: booked, in_transit, out_for_delivery, delivered, returned, cancelled, failed',
+      'Status must be one of: booked, picked_up, in_transit, out_for_delivery, delivered, returned, cancelled, failed',
   })
   @IsNotEmpty()
   status: ShipmentStatus;
@@ -24,4 +24,35 @@ export class UpdateShipmentStatusDto {
   @IsString()
   @IsOptional()
   remarks?: string;
+
+  @ApiProperty({
+    example: 'Lahore Hub',
+    description: 'Where the shipment is, recorded on the tracking timeline',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  location?: string;
+
+  @ApiProperty({
+    example: 'customer_unavailable',
+    description:
+      'Why the delivery failed; recorded with the attempt when status is failed',
+    enum: DeliveryFailureReason,
+    required: false,
+    default: DeliveryFailureReason.OTHER,
+  })
+  @IsEnum(DeliveryFailureReason)
+  @IsOptional()
+  failureReason?: DeliveryFailureReason;
+
+  @ApiProperty({
+    example: '2024-01-17',
+    description:
+      'Day of the next delivery attempt when status is failed (ISO date format, default after the configured delay)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  nextAttemptDate?: string;
 }
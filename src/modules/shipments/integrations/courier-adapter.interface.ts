@@ -0,0 +1,138 @@
+import { CourierType } from '@common/enums/courier-type.enum';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { ShipmentStatus } from '../schemas/shipment.schema';
+import { CourierStatusUpdate } from '../interfaces/courier-status-update.interface';
+
+export enum CourierOperation {
+  BOOK = 'book',
+  TRACK = 'track',
+  CANCEL = 'cancel',
+  LABEL = 'label',
+  WEBHOOK = 'webhook',
+}
+
+/**
+ * Which operations a courier integration supports through its API
+ */
+export type CourierCapabilities = Record<CourierOperation, boolean>;
+
+/**
+ * Booking details passed to every courier; each adapter uses the fields its API takes
+ */
+export interface CourierBookingRequest {
+  customerName: string;
+  customerCnic?: string;
+  customerPhone: string;
+  customerAddress: string;
+  customerCity: string;
+  productDescription: string;
+  quantity: number;
+  declaredValue?: number;
+  specialInstructions?: string;
+  referenceNumber?: string; // Order reference number
+  customerEmail?: string;
+  weightInKg?: number;
+  fragile?: boolean;
+  landmark?: string;
+  length?: number;
+  width?: number;
+  height?: number;
+  serviceCode?: string;
+}
+
+/**
+ * Whether a failed booking may have created a consignment at the courier
+ */
+export enum CourierBookingFailureKind {
+  REJECTED = 'rejected', // The courier answered and booked nothing; retrying will not help
+  TRANSIENT = 'transient', // The booking never reached the courier, or it asked to retry later
+  UNKNOWN = 'unknown', // No answer after the booking was sent; it may have been booked
+}
+
+export interface CourierBookingResponse {
+  success: boolean;
+  trackingNumber?: string;
+  consignmentNumber?: string;
+  message?: string;
+  error?: string;
+  failureKind?: CourierBookingFailureKind; // Set on failure; REJECTED when left out
+  rawResponse?: any;
+}
+
+/**
+ * One scan reported by the courier, e.g. arrival at a facility
+ */
+export interface CourierTrackingCheckpoint {
+  code?: string;
+  status: string;
+  shipmentStatus?: ShipmentStatus;
+  location?: string;
+  timestamp?: Date;
+}
+
+export interface CourierTrackingResponse {
+  success: boolean;
+  status?: string;
+  shipmentStatus?: ShipmentStatus; // Courier status mapped onto ours, when recognised
+  checkpoints?: CourierTrackingCheckpoint[];
+  currentLocation?: string;
+  lastUpdate?: Date;
+  deliveryDate?: Date;
+  remarks?: string;
+  error?: string;
+  rawResponse?: any;
+}
+
+export interface CourierCancellationResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface CourierLabelResponse {
+  success: boolean;
+  contentType?: string;
+  data?: Buffer;
+  error?: string;
+}
+
+/**
+ * A status update pushed by the courier to our webhook
+ */
+export interface CourierWebhookEvent extends CourierStatusUpdate {
+  trackingNumber?: string;
+  consignmentNumber?: string;
+  eventId?: string; // Courier's own event ID, when it sends one
+}
+
+/**
+ * A courier integration. Adapters are registered in CourierAdapterRegistry for the
+ * courier types they serve; operations missing from `capabilities` are never called.
+ * Track, cancel and label take the consignment number, or the tracking number when
+ * the courier returned no consignment number at booking.
+ */
+export interface CourierAdapter {
+  readonly courierTypes: CourierType[];
+  readonly capabilities: CourierCapabilities;
+
+  bookShipment(
+    courier: Courier,
+    bookingData: CourierBookingRequest,
+  ): Promise<CourierBookingResponse>;
+
+  trackShipment(
+    courier: Courier,
+    trackingNumber: string,
+  ): Promise<CourierTrackingResponse>;
+
+  cancelShipment(
+    courier: Courier,
+    trackingNumber: string,
+    reason?: string,
+  ): Promise<CourierCancellationResponse>;
+
+  getLabel?(courier: Courier, trackingNumber: string): Promise<CourierLabelResponse>;
+
+  // Read the status updates out of a webhook payload; malformed entries are left out
+  parseWebhook?(payload: any): CourierWebhookEvent[];
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { CourierAdapter, CourierOperation } from './courier-adapter.interface';
+import { CourierOperationNotSupportedException } from './courier-operation-not-supported.exception';
+import { LeopardsService } from './leopards.service';
+import { TcsService } from './tcs.service';
+
+/**
+ * Resolves the integration for a courier type. Courier types without an adapter
+ * (TCS Overland, self delivery) are dispatched manually.
+ */
+@Injectable()
+export class CourierAdapterRegistry {
+  private readonly adapters = new Map<CourierType, CourierAdapter>();
+
+  constructor(leopardsService: LeopardsService, tcsService: TcsService) {
+    [leopardsService, tcsService].forEach((adapter) => this.register(adapter));
+  }
+
+  register(adapter: CourierAdapter) {
+    adapter.courierTypes.forEach((courierType) =>
+      this.adapters.set(courierType, adapter),
+    );
+  }
+
+  supports(courierType: CourierType, operation: CourierOperation): boolean {
+    return !!this.adapters.get(courierType)?.capabilities[operation];
+  }
+
+  /**
+   * Get the adapter for a courier type, failing with a typed error when the
+   * courier cannot perform the operation
+   */
+  getAdapter(courierType: CourierType, operation: CourierOperation): CourierAdapter {
+    const adapter = this.adapters.get(courierType);
+
+    if (!adapter || !adapter.capabilities[operation]) {
+      throw new CourierOperationNotSupportedException(courierType, operation);
+    }
+
+    return adapter;
+  }
+}
@@ -0,0 +1,53 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { getBookingFailureKind } from './courier-booking-error.util';
+import { CourierBookingFailureKind } from './courier-adapter.interface';
+
+function httpError(status: number) {
+  return new AxiosError('Request failed', undefined, undefined, undefined, {
+    status,
+  } as AxiosResponse);
+}
+
+describe('getBookingFailureKind', () => {
+  it('treats errors raised before the request as rejected', () => {
+    expect(getBookingFailureKind(new Error('Customer phone is missing'))).toBe(
+      CourierBookingFailureKind.REJECTED,
+    );
+  });
+
+  it.each([400, 401, 422])('treats a %s answer as rejected', (status) => {
+    expect(getBookingFailureKind(httpError(status))).toBe(
+      CourierBookingFailureKind.REJECTED,
+    );
+  });
+
+  it.each([429, 503])('treats a %s answer as transient', (status) => {
+    expect(getBookingFailureKind(httpError(status))).toBe(
+      CourierBookingFailureKind.TRANSIENT,
+    );
+  });
+
+  it.each([500, 502, 504])('treats a %s answer as unknown', (status) => {
+    expect(getBookingFailureKind(httpError(status))).toBe(
+      CourierBookingFailureKind.UNKNOWN,
+    );
+  });
+
+  it.each(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'])(
+    'treats %s as transient, since nothing was sent',
+    (code) => {
+      expect(getBookingFailureKind(new AxiosError('Failed', code))).toBe(
+        CourierBookingFailureKind.TRANSIENT,
+      );
+    },
+  );
+
+  it.each(['ECONNABORTED', 'ECONNRESET', undefined])(
+    'treats %s without an answer as unknown',
+    (code) => {
+      expect(getBookingFailureKind(new AxiosError('Failed', code))).toBe(
+        CourierBookingFailureKind.UNKNOWN,
+      );
+    },
+  );
+});
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { CourierBookingFailureKind } from './courier-adapter.interface';
+
+// The connection was never made, so the courier cannot have received the request
+const UNSENT_REQUEST_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+];
+
+/**
+ * Whether an error thrown while booking may have left a consignment at the courier.
+ * Errors not raised by the HTTP client happened before the request was sent.
+ */
+export function getBookingFailureKind(error: any): CourierBookingFailureKind {
+  if (!axios.isAxiosError(error)) {
+    return CourierBookingFailureKind.REJECTED;
+  }
+
+  const status = error.response?.status;
+  if (status) {
+    if (status === 429 || status === 503) {
+      return CourierBookingFailureKind.TRANSIENT;
+    }
+    // Other server errors can come after the consignment was created
+    return status >= 500
+      ? CourierBookingFailureKind.UNKNOWN
+      : CourierBookingFailureKind.REJECTED;
+  }
+
+  // Timeouts and dropped connections leave the outcome open
+  return UNSENT_REQUEST_ERROR_CODES.includes(error.code || '')
+    ? CourierBookingFailureKind.TRANSIENT
+    : CourierBookingFailureKind.UNKNOWN;
+}
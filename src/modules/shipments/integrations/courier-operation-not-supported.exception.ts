@@ -0,0 +1,19 @@
+import { NotImplementedException } from '@nestjs/common';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { CourierOperation } from './courier-adapter.interface';
+
+/**
+ * Thrown when a courier has no integration, or its integration cannot perform the operation
+ */
+export class CourierOperationNotSupportedException extends NotImplementedException {
+  constructor(
+    public readonly courierType: CourierType,
+    public readonly operation: CourierOperation,
+  ) {
+    super({
+      statusCode: 501,
+      message: `Courier '${courierType}' does not support '${operation}' through its API`,
+      errors: { courierType, operation },
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  mapCourierFailureReason,
+  mapLeopardsStatus,
+  mapTcsStatus,
+} from './courier-status.util';
+import { DeliveryFailureReason, ShipmentStatus } from '../schemas/shipment.schema';
+
+describe('courier-status.util', () => {
+  describe('mapTcsStatus', () => {
+    it.each([
+      ['BK', ShipmentStatus.BOOKED],
+      ['PU', ShipmentStatus.PICKED_UP],
+      ['DP', ShipmentStatus.IN_TRANSIT],
+      ['OFD', ShipmentStatus.OUT_FOR_DELIVERY],
+      ['OK', ShipmentStatus.DELIVERED],
+      ['NA', ShipmentStatus.FAILED],
+      ['RTS', ShipmentStatus.RETURNED],
+      ['CX', ShipmentStatus.CANCELLED],
+    ])('maps code %s', (code, status) => {
+      expect(mapTcsStatus(code)).toBe(status);
+    });
+
+    it('ignores case and whitespace in the code', () => {
+      expect(mapTcsStatus(' ok ')).toBe(ShipmentStatus.DELIVERED);
+    });
+
+    it('prefers the code over the status text', () => {
+      expect(mapTcsStatus('RF', 'Delivered to neighbour')).toBe(ShipmentStatus.FAILED);
+    });
+
+    it('returns undefined when neither code nor text is recognised', () => {
+      expect(mapTcsStatus('ZZ', 'Held for inspection')).toBeUndefined();
+      expect(mapTcsStatus()).toBeUndefined();
+    });
+  });
+
+  describe('mapLeopardsStatus', () => {
+    it.each([
+      ['PN', ShipmentStatus.BOOKED],
+      ['AR', ShipmentStatus.IN_TRANSIT],
+      ['OD', ShipmentStatus.OUT_FOR_DELIVERY],
+      ['DV', ShipmentStatus.DELIVERED],
+      ['UD', ShipmentStatus.FAILED],
+      ['RS', ShipmentStatus.RETURNED],
+      ['CN', ShipmentStatus.CANCELLED],
+    ])('maps code %s', (code, status) => {
+      expect(mapLeopardsStatus(code)).toBe(status);
+    });
+
+    it.each([
+      ['Shipment Picked', ShipmentStatus.PICKED_UP],
+      ['Out for Delivery', ShipmentStatus.OUT_FOR_DELIVERY],
+      ['Undelivered, returned to shipper', ShipmentStatus.RETURNED],
+      ['Consignee refused', ShipmentStatus.FAILED],
+      ['Delivered', ShipmentStatus.DELIVERED],
+      ['Arrived at destination', ShipmentStatus.IN_TRANSIT],
+    ])('falls back to the text "%s" for unknown codes', (description, status) => {
+      expect(mapLeopardsStatus('XX', description)).toBe(status);
+    });
+  });
+
+  describe('mapCourierFailureReason', () => {
+    it.each([
+      ['Refused by Consignee', DeliveryFailureReason.REFUSED],
+      ['Incomplete address', DeliveryFailureReason.WRONG_ADDRESS],
+      ['Closed on arrival', DeliveryFailureReason.WRONG_ADDRESS],
+      ['Consignee Not Available', DeliveryFailureReason.CUSTOMER_UNAVAILABLE],
+      ['Held at station', DeliveryFailureReason.OTHER],
+    ])('reads "%s"', (description, reason) => {
+      expect(mapCourierFailureReason(description)).toBe(reason);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { DeliveryFailureReason, ShipmentStatus } from '../schemas/shipment.schema';
+
+// TCS checkpoint codes and the shipment status each one means
+const TCS_STATUS_CODES: Record<string, ShipmentStatus> = {
+  BK: ShipmentStatus.BOOKED, // Booked
+  PU: ShipmentStatus.PICKED_UP, // Picked up from shipper
+  AR: ShipmentStatus.IN_TRANSIT, // Arrived at TCS facility
+  DP: ShipmentStatus.IN_TRANSIT, // Departed from TCS facility
+  IT: ShipmentStatus.IN_TRANSIT, // In transit
+  OD: ShipmentStatus.OUT_FOR_DELIVERY, // Out for delivery
+  OFD: ShipmentStatus.OUT_FOR_DELIVERY,
+  OK: ShipmentStatus.DELIVERED, // Delivered
+  DL: ShipmentStatus.DELIVERED,
+  NA: ShipmentStatus.FAILED, // Consignee not available
+  CA: ShipmentStatus.FAILED, // Closed address
+  IA: ShipmentStatus.FAILED, // Incomplete address
+  RF: ShipmentStatus.FAILED, // Refused by consignee
+  RS: ShipmentStatus.RETURNED, // Returned to shipper
+  RT: ShipmentStatus.RETURNED,
+  RTS: ShipmentStatus.RETURNED,
+  CN: ShipmentStatus.CANCELLED, // Cancelled
+  CX: ShipmentStatus.CANCELLED,
+};
+
+// Leopards status codes and the shipment status each one means
+const LEOPARDS_STATUS_CODES: Record<string, ShipmentStatus> = {
+  PN: ShipmentStatus.BOOKED, // Pending pickup
+  PU: ShipmentStatus.PICKED_UP, // Picked up
+  AR: ShipmentStatus.IN_TRANSIT, // Arrived at station
+  DP: ShipmentStatus.IN_TRANSIT, // Dispatched to destination
+  OD: ShipmentStatus.OUT_FOR_DELIVERY, // Assigned to courier for delivery
+  DV: ShipmentStatus.DELIVERED, // Delivered
+  UD: ShipmentStatus.FAILED, // Undelivered
+  RO: ShipmentStatus.FAILED, // Being returned
+  RS: ShipmentStatus.RETURNED, // Returned to shipper
+  CN: ShipmentStatus.CANCELLED, // Cancelled
+};
+
+/**
+ * Map a TCS checkpoint onto ShipmentStatus by its code, falling back to the
+ * status text for codes not in the table. Returns undefined when neither is recognised.
+ */
+export function mapTcsStatus(
+  code?: string,
+  description?: string,
+): ShipmentStatus | undefined {
+  return (
+    mapCourierStatusCode(TCS_STATUS_CODES, code) || mapCourierStatusText(description)
+  );
+}
+
+/**
+ * Map a Leopards status onto ShipmentStatus the same way as mapTcsStatus
+ */
+export function mapLeopardsStatus(
+  code?: string,
+  description?: string,
+): ShipmentStatus | undefined {
+  return (
+    mapCourierStatusCode(LEOPARDS_STATUS_CODES, code) || mapCourierStatusText(description)
+  );
+}
+
+function mapCourierStatusCode(
+  codes: Record<string, ShipmentStatus>,
+  code?: string,
+): ShipmentStatus | undefined {
+  return codes[(code || '').trim().toUpperCase()];
+}
+
+/**
+ * Recognise a courier status from its wording, for codes the tables do not cover
+ */
+function mapCourierStatusText(description?: string): ShipmentStatus | undefined {
+  const text = (description || '').toLowerCase();
+  if (!text) {
+    return undefined;
+  }
+
+  // Checked before "delivered", which also matches "undelivered, returned to shipper"
+  if (text.includes('out for delivery')) {
+    return ShipmentStatus.OUT_FOR_DELIVERY;
+  }
+  if (text.includes('return')) {
+    return ShipmentStatus.RETURNED;
+  }
+  if (text.includes('cancel')) {
+    return ShipmentStatus.CANCELLED;
+  }
+  if (
+    ['undelivered', 'refused', 'not available', 'closed', 'incomplete'].some((word) =>
+      text.includes(word),
+    )
+  ) {
+    return ShipmentStatus.FAILED;
+  }
+  if (text.includes('delivered')) {
+    return ShipmentStatus.DELIVERED;
+  }
+  if (text.includes('picked')) {
+    return ShipmentStatus.PICKED_UP;
+  }
+  if (
+    ['transit', 'arrived', 'departed', 'dispatched'].some((word) => text.includes(word))
+  ) {
+    return ShipmentStatus.IN_TRANSIT;
+  }
+  if (text.includes('book')) {
+    return ShipmentStatus.BOOKED;
+  }
+
+  return undefined;
+}
+
+/**
+ * Recognise why a courier could not deliver from its status wording; couriers
+ * report the reason in the text rather than in a code we share with them
+ */
+export function mapCourierFailureReason(description?: string): DeliveryFailureReason {
+  const text = (description || '').toLowerCase();
+
+  if (text.includes('refused')) {
+    return DeliveryFailureReason.REFUSED;
+  }
+  if (['address', 'closed'].some((word) => text.includes(word))) {
+    return DeliveryFailureReason.WRONG_ADDRESS;
+  }
+  if (['not available', 'unavailable'].some((word) => text.includes(word))) {
+    return DeliveryFailureReason.CUSTOMER_UNAVAILABLE;
+  }
+  return DeliveryFailureReason.OTHER;
+}
@@ -1,6 +1,18 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
 import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { CourierType } from '@common/enums/courier-type.enum';
+import {
+  CourierAdapter,
+  CourierBookingFailureKind,
+  CourierCapabilities,
+  CourierWebhookEvent,
+} from './courier-adapter.interface';
+import { ShipmentStatus } from '../schemas/shipment.schema';
+import { mapLeopardsStatus } from './courier-status.util';
+import { getBookingFailureKind } from './courier-booking-error.util';
+import { CredentialsCipherService } from '@common/services/credentials-cipher.service';
+import { CourierApiLogsService } from '@modules/courier-api-logs/courier-api-logs.service';
 
 export interface LeopardsBookingRequest {
   customerName: string;
@@ -20,12 +32,14 @@ export interface LeopardsBookingResponse {
   consignmentNumber?: string;
   message?: string;
   error?: string;
+  failureKind?: CourierBookingFailureKind;
   rawResponse?: any;
 }
 
 export interface LeopardsTrackingResponse {
   success: boolean;
   status?: string;
+  shipmentStatus?: ShipmentStatus;
   currentLocation?: string;
   lastUpdate?: Date;
   deliveryDate?: Date;
@@ -35,11 +49,23 @@ export interface LeopardsTrackingResponse {
 }
 
 @Injectable()
-export class LeopardsService {
+export class LeopardsService implements CourierAdapter {
+  readonly courierTypes = [CourierType.LEOPARDS];
+  readonly capabilities: CourierCapabilities = {
+    book: true,
+    track: true,
+    cancel: true,
+    label: false,
+    webhook: true,
+  };
+
   private readonly logger = new Logger(LeopardsService.name);
   private axiosInstance: AxiosInstance;
 
-  constructor() {
+  constructor(
+    private credentialsCipherService: CredentialsCipherService,
+    courierApiLogsService: CourierApiLogsService,
+  ) {
     // Initialize axios instance with default config
     this.axiosInstance = axios.create({
       timeout: 30000, // 30 seconds
@@ -47,6 +73,13 @@ export class LeopardsService {
         'Content-Type': 'application/json',
       },
     });
+
+    // As in the adapter methods, only a status of 'success' means Leopards took the request
+    courierApiLogsService.instrument(this.axiosInstance, CourierType.LEOPARDS, (data) =>
+      data?.status !== 'success'
+        ? data?.message || data?.error || 'Leopards did not return a success status'
+        : undefined,
+    );
   }
 
   private configureAxios(courier: Courier): void {
@@ -59,14 +92,14 @@ export class LeopardsService {
     this.axiosInstance.defaults.baseURL = courier.apiUrl;
 
     // Configure authentication headers
-    if (courier.apiKey) {
-      this.axiosInstance.defaults.headers.common['X-API-Key'] =
-        courier.apiKey;
+    const apiKey = this.credentialsCipherService.decrypt(courier.apiKey);
+    if (apiKey) {
+      this.axiosInstance.defaults.headers.common['X-API-Key'] = apiKey;
     }
 
-    if (courier.apiSecret) {
-      this.axiosInstance.defaults.headers.common['X-API-Secret'] =
-        courier.apiSecret;
+    const apiSecret = this.credentialsCipherService.decrypt(courier.apiSecret);
+    if (apiSecret) {
+      this.axiosInstance.defaults.headers.common['X-API-Secret'] = apiSecret;
     }
   }
 
@@ -132,6 +165,7 @@ export class LeopardsService {
       return {
         success: false,
         error: error.response?.data?.message || error.message || 'Unknown error occurred',
+        failureKind: getBookingFailureKind(error),
         rawResponse: error.response?.data,
       };
     }
@@ -162,6 +196,10 @@ export class LeopardsService {
         return {
           success: true,
           status: response.data.shipment_status,
+          shipmentStatus: mapLeopardsStatus(
+            response.data.status_code,
+            response.data.shipment_status,
+          ),
           currentLocation: response.data.current_location,
           lastUpdate: response.data.last_update
             ? new Date(response.data.last_update)
@@ -243,4 +281,26 @@ export class LeopardsService {
       };
     }
   }
+
+  /**
+   * Leopards posts one status update, or several under `data`
+   * Note: Adjust field names based on the actual Leopards webhook format
+   */
+  parseWebhook(payload: any): CourierWebhookEvent[] {
+    const updates = Array.isArray(payload?.data) ? payload.data : [payload];
+
+    return updates
+      .filter((update: any) => update && (update.cn_number || update.tracking_number))
+      .map((update: any) => ({
+        trackingNumber: update.tracking_number,
+        consignmentNumber: update.cn_number,
+        eventId: update.event_id,
+        shipmentStatus: mapLeopardsStatus(update.status_code, update.status),
+        courierStatus: update.status,
+        courierCode: update.status_code,
+        location: update.location,
+        remarks: update.remarks,
+        eventTime: update.datetime ? new Date(update.datetime) : undefined,
+      }));
+  }
 }
@@ -0,0 +1,140 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { TcsService } from './tcs.service';
+import { ShipmentStatus } from '../schemas/shipment.schema';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { createTcsMockApp } from '../../../database/mocks/tcs-mock.server';
+
+const STEP_MS = 60 * 1000;
+
+describe('TcsService', () => {
+  let server: Server;
+  let service: TcsService;
+  let now: number;
+
+  // Credentials are stored as given, so the cipher passes them through
+  const courier = {
+    apiKey: 'mock-user',
+    apiSecret: 'mock-password',
+    apiToken: 'mock-bearer',
+  } as Courier;
+
+  beforeAll(async () => {
+    server = await new Promise<Server>((resolve) => {
+      const listening = createTcsMockApp(STEP_MS).listen(0, () => resolve(listening));
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    // The mock moves consignments along its route by the clock
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const { port } = server.address() as AddressInfo;
+    service = new TcsService(
+      new ConfigService({ tcs: { baseUrl: `http://127.0.0.1:${port}/ecom/api` } }),
+      { decrypt: (value: string) => value } as any,
+      { instrument: jest.fn() } as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const book = async (referenceNumber: string) => {
+    const booking = await service.bookShipment(courier, {
+      customerName: 'Ayesha Khan',
+      customerPhone: '03001234567',
+      customerAddress: 'House 12, Street 4',
+      customerCity: 'Lahore',
+      productDescription: 'Debit card',
+      quantity: 1,
+      referenceNumber,
+    });
+
+    expect(booking.success).toBe(true);
+    return booking.consignmentNumber as string;
+  };
+
+  const advance = (steps: number) => {
+    now += steps * STEP_MS;
+  };
+
+  describe('trackShipment', () => {
+    it('follows a consignment from booking to delivery', async () => {
+      const consignmentNumber = await book('REF-1');
+
+      const booked = await service.trackShipment(courier, consignmentNumber);
+      expect(booked.shipmentStatus).toBe(ShipmentStatus.BOOKED);
+
+      advance(4);
+      const delivered = await service.trackShipment(courier, consignmentNumber);
+      expect(
+        delivered.checkpoints?.map((checkpoint) => checkpoint.shipmentStatus),
+      ).toEqual([
+        ShipmentStatus.BOOKED,
+        ShipmentStatus.IN_TRANSIT,
+        ShipmentStatus.IN_TRANSIT,
+        ShipmentStatus.OUT_FOR_DELIVERY,
+        ShipmentStatus.DELIVERED,
+      ]);
+      expect(delivered).toMatchObject({
+        success: true,
+        shipmentStatus: ShipmentStatus.DELIVERED,
+        currentLocation: 'Lahore',
+        deliveryDate: new Date(now),
+        remarks: 'Received by Self',
+      });
+    });
+
+    it('reports a refused consignment as failed and then returned', async () => {
+      const consignmentNumber = await book('REF-RETURN');
+
+      advance(4);
+      const refused = await service.trackShipment(courier, consignmentNumber);
+      expect(refused.shipmentStatus).toBe(ShipmentStatus.FAILED);
+      expect(refused.deliveryDate).toBeUndefined();
+
+      advance(1);
+      const returned = await service.trackShipment(courier, consignmentNumber);
+      expect(returned.shipmentStatus).toBe(ShipmentStatus.RETURNED);
+    });
+
+    it('fails for a consignment TCS does not know', async () => {
+      const tracking = await service.trackShipment(courier, '123');
+
+      expect(tracking).toMatchObject({ success: false, error: 'No record found' });
+    });
+  });
+
+  describe('cancelShipment', () => {
+    it('cancels a booked consignment', async () => {
+      const consignmentNumber = await book('REF-2');
+
+      const cancellation = await service.cancelShipment(courier, consignmentNumber);
+      expect(cancellation.success).toBe(true);
+
+      const tracking = await service.trackShipment(courier, consignmentNumber);
+      expect(tracking.shipmentStatus).toBe(ShipmentStatus.CANCELLED);
+    });
+
+    it('returns the TCS error once the consignment has moved on', async () => {
+      const consignmentNumber = await book('REF-3');
+
+      advance(1);
+      const cancellation = await service.cancelShipment(courier, consignmentNumber);
+
+      expect(cancellation).toEqual({
+        success: false,
+        error: 'Consignment cannot be cancelled after "Arrived at TCS Facility"',
+      });
+    });
+  });
+});
@@ -7,10 +7,24 @@ import {
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
 import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { CourierType } from '@common/enums/courier-type.enum';
+import {
+  CourierAdapter,
+  CourierBookingFailureKind,
+  CourierCapabilities,
+  CourierTrackingCheckpoint,
+  CourierWebhookEvent,
+} from './courier-adapter.interface';
+import { ShipmentStatus } from '../schemas/shipment.schema';
+import { mapTcsStatus } from './courier-status.util';
+import { getBookingFailureKind } from './courier-booking-error.util';
+import { CredentialsCipherService } from '@common/services/credentials-cipher.service';
+import { maskSecrets } from '@common/utils/credential-encryption.util';
+import { CourierApiLogsService } from '@modules/courier-api-logs/courier-api-logs.service';
 
 export interface TcsBookingRequest {
   customerName: string;
-  customerCnic: string;
+  customerCnic?: string;
   customerPhone: string;
   customerAddress: string;
   customerCity: string;
@@ -35,12 +49,15 @@ export interface TcsBookingResponse {
   consignmentNumber?: string;
   message?: string;
   error?: string;
+  failureKind?: CourierBookingFailureKind;
   rawResponse?: any;
 }
 
 export interface TcsTrackingResponse {
   success: boolean;
   status?: string;
+  shipmentStatus?: ShipmentStatus;
+  checkpoints?: CourierTrackingCheckpoint[];
   currentLocation?: string;
   lastUpdate?: Date;
   deliveryDate?: Date;
@@ -50,20 +67,42 @@ export interface TcsTrackingResponse {
 }
 
 @Injectable()
-export class TcsService {
+export class TcsService implements CourierAdapter {
+  // TCS Overland has no API booking and is dispatched manually
+  readonly courierTypes = [CourierType.TCS];
+  readonly capabilities: CourierCapabilities = {
+    book: true,
+    track: true,
+    cancel: true,
+    label: false,
+    webhook: true,
+  };
+
   private readonly logger = new Logger(TcsService.name);
   private axiosInstance: AxiosInstance;
   private readonly TCS_BASE_URL = 'https://ociconnect.tcscourier.com/ecom/api';
   private tokenCache: { token: string; expiry: Date } | null = null;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private credentialsCipherService: CredentialsCipherService,
+    courierApiLogsService: CourierApiLogsService,
+  ) {
     this.axiosInstance = axios.create({
-      baseURL: this.TCS_BASE_URL,
+      // Point TCS_BASE_URL at the local mock (npm run mock:tcs) to test offline
+      baseURL: this.configService.get<string>('tcs.baseUrl') || this.TCS_BASE_URL,
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
       },
     });
+
+    // TCS reports validation errors in errorList, sometimes with a 200 status
+    courierApiLogsService.instrument(this.axiosInstance, CourierType.TCS, (data) =>
+      Array.isArray(data?.errorList) && data.errorList.length > 0
+        ? this.getErrorMessage({ response: { data } }, 'TCS rejected the request')
+        : undefined,
+    );
   }
 
   private validateNamePart(
@@ -128,7 +167,9 @@ export class TcsService {
     }
 
     // Validate TCS credentials are configured
-    if (!courier.apiKey || !courier.apiSecret) {
+    const username = this.credentialsCipherService.decrypt(courier.apiKey);
+    const password = this.credentialsCipherService.decrypt(courier.apiSecret);
+    if (!username || !password) {
       throw new BadRequestException(
         'TCS credentials not configured. Please add username in apiKey and password in apiSecret fields.',
       );
@@ -137,19 +178,11 @@ export class TcsService {
     try {
       this.logger.log('Fetching new access token from TCS API');
 
-      // Get Bearer token from configuration
-      const bearerToken = this.configService.get<string>('tcs.bearerToken');
-
-      if (!bearerToken) {
-        throw new BadRequestException(
-          'TCS_BEARER_TOKEN not configured in environment variables',
-        );
-      }
-      this.logger.log(bearerToken);
+      const bearerToken = this.getBearerToken(courier);
 
       // Use Bearer token to get access token
       const response = await this.axiosInstance.get(
-        `/authentication/token?username=${courier.apiKey}&password=${courier.apiSecret}`,
+        `/authentication/token?username=${username}&password=${password}`,
         {
           headers: {
             Authorization: `Bearer ${bearerToken}`,
@@ -166,7 +199,9 @@ export class TcsService {
         token: authData.accesstoken,
         expiry: new Date(authData.expiry),
       };
-      this.logger.log('Successfully received access token from TCS', this.tokenCache);
+      this.logger.log(
+        `TCS access token cached until ${this.tokenCache.expiry.toISOString()}`,
+      );
 
       return authData.accesstoken;
     } catch (error) {
@@ -183,6 +218,7 @@ export class TcsService {
 
       throw new UnauthorizedException(
         `Failed to authenticate with TCS: ${error.message}`,
+        { cause: error },
       );
     }
   }
@@ -193,13 +229,8 @@ export class TcsService {
   ): Promise<TcsBookingResponse> {
     try {
       this.logger.log(`Booking TCS shipment for customer: ${bookingData.customerName}`);
-      const bearerToken = this.configService.get<string>('tcs.bearerToken');
+      const bearerToken = this.getBearerToken(courier);
 
-      if (!bearerToken) {
-        throw new BadRequestException(
-          'TCS_BEARER_TOKEN not configured in environment variables',
-        );
-      }
       // Get access token using Bearer token
       const accessToken = await this.getAccessToken(courier);
 
@@ -234,7 +265,8 @@ export class TcsService {
         accesstoken: accessToken, // Include access token in payload
         consignmentno: '', // TCS will generate this
         shipperinfo: {
-          tcsaccount: courier.apiSecret || '', // TCS account number from apiSecret
+          // TCS account number from apiSecret
+          tcsaccount: this.credentialsCipherService.decrypt(courier.apiSecret) || '',
           shippername: 'BNW Collections',
           address1: 'Head Office',
           address2: '',
@@ -329,7 +361,10 @@ export class TcsService {
         },
       };
 
-      this.logger.log('Sending booking request to TCS API', JSON.stringify(tcsPayload));
+      this.logger.log(
+        'Sending booking request to TCS API',
+        JSON.stringify(maskSecrets(tcsPayload)),
+      );
 
       // Make API call to TCS booking endpoint (access token is in payload)
       const response = await this.axiosInstance.post('/booking/create', tcsPayload, {
@@ -373,6 +408,14 @@ export class TcsService {
     } catch (error) {
       this.logger.error(`Error booking shipment with TCS: ${error.message}`, error.stack);
 
+      // The access token request books nothing, so it is safe to retry unless rejected
+      const failureKind =
+        error instanceof UnauthorizedException && error.cause
+          ? getBookingFailureKind(error.cause) === CourierBookingFailureKind.REJECTED
+            ? CourierBookingFailureKind.REJECTED
+            : CourierBookingFailureKind.TRANSIENT
+          : getBookingFailureKind(error);
+
       // Handle specific error responses
       if (error.response?.data) {
         const errorData = error.response.data;
@@ -385,6 +428,7 @@ export class TcsService {
           return {
             success: false,
             error: errorData.message || 'Invalid bearer token',
+            failureKind,
             rawResponse: errorData,
           };
         }
@@ -397,6 +441,7 @@ export class TcsService {
           return {
             success: false,
             error: errors,
+            failureKind,
             rawResponse: errorData,
           };
         }
@@ -409,6 +454,7 @@ export class TcsService {
           return {
             success: false,
             error: `${errorData.message}: ${errors}`,
+            failureKind,
             rawResponse: errorData,
           };
         }
@@ -430,6 +476,7 @@ export class TcsService {
         return {
           success: false,
           error: errorMessage,
+          failureKind,
           rawResponse: errorData,
         };
       }
@@ -439,6 +486,7 @@ export class TcsService {
       return {
         success: false,
         error: error.message || 'Failed to connect to TCS API',
+        failureKind,
         rawResponse: error.response?.data,
       };
     }
@@ -446,33 +494,175 @@ export class TcsService {
 
   async trackShipment(
     courier: Courier,
-    trackingNumber: string,
+    consignmentNumber: string,
   ): Promise<TcsTrackingResponse> {
-    this.logger.warn('TCS tracking API not yet implemented');
+    try {
+      this.logger.log(`Tracking TCS shipment: ${consignmentNumber}`);
+      const bearerToken = this.getBearerToken(courier);
+      const accessToken = await this.getAccessToken(courier);
 
-    // TODO: Implement TCS tracking API
-    // Will need to get the tracking endpoint from TCS documentation
+      const response = await this.axiosInstance.get('/tracking/track', {
+        params: { consignmentno: consignmentNumber, accesstoken: accessToken },
+        headers: { Authorization: `Bearer ${bearerToken}` },
+      });
 
-    return {
-      success: false,
-      error: 'TCS tracking API not yet implemented',
-    };
+      this.logger.log(`TCS Tracking Response: ${JSON.stringify(response.data)}`);
+
+      const checkpoints: CourierTrackingCheckpoint[] = (response.data?.checkpoints || [])
+        .map((checkpoint: any) => ({
+          code: checkpoint.code,
+          status: checkpoint.status,
+          shipmentStatus: mapTcsStatus(checkpoint.code, checkpoint.status),
+          location: checkpoint.location || checkpoint.station,
+          timestamp: checkpoint.datetime ? new Date(checkpoint.datetime) : undefined,
+        }))
+        .sort(
+          (a: CourierTrackingCheckpoint, b: CourierTrackingCheckpoint) =>
+            (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0),
+        );
+
+      if (checkpoints.length === 0) {
+        return {
+          success: false,
+          error: response.data?.message || 'No tracking information found',
+          rawResponse: response.data,
+        };
+      }
+
+      // The latest checkpoint is the current status of the shipment
+      const latest = checkpoints[checkpoints.length - 1];
+      const delivery = response.data.deliveryinfo;
+
+      return {
+        success: true,
+        status: latest.status,
+        shipmentStatus: latest.shipmentStatus,
+        checkpoints,
+        currentLocation: latest.location,
+        lastUpdate: latest.timestamp,
+        deliveryDate:
+          latest.shipmentStatus === ShipmentStatus.DELIVERED
+            ? latest.timestamp
+            : undefined,
+        remarks: delivery?.receivedby ? `Received by ${delivery.receivedby}` : undefined,
+        rawResponse: response.data,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error tracking shipment with TCS: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        success: false,
+        error: this.getErrorMessage(error, 'Failed to track shipment'),
+        rawResponse: error.response?.data,
+      };
+    }
   }
 
   async cancelShipment(
     courier: Courier,
-    trackingNumber: string,
+    consignmentNumber: string,
     reason?: string,
   ): Promise<{ success: boolean; message?: string; error?: string }> {
-    this.logger.warn('TCS cancellation API not yet implemented');
+    try {
+      this.logger.log(`Cancelling TCS shipment: ${consignmentNumber}`);
+      const bearerToken = this.getBearerToken(courier);
+      const accessToken = await this.getAccessToken(courier);
 
-    // TODO: Implement TCS cancellation API
-    // Will need to get the cancellation endpoint from TCS documentation
+      const response = await this.axiosInstance.post(
+        '/booking/cancel',
+        {
+          accesstoken: accessToken,
+          consignmentnumber: consignmentNumber,
+          remarks: reason || 'Cancelled by customer',
+        },
+        { headers: { Authorization: `Bearer ${bearerToken}` } },
+      );
 
-    return {
-      success: false,
-      error: 'TCS cancellation API not yet implemented',
-    };
+      this.logger.log(`TCS Cancel Response: ${JSON.stringify(response.data)}`);
+
+      if (response.data?.message?.toUpperCase() === 'SUCCESS') {
+        return {
+          success: true,
+          message: `Consignment ${consignmentNumber} cancelled with TCS`,
+        };
+      }
+
+      return {
+        success: false,
+        error: this.getErrorMessage({ response }, 'Failed to cancel shipment'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling shipment with TCS: ${error.message}`,
+        error.stack,
+      );
+
+      return {
+        success: false,
+        error: this.getErrorMessage(error, 'Failed to cancel shipment'),
+      };
+    }
+  }
+
+  /**
+   * TCS pushes the latest checkpoint of one consignment per call, in the same
+   * shape as the checkpoints of the tracking API
+   */
+  parseWebhook(payload: any): CourierWebhookEvent[] {
+    const consignmentNumber = payload?.consignmentno || payload?.consignmentNo;
+    if (!consignmentNumber) {
+      return [];
+    }
+
+    return [
+      {
+        consignmentNumber: String(consignmentNumber),
+        eventId: payload.eventid,
+        shipmentStatus: mapTcsStatus(payload.code, payload.status),
+        courierStatus: payload.status,
+        courierCode: payload.code,
+        location: payload.location || payload.station,
+        remarks: payload.remarks,
+        eventTime: payload.datetime ? new Date(payload.datetime) : undefined,
+      },
+    ];
+  }
+
+  /**
+   * Bearer token stored on the courier, falling back to the deprecated
+   * TCS_BEARER_TOKEN environment variable
+   */
+  private getBearerToken(courier: Courier): string {
+    const bearerToken =
+      this.credentialsCipherService.decrypt(courier.apiToken) ||
+      this.configService.get<string>('tcs.bearerToken');
+
+    if (!bearerToken) {
+      throw new BadRequestException(
+        'TCS bearer token not configured. Please add it in the apiToken field of the courier.',
+      );
+    }
+
+    return bearerToken;
+  }
+
+  /**
+   * Pull a readable message out of a TCS error: validation errors come as an
+   * errorList, everything else as a message
+   */
+  private getErrorMessage(error: any, fallback: string): string {
+    const errorData = error.response?.data;
+
+    if (errorData?.errorList && Array.isArray(errorData.errorList)) {
+      return errorData.errorList
+        .map((e: any) => `${e.key}: ${e.errormessage}`)
+        .join(', ');
+    }
+
+    return errorData?.message || error.message || fallback;
   }
 
   private getCityCode(cityName: string): string {
@@ -0,0 +1,22 @@
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export interface BulkDispatchOrderResult {
+  orderType: 'bank' | 'bip';
+  orderId: string;
+  success: boolean;
+  shipmentId?: string;
+  trackingNumber?: string;
+  consignmentNumber?: string;
+  error?: string;
+}
+
+export interface BulkDispatchResult {
+  courierType: CourierType;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkDispatchOrderResult[];
+  // Merged challans of the booked orders; undefined when none could be produced
+  challanPdfURL?: string;
+  challanError?: string;
+}
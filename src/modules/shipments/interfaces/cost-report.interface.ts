@@ -0,0 +1,21 @@
+import { CostReportGroupBy } from '../dto/cost-report-query.dto';
+
+export interface CostReportRow {
+  id: string | null; // Courier or bank ID; null for shipments whose bank is unknown
+  name: string;
+  shipments: number;
+  estimatedCost: number;
+  // Actual cost and variance only cover shipments the courier has billed
+  billedShipments: number;
+  actualCost: number;
+  estimatedCostOfBilled: number;
+  variance: number; // actualCost - estimatedCostOfBilled
+}
+
+export interface CostReport {
+  groupBy: CostReportGroupBy;
+  startDate?: string;
+  endDate?: string;
+  rows: CostReportRow[];
+  totals: Omit<CostReportRow, 'id' | 'name'>;
+}
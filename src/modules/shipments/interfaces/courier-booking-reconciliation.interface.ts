@@ -0,0 +1,9 @@
+/**
+ * Bookings settled by one reconciliation pass
+ */
+export interface CourierBookingReconciliation {
+  completed: number; // Orphaned bookings whose shipment was found
+  cancelled: number; // Orphaned consignments cancelled with the courier
+  unconfirmed: number; // Bookings left for review
+  failed: number; // Orphaned consignments the courier could not cancel
+}
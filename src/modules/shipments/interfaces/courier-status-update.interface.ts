@@ -0,0 +1,23 @@
+import { ShipmentStatus } from '../schemas/shipment.schema';
+import { CourierTrackingCheckpoint } from '../integrations/courier-adapter.interface';
+
+/**
+ * A status reported by a courier, from tracking sync or a courier webhook
+ */
+export interface CourierStatusUpdate {
+  shipmentStatus?: ShipmentStatus; // Undefined when the courier status is not recognised
+  courierStatus?: string;
+  courierCode?: string;
+  location?: string;
+  remarks?: string;
+  eventTime?: Date;
+  // Every scan the courier reported, when it sends the full history
+  checkpoints?: CourierTrackingCheckpoint[];
+}
+
+export interface CourierStatusUpdateResult {
+  previousStatus: ShipmentStatus;
+  status: ShipmentStatus;
+  statusChanged: boolean;
+  orderUpdated: boolean;
+}
@@ -0,0 +1,17 @@
+import { Types } from 'mongoose';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { DeliveryFailureReason } from '../schemas/shipment.schema';
+
+/**
+ * One delivery that did not go through: by our rider, reported by the courier or
+ * recorded by staff
+ */
+export interface DeliveryAttempt {
+  attemptNumber: number;
+  attemptedAt: Date;
+  reason: DeliveryFailureReason;
+  remarks?: string;
+  nextAttemptDate?: Date; // Undefined when the courier schedules the next attempt
+  source: ChangeSource;
+  recordedBy?: Types.ObjectId;
+}
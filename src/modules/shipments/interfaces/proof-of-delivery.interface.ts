@@ -0,0 +1,12 @@
+import { Types } from 'mongoose';
+
+/**
+ * Evidence a rider collected when handing over a self-delivery shipment
+ */
+export interface ProofOfDelivery {
+  photoUrl: string;
+  signatureUrl: string;
+  receivedBy?: string; // Name of the person who took the parcel
+  uploadedAt: Date;
+  uploadedBy?: Types.ObjectId;
+}
@@ -0,0 +1,18 @@
+import { Types } from 'mongoose';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { DeliveryFailureReason, ShipmentStatus } from '../schemas/shipment.schema';
+
+/**
+ * One entry of a shipment's tracking timeline: a courier scan or a manual update
+ */
+export interface ShipmentTrackingEvent {
+  status?: ShipmentStatus; // Undefined when the courier status is not recognised
+  courierStatus?: string;
+  courierCode?: string;
+  location?: string;
+  remarks?: string;
+  failureReason?: DeliveryFailureReason; // Set on failed delivery attempts
+  eventTime: Date;
+  source: ChangeSource;
+  performedBy?: Types.ObjectId;
+}
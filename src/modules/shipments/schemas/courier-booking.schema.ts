@@ -0,0 +1,127 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export enum CourierBookingStatus {
+  PENDING = 'pending', // Written before the courier call
+  BOOKED = 'booked', // The courier created a consignment; no shipment saved yet
+  UNCONFIRMED = 'unconfirmed', // No answer from the courier; it may have booked it
+  COMPLETED = 'completed', // Shipment saved
+  FAILED = 'failed', // Nothing was booked
+  CANCELLED = 'cancelled', // An orphaned consignment was cancelled with the courier
+}
+
+// Bookings that hold their order; it cannot be booked again until they are settled
+export const ACTIVE_COURIER_BOOKING_STATUSES = [
+  CourierBookingStatus.PENDING,
+  CourierBookingStatus.BOOKED,
+  CourierBookingStatus.UNCONFIRMED,
+];
+
+/**
+ * One attempt to book an order with a courier through its API. The record is
+ * written before the courier is called, so a booking that was made but never saved
+ * as a shipment can be found and reconciled.
+ */
+@Schema({ timestamps: true })
+export class CourierBooking extends Document {
+  @ApiProperty({
+    example: 'bank-order:507f1f77bcf86cd799439011',
+    description: 'Identifies the order; only one active booking can have it',
+  })
+  @Prop({ required: true })
+  idempotencyKey: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'BankOrder' })
+  bankOrderId?: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Bip' })
+  bipOrderId?: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ type: Types.ObjectId, ref: 'Courier', required: true })
+  courierId: Types.ObjectId;
+
+  @ApiProperty({ example: 'tcs', enum: CourierType })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({ example: 'completed', enum: CourierBookingStatus })
+  @Prop({
+    type: String,
+    enum: CourierBookingStatus,
+    default: CourierBookingStatus.PENDING,
+  })
+  status: CourierBookingStatus;
+
+  @ApiProperty({
+    example: true,
+    description:
+      'Whether the booking still holds its order (pending, booked or unconfirmed)',
+  })
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: 1, description: 'Courier calls made for the booking' })
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @ApiProperty({ example: 'TCS123456789', required: false })
+  @Prop()
+  trackingNumber?: string;
+
+  @ApiProperty({ example: 'CN123456789', required: false })
+  @Prop()
+  consignmentNumber?: string;
+
+  @ApiProperty({ description: 'Courier response to the booking', required: false })
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  courierResponse?: any;
+
+  @ApiProperty({ example: 'timeout of 30000ms exceeded', required: false })
+  @Prop()
+  lastError?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Shipment' })
+  shipmentId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'Checked TCS portal, nothing was booked',
+    description: 'How a held booking was settled',
+    required: false,
+  })
+  @Prop()
+  resolution?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', required: false })
+  @Prop()
+  resolvedAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierBookingSchema = SchemaFactory.createForClass(CourierBooking);
+
+// Indexes
+CourierBookingSchema.index(
+  { idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } },
+);
+CourierBookingSchema.index({ status: 1, updatedAt: 1 });
+CourierBookingSchema.index({ bankOrderId: 1 });
+CourierBookingSchema.index({ bipOrderId: 1 });
@@ -1,9 +1,15 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { ShipmentTrackingEvent } from '../interfaces/tracking-event.interface';
+import { ProofOfDelivery } from '../interfaces/proof-of-delivery.interface';
+import { DeliveryAttempt } from '../interfaces/delivery-attempt.interface';
+import { ShippingCostBreakdown } from '@modules/couriers/utils/shipping-cost.util';
 
 export enum ShipmentStatus {
   BOOKED = 'booked',
+  PICKED_UP = 'picked_up', // Handed over to the courier rider on a pickup manifest
   IN_TRANSIT = 'in_transit',
   OUT_FOR_DELIVERY = 'out_for_delivery',
   DELIVERED = 'delivered',
@@ -12,6 +18,23 @@ export enum ShipmentStatus {
   FAILED = 'failed',
 }
 
+// Why a delivery attempt did not succeed
+export enum DeliveryFailureReason {
+  CUSTOMER_UNAVAILABLE = 'customer_unavailable',
+  CUSTOMER_RESCHEDULED = 'customer_rescheduled',
+  WRONG_ADDRESS = 'wrong_address',
+  REFUSED = 'refused',
+  CNIC_MISMATCH = 'cnic_mismatch', // Recipient could not prove they are the customer
+  OTHER = 'other',
+}
+
+// Shipments in these statuses are no longer tracked with the courier
+export const FINAL_SHIPMENT_STATUSES = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.RETURNED,
+  ShipmentStatus.CANCELLED,
+];
+
 @Schema({ timestamps: true })
 export class Shipment extends Document {
   @ApiProperty({
@@ -94,6 +117,10 @@ export class Shipment extends Document {
   @Prop({ min: 0 })
   declaredValue?: number;
 
+  @ApiProperty({ example: 0.5, description: 'Package weight in KG', required: false })
+  @Prop({ min: 0 })
+  weightInKg?: number;
+
   @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Booking date' })
   @Prop({ required: true })
   bookingDate: Date;
@@ -118,6 +145,232 @@ export class Shipment extends Document {
   @Prop({ type: Object })
   courierApiResponse?: Record<string, any>;
 
+  @ApiProperty({
+    example: 'Out for Delivery',
+    description: 'Latest status text reported by the courier tracking API',
+    required: false,
+  })
+  @Prop({ trim: true })
+  courierStatus?: string;
+
+  @ApiProperty({
+    example: '2024-01-18T09:00:00.000Z',
+    description: 'When the shipment was last checked with the courier tracking API',
+    required: false,
+  })
+  @Prop()
+  lastTrackedAt?: Date;
+
+  @ApiProperty({
+    example: [
+      {
+        status: 'booked',
+        eventTime: '2024-01-15T10:30:00.000Z',
+        source: 'user',
+        performedBy: '507f1f77bcf86cd799439011',
+      },
+      {
+        status: 'in_transit',
+        courierStatus: 'Arrived at TCS Facility',
+        courierCode: 'AR',
+        location: 'Lahore',
+        eventTime: '2024-01-16T08:10:00.000Z',
+        source: 'courier-sync',
+      },
+    ],
+    description:
+      'Tracking timeline in event time order: courier scans from sync and webhooks, and manual updates',
+    required: false,
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        status: { type: String, enum: ShipmentStatus },
+        courierStatus: { type: String, trim: true },
+        courierCode: { type: String, trim: true },
+        location: { type: String, trim: true },
+        remarks: { type: String, trim: true },
+        failureReason: { type: String, enum: DeliveryFailureReason },
+        eventTime: { type: Date, required: true },
+        source: { type: String, enum: ChangeSource, default: ChangeSource.SYSTEM },
+        performedBy: { type: Types.ObjectId, ref: 'User' },
+      },
+    ],
+    default: [],
+  })
+  trackingEvents?: ShipmentTrackingEvent[];
+
+  @ApiProperty({
+    example: [
+      {
+        attemptNumber: 1,
+        attemptedAt: '2024-01-16T13:20:00.000Z',
+        reason: 'customer_unavailable',
+        remarks: 'Phone switched off',
+        nextAttemptDate: '2024-01-17T00:00:00.000Z',
+        source: 'rider',
+        recordedBy: '507f1f77bcf86cd799439011',
+      },
+    ],
+    description: 'Failed delivery attempts, oldest first',
+    required: false,
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        attemptNumber: { type: Number, required: true },
+        attemptedAt: { type: Date, required: true },
+        reason: { type: String, enum: DeliveryFailureReason, required: true },
+        remarks: { type: String, trim: true },
+        nextAttemptDate: { type: Date },
+        source: { type: String, enum: ChangeSource, default: ChangeSource.SYSTEM },
+        recordedBy: { type: Types.ObjectId, ref: 'User' },
+      },
+    ],
+    default: [],
+  })
+  deliveryAttempts?: DeliveryAttempt[];
+
+  @ApiProperty({
+    example: '2024-01-17T00:00:00.000Z',
+    description: 'When a failed delivery is to be tried again',
+    required: false,
+  })
+  @Prop()
+  nextAttemptDate?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Pickup manifest the shipment was handed to the courier on',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'PickupManifest', index: true })
+  pickupManifestId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Rider delivering a self-delivery shipment',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  riderId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: '2024-01-16T00:00:00.000Z',
+    description: 'Day the rider is to deliver the shipment',
+    required: false,
+  })
+  @Prop()
+  plannedDeliveryDate?: Date;
+
+  @ApiProperty({ example: '2024-01-15T16:00:00.000Z', required: false })
+  @Prop()
+  riderAssignedAt?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who assigned the rider',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  riderAssignedBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: {
+      photoUrl: 'https://bucket.s3.amazonaws.com/proof-of-delivery/507f/photo.jpg',
+      signatureUrl: 'https://bucket.s3.amazonaws.com/proof-of-delivery/507f/sign.png',
+      receivedBy: 'Ali Raza',
+      uploadedAt: '2024-01-16T12:10:00.000Z',
+      uploadedBy: '507f1f77bcf86cd799439011',
+    },
+    description: 'Photo and signature taken by the rider at delivery',
+    required: false,
+  })
+  @Prop({
+    type: {
+      _id: false,
+      photoUrl: { type: String, required: true },
+      signatureUrl: { type: String, required: true },
+      receivedBy: { type: String, trim: true },
+      uploadedAt: { type: Date, required: true },
+      uploadedBy: { type: Types.ObjectId, ref: 'User' },
+    },
+  })
+  proofOfDelivery?: ProofOfDelivery;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Courier selection rule that chose the courier, when none was given',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'CourierSelectionRule' })
+  courierSelectionRuleId?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 236.9,
+    description: "Cost estimated from the courier's rate card at booking (PKR)",
+    required: false,
+  })
+  @Prop({ min: 0 })
+  estimatedCost?: number;
+
+  @ApiProperty({
+    example: {
+      rateCardId: '507f1f77bcf86cd799439011',
+      zone: 'Nationwide',
+      chargeableWeightKg: 0.5,
+      weightCharge: 206,
+      overlandSurcharge: 0,
+      fuelSurcharge: 30.9,
+      estimatedCost: 236.9,
+    },
+    description: 'How the estimated cost was worked out',
+    required: false,
+  })
+  @Prop({
+    type: {
+      _id: false,
+      rateCardId: { type: Types.ObjectId, ref: 'CourierRateCard' },
+      zone: String,
+      chargeableWeightKg: Number,
+      weightCharge: Number,
+      overlandSurcharge: Number,
+      fuelSurcharge: Number,
+      estimatedCost: Number,
+    },
+  })
+  costBreakdown?: ShippingCostBreakdown;
+
+  @ApiProperty({
+    example: 240,
+    description: "Cost billed by the courier, from the courier's invoice (PKR)",
+    required: false,
+  })
+  @Prop({ min: 0 })
+  actualCost?: number;
+
+  @ApiProperty({
+    example: 'INV-2024-0113',
+    description: 'Courier invoice the actual cost was billed on',
+    required: false,
+  })
+  @Prop({ trim: true })
+  billingReference?: string;
+
+  @ApiProperty({ example: '2024-02-01T10:30:00.000Z', required: false })
+  @Prop()
+  actualCostRecordedAt?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who recorded the actual cost',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actualCostRecordedBy?: Types.ObjectId;
+
   @ApiProperty({ example: false, description: 'Soft delete flag' })
   @Prop({ default: false })
   isDeleted: boolean;
@@ -137,3 +390,9 @@ ShipmentSchema.index({ consignmentNumber: 1 }, { sparse: true });
 ShipmentSchema.index({ status: 1, isDeleted: 1 });
 ShipmentSchema.index({ city: 1, status: 1 });
 ShipmentSchema.index({ bookingDate: 1 });
+// Riders list their stops by day
+ShipmentSchema.index({ riderId: 1, plannedDeliveryDate: 1 });
+// Failed deliveries queue, next attempt due first
+ShipmentSchema.index({ status: 1, isDeleted: 1, nextAttemptDate: 1 });
+// Tracking sync picks the open shipments checked longest ago first
+ShipmentSchema.index({ status: 1, isDeleted: 1, lastTrackedAt: 1 });
@@ -0,0 +1,135 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum TrackingSyncTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+}
+
+export enum TrackingSyncRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * A shipment the sync could not check or update
+ */
+export interface TrackingSyncFailure {
+  shipmentId: string;
+  trackingNumber: string;
+  courierType?: string;
+  error: string;
+}
+
+@Schema({ timestamps: true })
+export class TrackingSyncRun extends Document {
+  @ApiProperty({
+    example: 'scheduled',
+    description: 'What started the run',
+    enum: TrackingSyncTrigger,
+  })
+  @Prop({ type: String, enum: TrackingSyncTrigger, required: true })
+  trigger: TrackingSyncTrigger;
+
+  @ApiProperty({
+    example: 'completed',
+    description: 'Run status',
+    enum: TrackingSyncRunStatus,
+  })
+  @Prop({
+    type: String,
+    enum: TrackingSyncRunStatus,
+    default: TrackingSyncRunStatus.RUNNING,
+    index: true,
+  })
+  status: TrackingSyncRunStatus;
+
+  @ApiProperty({ example: 120, description: 'Shipments checked with their courier' })
+  @Prop({ default: 0 })
+  checkedCount: number;
+
+  @ApiProperty({ example: 35, description: 'Shipments whose status changed' })
+  @Prop({ default: 0 })
+  updatedCount: number;
+
+  @ApiProperty({ example: 20, description: 'Shipments that became delivered' })
+  @Prop({ default: 0 })
+  deliveredCount: number;
+
+  @ApiProperty({ example: 2, description: 'Shipments that became returned' })
+  @Prop({ default: 0 })
+  returnedCount: number;
+
+  @ApiProperty({
+    example: 21,
+    description: 'Linked bank and BIP orders moved to delivered or returned',
+  })
+  @Prop({ default: 0 })
+  ordersUpdatedCount: number;
+
+  @ApiProperty({
+    example: 4,
+    description: 'Shipments skipped because their courier has no tracking API',
+  })
+  @Prop({ default: 0 })
+  skippedCount: number;
+
+  @ApiProperty({ example: 3, description: 'Shipments the courier could not track' })
+  @Prop({ default: 0 })
+  failedCount: number;
+
+  @ApiProperty({
+    example: [
+      {
+        shipmentId: '507f1f77bcf86cd799439011',
+        trackingNumber: 'TRACE-779900000001',
+        courierType: 'tcs',
+        error: 'No tracking information found',
+      },
+    ],
+    description: 'Shipments that failed, capped at the first 100',
+    required: false,
+  })
+  @Prop({ type: [Object], default: [] })
+  failures?: TrackingSyncFailure[];
+
+  @ApiProperty({
+    example: 'Courier API unreachable',
+    description: 'Why the run failed',
+    required: false,
+  })
+  @Prop()
+  error?: string;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Admin who started a manual run',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  triggeredBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z' })
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:34:00.000Z', required: false })
+  @Prop()
+  completedAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const TrackingSyncRunSchema = SchemaFactory.createForClass(TrackingSyncRun);
+
+// Indexes
+TrackingSyncRunSchema.index({ createdAt: -1 });
@@ -7,7 +7,11 @@ import {
   Param,
   Query,
   UseGuards,
+  Res,
+  HttpStatus,
+  BadRequestException,
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -17,15 +21,28 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { ShipmentsService } from './shipments.service';
+import { TrackingSyncService } from './tracking-sync.service';
+import { CourierBookingsService } from './courier-bookings.service';
+import { TrackingSyncTrigger } from './schemas/tracking-sync-run.schema';
 import { DispatchOrderDto } from './dto/dispatch-order.dto';
+import { BulkDispatchDto } from './dto/bulk-dispatch.dto';
+import { PrintLabelsDto } from './dto/print-labels.dto';
+import { LabelLayout } from './utils/shipping-label-pdf-generator';
 import { ManualDispatchDto } from './dto/manual-dispatch.dto';
 import { UpdateShipmentStatusDto } from './dto/update-shipment-status.dto';
+import { RecordShipmentCostDto } from './dto/record-shipment-cost.dto';
+import { CostReportQueryDto } from './dto/cost-report-query.dto';
+import { ResolveCourierBookingDto } from './dto/resolve-courier-booking.dto';
+import { FailedDeliveryQueryDto } from './dto/failed-delivery-query.dto';
+import { ScheduleReattemptDto } from './dto/schedule-reattempt.dto';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { RolesGuard } from '@common/guards/roles.guard';
 import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
 import { UserRole } from '@common/interfaces/user-role.enum';
 import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
 import { ShipmentStatus } from './schemas/shipment.schema';
+import { CourierBookingStatus } from './schemas/courier-booking.schema';
 import { CourierType } from '@common/enums/courier-type.enum';
 
 @ApiTags('Shipments')
@@ -33,7 +50,11 @@ import { CourierType } from '@common/enums/courier-type.enum';
 @Controller('shipments')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class ShipmentsController {
-  constructor(private readonly shipmentsService: ShipmentsService) {}
+  constructor(
+    private readonly shipmentsService: ShipmentsService,
+    private readonly trackingSyncService: TrackingSyncService,
+    private readonly courierBookingsService: CourierBookingsService,
+  ) {}
 
   @Post('dispatch/bank-order/:id')
   @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
@@ -46,8 +67,9 @@ export class ShipmentsController {
   dispatchBankOrder(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() dispatchOrderDto: DispatchOrderDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.shipmentsService.dispatchBankOrder(id, dispatchOrderDto);
+    return this.shipmentsService.dispatchBankOrder(id, dispatchOrderDto, userId);
   }
 
   @Post('dispatch/bip-order/:id')
@@ -61,8 +83,93 @@ export class ShipmentsController {
   dispatchBipOrder(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() dispatchOrderDto: DispatchOrderDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.shipmentsService.dispatchBipOrder(id, dispatchOrderDto);
+    return this.shipmentsService.dispatchBipOrder(id, dispatchOrderDto, userId);
+  }
+
+  @Post('dispatch/bulk')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Dispatch many bank and BIP orders with one courier',
+    description:
+      'Books each order in turn and continues past failed bookings. Returns the result ' +
+      'for every order and one merged challan PDF for the booked orders.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch processed; check each result for failed bookings',
+    schema: {
+      example: {
+        courierType: 'tcs',
+        total: 2,
+        succeeded: 1,
+        failed: 1,
+        results: [
+          {
+            orderType: 'bank',
+            orderId: '507f1f77bcf86cd799439011',
+            success: true,
+            shipmentId: '507f1f77bcf86cd799439021',
+            trackingNumber: '779900000001',
+            consignmentNumber: '779900000001',
+          },
+          {
+            orderType: 'bip',
+            orderId: '507f1f77bcf86cd799439013',
+            success: false,
+            error: "BIP order must be in 'processing' status to dispatch",
+          },
+        ],
+        challanPdfURL:
+          'https://bucket.s3.region.amazonaws.com/delivery-challans/merged/bulk-dispatch-tcs.pdf',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No orders given or courier needs manual dispatch',
+  })
+  @ApiResponse({ status: 404, description: 'Courier not found' })
+  bulkDispatch(
+    @Body() bulkDispatchDto: BulkDispatchDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.shipmentsService.bulkDispatch(bulkDispatchDto, userId);
+  }
+
+  @Get('dispatch/:orderType/:id/courier-preview')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Preview the courier the selection rules would pick for an order',
+    description:
+      'Lists the rules tried and why each matched or not, as for a dispatch without a courier type. ' +
+      'manualDispatch tells whether the selected courier is dispatched through the manual endpoint',
+  })
+  @ApiParam({ name: 'orderType', enum: ['bank-order', 'bip-order'] })
+  @ApiParam({ name: 'id', description: 'Order MongoDB ObjectId' })
+  @ApiQuery({
+    name: 'weightInKg',
+    required: false,
+    type: Number,
+    description: 'Package weight the dispatch would be booked with',
+  })
+  @ApiResponse({ status: 200, description: 'Selected courier with the rule evaluations' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  previewCourierSelection(
+    @Param('orderType') orderType: string,
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Query('weightInKg') weightInKg?: string,
+  ) {
+    if (orderType !== 'bank-order' && orderType !== 'bip-order') {
+      throw new BadRequestException('Order type must be bank-order or bip-order');
+    }
+
+    return this.shipmentsService.previewCourierSelection(
+      orderType === 'bank-order' ? 'bank' : 'bip',
+      id,
+      weightInKg ? Number(weightInKg) : undefined,
+    );
   }
 
   @Post('dispatch/bank-order/:id/manual')
@@ -75,8 +182,9 @@ export class ShipmentsController {
   dispatchBankOrderManually(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() manualDispatchDto: ManualDispatchDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.shipmentsService.dispatchBankOrderManually(id, manualDispatchDto);
+    return this.shipmentsService.dispatchBankOrderManually(id, manualDispatchDto, userId);
   }
 
   @Post('dispatch/bip-order/:id/manual')
@@ -89,8 +197,9 @@ export class ShipmentsController {
   dispatchBipOrderManually(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() manualDispatchDto: ManualDispatchDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.shipmentsService.dispatchBipOrderManually(id, manualDispatchDto);
+    return this.shipmentsService.dispatchBipOrderManually(id, manualDispatchDto, userId);
   }
 
   @Get()
@@ -136,6 +245,150 @@ export class ShipmentsController {
     );
   }
 
+  @Get('reports/costs')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Shipping cost report per courier or per bank',
+    description:
+      'Estimated cost from rate cards against the cost billed by couriers, for shipments booked in the date range',
+  })
+  @ApiResponse({ status: 200, description: 'Cost report rows with totals' })
+  getCostReport(@Query() query: CostReportQueryDto) {
+    return this.shipmentsService.getCostReport(
+      query.groupBy,
+      query.startDate,
+      query.endDate,
+    );
+  }
+
+  @Post('tracking-sync/runs')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary:
+      'Start a courier tracking sync now instead of waiting for the schedule (Admin only)',
+  })
+  @ApiResponse({ status: 201, description: 'Sync run started; poll it for the summary' })
+  @ApiResponse({ status: 409, description: 'A sync run is already in progress' })
+  startTrackingSync(@CurrentUser('_id') userId: string) {
+    return this.trackingSyncService.startRun(TrackingSyncTrigger.MANUAL, userId);
+  }
+
+  @Get('tracking-sync/runs')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List courier tracking sync runs, newest first (Admin only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiResponse({ status: 200, description: 'Sync run summaries with pagination' })
+  findTrackingSyncRuns(@Query('page') page?: number, @Query('limit') limit?: number) {
+    return this.trackingSyncService.findRuns(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+    );
+  }
+
+  @Get('tracking-sync/runs/:runId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get a courier tracking sync run with its failures (Admin only)',
+  })
+  @ApiParam({ name: 'runId', description: 'Sync run MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Sync run summary' })
+  @ApiResponse({ status: 404, description: 'Sync run not found' })
+  findTrackingSyncRun(@Param('runId', ParseObjectIdPipe) runId: string) {
+    return this.trackingSyncService.findRun(runId);
+  }
+
+  @Get('failed-deliveries')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'List failed deliveries needing action',
+    description:
+      'Failed shipments waiting for a call to the customer, a corrected address or a next attempt; next attempt due soonest first.',
+  })
+  @ApiResponse({ status: 200, description: 'Failed deliveries retrieved successfully' })
+  findFailedDeliveries(@Query() query: FailedDeliveryQueryDto) {
+    return this.shipmentsService.findFailedDeliveries(query);
+  }
+
+  @Get('bookings')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'List courier bookings, newest first',
+    description:
+      'Unconfirmed bookings hold their order until they are resolved; filter by status to find them',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({ name: 'status', required: false, enum: CourierBookingStatus })
+  @ApiResponse({ status: 200, description: 'List of courier bookings with pagination' })
+  findCourierBookings(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('status') status?: CourierBookingStatus,
+  ) {
+    return this.courierBookingsService.findAll(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+      status,
+    );
+  }
+
+  @Post('bookings/reconcile')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary:
+      'Reconcile courier bookings now instead of waiting for the schedule (Admin only)',
+    description:
+      'Orphaned consignments are linked to their shipment or cancelled with the courier',
+  })
+  @ApiResponse({ status: 201, description: 'Counts of the bookings settled' })
+  @ApiResponse({ status: 409, description: 'Reconciliation is already running' })
+  reconcileCourierBookings() {
+    return this.courierBookingsService.reconcile();
+  }
+
+  @Post('bookings/:bookingId/resolve')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Release an unconfirmed or orphaned courier booking (Admin only)',
+    description:
+      'Check the courier portal first. A consignment found for the booking is cancelled with the courier; the order can then be dispatched again.',
+  })
+  @ApiParam({ name: 'bookingId', description: 'Courier booking MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Booking resolved' })
+  @ApiResponse({ status: 400, description: 'Booking does not need resolving' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  resolveCourierBooking(
+    @Param('bookingId', ParseObjectIdPipe) bookingId: string,
+    @Body() resolveDto: ResolveCourierBookingDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.courierBookingsService.resolve(bookingId, resolveDto, userId);
+  }
+
+  @Post('labels')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Download shipping labels of many shipments as one PDF' })
+  @ApiResponse({
+    status: 200,
+    description: 'Label PDF generated successfully',
+    content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid IDs or a shipment is cancelled' })
+  @ApiResponse({ status: 404, description: 'One or more shipments not found' })
+  async downloadLabels(
+    @Body() printLabelsDto: PrintLabelsDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const pdf = await this.shipmentsService.generateLabels(
+      printLabelsDto.shipmentIds,
+      printLabelsDto.layout || LabelLayout.A4,
+    );
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.sendPDF(res, pdf, `labels-${timestamp}.pdf`);
+  }
+
   @Get('tracking/:trackingNumber')
   @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
   @ApiOperation({ summary: 'Get shipment by tracking number' })
@@ -150,7 +403,10 @@ export class ShipmentsController {
   @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
   @ApiOperation({ summary: 'Get shipment by ID' })
   @ApiParam({ name: 'id', description: 'Shipment MongoDB ObjectId' })
-  @ApiResponse({ status: 200, description: 'Shipment data with populated references' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipment data with populated references and its tracking timeline',
+  })
   @ApiResponse({ status: 404, description: 'Shipment not found' })
   findOne(@Param('id', ParseObjectIdPipe) id: string) {
     return this.shipmentsService.findOne(id);
@@ -167,6 +423,41 @@ export class ShipmentsController {
     return this.shipmentsService.trackShipment(id);
   }
 
+  @Get(':id/label')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({ summary: 'Download the shipping label of a shipment as PDF' })
+  @ApiParam({ name: 'id', description: 'Shipment MongoDB ObjectId' })
+  @ApiQuery({
+    name: 'layout',
+    required: false,
+    enum: LabelLayout,
+    example: LabelLayout.A4,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Label PDF generated successfully',
+    content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } },
+  })
+  @ApiResponse({ status: 400, description: 'Shipment is cancelled' })
+  @ApiResponse({ status: 404, description: 'Shipment not found' })
+  async downloadLabel(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Res() res: Response,
+    @Query('layout') layout?: LabelLayout,
+  ): Promise<void> {
+    if (layout && !Object.values(LabelLayout).includes(layout)) {
+      throw new BadRequestException(
+        `Layout must be one of: ${Object.values(LabelLayout).join(', ')}`,
+      );
+    }
+
+    const pdf = await this.shipmentsService.generateLabels(
+      [id],
+      layout || LabelLayout.A4,
+    );
+    this.sendPDF(res, pdf, `label-${id}.pdf`);
+  }
+
   @Patch(':id/status')
   @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
   @ApiOperation({ summary: 'Update shipment status' })
@@ -176,8 +467,45 @@ export class ShipmentsController {
   updateStatus(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body() updateShipmentStatusDto: UpdateShipmentStatusDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.shipmentsService.updateStatus(id, updateShipmentStatusDto, userId);
+  }
+
+  @Post(':id/reattempt')
+  @Roles(UserRole.ADMIN, UserRole.STAFF, UserRole.DISPATCH)
+  @ApiOperation({
+    summary: 'Schedule the next attempt of a failed delivery',
+    description:
+      'Optionally corrects the address, city or phone. Corrections are not sent to the courier; tell the courier separately.',
+  })
+  @ApiParam({ name: 'id', description: 'Shipment MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Reattempt scheduled' })
+  @ApiResponse({
+    status: 400,
+    description: 'Shipment is not failed, or the date is past',
+  })
+  @ApiResponse({ status: 404, description: 'Shipment not found' })
+  scheduleReattempt(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() scheduleDto: ScheduleReattemptDto,
+    @CurrentUser('_id') userId: string,
   ) {
-    return this.shipmentsService.updateStatus(id, updateShipmentStatusDto);
+    return this.shipmentsService.scheduleReattempt(id, scheduleDto, userId);
+  }
+
+  @Patch(':id/cost')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'Record the cost billed by the courier for a shipment' })
+  @ApiParam({ name: 'id', description: 'Shipment MongoDB ObjectId' })
+  @ApiResponse({ status: 200, description: 'Actual cost recorded successfully' })
+  @ApiResponse({ status: 404, description: 'Shipment not found' })
+  recordActualCost(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() recordCostDto: RecordShipmentCostDto,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.shipmentsService.recordActualCost(id, recordCostDto, userId);
   }
 
   @Post(':id/cancel')
@@ -196,8 +524,16 @@ export class ShipmentsController {
   @ApiResponse({ status: 500, description: 'Failed to cancel shipment with courier' })
   cancelShipment(
     @Param('id', ParseObjectIdPipe) id: string,
+    @CurrentUser('_id') userId: string,
     @Query('reason') reason?: string,
   ) {
-    return this.shipmentsService.cancelShipment(id, reason);
+    return this.shipmentsService.cancelShipment(id, reason, userId);
+  }
+
+  private sendPDF(res: Response, pdf: Buffer, filename: string): void {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.status(HttpStatus.OK).send(pdf);
   }
 }
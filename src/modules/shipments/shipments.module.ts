@@ -3,9 +3,19 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ShipmentsService } from './shipments.service';
 import { ShipmentsController } from './shipments.controller';
 import { Shipment, ShipmentSchema } from './schemas/shipment.schema';
+import {
+  TrackingSyncRun,
+  TrackingSyncRunSchema,
+} from './schemas/tracking-sync-run.schema';
+import { TrackingSyncService } from './tracking-sync.service';
+import { CourierBooking, CourierBookingSchema } from './schemas/courier-booking.schema';
+import { CourierBookingsService } from './courier-bookings.service';
 import { CouriersModule } from '@modules/couriers/couriers.module';
+import { CourierSelectionModule } from '@modules/courier-selection/courier-selection.module';
+import { CourierApiLogsModule } from '@modules/courier-api-logs/courier-api-logs.module';
 import { LeopardsService } from './integrations/leopards.service';
 import { TcsService } from './integrations/tcs.service';
+import { CourierAdapterRegistry } from './integrations/courier-adapter.registry';
 import { BankOrder, BankOrderSchema } from '@modules/bank-orders/schemas/bank-order.schema';
 import { Bip, BipSchema } from '@modules/bip/schemas/bip.schema';
 import { DeliveryChallansModule } from '@modules/delivery-challans/delivery-challans.module';
@@ -15,14 +25,26 @@ import { WhatsAppService } from '@common/services/whatsapp.service';
   imports: [
     MongooseModule.forFeature([
       { name: Shipment.name, schema: ShipmentSchema },
+      { name: TrackingSyncRun.name, schema: TrackingSyncRunSchema },
+      { name: CourierBooking.name, schema: CourierBookingSchema },
       { name: 'BankOrder', schema: BankOrderSchema },
       { name: 'Bip', schema: BipSchema },
     ]),
     CouriersModule,
+    CourierSelectionModule,
+    CourierApiLogsModule,
     forwardRef(() => DeliveryChallansModule),
   ],
   controllers: [ShipmentsController],
-  providers: [ShipmentsService, LeopardsService, TcsService, WhatsAppService],
-  exports: [ShipmentsService, MongooseModule],
+  providers: [
+    ShipmentsService,
+    LeopardsService,
+    TcsService,
+    CourierAdapterRegistry,
+    TrackingSyncService,
+    CourierBookingsService,
+    WhatsAppService,
+  ],
+  exports: [ShipmentsService, CourierAdapterRegistry, MongooseModule],
 })
 export class ShipmentsModule {}
@@ -0,0 +1,189 @@
+import { ConfigService } from '@nestjs/config';
+import { ShipmentsService } from './shipments.service';
+import { DeliveryFailureReason, ShipmentStatus } from './schemas/shipment.schema';
+import { ChangeSource } from '@common/enums/change-source.enum';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+/**
+ * A shipment without a linked order, with the given number of earlier failed attempts
+ */
+function buildShipment(previousAttempts: number) {
+  return {
+    _id: 'shipment-1',
+    trackingNumber: 'TCS123',
+    status: ShipmentStatus.OUT_FOR_DELIVERY,
+    trackingEvents: [],
+    deliveryAttempts: Array.from({ length: previousAttempts }, (_, i) => ({
+      attemptNumber: i + 1,
+      attemptedAt: new Date(),
+      reason: DeliveryFailureReason.CUSTOMER_UNAVAILABLE,
+      source: ChangeSource.COURIER_SYNC,
+    })),
+    save: jest.fn(),
+  } as any;
+}
+
+function createService(
+  deliveryAttempts: Record<string, unknown>,
+  courierSelectionService: unknown = {},
+  courierAdapterRegistry: unknown = {},
+) {
+  const config = new ConfigService({ deliveryAttempts });
+  const unused = {} as any;
+  return new ShipmentsService(
+    unused,
+    unused,
+    unused,
+    unused,
+    unused,
+    courierSelectionService as any,
+    courierAdapterRegistry as any,
+    unused,
+    unused,
+    unused,
+    unused,
+    config,
+  );
+}
+
+describe('ShipmentsService', () => {
+  describe('applyCourierStatus', () => {
+    const failedUpdate = {
+      shipmentStatus: ShipmentStatus.FAILED,
+      courierStatus: 'Consignee not available',
+      courierCode: 'NA',
+    };
+
+    it('records a courier-reported failure as a delivery attempt', async () => {
+      const service = createService({ maxAttempts: 3, limitCourierShipments: true });
+      const shipment = buildShipment(0);
+
+      const result = await service.applyCourierStatus(
+        shipment,
+        failedUpdate,
+        ChangeSource.COURIER_SYNC,
+      );
+
+      expect(result.status).toBe(ShipmentStatus.FAILED);
+      expect(shipment.deliveryAttempts).toHaveLength(1);
+      expect(shipment.deliveryAttempts[0]).toMatchObject({
+        attemptNumber: 1,
+        reason: DeliveryFailureReason.CUSTOMER_UNAVAILABLE,
+        source: ChangeSource.COURIER_SYNC,
+      });
+    });
+
+    it('returns the shipment to origin on the last allowed attempt', async () => {
+      const service = createService({ maxAttempts: 3, limitCourierShipments: true });
+      const shipment = buildShipment(2);
+
+      const result = await service.applyCourierStatus(
+        shipment,
+        failedUpdate,
+        ChangeSource.COURIER_SYNC,
+      );
+
+      expect(result.status).toBe(ShipmentStatus.RETURNED);
+      expect(shipment.deliveryAttempts).toHaveLength(3);
+      expect(shipment.trackingEvents.at(-1)).toMatchObject({
+        status: ShipmentStatus.RETURNED,
+        source: ChangeSource.SYSTEM,
+      });
+    });
+
+    it('leaves the return to the courier when courier shipments are exempt', async () => {
+      const service = createService({ maxAttempts: 3, limitCourierShipments: false });
+      const shipment = buildShipment(2);
+
+      const result = await service.applyCourierStatus(
+        shipment,
+        failedUpdate,
+        ChangeSource.COURIER_SYNC,
+      );
+
+      expect(result.status).toBe(ShipmentStatus.FAILED);
+      expect(shipment.deliveryAttempts).toHaveLength(3);
+    });
+  });
+
+  describe('applyRiderStatus', () => {
+    const riderId = '507f1f77bcf86cd799439011';
+
+    it('schedules the next attempt while attempts are left', async () => {
+      const service = createService({ maxAttempts: 3, reattemptDelayDays: 1 });
+      const shipment = buildShipment(0);
+
+      await service.applyRiderStatus(shipment, ShipmentStatus.FAILED, riderId, {
+        failureReason: DeliveryFailureReason.WRONG_ADDRESS,
+      });
+
+      expect(shipment.status).toBe(ShipmentStatus.FAILED);
+      expect(shipment.deliveryAttempts).toHaveLength(1);
+      expect(shipment.nextAttemptDate).toBeInstanceOf(Date);
+    });
+
+    it('returns a failed delivery to origin after recording the attempt', async () => {
+      const service = createService({ maxAttempts: 3 });
+      const shipment = buildShipment(0);
+
+      await service.applyRiderStatus(shipment, ShipmentStatus.FAILED, riderId, {
+        failureReason: DeliveryFailureReason.REFUSED,
+        returnToOrigin: true,
+      });
+
+      expect(shipment.status).toBe(ShipmentStatus.RETURNED);
+      expect(shipment.deliveryAttempts).toHaveLength(1);
+      expect(shipment.deliveryAttempts[0]).toMatchObject({
+        reason: DeliveryFailureReason.REFUSED,
+        source: ChangeSource.RIDER,
+      });
+      expect(shipment.nextAttemptDate).toBeUndefined();
+    });
+  });
+
+  describe('selectCourierForOrder', () => {
+    const order = { city: 'Lahore', qty: 1 } as any;
+
+    // Selection rules that pick the given courier; only TCS and Leopards are booked by API
+    const createSelectingService = (courierType: CourierType) =>
+      createService(
+        {},
+        {
+          buildFacts: jest.fn(async () => ({ city: 'Lahore' })),
+          selectCourier: jest.fn(async () => ({
+            courierType,
+            ruleId: 'rule-1',
+            explanation: `Rule 'Lahore' (priority 10) selected ${courierType}`,
+          })),
+        },
+        {
+          supports: (type: CourierType) =>
+            [CourierType.TCS, CourierType.LEOPARDS].includes(type),
+        },
+      );
+
+    it('uses a manually dispatched courier for a manual dispatch', async () => {
+      const service = createSelectingService(CourierType.SELF_DELIVERY);
+
+      await expect(
+        (service as any).selectCourierForOrder(order, undefined, true),
+      ).resolves.toEqual({ courierType: CourierType.SELF_DELIVERY, ruleId: 'rule-1' });
+    });
+
+    it('refuses an API dispatch when the rule picks a manually dispatched courier', async () => {
+      const service = createSelectingService(CourierType.SELF_DELIVERY);
+
+      await expect((service as any).selectCourierForOrder(order)).rejects.toThrow(
+        "Rule 'Lahore' (priority 10) selected self_delivery. self_delivery shipments must be dispatched manually",
+      );
+    });
+
+    it('refuses a manual dispatch when the rule picks a courier booked by API', async () => {
+      const service = createSelectingService(CourierType.TCS);
+
+      await expect(
+        (service as any).selectCourierForOrder(order, undefined, true),
+      ).rejects.toThrow(/tcs is booked through the courier API/);
+    });
+  });
+});
@@ -8,20 +8,62 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Shipment, ShipmentStatus } from './schemas/shipment.schema';
+import { ConfigService } from '@nestjs/config';
+import { Model, PipelineStage, Types } from 'mongoose';
+import {
+  DeliveryFailureReason,
+  FINAL_SHIPMENT_STATUSES,
+  Shipment,
+  ShipmentStatus,
+} from './schemas/shipment.schema';
 import { DispatchOrderDto } from './dto/dispatch-order.dto';
 import { ManualDispatchDto } from './dto/manual-dispatch.dto';
 import { UpdateShipmentStatusDto } from './dto/update-shipment-status.dto';
+import { BulkDispatchDto, MAX_BULK_DISPATCH_ORDERS } from './dto/bulk-dispatch.dto';
+import { RecordShipmentCostDto } from './dto/record-shipment-cost.dto';
+import { CostReportGroupBy } from './dto/cost-report-query.dto';
+import { CostReport, CostReportRow } from './interfaces/cost-report.interface';
 import { CouriersService } from '@modules/couriers/couriers.service';
 import { CourierType } from '@common/enums/courier-type.enum';
-import { LeopardsService } from './integrations/leopards.service';
-import { TcsService } from './integrations/tcs.service';
+import { CourierAdapterRegistry } from './integrations/courier-adapter.registry';
+import { CourierOperation } from './integrations/courier-adapter.interface';
+import { CourierBookingsService } from './courier-bookings.service';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { CourierRateCardsService } from '@modules/couriers/courier-rate-cards.service';
+import { CourierSelectionService } from '@modules/courier-selection/courier-selection.service';
+import { CourierSelectionResult } from '@modules/courier-selection/interfaces/courier-selection.interface';
+import {
+  CourierStatusUpdate,
+  CourierStatusUpdateResult,
+} from './interfaces/courier-status-update.interface';
+import { ShipmentTrackingEvent } from './interfaces/tracking-event.interface';
+import { FailedDeliveryQueryDto } from './dto/failed-delivery-query.dto';
+import { ScheduleReattemptDto } from './dto/schedule-reattempt.dto';
+import { mapCourierFailureReason } from './integrations/courier-status.util';
+import {
+  BulkDispatchOrderResult,
+  BulkDispatchResult,
+} from './interfaces/bulk-dispatch-result.interface';
 import { BankOrder } from '@modules/bank-orders/schemas/bank-order.schema';
 import { Bip } from '@modules/bip/schemas/bip.schema';
 import { OrderStatus } from '@common/enums/order-status.enum';
+import {
+  assertOrderStatusTransition,
+  canTransitionOrderStatus,
+} from '@common/utils/order-status-transition.util';
+import { ChangeSource } from '@common/enums/change-source.enum';
 import { DeliveryChallansService } from '@modules/delivery-challans/delivery-challans.service';
+import {
+  LabelLayout,
+  ShippingLabelPDFData,
+  generateShippingLabelsPDF,
+} from './utils/shipping-label-pdf-generator';
 import { WhatsAppService } from '@common/services/whatsapp.service';
+import { CourierApiLogsService } from '@modules/courier-api-logs/courier-api-logs.service';
+import {
+  CourierApiLogContext,
+  runWithCourierApiLogContext,
+} from '@modules/courier-api-logs/utils/courier-api-log-context.util';
 
 @Injectable()
 export class ShipmentsService {
@@ -32,11 +74,15 @@ export class ShipmentsService {
     @InjectModel('BankOrder') private bankOrderModel: Model<BankOrder>,
     @InjectModel('Bip') private bipModel: Model<Bip>,
     private couriersService: CouriersService,
-    private leopardsService: LeopardsService,
-    private tcsService: TcsService,
+    private courierRateCardsService: CourierRateCardsService,
+    private courierSelectionService: CourierSelectionService,
+    private courierAdapterRegistry: CourierAdapterRegistry,
+    private courierBookingsService: CourierBookingsService,
+    private courierApiLogsService: CourierApiLogsService,
     @Inject(forwardRef(() => DeliveryChallansService))
     private deliveryChallansService: DeliveryChallansService,
     private whatsAppService: WhatsAppService,
+    private configService: ConfigService,
   ) {}
 
   /**
@@ -72,6 +118,7 @@ export class ShipmentsService {
   async dispatchBankOrder(
     bankOrderId: string,
     dispatchDto: DispatchOrderDto,
+    userId?: string,
   ): Promise<Shipment> {
     // Validate order ID
     if (!Types.ObjectId.isValid(bankOrderId)) {
@@ -108,28 +155,30 @@ export class ShipmentsService {
     }
 
     // Get courier
-    const courier = await this.couriersService.findByType(dispatchDto.courierType);
+    const courierChoice = dispatchDto.courierType
+      ? { courierType: dispatchDto.courierType }
+      : await this.selectCourierForOrder(bankOrder, dispatchDto.weightInKg);
+    const courier = await this.couriersService.findByType(courierChoice.courierType);
 
     // Prepare shipment data
     const productDesc = `${bankOrder.giftCode} - (Qty: ${bankOrder.qty})`;
+    const declaredValue = dispatchDto.declaredValue || bankOrder.redeemedPoints;
+    const costEstimate = await this.courierRateCardsService.estimateCost(
+      courier,
+      bankOrder.city,
+      dispatchDto.weightInKg,
+    );
 
     // Book shipment with courier
-    let bookingResult;
-
-    if (dispatchDto.courierType === CourierType.LEOPARDS) {
-      bookingResult = await this.leopardsService.bookShipment(courier, {
-        customerName: bankOrder.customerName,
-        customerPhone: bankOrder.mobile1,
-        customerAddress: bankOrder.address,
-        customerCity: bankOrder.city,
-        productDescription: productDesc,
-        quantity: bankOrder.qty,
-        declaredValue: dispatchDto.declaredValue || bankOrder.redeemedPoints,
-        specialInstructions: dispatchDto.specialInstructions,
-        referenceNumber: bankOrder.refNo,
-      });
-    } else if (dispatchDto.courierType === CourierType.TCS) {
-      bookingResult = await this.tcsService.bookShipment(courier, {
+    const apiLogContext: CourierApiLogContext = {
+      operation: CourierOperation.BOOK,
+      bankOrderId,
+      logIds: [],
+    };
+    const { booking, bookingResult } = await this.courierBookingsService.book(
+      { bankOrderId },
+      courier,
+      {
         customerName: bankOrder.customerName,
         customerCnic: bankOrder.cnic,
         customerPhone: bankOrder.mobile1,
@@ -137,9 +186,9 @@ export class ShipmentsService {
         customerCity: bankOrder.city,
         productDescription: productDesc,
         quantity: bankOrder.qty,
-        declaredValue: dispatchDto.declaredValue || bankOrder.redeemedPoints,
+        declaredValue,
         specialInstructions: dispatchDto.specialInstructions,
-        referenceNumber: bankOrder.poNumber,
+        referenceNumber: bankOrder.poNumber || bankOrder.refNo,
         weightInKg: dispatchDto.weightInKg,
         fragile: dispatchDto.fragile,
         landmark: dispatchDto.landmark,
@@ -147,14 +196,9 @@ export class ShipmentsService {
         width: dispatchDto.width,
         height: dispatchDto.height,
         serviceCode: dispatchDto.serviceCode,
-      });
-    }
-
-    if (!bookingResult || !bookingResult.success) {
-      throw new InternalServerErrorException(
-        `Failed to book shipment with ${dispatchDto.courierType}: ${bookingResult?.error || 'Unknown error'}`,
-      );
-    }
+      },
+      apiLogContext,
+    );
 
     // Create shipment record
     const shipment = new this.shipmentModel({
@@ -170,12 +214,24 @@ export class ShipmentsService {
       city: bankOrder.city,
       productDescription: productDesc,
       quantity: bankOrder.qty,
-      declaredValue: 10,
+      declaredValue,
+      weightInKg: dispatchDto.weightInKg,
+      estimatedCost: costEstimate?.estimatedCost,
+      costBreakdown: costEstimate || undefined,
+      courierSelectionRuleId: courierChoice.ruleId
+        ? new Types.ObjectId(courierChoice.ruleId)
+        : undefined,
       bookingDate: new Date(),
       courierApiResponse: bookingResult.rawResponse,
+      trackingEvents: [this.createUserEvent(ShipmentStatus.BOOKED, userId)],
     });
 
     await shipment.save();
+    await this.courierBookingsService.complete(booking, shipment._id as Types.ObjectId);
+    await this.courierApiLogsService.attachShipment(
+      apiLogContext,
+      shipment._id as Types.ObjectId,
+    );
 
     // Update bank order status to 'dispatch' and link shipment
     bankOrder.status = OrderStatus.DISPATCH;
@@ -188,6 +244,8 @@ export class ShipmentsService {
     bankOrder.statusHistory.push({
       status: OrderStatus.DISPATCH,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await bankOrder.save();
@@ -236,6 +294,7 @@ export class ShipmentsService {
   async dispatchBipOrder(
     bipOrderId: string,
     dispatchDto: DispatchOrderDto,
+    userId?: string,
   ): Promise<Shipment> {
     // Validate order ID
     if (!Types.ObjectId.isValid(bipOrderId)) {
@@ -272,28 +331,30 @@ export class ShipmentsService {
     }
 
     // Get courier
-    const courier = await this.couriersService.findByType(dispatchDto.courierType);
+    const courierChoice = dispatchDto.courierType
+      ? { courierType: dispatchDto.courierType }
+      : await this.selectCourierForOrder(bipOrder, dispatchDto.weightInKg);
+    const courier = await this.couriersService.findByType(courierChoice.courierType);
 
     // Prepare shipment data
     const productDesc = `${bipOrder.giftCode} - (Qty: ${bipOrder.qty})`;
+    const declaredValue = dispatchDto.declaredValue || bipOrder.amount;
+    const costEstimate = await this.courierRateCardsService.estimateCost(
+      courier,
+      bipOrder.city,
+      dispatchDto.weightInKg,
+    );
 
     // Book shipment with courier
-    let bookingResult;
-
-    if (dispatchDto.courierType === CourierType.LEOPARDS) {
-      bookingResult = await this.leopardsService.bookShipment(courier, {
-        customerName: bipOrder.customerName,
-        customerPhone: bipOrder.mobile1,
-        customerAddress: bipOrder.address,
-        customerCity: bipOrder.city,
-        productDescription: productDesc,
-        quantity: bipOrder.qty,
-        declaredValue: dispatchDto.declaredValue || bipOrder.amount,
-        specialInstructions: dispatchDto.specialInstructions,
-        referenceNumber: bipOrder.eforms,
-      });
-    } else if (dispatchDto.courierType === CourierType.TCS) {
-      bookingResult = await this.tcsService.bookShipment(courier, {
+    const apiLogContext: CourierApiLogContext = {
+      operation: CourierOperation.BOOK,
+      bipOrderId,
+      logIds: [],
+    };
+    const { booking, bookingResult } = await this.courierBookingsService.book(
+      { bipOrderId },
+      courier,
+      {
         customerName: bipOrder.customerName,
         customerCnic: bipOrder.cnic,
         customerPhone: bipOrder.mobile1,
@@ -301,7 +362,7 @@ export class ShipmentsService {
         customerCity: bipOrder.city,
         productDescription: productDesc,
         quantity: bipOrder.qty,
-        declaredValue: dispatchDto.declaredValue || bipOrder.amount,
+        declaredValue,
         specialInstructions: dispatchDto.specialInstructions,
         referenceNumber: bipOrder.eforms,
         weightInKg: dispatchDto.weightInKg,
@@ -311,14 +372,9 @@ export class ShipmentsService {
         width: dispatchDto.width,
         height: dispatchDto.height,
         serviceCode: dispatchDto.serviceCode,
-      });
-    }
-
-    if (!bookingResult || !bookingResult.success) {
-      throw new InternalServerErrorException(
-        `Failed to book shipment with ${dispatchDto.courierType}: ${bookingResult?.error || 'Unknown error'}`,
-      );
-    }
+      },
+      apiLogContext,
+    );
 
     // Create shipment record
     const shipment = new this.shipmentModel({
@@ -334,12 +390,24 @@ export class ShipmentsService {
       city: bipOrder.city,
       productDescription: productDesc,
       quantity: bipOrder.qty,
-      declaredValue: 10,
+      declaredValue,
+      weightInKg: dispatchDto.weightInKg,
+      estimatedCost: costEstimate?.estimatedCost,
+      costBreakdown: costEstimate || undefined,
+      courierSelectionRuleId: courierChoice.ruleId
+        ? new Types.ObjectId(courierChoice.ruleId)
+        : undefined,
       bookingDate: new Date(),
       courierApiResponse: bookingResult.rawResponse,
+      trackingEvents: [this.createUserEvent(ShipmentStatus.BOOKED, userId)],
     });
 
     await shipment.save();
+    await this.courierBookingsService.complete(booking, shipment._id as Types.ObjectId);
+    await this.courierApiLogsService.attachShipment(
+      apiLogContext,
+      shipment._id as Types.ObjectId,
+    );
 
     // Update BIP order status to 'dispatch' and link shipment
     bipOrder.status = OrderStatus.DISPATCH;
@@ -352,6 +420,8 @@ export class ShipmentsService {
     bipOrder.statusHistory.push({
       status: OrderStatus.DISPATCH,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await bipOrder.save();
@@ -400,6 +470,7 @@ export class ShipmentsService {
   async dispatchBankOrderManually(
     bankOrderId: string,
     manualDispatchDto: ManualDispatchDto,
+    userId?: string,
   ): Promise<Shipment> {
     // Validate order ID
     if (!Types.ObjectId.isValid(bankOrderId)) {
@@ -435,10 +506,15 @@ export class ShipmentsService {
       );
     }
 
+    // Without a courier type the selection rules choose one
+    const courierChoice = manualDispatchDto.courierType
+      ? { courierType: manualDispatchDto.courierType }
+      : await this.selectCourierForOrder(bankOrder, manualDispatchDto.weightInKg, true);
+
     // Validate courier type for manual dispatch
     if (
-      manualDispatchDto.courierType !== CourierType.TCS_OVERLAND &&
-      manualDispatchDto.courierType !== CourierType.SELF_DELIVERY
+      courierChoice.courierType !== CourierType.TCS_OVERLAND &&
+      courierChoice.courierType !== CourierType.SELF_DELIVERY
     ) {
       throw new BadRequestException(
         `Manual dispatch only supports TCS Overland and Self Delivery courier types`,
@@ -446,12 +522,17 @@ export class ShipmentsService {
     }
 
     // Get courier
-    const courier = await this.couriersService.findByType(manualDispatchDto.courierType);
+    const courier = await this.couriersService.findByType(courierChoice.courierType);
 
     // Prepare shipment data
     const productDesc =
       manualDispatchDto.productDescription ||
       `${bankOrder.product} - ${bankOrder.brand} (Qty: ${bankOrder.qty})`;
+    const costEstimate = await this.courierRateCardsService.estimateCost(
+      courier,
+      bankOrder.city,
+      manualDispatchDto.weightInKg,
+    );
 
     // Create shipment record with manual tracking details
     const shipment = new this.shipmentModel({
@@ -467,9 +548,18 @@ export class ShipmentsService {
       city: bankOrder.city,
       productDescription: productDesc,
       quantity: bankOrder.qty,
-      declaredValue: 10,
+      declaredValue: manualDispatchDto.declaredValue || bankOrder.redeemedPoints,
+      weightInKg: manualDispatchDto.weightInKg,
+      estimatedCost: costEstimate?.estimatedCost,
+      costBreakdown: costEstimate || undefined,
+      courierSelectionRuleId: courierChoice.ruleId
+        ? new Types.ObjectId(courierChoice.ruleId)
+        : undefined,
       bookingDate: new Date(),
       deliveryRemarks: manualDispatchDto.remarks,
+      trackingEvents: [
+        this.createUserEvent(ShipmentStatus.BOOKED, userId, manualDispatchDto.remarks),
+      ],
     });
 
     await shipment.save();
@@ -485,6 +575,8 @@ export class ShipmentsService {
     bankOrder.statusHistory.push({
       status: OrderStatus.DISPATCH,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await bankOrder.save();
@@ -533,6 +625,7 @@ export class ShipmentsService {
   async dispatchBipOrderManually(
     bipOrderId: string,
     manualDispatchDto: ManualDispatchDto,
+    userId?: string,
   ): Promise<Shipment> {
     // Validate order ID
     if (!Types.ObjectId.isValid(bipOrderId)) {
@@ -568,10 +661,15 @@ export class ShipmentsService {
       );
     }
 
+    // Without a courier type the selection rules choose one
+    const courierChoice = manualDispatchDto.courierType
+      ? { courierType: manualDispatchDto.courierType }
+      : await this.selectCourierForOrder(bipOrder, manualDispatchDto.weightInKg, true);
+
     // Validate courier type for manual dispatch
     if (
-      manualDispatchDto.courierType !== CourierType.TCS_OVERLAND &&
-      manualDispatchDto.courierType !== CourierType.SELF_DELIVERY
+      courierChoice.courierType !== CourierType.TCS_OVERLAND &&
+      courierChoice.courierType !== CourierType.SELF_DELIVERY
     ) {
       throw new BadRequestException(
         `Manual dispatch only supports TCS Overland and Self Delivery courier types`,
@@ -579,12 +677,17 @@ export class ShipmentsService {
     }
 
     // Get courier
-    const courier = await this.couriersService.findByType(manualDispatchDto.courierType);
+    const courier = await this.couriersService.findByType(courierChoice.courierType);
 
     // Prepare shipment data
     const productDesc =
       manualDispatchDto.productDescription ||
       `${bipOrder.product} (Qty: ${bipOrder.qty})`;
+    const costEstimate = await this.courierRateCardsService.estimateCost(
+      courier,
+      bipOrder.city,
+      manualDispatchDto.weightInKg,
+    );
 
     // Create shipment record with manual tracking details
     const shipment = new this.shipmentModel({
@@ -600,9 +703,18 @@ export class ShipmentsService {
       city: bipOrder.city,
       productDescription: productDesc,
       quantity: bipOrder.qty,
-      declaredValue: 10,
+      declaredValue: manualDispatchDto.declaredValue || bipOrder.amount,
+      weightInKg: manualDispatchDto.weightInKg,
+      estimatedCost: costEstimate?.estimatedCost,
+      costBreakdown: costEstimate || undefined,
+      courierSelectionRuleId: courierChoice.ruleId
+        ? new Types.ObjectId(courierChoice.ruleId)
+        : undefined,
       bookingDate: new Date(),
       deliveryRemarks: manualDispatchDto.remarks,
+      trackingEvents: [
+        this.createUserEvent(ShipmentStatus.BOOKED, userId, manualDispatchDto.remarks),
+      ],
     });
 
     await shipment.save();
@@ -618,6 +730,8 @@ export class ShipmentsService {
     bipOrder.statusHistory.push({
       status: OrderStatus.DISPATCH,
       timestamp: new Date(),
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source: ChangeSource.USER,
     });
 
     await bipOrder.save();
@@ -663,6 +777,92 @@ export class ShipmentsService {
     return shipment;
   }
 
+  /**
+   * Book many bank and BIP orders with one courier. Each order is dispatched on its
+   * own, so a failed booking is reported in the results without stopping the batch.
+   */
+  async bulkDispatch(
+    bulkDispatchDto: BulkDispatchDto,
+    userId?: string,
+  ): Promise<BulkDispatchResult> {
+    const { bankOrderIds = [], bipOrderIds = [], ...options } = bulkDispatchDto;
+    const toOrders = (orderType: 'bank' | 'bip', orderIds: string[]) =>
+      [...new Set(orderIds)].map((orderId) => ({ orderType, orderId }));
+    const orders = [...toOrders('bank', bankOrderIds), ...toOrders('bip', bipOrderIds)];
+
+    if (!orders.length) {
+      throw new BadRequestException('Provide at least one bank or BIP order ID');
+    }
+    if (orders.length > MAX_BULK_DISPATCH_ORDERS) {
+      throw new BadRequestException(
+        `At most ${MAX_BULK_DISPATCH_ORDERS} orders can be dispatched at once`,
+      );
+    }
+
+    // Fail fast when the courier cannot be booked at all
+    await this.couriersService.findByType(options.courierType);
+    if (
+      !this.courierAdapterRegistry.supports(options.courierType, CourierOperation.BOOK)
+    ) {
+      throw new BadRequestException(
+        `${options.courierType} shipments must be dispatched manually`,
+      );
+    }
+
+    const results: BulkDispatchOrderResult[] = [];
+    for (const { orderType, orderId } of orders) {
+      try {
+        const shipment =
+          orderType === 'bank'
+            ? await this.dispatchBankOrder(orderId, options, userId)
+            : await this.dispatchBipOrder(orderId, options, userId);
+
+        results.push({
+          orderType,
+          orderId,
+          success: true,
+          shipmentId: shipment._id.toString(),
+          trackingNumber: shipment.trackingNumber,
+          consignmentNumber: shipment.consignmentNumber,
+        });
+      } catch (error) {
+        results.push({ orderType, orderId, success: false, error: error.message });
+      }
+    }
+
+    const booked = results.filter((result) => result.success);
+    const bookedIds = (orderType: 'bank' | 'bip') =>
+      booked.filter((r) => r.orderType === orderType).map((r) => r.orderId);
+    const result: BulkDispatchResult = {
+      courierType: options.courierType,
+      total: results.length,
+      succeeded: booked.length,
+      failed: results.length - booked.length,
+      results,
+    };
+
+    if (booked.length) {
+      try {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const { pdfURLPath } = await this.deliveryChallansService.uploadMergedChallans(
+          { bankOrderIds: bookedIds('bank'), bipOrderIds: bookedIds('bip') },
+          `bulk-dispatch-${options.courierType}-${timestamp}`,
+        );
+        result.challanPdfURL = pdfURLPath;
+      } catch (error) {
+        // The bookings stand; challans can still be downloaded in bulk later
+        this.logger.error(`Failed to merge bulk dispatch challans: ${error.message}`);
+        result.challanError = error.message;
+      }
+    }
+
+    this.logger.log(
+      `Bulk dispatch with ${options.courierType}: ${result.succeeded} booked, ${result.failed} failed`,
+    );
+
+    return result;
+  }
+
   async findAll(
     page: number = 1,
     limit: number = 10,
@@ -692,6 +892,7 @@ export class ShipmentsService {
     const [data, total] = await Promise.all([
       this.shipmentModel
         .find(query)
+        .select('-trackingEvents')
         .populate('bankOrderId', 'refNo customerName cnic product status')
         .populate('bipOrderId', 'eforms customerName cnic product status')
         .populate('courierId', 'courierName courierType')
@@ -729,6 +930,7 @@ export class ShipmentsService {
       .populate('bankOrderId', 'refNo customerName cnic product status')
       .populate('bipOrderId', 'eforms customerName cnic product status')
       .populate('courierId', 'courierName courierType contactPhone contactEmail')
+      .populate('trackingEvents.performedBy', 'firstName lastName email')
       .exec();
 
     if (!shipment) {
@@ -738,6 +940,65 @@ export class ShipmentsService {
     return shipment;
   }
 
+  /**
+   * Shipping labels for the given shipments, printed in the order requested
+   */
+  async generateLabels(shipmentIds: string[], layout: LabelLayout): Promise<Buffer> {
+    const ids = [...new Set(shipmentIds)];
+    const invalidId = ids.find((id) => !Types.ObjectId.isValid(id));
+    if (invalidId) {
+      throw new BadRequestException(`Invalid shipment ID format: ${invalidId}`);
+    }
+
+    const shipments = await this.shipmentModel
+      .find({ _id: { $in: ids }, isDeleted: false })
+      .select('-trackingEvents -courierApiResponse')
+      .populate<{ bankOrderId: BankOrder }>('bankOrderId', 'refNo poNumber')
+      .populate<{ bipOrderId: Bip }>('bipOrderId', 'eforms poNumber')
+      .populate<{ courierId: Courier }>('courierId', 'courierName')
+      .exec();
+    const shipmentsById = new Map(shipments.map((s) => [s._id.toString(), s]));
+
+    const missingIds = ids.filter((id) => !shipmentsById.has(id));
+    if (missingIds.length) {
+      throw new NotFoundException(`Shipments not found: ${missingIds.join(', ')}`);
+    }
+    const cancelled = shipments.filter((s) => s.status === ShipmentStatus.CANCELLED);
+    if (cancelled.length) {
+      throw new BadRequestException(
+        `Cannot print labels for cancelled shipments: ${cancelled.map((s) => s.trackingNumber).join(', ')}`,
+      );
+    }
+
+    const shipper = this.configService.get('shipper');
+    const labels: ShippingLabelPDFData[] = ids.map((id) => {
+      const shipment = shipmentsById.get(id)!;
+      const { bankOrderId: bankOrder, bipOrderId: bipOrder } = shipment;
+
+      return {
+        trackingNumber: shipment.trackingNumber,
+        consignmentNumber: shipment.consignmentNumber,
+        courierName: shipment.courierId?.courierName || '',
+        bookingDate: shipment.bookingDate,
+        shipperName: shipper.name,
+        originCity: shipper.city,
+        shipperPhone: shipper.phone,
+        customerName: shipment.customerName,
+        customerPhone: shipment.customerPhone,
+        address: shipment.address,
+        city: shipment.city,
+        pieces: shipment.quantity,
+        weightInKg: shipment.weightInKg,
+        productDescription: shipment.productDescription,
+        orderReference: bankOrder
+          ? bankOrder.poNumber || bankOrder.refNo
+          : bipOrder?.eforms || bipOrder?.poNumber,
+      };
+    });
+
+    return generateShippingLabelsPDF(labels, layout);
+  }
+
   async findByTrackingNumber(trackingNumber: string): Promise<Shipment> {
     const shipment = await this.shipmentModel
       .findOne({ trackingNumber, isDeleted: false })
@@ -758,6 +1019,7 @@ export class ShipmentsService {
   async updateStatus(
     id: string,
     updateStatusDto: UpdateShipmentStatusDto,
+    userId?: string,
   ): Promise<Shipment> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid shipment ID format');
@@ -772,6 +1034,29 @@ export class ShipmentsService {
       throw new NotFoundException(`Shipment with ID ${id} not found`);
     }
 
+    if (updateStatusDto.status === ShipmentStatus.FAILED) {
+      return this.recordFailedDelivery(shipment, ChangeSource.USER, userId, {
+        reason: updateStatusDto.failureReason || DeliveryFailureReason.OTHER,
+        remarks: updateStatusDto.remarks,
+        location: updateStatusDto.location,
+        nextAttemptDate: updateStatusDto.nextAttemptDate
+          ? new Date(updateStatusDto.nextAttemptDate)
+          : undefined,
+      });
+    }
+
+    // Validate the linked order can move to 'delivered' before touching the shipment
+    const linkedOrder =
+      updateStatusDto.status === ShipmentStatus.DELIVERED
+        ? await this.findLinkedOrder(shipment)
+        : null;
+    const deliverLinkedOrder =
+      !!linkedOrder && linkedOrder.status !== OrderStatus.DELIVERED;
+
+    if (linkedOrder && deliverLinkedOrder) {
+      assertOrderStatusTransition(linkedOrder.status, OrderStatus.DELIVERED);
+    }
+
     // Update shipment status
     shipment.status = updateStatusDto.status;
 
@@ -782,56 +1067,556 @@ export class ShipmentsService {
     // If status is delivered, set actual delivery date
     if (updateStatusDto.status === ShipmentStatus.DELIVERED) {
       shipment.actualDeliveryDate = new Date();
+    }
 
-      // Update associated order status to 'delivered'
-      if (shipment.bankOrderId) {
-        await this.bankOrderModel.findByIdAndUpdate(shipment.bankOrderId, {
-          status: OrderStatus.DELIVERED,
-          $push: {
-            statusHistory: { status: OrderStatus.DELIVERED, timestamp: new Date() },
-          },
-        });
-      } else if (shipment.bipOrderId) {
-        await this.bipModel.findByIdAndUpdate(shipment.bipOrderId, {
-          status: OrderStatus.DELIVERED,
-          $push: {
-            statusHistory: { status: OrderStatus.DELIVERED, timestamp: new Date() },
+    this.addTrackingEvents(shipment, [
+      {
+        ...this.createUserEvent(updateStatusDto.status, userId, updateStatusDto.remarks),
+        location: updateStatusDto.location,
+      },
+    ]);
+
+    await shipment.save();
+
+    // Update associated order status to 'delivered'
+    if (linkedOrder && deliverLinkedOrder) {
+      await this.setLinkedOrderStatus(linkedOrder, OrderStatus.DELIVERED, userId);
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Mark shipments handed to the courier rider as picked up. Shipments that have
+   * moved past booked in the meantime keep their status.
+   */
+  async markPickedUp(
+    shipmentIds: Types.ObjectId[],
+    remarks?: string,
+    userId?: string,
+  ): Promise<number> {
+    const shipments = await this.shipmentModel.find({
+      _id: { $in: shipmentIds },
+      status: ShipmentStatus.BOOKED,
+      isDeleted: false,
+    });
+
+    for (const shipment of shipments) {
+      shipment.status = ShipmentStatus.PICKED_UP;
+      this.addTrackingEvents(shipment, [
+        this.createUserEvent(ShipmentStatus.PICKED_UP, userId, remarks),
+      ]);
+      await shipment.save();
+    }
+
+    return shipments.length;
+  }
+
+  /**
+   * Apply a status reported by the courier. Final shipments are left as they are;
+   * delivered and returned are passed on to the linked order when its status allows it.
+   * A failed delivery is recorded as an attempt and returns the shipment to origin once
+   * the attempts are used up, unless courier shipments are exempt from the limit.
+   */
+  async applyCourierStatus(
+    shipment: Shipment,
+    update: CourierStatusUpdate,
+    source: ChangeSource,
+  ): Promise<CourierStatusUpdateResult> {
+    const previousStatus = shipment.status;
+    const statusChanged =
+      !!update.shipmentStatus &&
+      update.shipmentStatus !== previousStatus &&
+      !FINAL_SHIPMENT_STATUSES.includes(previousStatus);
+
+    // A status without scan history is one new event when anything changed
+    const courierStatusChanged =
+      !!update.courierStatus && update.courierStatus !== shipment.courierStatus;
+    const events: ShipmentTrackingEvent[] = update.checkpoints?.length
+      ? update.checkpoints.map((checkpoint) => ({
+          status: checkpoint.shipmentStatus,
+          courierStatus: checkpoint.status,
+          courierCode: checkpoint.code,
+          location: checkpoint.location,
+          eventTime: checkpoint.timestamp || new Date(),
+          source,
+        }))
+      : statusChanged || courierStatusChanged
+        ? [
+            {
+              status: update.shipmentStatus,
+              courierStatus: update.courierStatus,
+              courierCode: update.courierCode,
+              location: update.location,
+              remarks: update.remarks,
+              eventTime: update.eventTime || new Date(),
+              source,
+            },
+          ]
+        : [];
+    this.addTrackingEvents(shipment, events);
+
+    shipment.lastTrackedAt = new Date();
+    if (update.courierStatus) {
+      shipment.courierStatus = update.courierStatus;
+    }
+
+    let returnRemarks: string | undefined;
+    if (statusChanged) {
+      shipment.status = update.shipmentStatus as ShipmentStatus;
+
+      if (update.remarks) {
+        shipment.deliveryRemarks = update.remarks;
+      }
+      if (shipment.status === ShipmentStatus.DELIVERED) {
+        shipment.actualDeliveryDate = update.eventTime || new Date();
+      }
+      if (shipment.status === ShipmentStatus.FAILED) {
+        const attemptNumber = (shipment.deliveryAttempts?.length || 0) + 1;
+        shipment.deliveryAttempts = [
+          ...(shipment.deliveryAttempts || []),
+          {
+            attemptNumber,
+            attemptedAt: update.eventTime || new Date(),
+            reason: mapCourierFailureReason(update.courierStatus || update.remarks),
+            remarks: update.remarks,
+            source,
           },
-        });
+        ];
+        // The courier schedules its own reattempts
+        shipment.nextAttemptDate = undefined;
+
+        // Unless turned off, the attempt limit applies to courier shipments too
+        if (
+          this.configService.get<boolean>('deliveryAttempts.limitCourierShipments') !==
+            false &&
+          attemptNumber >= this.getMaxDeliveryAttempts()
+        ) {
+          shipment.status = ShipmentStatus.RETURNED;
+          returnRemarks = `Returned to origin after ${attemptNumber} failed delivery attempts`;
+          this.addTrackingEvents(shipment, [
+            {
+              status: ShipmentStatus.RETURNED,
+              remarks: returnRemarks,
+              eventTime: new Date(),
+              source: ChangeSource.SYSTEM,
+            },
+          ]);
+        }
       }
     }
 
     await shipment.save();
 
-    return shipment;
+    const orderStatus =
+      shipment.status === ShipmentStatus.DELIVERED
+        ? OrderStatus.DELIVERED
+        : shipment.status === ShipmentStatus.RETURNED
+          ? OrderStatus.RETURNED
+          : null;
+
+    let orderUpdated = false;
+    if (statusChanged && orderStatus) {
+      const linkedOrder = await this.findLinkedOrder(shipment);
+
+      if (linkedOrder && linkedOrder.status !== orderStatus) {
+        if (canTransitionOrderStatus(linkedOrder.status, orderStatus)) {
+          await this.setLinkedOrderStatus(
+            linkedOrder,
+            orderStatus,
+            undefined,
+            returnRemarks ||
+              `Courier reported: ${update.courierStatus || shipment.status}`,
+            source,
+          );
+          orderUpdated = true;
+        } else {
+          this.logger.warn(
+            `Shipment ${shipment._id} is ${shipment.status} but its order cannot move from '${linkedOrder.status}' to '${orderStatus}'`,
+          );
+        }
+      }
+    }
+
+    return { previousStatus, status: shipment.status, statusChanged, orderUpdated };
   }
 
-  async trackShipment(id: string): Promise<any> {
-    const shipment = await this.findOne(id);
+  /**
+   * Apply a status reported by a self-delivery rider. Out for delivery moves the
+   * linked order to shipped when it can; delivered and returned are passed on to it.
+   * Failed is recorded as a delivery attempt, returning the shipment to origin when
+   * asked to or when no attempts are left.
+   */
+  async applyRiderStatus(
+    shipment: Shipment,
+    status: ShipmentStatus,
+    riderId: string,
+    details: {
+      remarks?: string;
+      location?: string;
+      failureReason?: DeliveryFailureReason;
+      nextAttemptDate?: Date;
+      returnToOrigin?: boolean;
+    } = {},
+  ): Promise<Shipment> {
+    if (status === ShipmentStatus.FAILED) {
+      return this.recordFailedDelivery(shipment, ChangeSource.RIDER, riderId, {
+        reason: details.failureReason || DeliveryFailureReason.OTHER,
+        remarks: details.remarks,
+        location: details.location,
+        nextAttemptDate: details.nextAttemptDate,
+        returnToOrigin: details.returnToOrigin,
+      });
+    }
 
-    const courier = await this.couriersService.findOne(shipment.courierId.toString());
+    if (FINAL_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(
+        `Shipment ${shipment.trackingNumber} is already ${shipment.status}`,
+      );
+    }
 
-    let trackingResult;
+    const orderStatus =
+      status === ShipmentStatus.OUT_FOR_DELIVERY
+        ? OrderStatus.SHIPPED
+        : status === ShipmentStatus.DELIVERED
+          ? OrderStatus.DELIVERED
+          : status === ShipmentStatus.RETURNED
+            ? OrderStatus.RETURNED
+            : null;
+    const linkedOrder = orderStatus ? await this.findLinkedOrder(shipment) : null;
+    const updateLinkedOrder =
+      !!linkedOrder &&
+      !!orderStatus &&
+      linkedOrder.status !== orderStatus &&
+      // An order already past shipped stays as it is when the rider sets out again
+      (orderStatus !== OrderStatus.SHIPPED ||
+        canTransitionOrderStatus(linkedOrder.status, orderStatus));
+
+    // Validate the order can follow before touching the shipment
+    if (linkedOrder && orderStatus && updateLinkedOrder) {
+      assertOrderStatusTransition(linkedOrder.status, orderStatus);
+    }
+
+    shipment.status = status;
+    if (details.remarks) {
+      shipment.deliveryRemarks = details.remarks;
+    }
+    if (status === ShipmentStatus.DELIVERED) {
+      shipment.actualDeliveryDate = new Date();
+    }
 
-    if (courier.courierType === CourierType.LEOPARDS) {
-      trackingResult = await this.leopardsService.trackShipment(
-        courier,
-        shipment.trackingNumber,
+    this.addTrackingEvents(shipment, [
+      {
+        status,
+        remarks: details.remarks,
+        location: details.location,
+        failureReason: details.failureReason,
+        eventTime: new Date(),
+        source: ChangeSource.RIDER,
+        performedBy: new Types.ObjectId(riderId),
+      },
+    ]);
+    await shipment.save();
+
+    if (linkedOrder && orderStatus && updateLinkedOrder) {
+      await this.setLinkedOrderStatus(
+        linkedOrder,
+        orderStatus,
+        riderId,
+        details.remarks,
+        ChangeSource.RIDER,
       );
-    } else if (courier.courierType === CourierType.TCS) {
-      trackingResult = await this.tcsService.trackShipment(
-        courier,
-        shipment.trackingNumber,
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Failed deliveries waiting for staff: to call the customer, correct the address
+   * or schedule the next attempt. Shipments due soonest come first.
+   */
+  async findFailedDeliveries(query: FailedDeliveryQueryDto): Promise<{
+    data: Shipment[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const filter: any = { status: ShipmentStatus.FAILED, isDeleted: false };
+
+    if (query.courierId) {
+      filter.courierId = new Types.ObjectId(query.courierId);
+    }
+    if (query.city) {
+      filter.city = { $regex: query.city, $options: 'i' };
+    }
+    if (query.reason) {
+      filter.$expr = {
+        $eq: [{ $arrayElemAt: ['$deliveryAttempts.reason', -1] }, query.reason],
+      };
+    }
+    if (query.due) {
+      const endOfToday = new Date();
+      endOfToday.setHours(23, 59, 59, 999);
+      filter.$or = [
+        { nextAttemptDate: { $exists: false } },
+        { nextAttemptDate: null },
+        { nextAttemptDate: { $lte: endOfToday } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.shipmentModel
+        .find(filter)
+        .select('-trackingEvents -courierApiResponse')
+        .populate('bankOrderId', 'refNo customerName cnic product status')
+        .populate('bipOrderId', 'eforms customerName cnic product status')
+        .populate('courierId', 'courierName courierType')
+        .populate('riderId', 'firstName lastName')
+        .sort({ nextAttemptDate: 1, updatedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.shipmentModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Set the next attempt for a failed delivery, correcting the customer's address
+   * or phone when staff got new details. A rider's stop moves to the new day.
+   */
+  async scheduleReattempt(
+    id: string,
+    scheduleDto: ScheduleReattemptDto,
+    userId?: string,
+  ): Promise<Shipment> {
+    const shipment = await this.shipmentModel.findOne({ _id: id, isDeleted: false });
+    if (!shipment) {
+      throw new NotFoundException(`Shipment with ID ${id} not found`);
+    }
+    if (shipment.status !== ShipmentStatus.FAILED) {
+      throw new BadRequestException(
+        `Only failed deliveries can be reattempted; shipment ${shipment.trackingNumber} is ${shipment.status}`,
       );
     }
 
+    const nextAttemptDate = new Date(scheduleDto.nextAttemptDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (nextAttemptDate < today) {
+      throw new BadRequestException('The next attempt cannot be in the past');
+    }
+
+    const changes = [`Next attempt on ${nextAttemptDate.toISOString().slice(0, 10)}`];
+    if (scheduleDto.address) {
+      shipment.address = scheduleDto.address;
+      changes.push('address updated');
+    }
+    if (scheduleDto.city) {
+      shipment.city = scheduleDto.city;
+      changes.push('city updated');
+    }
+    if (scheduleDto.customerPhone) {
+      shipment.customerPhone = scheduleDto.customerPhone;
+      changes.push('phone updated');
+    }
+    if (scheduleDto.remarks) {
+      changes.push(scheduleDto.remarks);
+    }
+
+    shipment.nextAttemptDate = nextAttemptDate;
+    if (shipment.riderId) {
+      const plannedDeliveryDate = new Date(nextAttemptDate);
+      plannedDeliveryDate.setHours(0, 0, 0, 0);
+      shipment.plannedDeliveryDate = plannedDeliveryDate;
+    }
+
+    this.addTrackingEvents(shipment, [
+      this.createUserEvent(ShipmentStatus.FAILED, userId, changes.join('; ')),
+    ]);
+    await shipment.save();
+
+    return shipment;
+  }
+
+  /**
+   * Record the cost the courier billed for a shipment. Recording it again replaces
+   * the previous amount.
+   */
+  async recordActualCost(
+    id: string,
+    recordCostDto: RecordShipmentCostDto,
+    userId?: string,
+  ): Promise<Shipment> {
+    const shipment = await this.findOne(id);
+
+    shipment.actualCost = recordCostDto.actualCost;
+    shipment.billingReference = recordCostDto.billingReference;
+    shipment.actualCostRecordedAt = new Date();
+    shipment.actualCostRecordedBy = userId ? new Types.ObjectId(userId) : undefined;
+
+    return shipment.save();
+  }
+
+  /**
+   * Estimated and billed shipping cost per courier or per bank for shipments booked
+   * in the date range. Cancelled shipments count only when the courier billed them.
+   */
+  async getCostReport(
+    groupBy: CostReportGroupBy = CostReportGroupBy.COURIER,
+    startDate?: string,
+    endDate?: string,
+  ): Promise<CostReport> {
+    const match: any = {
+      isDeleted: false,
+      $or: [{ status: { $ne: ShipmentStatus.CANCELLED } }, { actualCost: { $ne: null } }],
+    };
+    if (startDate || endDate) {
+      match.bookingDate = {};
+      if (startDate) {
+        match.bookingDate.$gte = new Date(startDate);
+      }
+      if (endDate) {
+        const end = new Date(endDate);
+        end.setHours(23, 59, 59, 999);
+        match.bookingDate.$lte = end;
+      }
+    }
+
+    // Shipments keep the bank only through their order
+    const bankStages: PipelineStage[] = [
+      {
+        $lookup: {
+          from: 'bankorders',
+          localField: 'bankOrderId',
+          foreignField: '_id',
+          as: 'bankOrder',
+        },
+      },
+      {
+        $lookup: {
+          from: 'bips',
+          localField: 'bipOrderId',
+          foreignField: '_id',
+          as: 'bip',
+        },
+      },
+      {
+        $addFields: {
+          bankId: {
+            $ifNull: [{ $first: '$bankOrder.bankId' }, { $first: '$bip.bankId' }],
+          },
+        },
+      },
+    ];
+    const groupField = groupBy === CostReportGroupBy.BANK ? '$bankId' : '$courierId';
+    const nameLookup =
+      groupBy === CostReportGroupBy.BANK
+        ? { from: 'banks', nameField: '$group.bankName' }
+        : { from: 'couriers', nameField: '$group.courierName' };
+
+    const groups = await this.shipmentModel.aggregate([
+      { $match: match },
+      ...(groupBy === CostReportGroupBy.BANK ? bankStages : []),
+      {
+        $addFields: {
+          billed: { $not: [{ $in: [{ $type: '$actualCost' }, ['missing', 'null']] }] },
+        },
+      },
+      {
+        $group: {
+          _id: groupField,
+          shipments: { $sum: 1 },
+          estimatedCost: { $sum: { $ifNull: ['$estimatedCost', 0] } },
+          billedShipments: { $sum: { $cond: ['$billed', 1, 0] } },
+          actualCost: { $sum: { $ifNull: ['$actualCost', 0] } },
+          estimatedCostOfBilled: {
+            $sum: { $cond: ['$billed', { $ifNull: ['$estimatedCost', 0] }, 0] },
+          },
+        },
+      },
+      {
+        $lookup: {
+          from: nameLookup.from,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'group',
+        },
+      },
+      { $addFields: { name: { $first: nameLookup.nameField } } },
+      { $project: { group: 0 } },
+      { $sort: { estimatedCost: -1 } },
+    ]);
+
+    const rows: CostReportRow[] = groups.map((group) => ({
+      id: group._id ? group._id.toString() : null,
+      name: group.name || 'Unknown',
+      shipments: group.shipments,
+      estimatedCost: this.roundAmount(group.estimatedCost),
+      billedShipments: group.billedShipments,
+      actualCost: this.roundAmount(group.actualCost),
+      estimatedCostOfBilled: this.roundAmount(group.estimatedCostOfBilled),
+      variance: this.roundAmount(group.actualCost - group.estimatedCostOfBilled),
+    }));
+
+    const totals = rows.reduce(
+      (sum, row) => ({
+        shipments: sum.shipments + row.shipments,
+        estimatedCost: this.roundAmount(sum.estimatedCost + row.estimatedCost),
+        billedShipments: sum.billedShipments + row.billedShipments,
+        actualCost: this.roundAmount(sum.actualCost + row.actualCost),
+        estimatedCostOfBilled: this.roundAmount(
+          sum.estimatedCostOfBilled + row.estimatedCostOfBilled,
+        ),
+        variance: this.roundAmount(sum.variance + row.variance),
+      }),
+      {
+        shipments: 0,
+        estimatedCost: 0,
+        billedShipments: 0,
+        actualCost: 0,
+        estimatedCostOfBilled: 0,
+        variance: 0,
+      },
+    );
+
+    return { groupBy, startDate, endDate, rows, totals };
+  }
+
+  async trackShipment(id: string): Promise<any> {
+    const shipment = await this.findOne(id);
+
+    // findOne populates the courier without its credentials, so load it in full
+    const populatedCourier: any = shipment.courierId;
+    const courier = await this.couriersService.findOne(
+      (populatedCourier._id || populatedCourier).toString(),
+    );
+
+    const trackingResult = await runWithCourierApiLogContext(
+      { operation: CourierOperation.TRACK, shipmentId: id, logIds: [] },
+      () =>
+        this.courierAdapterRegistry
+          .getAdapter(courier.courierType, CourierOperation.TRACK)
+          .trackShipment(courier, shipment.consignmentNumber || shipment.trackingNumber),
+    );
+
     return {
       shipment,
       trackingInfo: trackingResult,
     };
   }
 
-  async cancelShipment(id: string, reason?: string): Promise<Shipment> {
+  async cancelShipment(id: string, reason?: string, userId?: string): Promise<Shipment> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid shipment ID format');
     }
@@ -855,53 +1640,331 @@ export class ShipmentsService {
       );
     }
 
+    // Validate the linked order can go back to 'processing' before cancelling with the courier
+    const linkedOrder = await this.findLinkedOrder(shipment);
+    if (linkedOrder) {
+      assertOrderStatusTransition(linkedOrder.status, OrderStatus.PROCESSING);
+    }
+
     const courier: any = shipment.courierId;
 
     // Cancel with courier API
-    let cancellationResult;
-
-    if (courier.courierType === CourierType.LEOPARDS) {
-      cancellationResult = await this.leopardsService.cancelShipment(
-        courier,
-        shipment.trackingNumber,
-        reason,
-      );
-    } else if (courier.courierType === CourierType.TCS) {
-      cancellationResult = await this.tcsService.cancelShipment(
-        courier,
-        shipment.trackingNumber,
-        reason,
-      );
-    }
-
-    if (!cancellationResult || !cancellationResult.success) {
+    const cancellationResult = await runWithCourierApiLogContext(
+      { operation: CourierOperation.CANCEL, shipmentId: id, logIds: [] },
+      () =>
+        this.courierAdapterRegistry
+          .getAdapter(courier.courierType, CourierOperation.CANCEL)
+          .cancelShipment(
+            courier,
+            shipment.consignmentNumber || shipment.trackingNumber,
+            reason,
+          ),
+    );
+
+    if (!cancellationResult.success) {
       throw new InternalServerErrorException(
-        `Failed to cancel shipment with courier: ${cancellationResult?.error || 'Unknown error'}`,
+        `Failed to cancel shipment with courier: ${cancellationResult.error || 'Unknown error'}`,
       );
     }
 
     // Update shipment status
     shipment.status = ShipmentStatus.CANCELLED;
     shipment.deliveryRemarks = reason || 'Cancelled by user';
+    this.addTrackingEvents(shipment, [
+      this.createUserEvent(ShipmentStatus.CANCELLED, userId, shipment.deliveryRemarks),
+    ]);
     await shipment.save();
 
     // Update associated order status back to 'processing'
-    if (shipment.bankOrderId) {
-      await this.bankOrderModel.findByIdAndUpdate(shipment.bankOrderId, {
-        status: OrderStatus.PROCESSING,
-        $push: {
-          statusHistory: { status: OrderStatus.PROCESSING, timestamp: new Date() },
-        },
-      });
-    } else if (shipment.bipOrderId) {
-      await this.bipModel.findByIdAndUpdate(shipment.bipOrderId, {
-        status: OrderStatus.PROCESSING,
-        $push: {
-          statusHistory: { status: OrderStatus.PROCESSING, timestamp: new Date() },
-        },
+    if (linkedOrder) {
+      await this.setLinkedOrderStatus(
+        linkedOrder,
+        OrderStatus.PROCESSING,
+        userId,
+        reason,
+      );
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Explain which courier the selection rules would pick for an order, and whether
+   * it is booked through the courier API or dispatched manually
+   */
+  async previewCourierSelection(
+    orderType: 'bank' | 'bip',
+    orderId: string,
+    weightInKg?: number,
+  ): Promise<CourierSelectionResult> {
+    if (!Types.ObjectId.isValid(orderId)) {
+      throw new BadRequestException(
+        `Invalid ${orderType === 'bank' ? 'bank' : 'BIP'} order ID format`,
+      );
+    }
+
+    const order =
+      orderType === 'bank'
+        ? await this.bankOrderModel.findOne({ _id: orderId, isDeleted: false }).exec()
+        : await this.bipModel.findOne({ _id: orderId, isDeleted: false }).exec();
+
+    if (!order) {
+      throw new NotFoundException(
+        `${orderType === 'bank' ? 'Bank' : 'BIP'} order with ID ${orderId} not found`,
+      );
+    }
+
+    const selection = await this.courierSelectionService.selectCourier(
+      await this.courierSelectionService.buildFacts(order, weightInKg),
+    );
+
+    return {
+      ...selection,
+      manualDispatch: selection.courierType
+        ? !this.isBookable(selection.courierType)
+        : undefined,
+    };
+  }
+
+  /**
+   * Courier chosen by the selection rules for a dispatch without a courier type.
+   * A rule can pick a courier that is dispatched the other way, e.g. self delivery
+   * for an API dispatch; that is refused rather than falling through to the next rule.
+   */
+  private async selectCourierForOrder(
+    order: BankOrder | Bip,
+    weightInKg?: number,
+    manualDispatch = false,
+  ): Promise<{ courierType: CourierType; ruleId?: string }> {
+    const selection = await this.courierSelectionService.selectCourier(
+      await this.courierSelectionService.buildFacts(order, weightInKg),
+    );
+
+    if (!selection.courierType) {
+      throw new BadRequestException(
+        `No courier selection rule applies to this order; choose a courier type. ${selection.explanation}`,
+      );
+    }
+
+    if (this.isBookable(selection.courierType) === manualDispatch) {
+      throw new BadRequestException(
+        manualDispatch
+          ? `${selection.explanation}. ${selection.courierType} is booked through the courier API; dispatch the order without the manual endpoint`
+          : `${selection.explanation}. ${selection.courierType} shipments must be dispatched manually`,
+      );
+    }
+
+    this.logger.log(selection.explanation);
+    return { courierType: selection.courierType, ruleId: selection.ruleId };
+  }
+
+  private isBookable(courierType: CourierType): boolean {
+    return this.courierAdapterRegistry.supports(courierType, CourierOperation.BOOK);
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Record a failed delivery attempt by a rider or staff. The shipment waits as failed
+   * for its next attempt, or goes back to the shipper as returned, with its order,
+   * once the configured number of attempts is used up.
+   */
+  private async recordFailedDelivery(
+    shipment: Shipment,
+    source: ChangeSource,
+    userId: string | undefined,
+    details: {
+      reason: DeliveryFailureReason;
+      remarks?: string;
+      location?: string;
+      nextAttemptDate?: Date;
+      returnToOrigin?: boolean; // Return now, whatever attempts are left
+    },
+  ): Promise<Shipment> {
+    if (FINAL_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(
+        `Shipment ${shipment.trackingNumber} is already ${shipment.status}`,
+      );
+    }
+
+    const maxAttempts = this.getMaxDeliveryAttempts();
+    const attemptNumber = (shipment.deliveryAttempts?.length || 0) + 1;
+    const returnToOrigin = !!details.returnToOrigin || attemptNumber >= maxAttempts;
+
+    // Validate the linked order can be returned before touching the shipment
+    const linkedOrder = returnToOrigin ? await this.findLinkedOrder(shipment) : null;
+    const returnLinkedOrder =
+      !!linkedOrder && linkedOrder.status !== OrderStatus.RETURNED;
+    if (linkedOrder && returnLinkedOrder) {
+      assertOrderStatusTransition(linkedOrder.status, OrderStatus.RETURNED);
+    }
+
+    const now = new Date();
+    const performedBy = userId ? new Types.ObjectId(userId) : undefined;
+    let nextAttemptDate: Date | undefined;
+    if (!returnToOrigin) {
+      nextAttemptDate = details.nextAttemptDate;
+      if (!nextAttemptDate) {
+        const delayDays =
+          this.configService.get<number>('deliveryAttempts.reattemptDelayDays') ?? 1;
+        nextAttemptDate = new Date(now);
+        nextAttemptDate.setHours(0, 0, 0, 0);
+        nextAttemptDate.setDate(nextAttemptDate.getDate() + delayDays);
+      }
+    }
+
+    shipment.deliveryAttempts = [
+      ...(shipment.deliveryAttempts || []),
+      {
+        attemptNumber,
+        attemptedAt: now,
+        reason: details.reason,
+        remarks: details.remarks,
+        nextAttemptDate,
+        source,
+        recordedBy: performedBy,
+      },
+    ];
+    shipment.nextAttemptDate = nextAttemptDate;
+    if (details.remarks) {
+      shipment.deliveryRemarks = details.remarks;
+    }
+
+    const returnRemarks =
+      attemptNumber >= maxAttempts
+        ? `Returned to origin after ${attemptNumber} failed delivery attempts`
+        : `Returned to origin after failed delivery attempt ${attemptNumber}: ${details.reason}`;
+    const events: ShipmentTrackingEvent[] = [
+      {
+        status: ShipmentStatus.FAILED,
+        remarks: details.remarks,
+        location: details.location,
+        failureReason: details.reason,
+        eventTime: now,
+        source,
+        performedBy,
+      },
+    ];
+
+    if (returnToOrigin) {
+      shipment.status = ShipmentStatus.RETURNED;
+      events.push({
+        status: ShipmentStatus.RETURNED,
+        remarks: returnRemarks,
+        eventTime: now,
+        source: ChangeSource.SYSTEM,
       });
+    } else {
+      shipment.status = ShipmentStatus.FAILED;
+      // A rider's stop moves to the day of the next attempt
+      if (shipment.riderId && nextAttemptDate) {
+        const plannedDeliveryDate = new Date(nextAttemptDate);
+        plannedDeliveryDate.setHours(0, 0, 0, 0);
+        shipment.plannedDeliveryDate = plannedDeliveryDate;
+      }
+    }
+
+    this.addTrackingEvents(shipment, events);
+    await shipment.save();
+
+    if (linkedOrder && returnLinkedOrder) {
+      await this.setLinkedOrderStatus(
+        linkedOrder,
+        OrderStatus.RETURNED,
+        userId,
+        returnRemarks,
+        ChangeSource.SYSTEM,
+      );
     }
 
     return shipment;
   }
+
+  private getMaxDeliveryAttempts(): number {
+    return this.configService.get<number>('deliveryAttempts.maxAttempts') || 3;
+  }
+
+  private createUserEvent(
+    status: ShipmentStatus,
+    userId?: string,
+    remarks?: string,
+  ): ShipmentTrackingEvent {
+    return {
+      status,
+      remarks,
+      eventTime: new Date(),
+      source: ChangeSource.USER,
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+    };
+  }
+
+  /**
+   * Append events to the shipment's timeline, skipping courier scans it already has,
+   * and keep the timeline in event time order
+   */
+  private addTrackingEvents(shipment: Shipment, events: ShipmentTrackingEvent[]) {
+    const eventKey = (event: ShipmentTrackingEvent) =>
+      [
+        new Date(event.eventTime).getTime(),
+        event.courierCode || '',
+        event.courierStatus || '',
+        event.status || '',
+      ].join('|');
+
+    const timeline = shipment.trackingEvents || [];
+    const knownKeys = new Set(timeline.map(eventKey));
+    const newEvents = events.filter((event) => !knownKeys.has(eventKey(event)));
+
+    if (newEvents.length === 0) {
+      return;
+    }
+
+    shipment.trackingEvents = [...timeline, ...newEvents].sort(
+      (a, b) => new Date(a.eventTime).getTime() - new Date(b.eventTime).getTime(),
+    );
+  }
+
+  /**
+   * Load the bank or BIP order a shipment belongs to
+   */
+  private async findLinkedOrder(shipment: Shipment): Promise<BankOrder | Bip | null> {
+    if (shipment.bankOrderId) {
+      return this.bankOrderModel.findOne({ _id: shipment.bankOrderId, isDeleted: false });
+    }
+
+    if (shipment.bipOrderId) {
+      return this.bipModel.findOne({ _id: shipment.bipOrderId, isDeleted: false });
+    }
+
+    return null;
+  }
+
+  /**
+   * Set a linked order's status and record it in the status history.
+   * Callers must validate the transition first.
+   */
+  private async setLinkedOrderStatus(
+    order: BankOrder | Bip,
+    status: OrderStatus,
+    userId?: string,
+    reason?: string,
+    source: ChangeSource = ChangeSource.USER,
+  ): Promise<void> {
+    order.status = status;
+
+    if (!order.statusHistory) {
+      order.statusHistory = [];
+    }
+    order.statusHistory.push({
+      status,
+      timestamp: new Date(),
+      reason,
+      performedBy: userId ? new Types.ObjectId(userId) : undefined,
+      source,
+    });
+
+    await order.save();
+  }
 }
@@ -0,0 +1,332 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  FINAL_SHIPMENT_STATUSES,
+  Shipment,
+  ShipmentStatus,
+} from './schemas/shipment.schema';
+import {
+  TrackingSyncFailure,
+  TrackingSyncRun,
+  TrackingSyncRunStatus,
+  TrackingSyncTrigger,
+} from './schemas/tracking-sync-run.schema';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { ShipmentsService } from './shipments.service';
+import { CourierAdapterRegistry } from './integrations/courier-adapter.registry';
+import { CourierOperation } from './integrations/courier-adapter.interface';
+import { runWithCourierApiLogContext } from '@modules/courier-api-logs/utils/courier-api-log-context.util';
+import { ChangeSource } from '@common/enums/change-source.enum';
+
+// Failed shipments kept on a run; the counts cover all of them
+const MAX_RUN_FAILURES = 100;
+
+/**
+ * Polls courier tracking APIs for open shipments and applies the reported statuses
+ */
+@Injectable()
+export class TrackingSyncService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrackingSyncService.name);
+  private syncTimer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    @InjectModel(TrackingSyncRun.name)
+    private trackingSyncRunModel: Model<TrackingSyncRun>,
+    @InjectModel(Courier.name) private courierModel: Model<Courier>,
+    private shipmentsService: ShipmentsService,
+    private courierAdapterRegistry: CourierAdapterRegistry,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('courierSync.enabled')) {
+      return;
+    }
+
+    const intervalMinutes =
+      this.configService.get<number>('courierSync.intervalMinutes') || 30;
+    this.syncTimer = setInterval(
+      () => this.startRun(TrackingSyncTrigger.SCHEDULED).catch(() => undefined),
+      intervalMinutes * 60 * 1000,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+    }
+  }
+
+  /**
+   * Start a sync run in the background and return it; only one run goes at a time
+   */
+  async startRun(
+    trigger: TrackingSyncTrigger,
+    userId?: string,
+  ): Promise<TrackingSyncRun> {
+    if (this.isRunning || (await this.hasActiveRun())) {
+      throw new ConflictException('A tracking sync run is already in progress');
+    }
+
+    this.isRunning = true;
+    try {
+      const run = await this.trackingSyncRunModel.create({
+        trigger,
+        status: TrackingSyncRunStatus.RUNNING,
+        triggeredBy: userId ? new Types.ObjectId(userId) : undefined,
+        startedAt: new Date(),
+      });
+
+      setImmediate(() => this.executeRun(run));
+
+      return run;
+    } catch (error) {
+      this.isRunning = false;
+      throw error;
+    }
+  }
+
+  async findRuns(
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<{
+    data: TrackingSyncRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const skip = (page - 1) * limit;
+
+    const [data, total] = await Promise.all([
+      this.trackingSyncRunModel
+        .find()
+        .select('-failures')
+        .populate('triggeredBy', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.trackingSyncRunModel.countDocuments(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findRun(id: string): Promise<TrackingSyncRun> {
+    const run = await this.trackingSyncRunModel
+      .findById(id)
+      .populate('triggeredBy', 'firstName lastName email')
+      .exec();
+
+    if (!run) {
+      throw new NotFoundException(`Tracking sync run with ID ${id} not found`);
+    }
+
+    return run;
+  }
+
+  private async executeRun(run: TrackingSyncRun) {
+    try {
+      await this.syncShipments(run);
+
+      run.status = TrackingSyncRunStatus.COMPLETED;
+      this.logger.log(
+        `Tracking sync ${run._id}: ${run.checkedCount} checked, ${run.updatedCount} updated, ${run.failedCount} failed`,
+      );
+    } catch (error) {
+      this.logger.error(`Tracking sync ${run._id} failed: ${error.message}`, error.stack);
+
+      run.status = TrackingSyncRunStatus.FAILED;
+      run.error = error.message;
+    } finally {
+      run.completedAt = new Date();
+      await run.save().catch((error) => this.logger.error(error.message));
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Check open shipments in batches, oldest-checked first, pausing between courier
+   * calls to stay inside the couriers' rate limits
+   */
+  private async syncShipments(run: TrackingSyncRun) {
+    const batchSize = this.configService.get<number>('courierSync.batchSize') || 50;
+    const maxShipments =
+      this.configService.get<number>('courierSync.maxShipmentsPerRun') || 500;
+    const requestIntervalMs =
+      this.configService.get<number>('courierSync.requestIntervalMs') ?? 500;
+
+    // Shipments of couriers without a tracking API can only be updated by hand
+    const couriers = await this.courierModel.find({ isDeleted: false }).exec();
+    const trackableCourierIds = couriers
+      .filter((courier) =>
+        this.courierAdapterRegistry.supports(courier.courierType, CourierOperation.TRACK),
+      )
+      .map((courier) => courier._id);
+
+    const openShipments = {
+      isDeleted: false,
+      status: { $nin: FINAL_SHIPMENT_STATUSES },
+    };
+
+    run.skippedCount = await this.shipmentModel.countDocuments({
+      ...openShipments,
+      courierId: { $nin: trackableCourierIds },
+    });
+
+    while (run.checkedCount + run.failedCount < maxShipments) {
+      // Every checked shipment gets a lastTrackedAt after the run started,
+      // so each query returns the next batch
+      const shipments = await this.shipmentModel
+        .find({
+          ...openShipments,
+          courierId: { $in: trackableCourierIds },
+          $or: [
+            { lastTrackedAt: { $exists: false } },
+            { lastTrackedAt: { $lt: run.startedAt } },
+          ],
+        })
+        .populate('courierId')
+        .sort({ lastTrackedAt: 1 })
+        .limit(Math.min(batchSize, maxShipments - run.checkedCount - run.failedCount))
+        .exec();
+
+      if (shipments.length === 0) {
+        break;
+      }
+
+      for (const shipment of shipments) {
+        await this.syncShipment(run, shipment);
+        await this.sleep(requestIntervalMs);
+      }
+
+      // Saving after each batch also shows progress while the run is going
+      await run.save();
+    }
+  }
+
+  private async syncShipment(run: TrackingSyncRun, shipment: Shipment) {
+    const courier = shipment.courierId as unknown as Courier;
+
+    try {
+      const trackingResult = await runWithCourierApiLogContext(
+        {
+          operation: CourierOperation.TRACK,
+          shipmentId: shipment._id.toString(),
+          logIds: [],
+        },
+        () =>
+          this.courierAdapterRegistry
+            .getAdapter(courier.courierType, CourierOperation.TRACK)
+            .trackShipment(
+              courier,
+              shipment.consignmentNumber || shipment.trackingNumber,
+            ),
+      );
+
+      if (!trackingResult.success) {
+        throw new Error(trackingResult.error || 'Tracking failed');
+      }
+
+      const result = await this.shipmentsService.applyCourierStatus(
+        shipment,
+        {
+          shipmentStatus: trackingResult.shipmentStatus,
+          courierStatus: trackingResult.status,
+          location: trackingResult.currentLocation,
+          remarks: trackingResult.remarks,
+          eventTime: trackingResult.deliveryDate || trackingResult.lastUpdate,
+          checkpoints: trackingResult.checkpoints,
+        },
+        ChangeSource.COURIER_SYNC,
+      );
+
+      run.checkedCount++;
+      if (result.statusChanged) {
+        run.updatedCount++;
+        if (result.status === ShipmentStatus.DELIVERED) {
+          run.deliveredCount++;
+        }
+        if (result.status === ShipmentStatus.RETURNED) {
+          run.returnedCount++;
+        }
+      }
+      if (result.orderUpdated) {
+        run.ordersUpdatedCount++;
+      }
+    } catch (error) {
+      run.failedCount++;
+      if ((run.failures || []).length < MAX_RUN_FAILURES) {
+        run.failures = [
+          ...(run.failures || []),
+          this.toFailure(shipment, courier, error.message),
+        ];
+      }
+
+      // Mark it checked so the run moves on to the next shipment
+      await this.shipmentModel.updateOne(
+        { _id: shipment._id },
+        { lastTrackedAt: new Date() },
+      );
+    }
+  }
+
+  /**
+   * Another instance may be running a sync; runs that stopped saving progress are
+   * marked failed so they do not block the schedule
+   */
+  private async hasActiveRun(): Promise<boolean> {
+    const staleMinutes = this.configService.get<number>('courierSync.staleMinutes') || 30;
+    const staleBefore = new Date(Date.now() - staleMinutes * 60 * 1000);
+
+    await this.trackingSyncRunModel.updateMany(
+      { status: TrackingSyncRunStatus.RUNNING, updatedAt: { $lt: staleBefore } },
+      {
+        status: TrackingSyncRunStatus.FAILED,
+        error: 'Run was interrupted',
+        completedAt: new Date(),
+      },
+    );
+
+    const activeRun = await this.trackingSyncRunModel.exists({
+      status: TrackingSyncRunStatus.RUNNING,
+    });
+
+    return !!activeRun;
+  }
+
+  private toFailure(
+    shipment: Shipment,
+    courier: Courier,
+    error: string,
+  ): TrackingSyncFailure {
+    return {
+      shipmentId: shipment._id.toString(),
+      trackingNumber: shipment.trackingNumber,
+      courierType: courier?.courierType,
+      error,
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,34 @@
+import { encodeCode128 } from './code128.util';
+
+describe('encodeCode128', () => {
+  it('encodes an even number of digits in code set C', () => {
+    // Start C, 12, 34, check symbol (105 + 12 + 34 * 2) % 103 = 82, stop
+    expect(encodeCode128('1234').join('')).toBe(
+      '211232' + '112232' + '131123' + '121241' + '2331112',
+    );
+  });
+
+  it('encodes other values in code set B', () => {
+    // Start B, A, B, C, check symbol (104 + 33 + 34 * 2 + 35 * 3) % 103 = 1, stop
+    expect(encodeCode128('ABC').join('')).toBe(
+      '211214' + '111323' + '131123' + '131321' + '222122' + '2331112',
+    );
+  });
+
+  it('uses code set B for an odd number of digits', () => {
+    const widths = encodeCode128('123');
+
+    expect(widths.slice(0, 6).join('')).toBe('211214');
+  });
+
+  it('is 11 modules per symbol plus 13 for the stop pattern', () => {
+    const widths = encodeCode128('TCS-779900000001');
+    const symbols = 'TCS-779900000001'.length + 2;
+
+    expect(widths.reduce((sum, width) => sum + width, 0)).toBe(symbols * 11 + 13);
+  });
+
+  it.each(['', 'Zürich', 'line\nbreak'])('rejects %j', (value) => {
+    expect(() => encodeCode128(value)).toThrow(/Cannot encode/);
+  });
+});
@@ -0,0 +1,258 @@
+import PDFDocument from 'pdfkit';
+import { encodeCode128 } from './code128.util';
+
+export enum LabelLayout {
+  A4 = 'a4', // Four labels per A4 sheet
+  THERMAL_4X6 = '4x6', // One label per 4x6 inch thermal page
+}
+
+export interface ShippingLabelPDFData {
+  trackingNumber: string;
+  consignmentNumber?: string;
+  courierName: string;
+  bookingDate: Date;
+
+  // Shipper
+  shipperName: string;
+  originCity: string;
+  shipperPhone?: string;
+
+  // Consignee
+  customerName: string;
+  customerPhone: string;
+  address: string;
+  city: string;
+
+  // Package
+  pieces: number;
+  weightInKg?: number;
+  productDescription?: string;
+  orderReference?: string;
+}
+
+// Page sizes in points (1 inch = 72 points)
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const THERMAL_WIDTH = 288;
+const THERMAL_HEIGHT = 432;
+const A4_MARGIN = 20;
+
+/**
+ * Generate shipping labels, one per shipment, with the tracking number as a
+ * Code 128 barcode
+ */
+export function generateShippingLabelsPDF(
+  labels: ShippingLabelPDFData[],
+  layout: LabelLayout = LabelLayout.A4,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const isThermal = layout === LabelLayout.THERMAL_4X6;
+      const doc = new PDFDocument({
+        margin: 0,
+        size: isThermal ? [THERMAL_WIDTH, THERMAL_HEIGHT] : 'A4',
+        autoFirstPage: false,
+      });
+      const buffers: Buffer[] = [];
+
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      // A4 sheets are split into a 2 x 2 grid
+      const labelWidth = isThermal ? THERMAL_WIDTH : (A4_WIDTH - A4_MARGIN * 3) / 2;
+      const labelHeight = isThermal ? THERMAL_HEIGHT : (A4_HEIGHT - A4_MARGIN * 3) / 2;
+      const labelsPerPage = isThermal ? 1 : 4;
+
+      labels.forEach((label, index) => {
+        const slot = index % labelsPerPage;
+        if (slot === 0) {
+          doc.addPage();
+        }
+
+        const x = isThermal ? 0 : A4_MARGIN + (slot % 2) * (labelWidth + A4_MARGIN);
+        const y = isThermal
+          ? 0
+          : A4_MARGIN + Math.floor(slot / 2) * (labelHeight + A4_MARGIN);
+        drawLabel(doc, label, x, y, labelWidth, labelHeight);
+      });
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function drawLabel(
+  doc: PDFKit.PDFDocument,
+  data: ShippingLabelPDFData,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): void {
+  const padding = 10;
+  const innerX = x + padding;
+  const innerWidth = width - padding * 2;
+
+  doc
+    .lineWidth(1)
+    .strokeColor('#000')
+    .rect(x + 2, y + 2, width - 4, height - 4)
+    .stroke();
+
+  // Header: courier and booking date
+  let cursorY = y + padding;
+  doc
+    .fillColor('#000')
+    .font('Helvetica-Bold')
+    .fontSize(14)
+    .text(data.courierName.toUpperCase(), innerX, cursorY, { width: innerWidth * 0.6 });
+  doc
+    .font('Helvetica')
+    .fontSize(8)
+    .text(formatDate(data.bookingDate), innerX, cursorY + 4, {
+      width: innerWidth,
+      align: 'right',
+    });
+
+  // Barcode of the tracking number
+  cursorY += 26;
+  const barcodeHeight = 60;
+  drawBarcode(doc, data.trackingNumber, innerX, cursorY, innerWidth, barcodeHeight);
+  cursorY += barcodeHeight + 4;
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(11)
+    .text(data.trackingNumber, innerX, cursorY, { width: innerWidth, align: 'center' });
+  cursorY += 14;
+  if (data.consignmentNumber && data.consignmentNumber !== data.trackingNumber) {
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .text(`CN: ${data.consignmentNumber}`, innerX, cursorY, {
+        width: innerWidth,
+        align: 'center',
+      });
+    cursorY += 12;
+  }
+
+  cursorY = drawDivider(doc, x, cursorY + 4, width);
+
+  // Consignee
+  doc.font('Helvetica-Bold').fontSize(8).text('DELIVER TO', innerX, cursorY);
+  cursorY += 11;
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(11)
+    .text(data.customerName.toUpperCase(), innerX, cursorY, { width: innerWidth });
+  cursorY = doc.y + 2;
+  doc.font('Helvetica').fontSize(9).text(data.address, innerX, cursorY, {
+    width: innerWidth,
+    height: 48,
+    ellipsis: true,
+  });
+  cursorY = doc.y + 2;
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(12)
+    .text(data.city.toUpperCase(), innerX, cursorY, { width: innerWidth });
+  cursorY = doc.y + 2;
+  doc.font('Helvetica').fontSize(9).text(`Phone: ${data.customerPhone}`, innerX, cursorY);
+  cursorY = drawDivider(doc, x, doc.y + 6, width);
+
+  // Shipper and origin
+  doc.font('Helvetica-Bold').fontSize(8).text('FROM', innerX, cursorY);
+  cursorY += 11;
+  doc
+    .font('Helvetica')
+    .fontSize(9)
+    .text(
+      [data.shipperName, data.originCity.toUpperCase(), data.shipperPhone]
+        .filter(Boolean)
+        .join(' | '),
+      innerX,
+      cursorY,
+      { width: innerWidth },
+    );
+  cursorY = drawDivider(doc, x, doc.y + 6, width);
+
+  // Package details in two columns
+  const columnWidth = innerWidth / 2;
+  const details: [string, string][] = [
+    ['Origin', data.originCity.toUpperCase()],
+    ['Destination', data.city.toUpperCase()],
+    ['Pieces', String(data.pieces)],
+    ['Weight', data.weightInKg ? `${data.weightInKg} KG` : '-'],
+    ['Order Ref', data.orderReference || '-'],
+  ];
+  details.forEach(([label, value], index) => {
+    const columnX = innerX + (index % 2) * columnWidth;
+    const rowY = cursorY + Math.floor(index / 2) * 24;
+    doc.font('Helvetica').fontSize(7).text(label.toUpperCase(), columnX, rowY);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(9)
+      .text(value, columnX, rowY + 9, { width: columnWidth - 4, lineBreak: false });
+  });
+  cursorY += Math.ceil(details.length / 2) * 24;
+
+  if (data.productDescription) {
+    cursorY = drawDivider(doc, x, cursorY + 2, width);
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .text(`Contents: ${data.productDescription}`, innerX, cursorY, {
+        width: innerWidth,
+        height: y + height - padding - cursorY,
+        ellipsis: true,
+      });
+  }
+}
+
+function drawBarcode(
+  doc: PDFKit.PDFDocument,
+  value: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  height: number,
+): void {
+  const widths = encodeCode128(value);
+  const totalModules = widths.reduce((sum, moduleWidth) => sum + moduleWidth, 0);
+  // Scanners need a quiet zone of 10 modules on each side
+  const moduleWidth = Math.min(maxWidth / (totalModules + 20), 2);
+  let barX = x + (maxWidth - totalModules * moduleWidth) / 2;
+
+  doc.fillColor('#000');
+  widths.forEach((modules, index) => {
+    // Even positions are bars, odd positions are spaces
+    if (index % 2 === 0) {
+      doc.rect(barX, y, modules * moduleWidth, height).fill();
+    }
+    barX += modules * moduleWidth;
+  });
+}
+
+function drawDivider(
+  doc: PDFKit.PDFDocument,
+  x: number,
+  y: number,
+  width: number,
+): number {
+  doc
+    .moveTo(x + 2, y)
+    .lineTo(x + width - 2, y)
+    .lineWidth(0.5)
+    .stroke();
+  return y + 6;
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
@@ -0,0 +1,25 @@
+import { ShipmentTrackingEvent } from '../interfaces/tracking-event.interface';
+
+/**
+ * Timeline entry shown to customers on the public order status check
+ */
+export interface PublicTrackingEvent {
+  status?: string;
+  description: string;
+  location?: string;
+  eventTime: Date;
+}
+
+/**
+ * Tracking timeline without internal details (who made manual updates, their remarks)
+ */
+export function toPublicTrackingTimeline(
+  events: ShipmentTrackingEvent[] = [],
+): PublicTrackingEvent[] {
+  return events.map((event) => ({
+    status: event.status,
+    description: event.courierStatus || event.status || 'Status updated',
+    location: event.location,
+    eventTime: event.eventTime,
+  }));
+}
@@ -47,7 +47,7 @@ export class CreateUserDto {
   @ApiProperty({
     example: 'staff',
     enum: UserRole,
-    description: 'User role (admin, staff, dispatch)',
+    description: 'User role (admin, staff, dispatch, rider)',
     required: false,
   })
   @IsEnum(UserRole, { message: 'Invalid role' })
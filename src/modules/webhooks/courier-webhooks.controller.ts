@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { CourierWebhooksService } from './courier-webhooks.service';
+import { CourierWebhookAuthGuard } from './guards/courier-webhook-auth.guard';
+import { DeadLetterStatus } from './schemas/courier-webhook-dead-letter.schema';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { Public } from '@common/decorators/public.decorator';
+import { Roles } from '@common/decorators/roles.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { UserRole } from '@common/interfaces/user-role.enum';
+import { ParseObjectIdPipe } from '@common/pipes/parse-objectid.pipe';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+@ApiTags('Webhooks')
+@Controller({ path: 'webhooks/couriers', version: '1' })
+export class CourierWebhooksController {
+  constructor(private readonly courierWebhooksService: CourierWebhooksService) {}
+
+  /**
+   * Status updates pushed by couriers, secured by the courier's own webhook secret
+   */
+  @Public()
+  @Post(':courierType')
+  @UseGuards(CourierWebhookAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Courier status webhook (public, per-courier secret secured)',
+  })
+  @ApiParam({ name: 'courierType', enum: CourierType, example: 'tcs' })
+  @ApiHeader({
+    name: 'x-courier-signature',
+    required: false,
+    description: 'Hex HMAC-SHA256 of the raw body with the courier webhook secret',
+  })
+  @ApiHeader({
+    name: 'x-webhook-secret',
+    required: false,
+    description: 'Courier webhook secret, for couriers that cannot sign payloads',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook received; duplicates and unknown shipments are acknowledged',
+    schema: { example: { received: 2, processed: 1, duplicates: 1, deadLettered: 0 } },
+  })
+  @ApiResponse({ status: 401, description: 'Missing or invalid signature' })
+  @ApiResponse({ status: 404, description: 'Unknown courier type' })
+  receiveStatus(@Req() req: Request & { courier: Courier }, @Body() payload: any) {
+    return this.courierWebhooksService.handle(req.courier, payload);
+  }
+
+  @Get('dead-letters')
+  @ApiBearerAuth('JWT-auth')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'List courier webhook updates that were not applied (Admin only)',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({ name: 'courierType', required: false, enum: CourierType })
+  @ApiQuery({ name: 'status', required: false, enum: DeadLetterStatus })
+  @ApiResponse({ status: 200, description: 'Dead-lettered updates with pagination' })
+  findDeadLetters(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('courierType') courierType?: CourierType,
+    @Query('status') status?: DeadLetterStatus,
+  ) {
+    return this.courierWebhooksService.findDeadLetters(
+      page ? Number(page) : 1,
+      limit ? Number(limit) : 10,
+      courierType,
+      status,
+    );
+  }
+
+  @Post('dead-letters/:id/replay')
+  @ApiBearerAuth('JWT-auth')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Apply a dead-lettered courier update again (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Dead letter MongoDB ObjectId' })
+  @ApiResponse({ status: 201, description: 'Update applied; dead letter resolved' })
+  @ApiResponse({ status: 400, description: 'Dead letter already resolved' })
+  @ApiResponse({ status: 404, description: 'Dead letter not found' })
+  @ApiResponse({ status: 422, description: 'Update still cannot be applied' })
+  replayDeadLetter(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @CurrentUser('_id') userId: string,
+  ) {
+    return this.courierWebhooksService.replayDeadLetter(id, userId);
+  }
+}
@@ -0,0 +1,49 @@
+import { CourierWebhooksService } from './courier-webhooks.service';
+import { DeadLetterReason } from './schemas/courier-webhook-dead-letter.schema';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+describe('CourierWebhooksService', () => {
+  describe('handle', () => {
+    const courier = { _id: 'courier-1', courierType: CourierType.TCS } as any;
+    const payload = { cn: 'CN123', status: 'Delivered', time: 'not a date' };
+
+    it('dead-letters an update with an invalid event time', async () => {
+      const receiptModel = { create: jest.fn(), updateOne: jest.fn() };
+      const deadLetterModel = { create: jest.fn() };
+      const adapter = {
+        parseWebhook: () => [
+          {
+            consignmentNumber: 'CN123',
+            courierStatus: 'Delivered',
+            eventTime: new Date('not a date'),
+          },
+        ],
+      };
+      const service = new CourierWebhooksService(
+        receiptModel as any,
+        deadLetterModel as any,
+        {} as any,
+        {} as any,
+        {} as any,
+        { getAdapter: () => adapter } as any,
+      );
+
+      const result = await service.handle(courier, payload);
+
+      expect(result).toEqual({
+        received: 1,
+        processed: 0,
+        duplicates: 0,
+        deadLettered: 1,
+      });
+      expect(receiptModel.create).not.toHaveBeenCalled();
+      expect(deadLetterModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: DeadLetterReason.INVALID_EVENT,
+          reference: 'CN123',
+          payload,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  CourierWebhookReceipt,
+  CourierWebhookReceiptStatus,
+} from './schemas/courier-webhook-receipt.schema';
+import {
+  CourierWebhookDeadLetter,
+  DeadLetterReason,
+  DeadLetterStatus,
+} from './schemas/courier-webhook-dead-letter.schema';
+import { Courier } from '@modules/couriers/schemas/courier.schema';
+import { CouriersService } from '@modules/couriers/couriers.service';
+import { Shipment } from '@modules/shipments/schemas/shipment.schema';
+import { ShipmentsService } from '@modules/shipments/shipments.service';
+import { CourierAdapterRegistry } from '@modules/shipments/integrations/courier-adapter.registry';
+import {
+  CourierOperation,
+  CourierWebhookEvent,
+} from '@modules/shipments/integrations/courier-adapter.interface';
+import { CourierType } from '@common/enums/courier-type.enum';
+import { ChangeSource } from '@common/enums/change-source.enum';
+
+// MongoDB duplicate key error, raised when an event key was already received
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface CourierWebhookResult {
+  received: number;
+  processed: number;
+  duplicates: number;
+  deadLettered: number;
+}
+
+/**
+ * Applies courier status webhooks to shipments. Every update is recorded once by its
+ * event key, so redelivered webhooks are acknowledged without being applied again.
+ */
+@Injectable()
+export class CourierWebhooksService {
+  private readonly logger = new Logger(CourierWebhooksService.name);
+
+  constructor(
+    @InjectModel(CourierWebhookReceipt.name)
+    private receiptModel: Model<CourierWebhookReceipt>,
+    @InjectModel(CourierWebhookDeadLetter.name)
+    private deadLetterModel: Model<CourierWebhookDeadLetter>,
+    @InjectModel(Shipment.name) private shipmentModel: Model<Shipment>,
+    private shipmentsService: ShipmentsService,
+    private couriersService: CouriersService,
+    private courierAdapterRegistry: CourierAdapterRegistry,
+  ) {}
+
+  async handle(courier: Courier, payload: any): Promise<CourierWebhookResult> {
+    const adapter = this.courierAdapterRegistry.getAdapter(
+      courier.courierType,
+      CourierOperation.WEBHOOK,
+    );
+
+    let events: CourierWebhookEvent[] = [];
+    try {
+      events = adapter.parseWebhook!(payload);
+    } catch (error) {
+      this.logger.warn(
+        `Could not parse ${courier.courierType} webhook: ${error.message}`,
+      );
+    }
+
+    const result: CourierWebhookResult = {
+      received: events.length,
+      processed: 0,
+      duplicates: 0,
+      deadLettered: 0,
+    };
+
+    if (!events.length) {
+      await this.deadLetterModel.create({
+        courierType: courier.courierType,
+        reason: DeadLetterReason.UNREADABLE_PAYLOAD,
+        error: 'No status updates found in the payload',
+        payload,
+      });
+      result.deadLettered++;
+      return result;
+    }
+
+    for (const event of events) {
+      const reference = event.consignmentNumber || event.trackingNumber;
+
+      let eventKey: string;
+      try {
+        eventKey = this.getEventKey(event);
+      } catch (error) {
+        // The parsed event is not stored: an invalid date cannot be saved
+        await this.deadLetterModel.create({
+          courierType: courier.courierType,
+          reason: DeadLetterReason.INVALID_EVENT,
+          error: error.message,
+          reference,
+          payload,
+        });
+        result.deadLettered++;
+        continue;
+      }
+
+      try {
+        await this.receiptModel.create({
+          courierType: courier.courierType,
+          eventKey,
+          reference,
+        });
+      } catch (error) {
+        if (error.code === DUPLICATE_KEY_ERROR) {
+          result.duplicates++;
+          continue;
+        }
+        throw error;
+      }
+
+      try {
+        const shipment = await this.applyEvent(courier, event);
+        await this.receiptModel.updateOne(
+          { courierType: courier.courierType, eventKey },
+          { status: CourierWebhookReceiptStatus.PROCESSED, shipmentId: shipment._id },
+        );
+        result.processed++;
+      } catch (error) {
+        const reason =
+          error instanceof NotFoundException
+            ? DeadLetterReason.UNKNOWN_SHIPMENT
+            : DeadLetterReason.PROCESSING_ERROR;
+        if (reason === DeadLetterReason.PROCESSING_ERROR) {
+          this.logger.error(
+            `Failed to apply ${courier.courierType} webhook for ${reference}: ${error.message}`,
+          );
+        }
+
+        await this.deadLetterModel.create({
+          courierType: courier.courierType,
+          reason,
+          error: error.message,
+          reference,
+          eventKey,
+          event,
+          payload,
+        });
+        await this.receiptModel.updateOne(
+          { courierType: courier.courierType, eventKey },
+          { status: CourierWebhookReceiptStatus.DEAD_LETTER },
+        );
+        result.deadLettered++;
+      }
+    }
+
+    return result;
+  }
+
+  async findDeadLetters(
+    page: number = 1,
+    limit: number = 10,
+    courierType?: CourierType,
+    status?: DeadLetterStatus,
+  ): Promise<{
+    data: CourierWebhookDeadLetter[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: any = {};
+
+    if (courierType) {
+      query.courierType = courierType;
+    }
+    if (status) {
+      query.status = status;
+    }
+
+    const [data, total] = await Promise.all([
+      this.deadLetterModel
+        .find(query)
+        .populate('resolvedBy', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.deadLetterModel.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Apply a dead-lettered update again, e.g. once the missing shipment has been
+   * booked or the reference corrected. Unreadable payloads are parsed again.
+   */
+  async replayDeadLetter(id: string, userId: string): Promise<CourierWebhookDeadLetter> {
+    const deadLetter = await this.deadLetterModel.findById(id);
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter with ID ${id} not found`);
+    }
+    if (deadLetter.status === DeadLetterStatus.RESOLVED) {
+      throw new BadRequestException('Dead letter has already been resolved');
+    }
+
+    const courier = await this.couriersService.findByType(deadLetter.courierType);
+    const adapter = this.courierAdapterRegistry.getAdapter(
+      courier.courierType,
+      CourierOperation.WEBHOOK,
+    );
+
+    deadLetter.replayCount += 1;
+    try {
+      const events = deadLetter.event
+        ? [deadLetter.event as CourierWebhookEvent]
+        : adapter.parseWebhook!(deadLetter.payload);
+      if (!events.length) {
+        throw new UnprocessableEntityException('No status updates found in the payload');
+      }
+
+      for (const event of events) {
+        const shipment = await this.applyEvent(courier, event);
+        await this.receiptModel.updateOne(
+          { courierType: courier.courierType, eventKey: this.getEventKey(event) },
+          {
+            status: CourierWebhookReceiptStatus.PROCESSED,
+            reference: event.consignmentNumber || event.trackingNumber,
+            shipmentId: shipment._id,
+          },
+          { upsert: true },
+        );
+      }
+    } catch (error) {
+      deadLetter.error = error.message;
+      await deadLetter.save();
+      throw new UnprocessableEntityException(`Replay failed: ${error.message}`);
+    }
+
+    deadLetter.status = DeadLetterStatus.RESOLVED;
+    deadLetter.error = undefined;
+    deadLetter.resolvedAt = new Date();
+    deadLetter.resolvedBy = new Types.ObjectId(userId);
+    return deadLetter.save();
+  }
+
+  private async applyEvent(
+    courier: Courier,
+    event: CourierWebhookEvent,
+  ): Promise<Shipment> {
+    const references = [event.consignmentNumber, event.trackingNumber].filter(Boolean);
+    if (!references.length) {
+      throw new NotFoundException('Update has no tracking or consignment number');
+    }
+
+    const shipment = await this.shipmentModel.findOne({
+      courierId: courier._id,
+      isDeleted: false,
+      $or: [
+        { consignmentNumber: { $in: references } },
+        { trackingNumber: { $in: references } },
+      ],
+    });
+    if (!shipment) {
+      throw new NotFoundException(
+        `No shipment with tracking or consignment number ${references.join(', ')}`,
+      );
+    }
+
+    await this.shipmentsService.applyCourierStatus(
+      shipment,
+      {
+        shipmentStatus: event.shipmentStatus,
+        courierStatus: event.courierStatus,
+        courierCode: event.courierCode,
+        location: event.location,
+        remarks: event.remarks,
+        eventTime: event.eventTime ? new Date(event.eventTime) : undefined,
+        checkpoints: event.checkpoints,
+      },
+      ChangeSource.WEBHOOK,
+    );
+
+    return shipment;
+  }
+
+  // Couriers without event IDs are deduplicated on what the update says. Throws for
+  // an update with an invalid event time, which could not be applied either.
+  private getEventKey(event: CourierWebhookEvent): string {
+    const eventTime = event.eventTime ? new Date(event.eventTime) : undefined;
+    if (eventTime && isNaN(eventTime.getTime())) {
+      throw new UnprocessableEntityException(`Invalid event time: ${event.eventTime}`);
+    }
+
+    if (event.eventId) {
+      return event.eventId;
+    }
+
+    return createHash('sha256')
+      .update(
+        [
+          event.consignmentNumber || event.trackingNumber,
+          event.courierCode,
+          event.courierStatus,
+          eventTime ? eventTime.toISOString() : '',
+        ].join('|'),
+      )
+      .digest('hex');
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CouriersService } from '@modules/couriers/couriers.service';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+/**
+ * Authenticates a courier webhook with the secret stored on that courier: either an
+ * HMAC-SHA256 of the raw body in X-Courier-Signature, or the secret itself in
+ * X-Webhook-Secret. The verified courier is attached to the request as `courier`.
+ */
+@Injectable()
+export class CourierWebhookAuthGuard implements CanActivate {
+  constructor(private couriersService: CouriersService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+    const courierType = request.params.courierType as CourierType;
+
+    if (!Object.values(CourierType).includes(courierType)) {
+      throw new NotFoundException(`Unknown courier type ${courierType}`);
+    }
+
+    const courier = await this.couriersService.findWithWebhookSecret(courierType);
+    if (!courier?.webhookSecret) {
+      throw new UnauthorizedException(`Webhooks are not configured for ${courierType}`);
+    }
+
+    const signature = request.headers['x-courier-signature'] as string;
+    const secretToken = request.headers['x-webhook-secret'] as string;
+
+    const isValid = signature
+      ? this.matches(
+          signature.replace(/^sha256=/, ''),
+          createHmac('sha256', courier.webhookSecret)
+            .update(request.rawBody || JSON.stringify(request.body))
+            .digest('hex'),
+        )
+      : !!secretToken && this.matches(secretToken, courier.webhookSecret);
+
+    if (!isValid) {
+      throw new UnauthorizedException('Invalid courier webhook signature');
+    }
+
+    (request as any).courier = courier;
+    return true;
+  }
+
+  // Constant-time comparison so the secret cannot be guessed from response times
+  private matches(received: string, expected: string): boolean {
+    const receivedBuffer = Buffer.from(received);
+    const expectedBuffer = Buffer.from(expected);
+
+    return (
+      receivedBuffer.length === expectedBuffer.length &&
+      timingSafeEqual(receivedBuffer, expectedBuffer)
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export enum DeadLetterReason {
+  UNKNOWN_SHIPMENT = 'unknown_shipment',
+  UNREADABLE_PAYLOAD = 'unreadable_payload',
+  INVALID_EVENT = 'invalid_event', // An update that cannot be keyed, e.g. a bad event time
+  PROCESSING_ERROR = 'processing_error',
+}
+
+export enum DeadLetterStatus {
+  PENDING = 'pending',
+  RESOLVED = 'resolved',
+}
+
+/**
+ * A courier webhook update that could not be applied, kept for review and replay
+ */
+@Schema({ timestamps: true })
+export class CourierWebhookDeadLetter extends Document {
+  @ApiProperty({
+    example: 'tcs',
+    description: 'Courier that sent the update',
+    enum: CourierType,
+  })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({
+    example: 'unknown_shipment',
+    description: 'Why the update was not applied',
+    enum: DeadLetterReason,
+  })
+  @Prop({ type: String, enum: DeadLetterReason, required: true })
+  reason: DeadLetterReason;
+
+  @ApiProperty({
+    example: 'No shipment with tracking or consignment number 779900000001',
+    description: 'Details of the last failure',
+  })
+  @Prop()
+  error?: string;
+
+  @ApiProperty({ example: '779900000001', description: 'Tracking or consignment number' })
+  @Prop({ trim: true, index: true })
+  reference?: string;
+
+  @ApiProperty({ example: '4f1c9a0e7b2d...', description: 'Event key of the update' })
+  @Prop()
+  eventKey?: string;
+
+  @ApiProperty({
+    example: { consignmentNumber: '779900000001', courierStatus: 'Delivered' },
+    description: 'Update as read from the payload',
+    required: false,
+  })
+  @Prop({ type: Object })
+  event?: Record<string, any>;
+
+  @ApiProperty({
+    example: { consignmentno: '779900000001', code: 'OK', status: 'Delivered' },
+    description: 'Payload as received from the courier',
+  })
+  @Prop({ type: Object })
+  payload: Record<string, any>;
+
+  @ApiProperty({
+    example: 'pending',
+    description: 'Review status',
+    enum: DeadLetterStatus,
+  })
+  @Prop({
+    type: String,
+    enum: DeadLetterStatus,
+    default: DeadLetterStatus.PENDING,
+    index: true,
+  })
+  status: DeadLetterStatus;
+
+  @ApiProperty({ example: 1, description: 'Number of replays attempted' })
+  @Prop({ default: 0 })
+  replayCount: number;
+
+  @ApiProperty({ example: '2024-01-16T09:00:00.000Z', required: false })
+  @Prop()
+  resolvedAt?: Date;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Admin who replayed the update successfully',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  resolvedBy?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierWebhookDeadLetterSchema = SchemaFactory.createForClass(
+  CourierWebhookDeadLetter,
+);
+
+// Indexes
+CourierWebhookDeadLetterSchema.index({ status: 1, createdAt: -1 });
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { CourierType } from '@common/enums/courier-type.enum';
+
+export enum CourierWebhookReceiptStatus {
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  DEAD_LETTER = 'dead_letter',
+}
+
+/**
+ * One courier status update received by webhook. The unique event key makes
+ * redelivered updates no-ops.
+ */
+@Schema({ timestamps: true })
+export class CourierWebhookReceipt extends Document {
+  @ApiProperty({
+    example: 'tcs',
+    description: 'Courier that sent the update',
+    enum: CourierType,
+  })
+  @Prop({ type: String, enum: CourierType, required: true })
+  courierType: CourierType;
+
+  @ApiProperty({
+    example: '4f1c9a0e7b2d...',
+    description: "Courier's event ID, or a hash of the update when it sends none",
+  })
+  @Prop({ required: true })
+  eventKey: string;
+
+  @ApiProperty({ example: '779900000001', description: 'Tracking or consignment number' })
+  @Prop({ trim: true })
+  reference?: string;
+
+  @ApiProperty({
+    example: 'processed',
+    description: 'Receipt status',
+    enum: CourierWebhookReceiptStatus,
+  })
+  @Prop({
+    type: String,
+    enum: CourierWebhookReceiptStatus,
+    default: CourierWebhookReceiptStatus.PROCESSING,
+  })
+  status: CourierWebhookReceiptStatus;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Shipment the update was applied to',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Shipment' })
+  shipmentId?: Types.ObjectId;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z', description: 'Creation timestamp' })
+  createdAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-15T10:30:00.000Z',
+    description: 'Last update timestamp',
+  })
+  updatedAt?: Date;
+}
+
+export const CourierWebhookReceiptSchema =
+  SchemaFactory.createForClass(CourierWebhookReceipt);
+
+// Indexes
+CourierWebhookReceiptSchema.index({ courierType: 1, eventKey: 1 }, { unique: true });
+CourierWebhookReceiptSchema.index({ createdAt: -1 });
@@ -23,6 +23,7 @@ import { CheckOrderStatusDto } from '@common/dto/check-order-status.dto';
 import { CheckBipOrderStatusDto } from '@common/dto/check-bip-order-status.dto';
 import { BankOrdersService } from '@modules/bank-orders/bank-orders.service';
 import { BipService } from '@modules/bip/bip.service';
+import { ChangeSource } from '@common/enums/change-source.enum';
 
 @ApiTags('Webhooks')
 @Controller({ path: 'webhooks', version: '1' })
@@ -250,12 +251,14 @@ export class WebhooksController {
           webhookDto.orderId,
           webhookDto.confirmationToken,
           webhookDto.status,
+          ChangeSource.WEBHOOK,
         );
       } else {
         result = await this.bipService.processWhatsAppConfirmation(
           webhookDto.orderId,
           webhookDto.confirmationToken,
           webhookDto.status,
+          ChangeSource.WEBHOOK,
         );
       }
 
@@ -355,6 +358,19 @@ export class WebhooksController {
             status: 'in_transit',
             estimatedDeliveryDate: '2024-01-20T00:00:00.000Z',
             actualDeliveryDate: null,
+            timeline: [
+              {
+                status: 'booked',
+                description: 'booked',
+                eventTime: '2024-01-15T10:30:00.000Z',
+              },
+              {
+                status: 'in_transit',
+                description: 'Arrived at TCS Facility',
+                location: 'Karachi',
+                eventTime: '2024-01-16T08:10:00.000Z',
+              },
+            ],
           },
         },
       },
@@ -434,6 +450,19 @@ export class WebhooksController {
             status: 'in_transit',
             estimatedDeliveryDate: '2024-01-20T00:00:00.000Z',
             actualDeliveryDate: null,
+            timeline: [
+              {
+                status: 'booked',
+                description: 'booked',
+                eventTime: '2024-01-15T10:30:00.000Z',
+              },
+              {
+                status: 'in_transit',
+                description: 'Arrived at TCS Facility',
+                location: 'Karachi',
+                eventTime: '2024-01-16T08:10:00.000Z',
+              },
+            ],
           },
         },
       },
@@ -1,10 +1,34 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { WebhooksController } from './webhooks.controller';
+import { CourierWebhooksController } from './courier-webhooks.controller';
+import { CourierWebhooksService } from './courier-webhooks.service';
+import { CourierWebhookAuthGuard } from './guards/courier-webhook-auth.guard';
+import {
+  CourierWebhookReceipt,
+  CourierWebhookReceiptSchema,
+} from './schemas/courier-webhook-receipt.schema';
+import {
+  CourierWebhookDeadLetter,
+  CourierWebhookDeadLetterSchema,
+} from './schemas/courier-webhook-dead-letter.schema';
 import { BankOrdersModule } from '@modules/bank-orders/bank-orders.module';
 import { BipModule } from '@modules/bip/bip.module';
+import { ShipmentsModule } from '@modules/shipments/shipments.module';
+import { CouriersModule } from '@modules/couriers/couriers.module';
 
 @Module({
-  imports: [BankOrdersModule, BipModule],
-  controllers: [WebhooksController],
+  imports: [
+    MongooseModule.forFeature([
+      { name: CourierWebhookReceipt.name, schema: CourierWebhookReceiptSchema },
+      { name: CourierWebhookDeadLetter.name, schema: CourierWebhookDeadLetterSchema },
+    ]),
+    BankOrdersModule,
+    BipModule,
+    ShipmentsModule,
+    CouriersModule,
+  ],
+  controllers: [WebhooksController, CourierWebhooksController],
+  providers: [CourierWebhooksService, CourierWebhookAuthGuard],
 })
 export class WebhooksModule {}
@@ -0,0 +1,125 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { Model } from 'mongoose';
+import { getModelToken, MongooseModule } from '@nestjs/mongoose';
+import configuration from '../config/configuration';
+import { validationSchema } from '../config/env.validation';
+import { DatabaseModule } from '@shared/database/database.module';
+import {
+  COURIER_CREDENTIAL_FIELDS,
+  Courier,
+  CourierSchema,
+} from '@modules/couriers/schemas/courier.schema';
+import { CredentialsCipherService } from '@common/services/credentials-cipher.service';
+
+/**
+ * Only what the rotation needs; the full AppModule would also start the import job
+ * queue, booking reconciliation and tracking sync timers
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [configuration],
+      validationSchema,
+      envFilePath: '.env',
+    }),
+    DatabaseModule,
+    MongooseModule.forFeature([{ name: Courier.name, schema: CourierSchema }]),
+  ],
+  providers: [CredentialsCipherService],
+})
+class RotateCredentialsKeyModule {}
+
+/**
+ * Re-encrypt courier credentials under the active master key
+ *
+ * Credentials sealed with an older key, and any still stored in plaintext, are
+ * encrypted again with CREDENTIALS_ACTIVE_KEY_ID. The old key must still be listed
+ * in CREDENTIALS_MASTER_KEYS while this runs; remove it afterwards.
+ *
+ * Usage: npm run credentials:rotate-key [-- --dry-run]
+ */
+async function rotateCredentialsKey() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(
+    `Starting courier credential re-encryption${dryRun ? ' (dry run)' : ''}...`,
+  );
+
+  const app = await NestFactory.createApplicationContext(RotateCredentialsKeyModule);
+
+  const courierModel = app.get<Model<Courier>>(getModelToken(Courier.name));
+  const credentialsCipherService = app.get(CredentialsCipherService);
+
+  try {
+    let totalUpdated = 0;
+    let totalFailed = 0;
+
+    // Deleted couriers are included so no credential is left under a retired key
+    const couriers = await courierModel
+      .find({
+        $or: COURIER_CREDENTIAL_FIELDS.map((field) => ({
+          [field]: { $nin: [null, ''] },
+        })),
+      })
+      .exec();
+
+    console.log(`Found ${couriers.length} couriers with credentials`);
+
+    for (const courier of couriers) {
+      try {
+        const update: Record<string, string> = {};
+
+        for (const field of COURIER_CREDENTIAL_FIELDS) {
+          const value = courier[field];
+          if (value && credentialsCipherService.needsReEncryption(value)) {
+            update[field] = credentialsCipherService.reEncrypt(value);
+          }
+        }
+
+        const fields = Object.keys(update);
+        if (!fields.length) {
+          console.log(`- ${courier.courierName} (${courier._id}) is up to date`);
+          continue;
+        }
+
+        if (!dryRun) {
+          await courierModel.updateOne({ _id: courier._id }, { $set: update });
+        }
+
+        console.log(
+          `✓ ${dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${fields.join(', ')} of ${courier.courierName} (${courier._id})`,
+        );
+        totalUpdated++;
+      } catch (error) {
+        console.error(`✗ Error re-encrypting courier ${courier._id}:`, error.message);
+        totalFailed++;
+      }
+    }
+
+    console.log('\n=== Rotation Summary ===');
+    console.log(`Total couriers found: ${couriers.length}`);
+    console.log(
+      `Total couriers ${dryRun ? 'to re-encrypt' : 're-encrypted'}: ${totalUpdated}`,
+    );
+    console.log(`Total couriers failed: ${totalFailed}`);
+    console.log('========================\n');
+
+    if (totalFailed) {
+      throw new Error(`${totalFailed} couriers could not be re-encrypted`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+rotateCredentialsKey()
+  .then(() => {
+    console.log('Credential key rotation finished successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Credential key rotation failed:', error.message);
+    process.exit(1);
+  });